@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
 // Import our providers
@@ -9,7 +9,14 @@ import { AuthProvider } from './contexts/AuthContext';
 // Import AuthWrapper to handle authentication flow
 import AuthWrapper from './components/AuthWrapper';
 
+// Defines the background sync task - must load with the bundle, before the OS runs it
+import { registerBackgroundSyncTask } from './services/BackgroundSyncTask';
+
 export default function App() {
+  useEffect(() => {
+    registerBackgroundSyncTask();
+  }, []);
+
   return (
     <SafeAreaProvider>
       <ThemeProvider>
@@ -17,9 +17,19 @@ import AssignmentsPage from './AssignmentsPage';
 import PlayerBills from './PlayerBills';
 import PlayerCharges from './PlayerCharges';
 import StockTake from './StockTake';
+import StockHistoryPage from './StockHistoryPage';
+import StockCountPage from './StockCountPage';
+import PurchaseOrdersPage from './PurchaseOrdersPage';
+import PurchaseOrderPage from './PurchaseOrderPage';
+import SuppliersPage from './SuppliersPage';
+import SupplierPage from './SupplierPage';
+import LowStockPage from './LowStockPage';
 import ReportsPage from './ReportsPage';
 import SalesPage from './TopSales';
 import SyncDebugPanel from './SyncDebugPanel';
+import { ConflictReviewPanel } from './ConflictReviewPanel';
+import { DeadLetterQueuePanel } from './DeadLetterQueuePanel';
+import { SyncHandoverImportPanel } from './SyncHandoverImportPanel';
 import OrganizationSettings from './OrganizationSettings';
 import FirebaseAuthTest from './FirebaseAuthTest';
 
@@ -49,8 +59,14 @@ const HeaderControls = () => {
     };
 
     updateStatus();
-    const interval = setInterval(updateStatus, 5000); // Update every 5 seconds
-    return () => clearInterval(interval);
+    // Refresh when the sync engine reports a change instead of polling
+    return hybridSyncService.subscribe(updateStatus, [
+      'connectivityChanged',
+      'bundleEnqueued',
+      'bundleCommitted',
+      'syncStarted',
+      'syncFinished',
+    ]);
   }, []);
 
   const handleManualSync = async () => {
@@ -207,6 +223,41 @@ export default function AppNavigator() {
           component={StockTake} 
           options={{ title: 'Stock Take' }}
         />
+        <Stack.Screen 
+          name="StockHistory" 
+          component={StockHistoryPage} 
+          options={{ title: 'Stock History' }}
+        />
+        <Stack.Screen 
+          name="StockCount" 
+          component={StockCountPage} 
+          options={{ title: 'Stock Count' }}
+        />
+        <Stack.Screen 
+          name="PurchaseOrders" 
+          component={PurchaseOrdersPage} 
+          options={{ title: 'Purchase Orders' }}
+        />
+        <Stack.Screen 
+          name="PurchaseOrder" 
+          component={PurchaseOrderPage} 
+          options={{ title: 'Purchase Order' }}
+        />
+        <Stack.Screen 
+          name="Suppliers" 
+          component={SuppliersPage} 
+          options={{ title: 'Suppliers' }}
+        />
+        <Stack.Screen 
+          name="Supplier" 
+          component={SupplierPage} 
+          options={{ title: 'Supplier' }}
+        />
+        <Stack.Screen 
+          name="LowStock" 
+          component={LowStockPage} 
+          options={{ title: 'Low Stock' }}
+        />
         <Stack.Screen 
           name="Reports" 
           component={ReportsPage} 
@@ -222,6 +273,21 @@ export default function AppNavigator() {
           component={SyncDebugPanel} 
           options={{ title: '🔍 Sync Debug' }}
         />
+        <Stack.Screen 
+          name="SyncConflicts" 
+          component={ConflictReviewPanel} 
+          options={{ title: '⚔️ Sync Conflicts' }}
+        />
+        <Stack.Screen 
+          name="DeadLetterQueue" 
+          component={DeadLetterQueuePanel} 
+          options={{ title: '💀 Failed Sync Items' }}
+        />
+        <Stack.Screen 
+          name="SyncHandoverImport" 
+          component={SyncHandoverImportPanel} 
+          options={{ title: '📥 Import Handover' }}
+        />
         <Stack.Screen 
           name="OrganizationSettings" 
           component={OrganizationSettings} 
@@ -17,12 +17,15 @@ import {
 import { Dropdown } from 'react-native-element-dropdown';
 import { MaterialIcons } from '@expo/vector-icons';
 import { hybridSyncService } from '../services/HybridSyncService';
+import { DEFAULT_LOW_STOCK_LEVEL, stockStatus } from '../services/StockLevels';
 import { useAuth } from '../contexts/AuthContext';
 import { useOrganization } from '../contexts/OrganizationContext';
 import { useTheme } from '../app/ThemeContext';
 import { formatCurrency, getCurrencySymbol } from '../utils/currency';
 import { formatUKDateTime } from '../utils/dateUtils';
 import { generateUUID } from '../utils/uuid';
+import { describeAssignment, getAssignmentLines, isBasketAssignment, isCancelledAssignment } from '../utils/assignmentLines';
+import VoidSaleModal from './VoidSaleModal';
 
 interface Product {
   id: string;
@@ -54,8 +57,12 @@ interface Assignment {
   date: string;
   paid?: boolean;
   cancelled?: boolean;
+  status?: string;
+  cancelledBy?: string;
+  cancelReason?: string;
   notes?: string;
   organizationId: string;
+  lineItems?: BasketItem[]; // Basket sales - one entry per product
   // Legacy compatibility fields
   user?: string;
   product?: string;
@@ -63,10 +70,19 @@ interface Assignment {
   updatedAt?: string | number;
 }
 
+interface BasketItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
 export default function AssignmentsPage() {
   const { user, isAdmin, assignedPlayer } = useAuth();
   const { organization: currentOrganization } = useOrganization();
   const { isDarkMode } = useTheme();
+  const lowStockLevel = currentOrganization?.settings?.lowStockAlertLevel ?? DEFAULT_LOW_STOCK_LEVEL;
   
   // Core data
   const [products, setProducts] = useState<Product[]>([]);
@@ -78,6 +94,7 @@ export default function AssignmentsPage() {
   const [selectedUser, setSelectedUser] = useState<string | null>(null);
   const [selectedProduct, setSelectedProduct] = useState<string | null>(null);
   const [quantity, setQuantity] = useState<string>('1');
+  const [basket, setBasket] = useState<BasketItem[]>([]);
   
   // UI state
   const [loading, setLoading] = useState(true);
@@ -85,6 +102,7 @@ export default function AssignmentsPage() {
   const [isOnline, setIsOnline] = useState(true);
   const [syncQueueLength, setSyncQueueLength] = useState(0);
   const [editMode, setEditMode] = useState<number | null>(null);
+  const [voidingAssignment, setVoidingAssignment] = useState<Assignment | null>(null);
 
   const updateNetworkStatus = async () => {
     // Force refresh network state to get accurate reading
@@ -316,6 +334,107 @@ export default function AssignmentsPage() {
     }
   };
 
+  const addToBasket = () => {
+    if (!selectedProduct) {
+      Alert.alert('Error', 'Please select a product');
+      return;
+    }
+    const quantityNum = parseInt(quantity);
+    if (!quantityNum || quantityNum < 1) {
+      Alert.alert('Error', 'Quantity must be at least 1');
+      return;
+    }
+
+    const productObj = products.find(p => p.id === selectedProduct);
+    if (!productObj) {
+      Alert.alert('Error', 'Invalid product selection');
+      return;
+    }
+
+    // Check stock against everything already in the basket for this product
+    const alreadyInBasket = basket
+      .filter(item => item.productId === productObj.id)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    if (productObj.stock < alreadyInBasket + quantityNum) {
+      Alert.alert('Error', `Not enough stock. Available: ${productObj.stock - alreadyInBasket}`);
+      return;
+    }
+
+    setBasket(prev => {
+      const existing = prev.find(item => item.productId === productObj.id);
+      if (existing) {
+        return prev.map(item => item.productId === productObj.id
+          ? { ...item, quantity: item.quantity + quantityNum, total: item.unitPrice * (item.quantity + quantityNum) }
+          : item);
+      }
+      return [...prev, {
+        productId: productObj.id,
+        productName: productObj.name,
+        quantity: quantityNum,
+        unitPrice: productObj.price,
+        total: productObj.price * quantityNum,
+      }];
+    });
+
+    setSelectedProduct(null);
+    setQuantity('1');
+  };
+
+  const removeFromBasket = (productId: string) => {
+    setBasket(prev => prev.filter(item => item.productId !== productId));
+  };
+
+  const sellBasket = async () => {
+    if (!selectedUser) {
+      Alert.alert('Error', 'Please select a player');
+      return;
+    }
+    if (basket.length === 0) {
+      Alert.alert('Error', 'The basket is empty');
+      return;
+    }
+
+    const selectedPlayerObj = players.find(p => p.name === selectedUser);
+    if (!selectedPlayerObj) {
+      Alert.alert('Error', 'Invalid player selection');
+      return;
+    }
+
+    try {
+      setCreating(true);
+      console.log('🧺 Creating basket sale (single atomic bundle):', {
+        player: selectedPlayerObj.name,
+        lines: basket.length
+      });
+
+      const basketId = await hybridSyncService.createBasketBundle({
+        playerId: selectedPlayerObj.id,
+        userName: selectedPlayerObj.name,
+        organizationId: currentOrganization?.id || 'unknown',
+        items: basket,
+        notes: 'Basket sale',
+      });
+      console.log('✅ Basket sale completed:', basketId);
+
+      setBasket([]);
+      if (isAdmin) {
+        setSelectedUser('');
+      }
+      setSelectedProduct('');
+      setQuantity('1');
+
+      await loadAllData();
+
+      Alert.alert('Success', 'Basket sale created successfully');
+    } catch (error) {
+      console.error('❌ Error creating basket sale:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', `Failed to create basket sale: ${errorMessage}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
   const editAssignment = (index: number) => {
     const assignment = assignments[index];
     // Pre-populate the main form instead of creating separate edit form
@@ -411,45 +530,19 @@ export default function AssignmentsPage() {
     setQuantity('1');
   };
 
-  const deleteAssignment = async (index: number) => {
-    const assignmentToDelete = assignments[index];
-    
-    // Show confirmation dialog
-    Alert.alert(
-      'Delete Assignment',
-      `Are you sure you want to delete this assignment?\n\n${assignmentToDelete.quantity}x ${assignmentToDelete.productName || assignmentToDelete.product}\n\nThis will:\n• Remove the assignment\n• Refund the player's balance\n• Restore product stock\n• Remove from purchase history`,
-      [
-        {
-          text: 'Cancel',
-          style: 'cancel'
-        },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              console.log('🗑️ AssignmentsPage: Deleting assignment via transactional method:', assignmentToDelete.id);
-              
-              if (!assignmentToDelete.id) {
-                throw new Error('Assignment ID is required for deletion');
-              }
-
-              // Use the proper transactional delete method
-              await hybridSyncService.deleteEntity('assignments', assignmentToDelete.id);
-
-              // Refresh assignments to show changes
-              await loadAllData();
-              
-              Alert.alert('Success', 'Assignment deleted successfully');
-              console.log('✅ AssignmentsPage: Assignment deleted successfully');
-            } catch (error) {
-              console.error('❌ AssignmentsPage: Error deleting assignment:', error);
-              Alert.alert('Error', 'Failed to delete assignment. Please try again.');
-            }
-          }
-        }
-      ]
-    );
+  const voidAssignment = (assignment: Assignment) => {
+    if (!assignment.id) {
+      Alert.alert('Error', 'This sale cannot be voided yet. Please try again shortly.');
+      return;
+    }
+    setVoidingAssignment(assignment);
+  };
+
+  const handleAssignmentVoided = async () => {
+    setVoidingAssignment(null);
+    // Refresh assignments to show changes
+    await loadAllData();
+    Alert.alert('Success', 'Sale voided successfully');
   };
 
   if (loading) {
@@ -528,7 +621,7 @@ export default function AssignmentsPage() {
         data={products.map((product) => ({ 
           label: `${product.name} - ${formatCurrency(product.price, currentOrganization?.currency || 'GBP')}`, 
           value: product.id,
-          stockLevel: product.stock
+          stockStatus: stockStatus(product, lowStockLevel)
         }))}
         labelField="label"
         valueField="value"
@@ -543,8 +636,8 @@ export default function AssignmentsPage() {
           <View style={styles.dropdownItem}>
             <Text style={[
               styles.dropdownItemText,
-              item.stockLevel === 0 ? styles.outOfStockText : 
-              item.stockLevel < 3 ? styles.lowStockText : styles.inStockText,
+              item.stockStatus === 'out' ? styles.outOfStockText :
+              item.stockStatus === 'low' ? styles.lowStockText : styles.inStockText,
               isDarkMode && styles.darkText
             ]}>
               {item.label}
@@ -600,6 +693,45 @@ export default function AssignmentsPage() {
         )}
       </TouchableOpacity>
 
+      {/* Basket - several products sold as one atomic sale */}
+      {editMode === null && (
+        <TouchableOpacity
+          style={[styles.basketButton, (creating || !selectedProduct) && styles.buttonDisabled]}
+          onPress={addToBasket}
+          disabled={creating || !selectedProduct}
+        >
+          <Text style={styles.createButtonText}>Add to Basket</Text>
+        </TouchableOpacity>
+      )}
+
+      {editMode === null && basket.length > 0 && (
+        <View style={[styles.summary, isDarkMode && styles.darkSummary]}>
+          <Text style={[styles.summaryTitle, isDarkMode && styles.darkText]}>Basket:</Text>
+          {basket.map(item => (
+            <View key={item.productId} style={styles.basketRow}>
+              <Text style={[styles.summaryText, isDarkMode && styles.darkText]}>
+                {item.quantity}x {item.productName} • {formatCurrency(item.total, currentOrganization?.currency || 'GBP')}
+              </Text>
+              <TouchableOpacity onPress={() => removeFromBasket(item.productId)}>
+                <MaterialIcons name="close" size={18} color={isDarkMode ? '#fff' : '#666'} />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <Text style={[styles.total, isDarkMode && styles.darkTotal]}>
+            Total: {formatCurrency(basket.reduce((sum, item) => sum + item.total, 0), currentOrganization?.currency || 'GBP')}
+          </Text>
+          <TouchableOpacity
+            style={[styles.createButton, styles.basketSellButton, (creating || !selectedUser) && styles.buttonDisabled]}
+            onPress={sellBasket}
+            disabled={creating || !selectedUser}
+          >
+            <Text style={styles.createButtonText}>
+              {isAdmin ? 'Sell Basket' : 'Buy Basket'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       <ScrollView style={styles.assignmentList}>
         <Text style={[styles.sectionTitle, isDarkMode && styles.darkText]}>
           {isAdmin ? 'Recent Sales (Last 10)' : 'Your Recent Purchases (Last 10)'}
@@ -620,8 +752,8 @@ export default function AssignmentsPage() {
         
         {assignments
           .filter((item) => {
-            // No longer filter by paid status - show all recent sales
-            // Filter out cancelled items only
+            // No longer filter by paid status - show all recent sales, voided ones included
+            // Filter out legacy cancelled items only
             if (item.cancelled) return false;
             
             // For regular users, only show their own purchases
@@ -643,15 +775,21 @@ export default function AssignmentsPage() {
           .map((item, index) => (
             <TouchableOpacity
               key={index}
-              onLongPress={isAdmin && !item.paid ? () => {
+              onLongPress={isAdmin && isCancelledAssignment(item) ? () => {
+                Alert.alert('Voided Sale', `This sale was voided${item.cancelledBy ? ` by ${item.cancelledBy}` : ''}.\n\nReason: ${item.cancelReason || 'not given'}`, [
+                  { text: 'OK', style: 'default' }
+                ]);
+              } : isAdmin && !item.paid ? () => {
                 Alert.alert('Assignment Actions', 'What would you like to do?', [
                   { text: 'Cancel', style: 'cancel' },
-                  { text: 'Edit', onPress: () => editAssignment(index) },
-                  { text: 'Delete', style: 'destructive', onPress: () => deleteAssignment(index) },
+                  // Basket sales are edited by voiding and re-selling the basket
+                  ...(isBasketAssignment(item) ? [] : [{ text: 'Edit', onPress: () => editAssignment(index) }]),
+                  { text: 'Void', style: 'destructive' as const, onPress: () => voidAssignment(item) },
                 ]);
               } : isAdmin && item.paid ? () => {
-                Alert.alert('Paid Assignment', 'This assignment has been paid and cannot be edited or deleted.\n\nTo remove paid assignments, use "Reset Sales Data" from the admin menu.', [
-                  { text: 'OK', style: 'default' }
+                Alert.alert('Paid Assignment', 'This assignment has been paid and cannot be edited.\n\nVoiding it restores stock and can refund the player.', [
+                  { text: 'Cancel', style: 'cancel' },
+                  { text: 'Void', style: 'destructive' as const, onPress: () => voidAssignment(item) },
                 ]);
               } : undefined}
             >
@@ -659,18 +797,33 @@ export default function AssignmentsPage() {
                 styles.assignmentContainer, 
                 isDarkMode && styles.darkAssignmentContainer,
                 item.paid && styles.paidAssignmentContainer,
-                item.paid && isDarkMode && styles.darkPaidAssignmentContainer
+                item.paid && isDarkMode && styles.darkPaidAssignmentContainer,
+                isCancelledAssignment(item) && styles.voidedAssignmentContainer,
+                isCancelledAssignment(item) && isDarkMode && styles.darkVoidedAssignmentContainer
               ]}>
                 <Text style={[styles.assignmentText, isDarkMode && styles.darkAssignmentText]}>
-                  {item.userName || item.user || 'Unknown'} - {item.quantity} x {item.productName || item.product} = {formatCurrency(typeof item.total === 'number' ? item.total : 0, currentOrganization?.currency || 'GBP')}
+                  {item.userName || item.user || 'Unknown'} - {describeAssignment(item)} = {formatCurrency(typeof item.total === 'number' ? item.total : 0, currentOrganization?.currency || 'GBP')}
                 </Text>
+                {isBasketAssignment(item) && getAssignmentLines(item).map((line, lineIndex) => (
+                  <Text key={`${item.id}-line-${lineIndex}`} style={[styles.assignmentSubText, isDarkMode && styles.darkAssignmentSubText]}>
+                    {line.quantity}x {line.productName} • {formatCurrency(line.total, currentOrganization?.currency || 'GBP')}
+                  </Text>
+                ))}
                 <Text style={[styles.assignmentSubText, isDarkMode && styles.darkAssignmentSubText]}>
-                  {formatUKDateTime(item.date || item.createdAt || item.updatedAt || new Date().toISOString())} • {item.paid ? '✅ Paid' : '💳 Unpaid'}
+                  {formatUKDateTime(item.date || item.createdAt || item.updatedAt || new Date().toISOString())} • {isCancelledAssignment(item) ? '🚫 Voided' : item.paid ? '✅ Paid' : '💳 Unpaid'}
                 </Text>
               </View>
             </TouchableOpacity>
           ))}
       </ScrollView>
+
+      <VoidSaleModal
+        visible={!!voidingAssignment}
+        assignment={voidingAssignment}
+        currency={currentOrganization?.currency || 'GBP'}
+        onClose={() => setVoidingAssignment(null)}
+        onVoided={handleAssignmentVoided}
+      />
         </View>
       </TouchableWithoutFeedback>
     </KeyboardAvoidingView>
@@ -883,6 +1036,22 @@ const styles = StyleSheet.create({
   buttonDisabled: {
     backgroundColor: '#ccc',
   },
+  basketButton: {
+    backgroundColor: '#5856D6',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  basketRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  basketSellButton: {
+    marginTop: 12,
+    marginBottom: 0,
+  },
   createButtonText: {
     color: 'white',
     fontSize: 16,
@@ -988,6 +1157,14 @@ const styles = StyleSheet.create({
     backgroundColor: '#1a2e1a',
     borderLeftColor: '#4CAF50',
   },
+  voidedAssignmentContainer: {
+    opacity: 0.6,
+    borderLeftWidth: 4,
+    borderLeftColor: '#ff6b6b',
+  },
+  darkVoidedAssignmentContainer: {
+    borderLeftColor: '#ff6b6b',
+  },
   assignmentSubText: {
     fontSize: 12,
     color: '#666',
@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { useIsFocused } from '@react-navigation/native';
+import { hybridSyncService, ConflictRecord } from '../services/HybridSyncService';
+import { useTheme } from '../app/ThemeContext';
+import { useAuth } from '../contexts/AuthContext';
+
+type Side = 'local' | 'remote';
+
+const COLLECTION_LABELS: Record<string, string> = {
+  products: 'Product',
+  players: 'Player',
+  assignments: 'Sale',
+  charges: 'Charge',
+};
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatTime = (timestamp: number): string =>
+  timestamp ? new Date(timestamp).toLocaleString() : 'unknown time';
+
+/**
+ * Admin screen for concurrent edits the sync engine could not merge on its own
+ */
+export const ConflictReviewPanel = () => {
+  const { isDarkMode } = useTheme();
+  const { user } = useAuth();
+  const isFocused = useIsFocused();
+  const [conflicts, setConflicts] = useState<ConflictRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadConflicts = async () => {
+    try {
+      setLoading(true);
+      const open = await hybridSyncService.getConflicts({ status: 'open' });
+      setConflicts(open);
+    } catch (error) {
+      console.error('❌ Failed to load conflicts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isFocused) {
+      loadConflicts();
+    }
+  }, [isFocused]);
+
+  const selectConflict = (conflict: ConflictRecord) => {
+    if (selectedId === conflict.id) {
+      setSelectedId(null);
+      return;
+    }
+    // Start from the side the engine already applied
+    setSelectedId(conflict.id);
+    setChoices(Object.fromEntries(conflict.fields.map(field => [field, conflict.defaultWinner])));
+  };
+
+  const pickAll = (conflict: ConflictRecord, side: Side) => {
+    setChoices(Object.fromEntries(conflict.fields.map(field => [field, side])));
+  };
+
+  const applyResolution = async (conflict: ConflictRecord) => {
+    try {
+      setSaving(true);
+      await hybridSyncService.resolveConflict(
+        conflict.id,
+        choices,
+        user?.displayName || user?.email || 'admin'
+      );
+      setSelectedId(null);
+      await loadConflicts();
+    } catch (error: any) {
+      console.error('❌ Failed to resolve conflict:', error);
+      Alert.alert('Could not resolve conflict', error?.message || String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderDiff = (conflict: ConflictRecord) => (
+    <View style={styles.diffContainer}>
+      <View style={styles.diffHeaderRow}>
+        <Text style={[styles.fieldColumn, styles.diffHeaderText, isDarkMode && styles.darkText]}>Field</Text>
+        <Text style={[styles.valueColumn, styles.diffHeaderText, isDarkMode && styles.darkText]}>
+          This device{'\n'}
+          <Text style={styles.diffSubText}>{formatTime(conflict.local.timestamp)}</Text>
+        </Text>
+        <Text style={[styles.valueColumn, styles.diffHeaderText, isDarkMode && styles.darkText]}>
+          Server ({conflict.remote.deviceId}){'\n'}
+          <Text style={styles.diffSubText}>{formatTime(conflict.remote.timestamp)}</Text>
+        </Text>
+      </View>
+
+      {conflict.fields.map(field => (
+        <View key={field} style={[styles.diffRow, isDarkMode && styles.darkDiffRow]}>
+          <Text style={[styles.fieldColumn, styles.fieldName, isDarkMode && styles.darkText]}>{field}</Text>
+          {(['local', 'remote'] as Side[]).map(side => (
+            <TouchableOpacity
+              key={side}
+              style={[styles.valueColumn, styles.valueCell, choices[field] === side && styles.selectedCell]}
+              onPress={() => setChoices(prev => ({ ...prev, [field]: side }))}
+            >
+              <Text style={[styles.valueText, isDarkMode && styles.darkText, choices[field] === side && styles.selectedText]}>
+                {formatValue(conflict[side].values[field])}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ))}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => pickAll(conflict, 'local')}>
+          <Text style={styles.secondaryButtonText}>Keep this device</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => pickAll(conflict, 'remote')}>
+          <Text style={styles.secondaryButtonText}>Keep server</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.applyButton, saving && styles.disabledButton]}
+        onPress={() => applyResolution(conflict)}
+        disabled={saving}
+      >
+        <Text style={styles.applyButtonText}>{saving ? 'Saving...' : 'Apply Resolution'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, isDarkMode && styles.darkContainer]}>
+      <Text style={[styles.title, isDarkMode && styles.darkText]}>⚔️ Sync Conflicts</Text>
+      <Text style={[styles.subtitle, isDarkMode && styles.darkSubtitle]}>
+        Edits made on two devices at the same time. The highlighted side is currently applied -
+        tap a value to choose it, then apply to sync the result everywhere.
+      </Text>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#007bff" style={styles.loader} />
+      ) : (
+        <ScrollView style={styles.list}>
+          {conflicts.length === 0 && (
+            <Text style={[styles.emptyMessage, isDarkMode && styles.darkSubtitle]}>No unresolved conflicts.</Text>
+          )}
+
+          {conflicts.map(conflict => (
+            <View key={conflict.id} style={[styles.card, isDarkMode && styles.darkCard]}>
+              <TouchableOpacity onPress={() => selectConflict(conflict)}>
+                <Text style={[styles.cardTitle, isDarkMode && styles.darkText]}>
+                  {COLLECTION_LABELS[conflict.collection] || conflict.collection}: {conflict.entityName || conflict.entityId}
+                </Text>
+                <Text style={[styles.cardMeta, isDarkMode && styles.darkSubtitle]}>
+                  {conflict.fields.join(', ')} · detected {formatTime(conflict.detectedAt)}
+                </Text>
+              </TouchableOpacity>
+              {selectedId === conflict.id && renderDiff(conflict)}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <TouchableOpacity style={styles.refreshButton} onPress={loadConflicts}>
+        <Text style={styles.applyButtonText}>Refresh</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#f5f5f5',
+  },
+  darkContainer: {
+    backgroundColor: '#1a1a1a',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  darkSubtitle: {
+    color: '#aaa',
+  },
+  darkText: {
+    color: '#fff',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  list: {
+    flex: 1,
+  },
+  emptyMessage: {
+    fontSize: 16,
+    fontStyle: 'italic',
+    color: '#777',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+    borderLeftWidth: 4,
+    borderLeftColor: '#ff9500',
+  },
+  darkCard: {
+    backgroundColor: '#2a2a2a',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  diffContainer: {
+    marginTop: 12,
+  },
+  diffHeaderRow: {
+    flexDirection: 'row',
+    paddingBottom: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  diffHeaderText: {
+    fontWeight: 'bold',
+    fontSize: 13,
+  },
+  diffSubText: {
+    fontWeight: 'normal',
+    fontSize: 11,
+    color: '#888',
+  },
+  diffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  darkDiffRow: {
+    borderBottomColor: '#555',
+  },
+  fieldColumn: {
+    flex: 1,
+  },
+  valueColumn: {
+    flex: 2,
+    marginLeft: 6,
+  },
+  fieldName: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  valueCell: {
+    padding: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  selectedCell: {
+    borderColor: '#007bff',
+    backgroundColor: 'rgba(0, 123, 255, 0.12)',
+  },
+  valueText: {
+    fontSize: 13,
+  },
+  selectedText: {
+    fontWeight: 'bold',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    marginHorizontal: 4,
+    padding: 10,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#007bff',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#007bff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  applyButton: {
+    backgroundColor: '#28a745',
+    padding: 12,
+    borderRadius: 6,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  refreshButton: {
+    backgroundColor: '#007bff',
+    padding: 12,
+    borderRadius: 6,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+});
+
+export default ConflictReviewPanel;
@@ -0,0 +1,406 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView, Alert, ActivityIndicator, Share } from 'react-native';
+import { useIsFocused } from '@react-navigation/native';
+import { hybridSyncService, DeadLetterBundle } from '../services/HybridSyncService';
+import { describeBundle } from '../services/OperationBundles';
+import { useTheme } from '../app/ThemeContext';
+import { useAuth } from '../contexts/AuthContext';
+
+type Mode = 'view' | 'edit' | 'discard';
+
+const formatTime = (timestamp?: number): string =>
+  timestamp ? new Date(timestamp).toLocaleString() : 'unknown time';
+
+/**
+ * Admin screen for bundles that ran out of retries - retry, fix the steps and retry, discard or export them
+ */
+export const DeadLetterQueuePanel = () => {
+  const { isDarkMode } = useTheme();
+  const { user } = useAuth();
+  const isFocused = useIsFocused();
+  const [items, setItems] = useState<DeadLetterBundle[]>([]);
+  const [discardCount, setDiscardCount] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<Mode>('view');
+  const [payloadText, setPayloadText] = useState('');
+  const [discardReason, setDiscardReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  const staffName = user?.displayName || user?.email || 'admin';
+
+  const loadItems = async () => {
+    try {
+      setLoading(true);
+      await hybridSyncService.flushDeadLetterDiscardLog();
+      setItems(hybridSyncService.getDeadLetterItems());
+      setDiscardCount((await hybridSyncService.getDeadLetterDiscards()).length);
+    } catch (error) {
+      console.error('❌ Failed to load dead letter queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isFocused) return;
+    loadItems();
+    return hybridSyncService.subscribe(() => {
+      setItems(hybridSyncService.getDeadLetterItems());
+    }, ['itemDeadLettered']);
+  }, [isFocused]);
+
+  const selectItem = (item: DeadLetterBundle) => {
+    setSelectedId(selectedId === item.bundleId ? null : item.bundleId);
+    setMode('view');
+    setPayloadText(JSON.stringify(item.steps, null, 2));
+    setDiscardReason('');
+  };
+
+  const runAction = async (action: () => Promise<void>, failureTitle: string) => {
+    try {
+      setWorking(true);
+      await action();
+      setSelectedId(null);
+      setMode('view');
+      await loadItems();
+    } catch (error: any) {
+      console.error(`❌ ${failureTitle}:`, error);
+      Alert.alert(failureTitle, error?.message || String(error));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const retryItem = (item: DeadLetterBundle) =>
+    runAction(() => hybridSyncService.retryDeadLetterItem(item.bundleId), 'Could not retry item');
+
+  const retryWithEdits = (item: DeadLetterBundle) => {
+    let editedSteps: any;
+    try {
+      editedSteps = JSON.parse(payloadText);
+    } catch {
+      Alert.alert('Invalid JSON', 'The steps could not be parsed. Please fix them and try again.');
+      return;
+    }
+    runAction(() => hybridSyncService.retryDeadLetterItem(item.bundleId, editedSteps), 'Could not retry item');
+  };
+
+  const discardItem = (item: DeadLetterBundle) => {
+    if (!discardReason.trim()) {
+      Alert.alert('Reason required', 'Please enter why this item is being discarded.');
+      return;
+    }
+    Alert.alert(
+      'Discard Item',
+      `"${describeBundle(item)}" will never reach the server and its local changes are rolled back. The discard is logged with your name and reason.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => runAction(async () => {
+            await hybridSyncService.discardDeadLetterItem(item.bundleId, discardReason, staffName);
+          }, 'Could not discard item'),
+        },
+      ]
+    );
+  };
+
+  const exportQueue = async () => {
+    try {
+      const json = await hybridSyncService.exportDeadLetterQueue();
+      await Share.share({ title: 'Dead letter queue export', message: json });
+    } catch (error) {
+      console.log('Share failed:', error);
+    }
+  };
+
+  const renderDetails = (item: DeadLetterBundle) => (
+    <View style={styles.details}>
+      <Text style={[styles.sectionLabel, isDarkMode && styles.darkText]}>Retry history</Text>
+      {(item.errorHistory || []).length === 0 ? (
+        <Text style={[styles.historyText, isDarkMode && styles.darkSubtitle]}>No failures recorded</Text>
+      ) : (
+        item.errorHistory!.map((entry, index) => (
+          <Text key={index} style={[styles.historyText, isDarkMode && styles.darkSubtitle]}>
+            #{entry.retryCount} · {formatTime(entry.at)} · {entry.error}
+          </Text>
+        ))
+      )}
+
+      <Text style={[styles.sectionLabel, isDarkMode && styles.darkText]}>{item.legacyItem ? 'Old sync queue item' : 'Steps'}</Text>
+      {mode === 'edit' ? (
+        <TextInput
+          style={[styles.payloadInput, isDarkMode && styles.darkInput]}
+          value={payloadText}
+          onChangeText={setPayloadText}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      ) : (
+        <Text style={[styles.payloadText, isDarkMode && styles.darkPayloadText]}>
+          {JSON.stringify(item.legacyItem || item.steps, null, 2)}
+        </Text>
+      )}
+
+      {mode === 'discard' && (
+        <TextInput
+          style={[styles.reasonInput, isDarkMode && styles.darkInput]}
+          placeholder="Reason for discarding (required)"
+          placeholderTextColor={isDarkMode ? '#888' : '#999'}
+          value={discardReason}
+          onChangeText={setDiscardReason}
+          multiline
+        />
+      )}
+
+      {mode === 'view' && (
+        <View style={styles.buttonRow}>
+          {!item.legacyItem && (
+            <>
+              <TouchableOpacity style={[styles.actionButton, styles.retryButton]} onPress={() => retryItem(item)} disabled={working}>
+                <Text style={styles.actionButtonText}>Retry Now</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.actionButton, styles.editButton]} onPress={() => setMode('edit')} disabled={working}>
+                <Text style={styles.actionButtonText}>Edit</Text>
+              </TouchableOpacity>
+            </>
+          )}
+          <TouchableOpacity style={[styles.actionButton, styles.discardButton]} onPress={() => setMode('discard')} disabled={working}>
+            <Text style={styles.actionButtonText}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {mode !== 'view' && (
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={[styles.actionButton, styles.cancelButton]} onPress={() => setMode('view')} disabled={working}>
+            <Text style={styles.actionButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          {mode === 'edit' ? (
+            <TouchableOpacity style={[styles.actionButton, styles.retryButton, working && styles.disabledButton]} onPress={() => retryWithEdits(item)} disabled={working}>
+              <Text style={styles.actionButtonText}>{working ? 'Saving...' : 'Save & Retry'}</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={[styles.actionButton, styles.discardButton, working && styles.disabledButton]} onPress={() => discardItem(item)} disabled={working}>
+              <Text style={styles.actionButtonText}>{working ? 'Discarding...' : 'Discard Item'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, isDarkMode && styles.darkContainer]}>
+      <Text style={[styles.title, isDarkMode && styles.darkText]}>💀 Failed Sync Items</Text>
+      <Text style={[styles.subtitle, isDarkMode && styles.darkSubtitle]}>
+        Changes that could not reach the server after repeated retries. Retry them, fix their
+        steps, or discard them with a reason. {discardCount} discard(s) logged on this device.
+      </Text>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#007bff" style={styles.loader} />
+      ) : (
+        <ScrollView style={styles.list}>
+          {items.length === 0 && (
+            <Text style={[styles.emptyMessage, isDarkMode && styles.darkSubtitle]}>No failed sync items.</Text>
+          )}
+
+          {items.map(item => (
+            <View key={item.bundleId} style={[styles.card, isDarkMode && styles.darkCard]}>
+              <TouchableOpacity onPress={() => selectItem(item)}>
+                <Text style={[styles.cardTitle, isDarkMode && styles.darkText]}>
+                  {item.legacyItem ? `${item.legacyItem.collection} ${item.legacyItem.action}` : describeBundle(item)}
+                </Text>
+                <Text style={[styles.cardMeta, isDarkMode && styles.darkSubtitle]}>
+                  {item.type} · {item.bundleId} · {item.retryCount} retries · failed {formatTime(item.deadLetteredAt)}
+                </Text>
+                <Text style={styles.errorText} numberOfLines={selectedId === item.bundleId ? undefined : 2}>
+                  {item.lastError || 'No error recorded'}
+                </Text>
+              </TouchableOpacity>
+              {selectedId === item.bundleId && renderDetails(item)}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={[styles.footerButton, styles.exportButton]} onPress={exportQueue}>
+          <Text style={styles.actionButtonText}>Export JSON</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.footerButton} onPress={loadItems}>
+          <Text style={styles.actionButtonText}>Refresh</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#f5f5f5',
+  },
+  darkContainer: {
+    backgroundColor: '#1a1a1a',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  darkSubtitle: {
+    color: '#aaa',
+  },
+  darkText: {
+    color: '#fff',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  list: {
+    flex: 1,
+  },
+  emptyMessage: {
+    fontSize: 16,
+    fontStyle: 'italic',
+    color: '#777',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+    borderLeftWidth: 4,
+    borderLeftColor: '#dc3545',
+  },
+  darkCard: {
+    backgroundColor: '#2a2a2a',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 4,
+  },
+  details: {
+    marginTop: 12,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  historyText: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 2,
+  },
+  payloadText: {
+    fontFamily: 'monospace',
+    fontSize: 11,
+    color: '#333',
+    backgroundColor: '#f0f0f0',
+    borderRadius: 6,
+    padding: 8,
+  },
+  darkPayloadText: {
+    color: '#ddd',
+    backgroundColor: '#333',
+  },
+  payloadInput: {
+    fontFamily: 'monospace',
+    fontSize: 11,
+    minHeight: 160,
+    borderWidth: 1,
+    borderColor: '#007bff',
+    borderRadius: 6,
+    padding: 8,
+    color: '#333',
+    textAlignVertical: 'top',
+  },
+  reasonInput: {
+    minHeight: 60,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 8,
+    marginTop: 10,
+    fontSize: 14,
+    color: '#333',
+    textAlignVertical: 'top',
+  },
+  darkInput: {
+    borderColor: '#555',
+    backgroundColor: '#333',
+    color: '#fff',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+    padding: 10,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  retryButton: {
+    backgroundColor: '#28a745',
+  },
+  editButton: {
+    backgroundColor: '#007bff',
+  },
+  discardButton: {
+    backgroundColor: '#dc3545',
+  },
+  cancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  footerButton: {
+    flex: 1,
+    marginHorizontal: 4,
+    backgroundColor: '#007bff',
+    padding: 12,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  exportButton: {
+    backgroundColor: '#6f42c1',
+  },
+});
+
+export default DeadLetterQueuePanel;
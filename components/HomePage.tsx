@@ -31,6 +31,7 @@ import BiometricSettings from './BiometricSettings';
 import QRCode from 'react-native-qrcode-svg';
 import LogoutConfirmationModal from './LogoutConfirmationModal';
 import { StockDebugPanel } from './StockDebugPanel';
+import LowStockAlertBanner from './LowStockAlertBanner';
 
 type HomePageProps = {
   navigation: NavigationProp<any>;
@@ -52,6 +53,7 @@ export default function HomePage({ navigation }: HomePageProps) {
   const [hasCharges, setHasCharges] = useState(false);
   const [showLogoutModal, setShowLogoutModal] = useState(false);
   const [showStockDebugPanel, setShowStockDebugPanel] = useState(false);
+  const openLowStock = useCallback(() => navigation.navigate('LowStock'), [navigation]);
 
 
   console.log('🏠 HomePage - isAdmin value:', isAdmin);
@@ -169,9 +171,9 @@ export default function HomePage({ navigation }: HomePageProps) {
       try {
         console.log('� RESET APP - Starting comprehensive app reset via offline-first architecture');
         
-        // 1. Clear sync queue to prevent orphaned operations
-        await hybridSyncService.clearSyncQueue();
-        console.log('✅ RESET APP - Sync queue cleared');
+        // 1. Clear pending bundles to prevent orphaned operations
+        await hybridSyncService.clearPendingBundles();
+        console.log('✅ RESET APP - Pending bundles cleared');
         
         // 2. Delete all products via unified deleteEntity system
         console.log('🗑️ RESET APP - Deleting all products...');
@@ -243,9 +245,9 @@ export default function HomePage({ navigation }: HomePageProps) {
           console.log('⚠️ RESET APP - Offline - data will sync when connection restored');
         }
         
-        // 8. Final cleanup - clear sync queue
-        await hybridSyncService.clearSyncQueue();
-        console.log('✅ RESET APP - Final sync queue cleanup complete');
+        // 8. Final cleanup - clear pending bundles
+        await hybridSyncService.clearPendingBundles();
+        console.log('✅ RESET APP - Final pending bundles cleanup complete');
         
         setResetModalVisible(false);
         setConfirmationCode('');
@@ -307,7 +309,7 @@ export default function HomePage({ navigation }: HomePageProps) {
   const handleCleanupSyncQueue = async () => {
     Alert.alert(
       'Clean Sync Queue',
-      'This will remove orphaned sync operations that reference non-existent products. This might fix sync issues.',
+      'This will drop all unsynced changes, dead letters and provisional data on this device. Only use it if sync is stuck.',
       [
         {
           text: 'Cancel',
@@ -320,17 +322,10 @@ export default function HomePage({ navigation }: HomePageProps) {
             try {
               console.log('🧹 Starting ENHANCED sync cleanup...');
               
-              // Use the new enhanced cleanup that handles stuck data + bundle system
+              // Clears pending bundles, dead letters and provisional state
               await hybridSyncService.clearAllStuckData();
               
-              // Clean up orphaned operations (Firebase existence check)
-              await hybridSyncService.cleanupOrphanedOperations();
-              
-              // Also run the regular cleanup
-              await hybridSyncService.removeOrphanedSyncItems();
-              await hybridSyncService.cleanupSyncQueue();
-              
-              Alert.alert('Cleanup Complete', 'All stuck sync data cleared!\n\n✅ Sync queue cleared\n✅ Dead letter queue cleared\n✅ Provisional data cleared\n✅ Orphaned items removed\n✅ Firebase orphaned operations cleaned\n\n🚀 Fresh sync state ready!');
+              Alert.alert('Cleanup Complete', 'All stuck sync data cleared!\n\n✅ Pending bundles cleared\n✅ Dead letter queue cleared\n✅ Provisional data cleared\n\n🚀 Fresh sync state ready!');
             } catch (error) {
               console.error('❌ Enhanced sync cleanup error:', error);
               Alert.alert('Error', 'Failed to clean sync queue. Please try again.');
@@ -351,9 +346,8 @@ export default function HomePage({ navigation }: HomePageProps) {
         'Background Sync Status',
         `🌐 Online: ${status.isOnline}
 🔄 Currently Syncing: ${status.isSyncing}
-📤 Queue Items: ${status.mainQueueLength}
+📤 Pending Bundles: ${status.pendingBundles}
 💀 Dead Letter Queue: ${status.deadLetterQueueLength}
-✅ Processed Items: ${status.processedIdsCount}
 🔄 Retry Items: ${status.pendingRetry}
 👤 User Authenticated: ${!!currentUser}
 📊 Status: ${status.status}
@@ -754,6 +748,8 @@ Last Check: ${new Date().toLocaleTimeString()}`,
             <View style={styles.section}>
               {(isAdmin || isOwner) && (
                 <>
+                  <LowStockAlertBanner onPress={openLowStock} />
+
                   <TouchableOpacity
                     style={[styles.button, isLargeScreen && styles.largeButton]}
                     onPress={() => navigation.navigate('Products')}
@@ -787,6 +783,28 @@ Last Check: ${new Date().toLocaleTimeString()}`,
                     </Text>
                   </TouchableOpacity>
 
+                  <TouchableOpacity
+                    style={[styles.button, isLargeScreen && styles.largeButton]}
+                    onPress={() => navigation.navigate('PurchaseOrders')}
+                  >
+                    <Text
+                      style={[styles.buttonText, isDarkMode && styles.darkButtonText]}
+                    >
+                      Purchase Orders
+                    </Text>
+                  </TouchableOpacity>
+
+                  <TouchableOpacity
+                    style={[styles.button, isLargeScreen && styles.largeButton]}
+                    onPress={openLowStock}
+                  >
+                    <Text
+                      style={[styles.buttonText, isDarkMode && styles.darkButtonText]}
+                    >
+                      Low Stock & Reorder
+                    </Text>
+                  </TouchableOpacity>
+
 
                 </>
               )}
@@ -868,6 +886,46 @@ Last Check: ${new Date().toLocaleTimeString()}`,
                   <Text style={[styles.menuText, { color: '#28a745' }]}>Organization</Text>
                 </TouchableOpacity>
               )}
+
+              {/* Sync conflict review - Admin/Owner Only */}
+              {(isAdmin || isOwner) && (
+                <TouchableOpacity 
+                  onPress={() => {
+                    setShowMenu(false);
+                    navigation.navigate('SyncConflicts');
+                  }} 
+                  style={styles.menuItem}
+                >
+                  <Icon name="source-merge" size={20} color="#ff9500" style={styles.menuIcon} />
+                  <Text style={styles.menuText}>Sync Conflicts</Text>
+                </TouchableOpacity>
+              )}
+
+              {/* Failed sync items (dead letter queue) - Admin/Owner Only */}
+              {(isAdmin || isOwner) && (
+                <TouchableOpacity 
+                  onPress={() => {
+                    setShowMenu(false);
+                    navigation.navigate('DeadLetterQueue');
+                  }} 
+                  style={styles.menuItem}
+                >
+                  <Icon name="alert-octagon" size={20} color="#dc3545" style={styles.menuIcon} />
+                  <Text style={styles.menuText}>Failed Sync Items</Text>
+                </TouchableOpacity>
+              )}
+              
+              {/* Take over unsynced work from a device that has to sign out offline */}
+              <TouchableOpacity 
+                onPress={() => {
+                  setShowMenu(false);
+                  navigation.navigate('SyncHandoverImport');
+                }} 
+                style={styles.menuItem}
+              >
+                <Icon name="swap-horizontal" size={20} color="#007bff" style={styles.menuIcon} />
+                <Text style={styles.menuText}>Import Handover</Text>
+              </TouchableOpacity>
               
               {/* Logout */}
               <TouchableOpacity onPress={handleLogout} style={styles.menuItem}>
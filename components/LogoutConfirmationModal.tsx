@@ -8,8 +8,10 @@ import {
   Alert,
   ActivityIndicator,
   ScrollView,
+  Share,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import QRCode from 'react-native-qrcode-svg';
 import { hybridSyncService } from '../services/HybridSyncService';
 
 interface LogoutConfirmationModalProps {
@@ -18,6 +20,15 @@ interface LogoutConfirmationModalProps {
   onConfirmLogout: (forceLogout?: boolean) => Promise<void>;
 }
 
+interface HandoverExport {
+  code: string;
+  envelope: string;
+  frames: string[];
+}
+
+// How long each QR frame stays on screen while the other device scans
+const HANDOVER_FRAME_INTERVAL_MS = 1200;
+
 interface UnsyncedDataDetails {
   totalCount: number;
   operationsByType: Record<string, number>;
@@ -32,7 +43,9 @@ interface UnsyncedDataDetails {
  * 
  * FEATURES:
  * - Analyzes unsynced operations and shows detailed breakdown
- * - Offers three options: Force Sync & Logout, Cancel, or Logout Anyway
+ * - Offers four options: Force Sync & Logout, Hand Over, Cancel, or Logout Anyway
+ * - Hand Over exports unsynced work as a signed handover (QR codes or shared file) for
+ *   another device in the organization to import before this one logs out
  * - Shows real-time sync progress during force sync
  * - Prevents accidental data loss with clear warnings
  * 
@@ -50,13 +63,26 @@ export default function LogoutConfirmationModal({
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
   const [isOnline, setIsOnline] = useState(true);
+  const [handover, setHandover] = useState<HandoverExport | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [frameIndex, setFrameIndex] = useState(0);
 
   useEffect(() => {
     if (visible) {
+      setHandover(null);
       loadUnsyncedDataDetails();
     }
   }, [visible]);
 
+  // Cycle through the QR frames so the importing device can collect them all
+  useEffect(() => {
+    if (!handover || handover.frames.length <= 1) return;
+    const timer = setInterval(() => {
+      setFrameIndex(index => (index + 1) % handover.frames.length);
+    }, HANDOVER_FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [handover]);
+
   const loadUnsyncedDataDetails = async () => {
     setLoading(true);
     try {
@@ -122,6 +148,50 @@ export default function LogoutConfirmationModal({
     );
   };
 
+  const handleStartHandover = async () => {
+    setExporting(true);
+    try {
+      const result = await hybridSyncService.exportHandover();
+      setFrameIndex(0);
+      setHandover(result);
+    } catch (error: any) {
+      Alert.alert('Handover Failed', error?.message || 'Could not prepare the handover');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleShareHandover = async () => {
+    if (!handover) return;
+    try {
+      // The code is deliberately left out - read it to the other device's user instead
+      await Share.share({ title: 'VMStock sync handover', message: handover.envelope });
+    } catch (error) {
+      console.error('Error sharing handover:', error);
+    }
+  };
+
+  const handleHandoverComplete = () => {
+    Alert.alert(
+      'Handover Imported?',
+      'Only sign out once the other device has imported the handover. Unsynced changes on this device will be wiped.',
+      [
+        { text: 'Not Yet', style: 'cancel' },
+        {
+          text: 'Imported - Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await onConfirmLogout(true);
+            } catch (error: any) {
+              Alert.alert('Logout Failed', error?.message || 'Unknown error occurred');
+            }
+          }
+        }
+      ]
+    );
+  };
+
   const formatOperationType = (type: string): string => {
     const typeMap: Record<string, string> = {
       'create': 'Create',
@@ -131,7 +201,12 @@ export default function LogoutConfirmationModal({
       'updateBalance': 'Balance Update',
       'stockDelta': 'Stock Change',
       'balanceDelta': 'Balance Change',
-      'createAssignment': 'New Sale'
+      'createAssignment': 'New Sale',
+      'assignmentSale': 'Sale',
+      'basketSale': 'Basket Sale',
+      'stockAdjustment': 'Stock Adjustment',
+      'goodsReceipt': 'Goods Received',
+      'playerPayment': 'Payment'
     };
     return typeMap[type] || type.charAt(0).toUpperCase() + type.slice(1);
   };
@@ -193,6 +268,50 @@ export default function LogoutConfirmationModal({
     );
   }
 
+  // Handover prepared - show the code and QR frames until the other device has imported it
+  if (handover) {
+    return (
+      <Modal visible={visible} transparent animationType="slide">
+        <View style={styles.overlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.header}>
+              <Ionicons name="swap-horizontal" size={24} color="#007AFF" />
+              <Text style={styles.title}>Hand Over Unsynced Data</Text>
+            </View>
+
+            <Text style={styles.description}>
+              On another device signed in to this organization, open Import Handover and scan these
+              codes (or open the shared file), then enter this code:
+            </Text>
+            <Text style={styles.handoverCode}>{handover.code}</Text>
+
+            <View style={styles.qrContainer}>
+              <QRCode value={handover.frames[frameIndex]} size={220} />
+              <Text style={styles.frameText}>
+                Code {frameIndex + 1} of {handover.frames.length}
+              </Text>
+            </View>
+
+            <TouchableOpacity style={styles.shareButton} onPress={handleShareHandover}>
+              <Ionicons name="share-outline" size={16} color="#007AFF" style={{ marginRight: 8 }} />
+              <Text style={styles.shareButtonText}>Share as File</Text>
+            </TouchableOpacity>
+
+            <View style={styles.buttonContainer}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setHandover(null)}>
+                <Text style={styles.cancelButtonText}>Back</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.forceButton} onPress={handleHandoverComplete}>
+                <Ionicons name="log-out-outline" size={16} color="white" style={{ marginRight: 8 }} />
+                <Text style={styles.forceButtonText}>Sign Out</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    );
+  }
+
   // Show detailed warning for unsynced data
   return (
     <Modal visible={visible} transparent animationType="slide">
@@ -252,6 +371,19 @@ export default function LogoutConfirmationModal({
             )}
           </ScrollView>
 
+          <TouchableOpacity
+            style={[styles.handoverButton, exporting && styles.disabledButton]}
+            onPress={handleStartHandover}
+            disabled={exporting}
+          >
+            {exporting ? (
+              <ActivityIndicator size="small" color="#007AFF" style={{ marginRight: 8 }} />
+            ) : (
+              <Ionicons name="swap-horizontal" size={16} color="#007AFF" style={{ marginRight: 8 }} />
+            )}
+            <Text style={styles.handoverButtonText}>Hand Over to Another Device</Text>
+          </TouchableOpacity>
+
           <View style={styles.buttonContainer}>
             <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
               <Text style={styles.cancelButtonText}>Cancel</Text>
@@ -469,4 +601,48 @@ const styles = StyleSheet.create({
   disabledButton: {
     opacity: 0.6,
   },
+  handoverButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  handoverButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  handoverCode: {
+    fontSize: 26,
+    fontWeight: '700',
+    letterSpacing: 3,
+    textAlign: 'center',
+    color: '#333',
+    marginBottom: 16,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    padding: 12,
+    backgroundColor: 'white',
+  },
+  frameText: {
+    marginTop: 8,
+    fontSize: 12,
+    color: '#666',
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+  },
+  shareButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
 });
\ No newline at end of file
@@ -0,0 +1,74 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { hybridSyncService } from '../services/HybridSyncService';
+import { LowStockAlert } from '../services/StockLevels';
+import { useTheme } from '../app/ThemeContext';
+
+/**
+ * Admin banner for products that have dropped to their low-stock level. Pops up an alert when
+ * a product crosses while the app is open; tapping opens the low-stock dashboard.
+ */
+export default function LowStockAlertBanner({ onPress }: { onPress: () => void }) {
+  const { isDarkMode } = useTheme();
+  const [alerts, setAlerts] = useState<LowStockAlert[]>([]);
+
+  const loadAlerts = useCallback(() => {
+    hybridSyncService.getLowStockAlerts()
+      .then(all => setAlerts(all.filter(alert => !alert.acknowledged)))
+      .catch(error => console.error('❌ Failed to load low-stock alerts:', error));
+  }, []);
+
+  useFocusEffect(loadAlerts);
+
+  useEffect(() => hybridSyncService.subscribe(event => {
+    if (event.type !== 'lowStockAlert') return;
+    loadAlerts();
+    const names = event.alerts.map(alert => `${alert.productName} (${alert.stock} left)`).join('\n');
+    Alert.alert('Low Stock', names, [
+      { text: 'Later', style: 'cancel' },
+      { text: 'View', onPress },
+    ]);
+  }, ['lowStockAlert']), [loadAlerts, onPress]);
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <TouchableOpacity style={[styles.banner, isDarkMode && styles.darkBanner]} onPress={onPress}>
+      <Text style={[styles.title, isDarkMode && styles.darkText]}>
+        📉 {alerts.length} product{alerts.length === 1 ? '' : 's'} running low
+      </Text>
+      <Text style={[styles.detail, isDarkMode && styles.darkText]} numberOfLines={2}>
+        {alerts.map(alert => alert.productName).join(', ')}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: '#fff3cd',
+    borderColor: '#ffeeba',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  darkBanner: {
+    backgroundColor: '#3d3200',
+    borderColor: '#665500',
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#856404',
+  },
+  detail: {
+    fontSize: 13,
+    color: '#856404',
+    marginTop: 2,
+  },
+  darkText: {
+    color: '#ffe083',
+  },
+});
@@ -0,0 +1,319 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { NavigationProp, useFocusEffect } from '@react-navigation/native';
+import { hybridSyncService } from '../services/HybridSyncService';
+import { GoodsReceipt, PurchaseOrder } from '../services/PurchaseOrders';
+import { Supplier } from '../services/Suppliers';
+import {
+  DEFAULT_LOW_STOCK_LEVEL,
+  LowStockAlert,
+  ReorderSuggestion,
+  SALES_VELOCITY_WINDOW_DAYS,
+  buildReorderSuggestions,
+  lowStockThreshold,
+} from '../services/StockLevels';
+import { selectLowStockProducts, shallowEqualArrays, useOverlayCollection, useOverlaySelector } from '../hooks/useOverlayStore';
+import { useTheme } from '../app/ThemeContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { formatCurrency } from '../utils/currency';
+
+type SupplierGroup = { supplierId: string | null; supplierName: string | null; suggestions: ReorderSuggestion[] };
+
+/**
+ * Products at or below their low-stock level, and what to reorder from each supplier
+ */
+export default function LowStockPage({ navigation }: { navigation: NavigationProp<any> }) {
+  const { isDarkMode } = useTheme();
+  const { user } = useAuth();
+  const { organization } = useOrganization();
+  const currency = organization?.currency || 'GBP';
+  const staffName = user?.displayName || user?.email || undefined;
+  const lowStockLevel = organization?.settings?.lowStockAlertLevel ?? DEFAULT_LOW_STOCK_LEVEL;
+
+  const { items: products } = useOverlayCollection('products');
+  const { items: assignments } = useOverlayCollection('assignments');
+  const selectLow = useMemo(() => selectLowStockProducts(lowStockLevel), [lowStockLevel]);
+  const lowProducts = useOverlaySelector('products', selectLow, shallowEqualArrays) || [];
+
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [alerts, setAlerts] = useState<LowStockAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [raising, setRaising] = useState<string | null>(null);
+
+  const loadPurchasing = useCallback(async () => {
+    try {
+      const [purchasing, supplierList] = await Promise.all([
+        hybridSyncService.getPurchasing(),
+        hybridSyncService.getSuppliers(),
+      ]);
+      setOrders(purchasing.orders);
+      setReceipts(purchasing.receipts);
+      setSuppliers(supplierList.suppliers);
+    } catch (error) {
+      console.error('❌ Failed to load purchasing for reorders:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadAlerts = useCallback(() => {
+    hybridSyncService.getLowStockAlerts().then(setAlerts);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPurchasing();
+      loadAlerts();
+    }, [loadPurchasing, loadAlerts])
+  );
+
+  useEffect(() => hybridSyncService.subscribe(loadAlerts, ['lowStockAlert']), [loadAlerts]);
+
+  const groups = useMemo(() => {
+    const suggestions = buildReorderSuggestions({
+      products,
+      assignments,
+      orders,
+      receipts,
+      suppliers,
+      defaultLevel: lowStockLevel,
+    });
+    const bySupplier = new Map<string, SupplierGroup>();
+    suggestions.forEach(suggestion => {
+      const key = suggestion.supplierId || '';
+      if (!bySupplier.has(key)) {
+        bySupplier.set(key, { supplierId: suggestion.supplierId, supplierName: suggestion.supplierName, suggestions: [] });
+      }
+      bySupplier.get(key)!.suggestions.push(suggestion);
+    });
+    return [...bySupplier.values()];
+  }, [products, assignments, orders, receipts, suppliers, lowStockLevel]);
+
+  const unacknowledged = alerts.filter(alert => !alert.acknowledged);
+
+  const dismissAlerts = async () => {
+    await hybridSyncService.acknowledgeLowStockAlerts(unacknowledged.map(alert => alert.id));
+    loadAlerts();
+  };
+
+  const raiseOrder = async (group: SupplierGroup) => {
+    try {
+      setRaising(group.supplierId || '');
+      const order = await hybridSyncService.createPurchaseOrder({
+        lines: group.suggestions.map(suggestion => ({
+          productId: suggestion.productId,
+          productName: suggestion.productName,
+          quantity: suggestion.quantity,
+          unitCost: suggestion.unitCost ?? 0,
+        })),
+        supplierId: group.supplierId,
+        supplierName: group.supplierName || undefined,
+        notes: 'Raised from reorder suggestions',
+        staffName,
+      });
+      await loadPurchasing();
+      navigation.navigate('PurchaseOrder', { purchaseOrderId: order.id });
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to raise the purchase order');
+    } finally {
+      setRaising(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered, isDarkMode && styles.darkContainer]}>
+        <ActivityIndicator size="large" color="#007bff" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={[styles.container, isDarkMode && styles.darkContainer]}>
+      {unacknowledged.length > 0 && (
+        <View style={[styles.card, styles.alertCard]}>
+          {unacknowledged.map(alert => (
+            <Text key={alert.id} style={styles.alertText}>
+              {alert.productName} dropped to {alert.stock} (low at {alert.threshold}) · {new Date(alert.raisedAt).toLocaleString()}
+            </Text>
+          ))}
+          <TouchableOpacity onPress={dismissAlerts}>
+            <Text style={styles.dismissText}>Dismiss</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <Text style={[styles.sectionTitle, isDarkMode && styles.darkText]}>Low Stock ({lowProducts.length})</Text>
+      {lowProducts.length === 0 ? (
+        <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>Every product is above its low-stock level.</Text>
+      ) : lowProducts.map((product: any) => (
+        <View key={product.id} style={[styles.row, isDarkMode && styles.darkCard]}>
+          <Text style={[styles.rowTitle, isDarkMode && styles.darkText]}>{product.name}</Text>
+          <Text style={[styles.stock, (product.stock ?? 0) <= 0 && styles.outOfStock]}>
+            {(product.stock ?? 0) <= 0 ? 'Out of stock' : `${product.stock} left`} · low at {lowStockThreshold(product, lowStockLevel)}
+          </Text>
+        </View>
+      ))}
+
+      <Text style={[styles.sectionTitle, isDarkMode && styles.darkText]}>Reorder Suggestions</Text>
+      <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+        Up to max stock (or two weeks of sales), based on the last {SALES_VELOCITY_WINDOW_DAYS} days, less what is already on order.
+      </Text>
+      {groups.length === 0 ? (
+        <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>Nothing needs reordering.</Text>
+      ) : groups.map(group => {
+        const total = group.suggestions.reduce((sum, suggestion) => sum + suggestion.quantity * (suggestion.unitCost ?? 0), 0);
+        const isRaising = raising === (group.supplierId || '');
+        return (
+          <View key={group.supplierId || 'none'} style={[styles.card, isDarkMode && styles.darkCard]}>
+            <Text style={[styles.rowTitle, isDarkMode && styles.darkText]}>{group.supplierName || 'No supplier'}</Text>
+            {group.suggestions.map(suggestion => (
+              <View key={suggestion.productId} style={styles.suggestion}>
+                <View style={styles.suggestionMain}>
+                  <Text style={[styles.productName, isDarkMode && styles.darkText]}>{suggestion.productName}</Text>
+                  <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+                    {suggestion.stock} in stock
+                    {suggestion.onOrder > 0 ? ` · ${suggestion.onOrder} on order` : ''}
+                    {' · '}{suggestion.dailySales}/day
+                    {suggestion.daysOfCover !== null ? ` · ${suggestion.daysOfCover} day(s) left` : ''}
+                    {suggestion.supplierSku ? ` · SKU ${suggestion.supplierSku}` : ''}
+                  </Text>
+                </View>
+                <Text style={[styles.quantity, isDarkMode && styles.darkText]}>
+                  {suggestion.quantity}{suggestion.packSize ? ` (${suggestion.quantity / suggestion.packSize} x ${suggestion.packSize})` : ''}
+                </Text>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={[styles.button, (isRaising || raising !== null) && styles.disabledButton]}
+              onPress={() => raiseOrder(group)}
+              disabled={raising !== null}
+            >
+              {isRaising ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Raise Purchase Order · {formatCurrency(total, currency)}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 16,
+  },
+  darkContainer: {
+    backgroundColor: '#121212',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  darkCard: {
+    backgroundColor: '#1E1E1E',
+  },
+  alertCard: {
+    backgroundColor: '#fff3cd',
+  },
+  alertText: {
+    fontSize: 14,
+    color: '#856404',
+    marginBottom: 4,
+  },
+  dismissText: {
+    color: '#007bff',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 6,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  stock: {
+    fontSize: 14,
+    color: '#FF5733',
+  },
+  outOfStock: {
+    color: '#dc3545',
+    fontWeight: '600',
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  suggestionMain: {
+    flex: 1,
+  },
+  productName: {
+    fontSize: 15,
+    color: '#333',
+  },
+  quantity: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 12,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+    marginBottom: 4,
+  },
+  button: {
+    backgroundColor: '#28a745',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  darkText: {
+    color: '#fff',
+  },
+  darkSubText: {
+    color: '#aaa',
+  },
+});
@@ -101,6 +101,10 @@ export default function OfflineDebugPanel() {
 
   React.useEffect(() => {
     updateNetworkStatus();
+    return hybridSyncService.subscribe(() => {
+      setIsOnline(hybridSyncService.getSyncStatus().isOnline);
+      setSyncQueueLength(hybridSyncService.getSyncQueueLength());
+    }, ['connectivityChanged', 'itemFailed', 'itemDeadLettered', 'syncFinished']);
   }, []);
 
   return (
@@ -23,6 +23,8 @@ import { useOrganization } from '../contexts/OrganizationContext';
 import { useTheme } from '../app/ThemeContext';
 import { hybridSyncService } from '../services/HybridSyncService';
 import { ChargeReason } from '../types/firebase';
+import { COSTING_METHODS, CostingMethod, DEFAULT_COSTING_METHOD } from '../services/PurchaseOrders';
+import { DEFAULT_LOW_STOCK_LEVEL } from '../services/StockLevels';
 
 interface OrganizationSettingsProps {
   visible?: boolean;
@@ -45,6 +47,8 @@ export default function OrganizationSettings({ visible = true, onClose, onShowQR
   const [editingType, setEditingType] = useState(false);
   const [selectedCurrency, setSelectedCurrency] = useState('');
   const [selectedType, setSelectedType] = useState('');
+  const [editingLowStockLevel, setEditingLowStockLevel] = useState(false);
+  const [lowStockLevel, setLowStockLevel] = useState('');
   const [uploadingLogo, setUploadingLogo] = useState(false);
   const [showQRModal, setShowQRModal] = useState(false);
   
@@ -72,6 +76,7 @@ export default function OrganizationSettings({ visible = true, onClose, onShowQR
       setEditedName(organization.displayName || organization.name);
       setSelectedCurrency(organization.currency || 'GBP');
       setSelectedType(organization.type || 'tuck-shop');
+      setLowStockLevel(String(organization.settings?.lowStockAlertLevel ?? DEFAULT_LOW_STOCK_LEVEL));
     }
   }, [organization]);
 
@@ -340,6 +345,46 @@ export default function OrganizationSettings({ visible = true, onClose, onShowQR
     }
   };
 
+  const handleSaveCostingMethod = async (costingMethod: CostingMethod) => {
+    setLoading(true);
+    try {
+      await updateOrganization({
+        settings: {
+          ...organization.settings,
+          costingMethod,
+        },
+      });
+    } catch (error) {
+      console.error('Error updating costing method:', error);
+      Alert.alert('Error', 'Failed to update costing method');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveLowStockLevel = async () => {
+    const level = parseInt(lowStockLevel);
+    if (isNaN(level) || level < 0) {
+      Alert.alert('Error', 'Enter a stock level of 0 or more');
+      return;
+    }
+    setLoading(true);
+    try {
+      await updateOrganization({
+        settings: {
+          ...organization.settings,
+          lowStockAlertLevel: level,
+        },
+      });
+      setEditingLowStockLevel(false);
+    } catch (error) {
+      console.error('Error updating low stock level:', error);
+      Alert.alert('Error', 'Failed to update low stock level');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSaveType = async () => {
     setLoading(true);
     try {
@@ -865,6 +910,95 @@ export default function OrganizationSettings({ visible = true, onClose, onShowQR
 
 
 
+            {/* Stock Costing */}
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, isDarkMode && styles.darkText]}>
+                Stock Costing
+              </Text>
+              <Text style={[styles.sectionDescription, isDarkMode && styles.darkSubtext]}>
+                How received deliveries update product costs
+              </Text>
+              <View style={styles.pickerContainer}>
+                {(Object.keys(COSTING_METHODS) as CostingMethod[]).map((method) => {
+                  const selected = (organization.settings?.costingMethod || DEFAULT_COSTING_METHOD) === method;
+                  return (
+                    <TouchableOpacity
+                      key={method}
+                      style={[
+                        styles.pickerOption,
+                        selected && styles.pickerOptionSelected,
+                        isDarkMode && styles.darkPickerOption
+                      ]}
+                      onPress={() => !selected && handleSaveCostingMethod(method)}
+                      disabled={loading}
+                    >
+                      <Text style={[
+                        styles.pickerOptionText,
+                        selected && styles.pickerOptionTextSelected,
+                        isDarkMode && styles.darkText
+                      ]}>
+                        {COSTING_METHODS[method]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* Low Stock Alerts */}
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={[styles.sectionTitle, isDarkMode && styles.darkText]}>
+                  Low Stock Level
+                </Text>
+                {!editingLowStockLevel && (
+                  <TouchableOpacity onPress={() => setEditingLowStockLevel(true)}>
+                    <Icon name="pencil" size={20} color="#007bff" />
+                  </TouchableOpacity>
+                )}
+              </View>
+              <Text style={[styles.sectionDescription, isDarkMode && styles.darkSubtext]}>
+                Products without their own min stock are low at this level
+              </Text>
+
+              {editingLowStockLevel ? (
+                <View style={styles.editContainer}>
+                  <TextInput
+                    style={[styles.nameInput, isDarkMode && styles.darkInput]}
+                    value={lowStockLevel}
+                    onChangeText={(text) => setLowStockLevel(text.replace(/[^0-9]/g, ''))}
+                    keyboardType="number-pad"
+                    returnKeyType="done"
+                    onSubmitEditing={Keyboard.dismiss}
+                  />
+                  <View style={styles.editActions}>
+                    <TouchableOpacity
+                      style={[styles.cancelButton, isDarkMode && styles.darkCancelButton]}
+                      onPress={() => {
+                        setEditingLowStockLevel(false);
+                        setLowStockLevel(String(organization.settings?.lowStockAlertLevel ?? DEFAULT_LOW_STOCK_LEVEL));
+                      }}
+                    >
+                      <Text style={[styles.cancelButtonText, isDarkMode && styles.darkButtonText]}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.saveButton, isDarkMode && styles.darkSaveButton]}
+                      onPress={handleSaveLowStockLevel}
+                      disabled={loading}
+                    >
+                      <Text style={styles.saveButtonText}>{loading ? 'Saving...' : 'Save'}</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <View style={styles.currencyContainer}>
+                  <Text style={[styles.currencyText, isDarkMode && styles.darkText]}>
+                    {organization.settings?.lowStockAlertLevel ?? DEFAULT_LOW_STOCK_LEVEL} units
+                  </Text>
+                </View>
+              )}
+            </View>
+
             {/* QR Code */}
             <View style={styles.section}>
               <Text style={[styles.sectionTitle, isDarkMode && styles.darkText]}>
@@ -12,7 +12,11 @@ import {
   Keyboard,
   TouchableWithoutFeedback
 } from 'react-native';
+import { NavigationProp } from '@react-navigation/native';
 import { hybridSyncService } from '../services/HybridSyncService';
+import { MANUAL_STOCK_REASONS, STOCK_MOVEMENT_REASONS, StockMovementReason } from '../services/StockLedger';
+import { Supplier } from '../services/Suppliers';
+import { DEFAULT_LOW_STOCK_LEVEL, isLowStock, validateStockLevels } from '../services/StockLevels';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '../app/ThemeContext';
@@ -31,9 +35,18 @@ interface Product {
   description?: string;
   isActive?: boolean;
   organizationId?: string;
+  supplierId?: string | null;
+  supplierSku?: string | null;
+  packSize?: number | null;
+  minStockLevel?: number | null;
+  maxStockLevel?: number | null;
 }
 
-export default function ProductsPage() {
+interface ProductsPageProps {
+  navigation: NavigationProp<any>;
+}
+
+export default function ProductsPage({ navigation }: ProductsPageProps) {
   const [products, setProducts] = useState<Product[]>([]);
   const [name, setName] = useState<string>('');
   const [stock, setStock] = useState<string>('');
@@ -43,6 +56,17 @@ export default function ProductsPage() {
   const [showCustomCategory, setShowCustomCategory] = useState<boolean>(false);
   const [isEditing, setIsEditing] = useState<boolean>(false);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  // Why the stock count was changed while editing - recorded in the product's stock history
+  const [stockReason, setStockReason] = useState<StockMovementReason>('restock');
+  const [stockNote, setStockNote] = useState<string>('');
+  // Preferred supplier, their code for the product and the pack size it is ordered in
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierId, setSupplierId] = useState<string | null>(null);
+  const [supplierSku, setSupplierSku] = useState<string>('');
+  const [packSize, setPackSize] = useState<string>('');
+  // Low at min (blank uses the organization's level); reorders top up to max
+  const [minStockLevel, setMinStockLevel] = useState<string>('');
+  const [maxStockLevel, setMaxStockLevel] = useState<string>('');
 
   const predefinedCategories = ['General', 'Alcohol', 'Crisps', 'Soft Drinks', 'Chocolate', 'Sweets', 'Snacks', 'Custom'];
   const [isLoading, setIsLoading] = useState<boolean>(true);
@@ -50,6 +74,7 @@ export default function ProductsPage() {
   
   const { isDarkMode } = useTheme();
   const { organization } = useOrganization();
+  const lowStockLevel = organization?.settings?.lowStockAlertLevel ?? DEFAULT_LOW_STOCK_LEVEL;
 
   // Load products using offline-first architecture
   const loadProducts = async () => {
@@ -74,6 +99,32 @@ export default function ProductsPage() {
     }
   };
 
+  const loadSuppliers = async () => {
+    try {
+      const result = await hybridSyncService.getSuppliers();
+      setSuppliers(result.suppliers);
+    } catch (error) {
+      console.error('❌ ProductsPage: Error loading suppliers:', error);
+    }
+  };
+
+  // Supplier fields as stored on the product - null clears them
+  const supplierFields = () => ({
+    supplierId: supplierId || null,
+    supplierSku: supplierSku.trim() || null,
+    packSize: parseInt(packSize) > 1 ? parseInt(packSize) : null,
+  });
+
+  // Min/max stock levels as stored on the product - null when left blank
+  const stockLevelFields = () => {
+    const levels = {
+      minStockLevel: minStockLevel.trim() === '' ? null : parseInt(minStockLevel),
+      maxStockLevel: maxStockLevel.trim() === '' ? null : parseInt(maxStockLevel),
+    };
+    validateStockLevels(levels.minStockLevel, levels.maxStockLevel);
+    return levels;
+  };
+
   const updateNetworkStatus = async () => {
     const freshNetworkState = await hybridSyncService.refreshNetworkState();
     setIsOnline(freshNetworkState);
@@ -88,11 +139,21 @@ export default function ProductsPage() {
       return;
     }
 
+    let levels;
+    try {
+      levels = stockLevelFields();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+      return;
+    }
+
     const newProduct: Product = {
       name: name.trim(),
       stock: parseInt(stock),
       price: parseFloat(price),
       category: category.trim() || 'General',
+      ...supplierFields(),
+      ...levels,
       isActive: true,
       organizationId: organization?.id || 'unknown'
     };
@@ -110,6 +171,11 @@ export default function ProductsPage() {
       setStock('');
       setPrice('');
       setCategory('General');
+      setSupplierId(null);
+      setSupplierSku('');
+      setPackSize('');
+      setMinStockLevel('');
+      setMaxStockLevel('');
       
       Alert.alert('Success', 'Product added successfully');
     } catch (error) {
@@ -125,29 +191,43 @@ export default function ProductsPage() {
     const productToUpdate = products[editingIndex];
     if (!productToUpdate.id) return;
 
+    let levels;
+    try {
+      levels = stockLevelFields();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+      return;
+    }
+
     const updates = {
       name: name.trim(),
-      stock: parseInt(stock),
       price: parseFloat(price),
-      category: category.trim() || 'General'
+      category: category.trim() || 'General',
+      ...supplierFields(),
+      ...levels,
     };
+    // Stock changes go in as a movement with a reason, not as an overwrite of the count
+    const stockDelta = parseInt(stock) - (productToUpdate.stock ?? 0);
 
     try {
       // Use hybrid sync service
       await hybridSyncService.updateProduct(productToUpdate.id, updates);
+      if (stockDelta) {
+        await hybridSyncService.adjustStock({
+          productId: productToUpdate.id,
+          delta: stockDelta,
+          reason: stockReason,
+          note: stockNote,
+        });
+      }
       
       // Update local state immediately
       const updatedProducts = [...products];
-      updatedProducts[editingIndex] = { ...productToUpdate, ...updates };
+      updatedProducts[editingIndex] = { ...productToUpdate, ...updates, stock: parseInt(stock) };
       setProducts(updatedProducts);
       
       // Clear form and editing state
-      setName('');
-      setStock('');
-      setPrice('');
-      setCategory('General');
-      setIsEditing(false);
-      setEditingIndex(null);
+      cancelEdit();
       
       Alert.alert('Success', 'Product updated successfully');
     } catch (error) {
@@ -195,6 +275,13 @@ export default function ProductsPage() {
     setStock((product.stock ?? 0).toString());
     setPrice(product.price.toString());
     setCategory(product.category || 'General');
+    setSupplierId(product.supplierId || null);
+    setSupplierSku(product.supplierSku || '');
+    setPackSize(product.packSize ? product.packSize.toString() : '');
+    setMinStockLevel(typeof product.minStockLevel === 'number' ? product.minStockLevel.toString() : '');
+    setMaxStockLevel(typeof product.maxStockLevel === 'number' ? product.maxStockLevel.toString() : '');
+    setStockReason('restock');
+    setStockNote('');
     setIsEditing(true);
     setEditingIndex(index);
   };
@@ -204,12 +291,22 @@ export default function ProductsPage() {
     setStock('');
     setPrice('');
     setCategory('General');
+    setSupplierId(null);
+    setSupplierSku('');
+    setPackSize('');
+    setMinStockLevel('');
+    setMaxStockLevel('');
+    setStockNote('');
     setIsEditing(false);
     setEditingIndex(null);
   };
 
+  const editingStockChanged = editingIndex !== null && stock.trim() !== ''
+    && parseInt(stock) !== (products[editingIndex]?.stock ?? 0);
+
   useEffect(() => {
     loadProducts();
+    loadSuppliers();
     updateNetworkStatus();
     
     // Update network status every 2 seconds
@@ -225,15 +322,30 @@ export default function ProductsPage() {
       <View style={styles.productInfo}>
         <Text style={[styles.productName, isDarkMode && styles.darkText]}>{item.name}</Text>
         <Text style={[styles.productDetails, isDarkMode && styles.darkSubText]}>
-          Stock: {item.stock} • {formatCurrency(item.price, organization?.currency || 'GBP')}
+          Stock: {item.stock}
+          {isLowStock(item, lowStockLevel) && <Text style={styles.lowStockText}> (low)</Text>}
+          {' '}• {formatCurrency(item.price, organization?.currency || 'GBP')}
         </Text>
         {item.category && (
           <Text style={[styles.productCategory, isDarkMode && styles.darkSubText]}>
             {item.category}
           </Text>
         )}
+        {item.supplierId && (
+          <Text style={[styles.productCategory, isDarkMode && styles.darkSubText]}>
+            {suppliers.find(supplier => supplier.id === item.supplierId)?.name || 'Supplier'}
+            {item.supplierSku ? ` • SKU ${item.supplierSku}` : ''}
+            {item.packSize ? ` • Pack of ${item.packSize}` : ''}
+          </Text>
+        )}
       </View>
       <View style={styles.productActions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.historyButton]}
+          onPress={() => navigation.navigate('StockHistory', { productId: item.id, productName: item.name })}
+        >
+          <Icon name="history" size={16} color="#FFF" />
+        </TouchableOpacity>
         <TouchableOpacity
           style={[styles.actionButton, styles.editButton]}
           onPress={() => editProduct(index)}
@@ -288,6 +400,63 @@ export default function ProductsPage() {
           returnKeyType="next"
           onSubmitEditing={Keyboard.dismiss}
         />
+        <View style={styles.inputRow}>
+          <TextInput
+            style={[styles.input, styles.halfInput, isDarkMode && styles.darkInput]}
+            placeholder={`Min stock (${lowStockLevel})`}
+            placeholderTextColor={isDarkMode ? '#888' : '#666'}
+            value={minStockLevel}
+            onChangeText={(text) => setMinStockLevel(text.replace(/[^0-9]/g, ''))}
+            keyboardType="number-pad"
+            returnKeyType="done"
+            onSubmitEditing={Keyboard.dismiss}
+          />
+          <TextInput
+            style={[styles.input, styles.halfInput, isDarkMode && styles.darkInput]}
+            placeholder="Max stock"
+            placeholderTextColor={isDarkMode ? '#888' : '#666'}
+            value={maxStockLevel}
+            onChangeText={(text) => setMaxStockLevel(text.replace(/[^0-9]/g, ''))}
+            keyboardType="number-pad"
+            returnKeyType="done"
+            onSubmitEditing={Keyboard.dismiss}
+          />
+        </View>
+        {editingStockChanged && (
+          <View style={styles.categoryContainer}>
+            <Text style={[styles.label, isDarkMode && styles.darkText]}>Reason for stock change</Text>
+            <View style={styles.reasonRow}>
+              {MANUAL_STOCK_REASONS.map(reason => (
+                <TouchableOpacity
+                  key={reason}
+                  style={[
+                    styles.categoryOption,
+                    stockReason === reason && styles.selectedCategory,
+                    isDarkMode && styles.darkCategoryOption
+                  ]}
+                  onPress={() => setStockReason(reason)}
+                >
+                  <Text style={[
+                    styles.categoryOptionText,
+                    stockReason === reason && styles.selectedCategoryText,
+                    isDarkMode && styles.darkText
+                  ]}>
+                    {STOCK_MOVEMENT_REASONS[reason]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={[styles.input, isDarkMode && styles.darkInput]}
+              placeholder="Note (optional)"
+              placeholderTextColor={isDarkMode ? '#888' : '#666'}
+              value={stockNote}
+              onChangeText={setStockNote}
+              returnKeyType="done"
+              onSubmitEditing={Keyboard.dismiss}
+            />
+          </View>
+        )}
         <TextInput
           style={[styles.input, isDarkMode && styles.darkInput]}
           placeholder={`Price (${getCurrencySymbol(organization?.currency || 'GBP')})`}
@@ -349,6 +518,57 @@ export default function ProductsPage() {
           )}
         </View>
 
+        {suppliers.length > 0 && (
+          <View style={styles.categoryContainer}>
+            <Text style={[styles.label, isDarkMode && styles.darkText]}>Supplier</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.categoryScroll}>
+              {[{ id: null, name: 'None' }, ...suppliers].map((supplier) => (
+                <TouchableOpacity
+                  key={supplier.id || 'none'}
+                  style={[
+                    styles.categoryOption,
+                    supplierId === supplier.id && styles.selectedCategory,
+                    isDarkMode && styles.darkCategoryOption
+                  ]}
+                  onPress={() => setSupplierId(supplier.id)}
+                >
+                  <Text style={[
+                    styles.categoryOptionText,
+                    supplierId === supplier.id && styles.selectedCategoryText,
+                    isDarkMode && styles.darkText
+                  ]}>
+                    {supplier.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+        {supplierId && (
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, styles.halfInput, isDarkMode && styles.darkInput]}
+              placeholder="Supplier SKU"
+              placeholderTextColor={isDarkMode ? '#888' : '#666'}
+              value={supplierSku}
+              onChangeText={setSupplierSku}
+              autoCapitalize="characters"
+              returnKeyType="done"
+              onSubmitEditing={Keyboard.dismiss}
+            />
+            <TextInput
+              style={[styles.input, styles.halfInput, isDarkMode && styles.darkInput]}
+              placeholder="Pack size"
+              placeholderTextColor={isDarkMode ? '#888' : '#666'}
+              value={packSize}
+              onChangeText={(text) => setPackSize(text.replace(/[^0-9]/g, ''))}
+              keyboardType="number-pad"
+              returnKeyType="done"
+              onSubmitEditing={Keyboard.dismiss}
+            />
+          </View>
+        )}
+
         <View style={styles.buttonRow}>
           {isEditing ? (
             <>
@@ -527,6 +747,9 @@ const styles = StyleSheet.create({
     borderRadius: 6,
     marginLeft: 8,
   },
+  historyButton: {
+    backgroundColor: '#607D8B',
+  },
   editButton: {
     backgroundColor: '#2196F3',
   },
@@ -558,6 +781,21 @@ const styles = StyleSheet.create({
   categoryScroll: {
     flexGrow: 0,
   },
+  reasonRow: {
+    flexDirection: 'row',
+    marginBottom: 10,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  halfInput: {
+    flex: 1,
+  },
+  lowStockText: {
+    color: '#FF5733',
+    fontWeight: '600',
+  },
   categoryOption: {
     paddingHorizontal: 16,
     paddingVertical: 8,
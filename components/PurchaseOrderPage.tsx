@@ -0,0 +1,612 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { NavigationProp, RouteProp, useRoute } from '@react-navigation/native';
+import { hybridSyncService } from '../services/HybridSyncService';
+import {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  GoodsReceipt,
+  CostingMethod,
+  COSTING_METHODS,
+  PURCHASE_ORDER_PROGRESS,
+  purchaseOrderLineStatus,
+  purchaseOrderProgress,
+} from '../services/PurchaseOrders';
+import { Supplier } from '../services/Suppliers';
+import { useOverlayCollection } from '../hooks/useOverlayStore';
+import { useTheme } from '../app/ThemeContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { formatCurrency } from '../utils/currency';
+
+type PurchaseOrderRoute = RouteProp<{ PurchaseOrder: { purchaseOrderId?: string } | undefined }, 'PurchaseOrder'>;
+
+type DraftLine = {
+  productId: string;
+  productName: string;
+  quantity: string;
+  unitCost: string;
+  supplierSku?: string | null;
+  packSize?: number | null;
+};
+
+const parseCost = (value: string): number => (value.trim() === '' ? NaN : Number(value.replace(',', '.')));
+
+/**
+ * Raise a purchase order, or view one and receive deliveries against it
+ */
+export default function PurchaseOrderPage({ navigation }: { navigation: NavigationProp<any> }) {
+  const purchaseOrderId = useRoute<PurchaseOrderRoute>().params?.purchaseOrderId;
+  const { isDarkMode } = useTheme();
+  const { user } = useAuth();
+  const { organization } = useOrganization();
+  const currency = organization?.currency || 'GBP';
+  const staffName = user?.displayName || user?.email || undefined;
+  const { items: products } = useOverlayCollection('products');
+
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [costingMethod, setCostingMethod] = useState<CostingMethod | null>(null);
+  const [loading, setLoading] = useState(!!purchaseOrderId);
+  const [saving, setSaving] = useState(false);
+
+  // New order
+  const [reference, setReference] = useState('');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierId, setSupplierId] = useState<string | null>(null);
+  const [supplierName, setSupplierName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [search, setSearch] = useState('');
+  const [draftLines, setDraftLines] = useState<DraftLine[]>([]);
+
+  // Receiving
+  const [delivered, setDelivered] = useState<Record<string, { quantity: string; unitCost: string }>>({});
+  const [receiptNote, setReceiptNote] = useState('');
+
+  const loadOrder = useCallback(async () => {
+    if (!purchaseOrderId) return;
+    try {
+      const purchasing = await hybridSyncService.getPurchasing();
+      setOrder(purchasing.orders.find(candidate => candidate.id === purchaseOrderId) || null);
+      setReceipts(purchasing.receipts.filter(receipt => receipt.purchaseOrderId === purchaseOrderId));
+      setCostingMethod(await hybridSyncService.getCostingMethod());
+    } catch (error) {
+      console.error('❌ Failed to load purchase order:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [purchaseOrderId]);
+
+  useEffect(() => {
+    loadOrder();
+  }, [loadOrder]);
+
+  useEffect(() => {
+    if (purchaseOrderId) return;
+    hybridSyncService.getSuppliers()
+      .then(result => setSuppliers(result.suppliers))
+      .catch(error => console.error('❌ Failed to load suppliers:', error));
+  }, [purchaseOrderId]);
+
+  const searchResults = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    const added = new Set(draftLines.map(line => line.productId));
+    return products
+      .filter((product: any) => product.isActive !== false && !added.has(product.id))
+      .filter((product: any) => product.name?.toLowerCase().includes(term))
+      .slice(0, 8);
+  }, [products, search, draftLines]);
+
+  // The chosen supplier's products that aren't on the order yet
+  const supplierProducts = useMemo(() => {
+    if (!supplierId) return [];
+    const added = new Set(draftLines.map(line => line.productId));
+    return products.filter((product: any) => product.isActive !== false && product.supplierId === supplierId && !added.has(product.id));
+  }, [products, supplierId, draftLines]);
+
+  const lineStatus = useMemo(() => (order ? purchaseOrderLineStatus(order, receipts) : []), [order, receipts]);
+
+  const addDraftLine = (product: any) => {
+    setDraftLines(prev => [
+      ...prev,
+      {
+        productId: product.id,
+        productName: product.name,
+        quantity: product.packSize ? String(product.packSize) : '',
+        unitCost: typeof product.cost === 'number' ? String(product.cost) : '',
+        supplierSku: product.supplierSku || null,
+        packSize: product.packSize || null,
+      },
+    ]);
+    setSearch('');
+  };
+
+  const updateDraftLine = (productId: string, field: 'quantity' | 'unitCost', value: string) => {
+    setDraftLines(prev => prev.map(line => (line.productId === productId ? { ...line, [field]: value } : line)));
+  };
+
+  const handleCreate = async () => {
+    const lines: PurchaseOrderLine[] = draftLines.map(line => ({
+      productId: line.productId,
+      productName: line.productName,
+      quantity: Number(line.quantity),
+      unitCost: parseCost(line.unitCost),
+    }));
+    try {
+      setSaving(true);
+      const supplier = suppliers.find(candidate => candidate.id === supplierId);
+      const created = await hybridSyncService.createPurchaseOrder({
+        lines,
+        reference,
+        supplierId: supplier?.id || null,
+        supplierName: supplier?.name || supplierName,
+        notes,
+        staffName,
+      });
+      Alert.alert('Purchase Order Raised', created.reference);
+      navigation.goBack();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to raise the purchase order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fillOutstanding = () => {
+    setDelivered(Object.fromEntries(lineStatus
+      .filter(line => line.outstanding > 0)
+      .map(line => [line.productId, { quantity: String(line.outstanding), unitCost: String(line.unitCost) }])));
+  };
+
+  const handleReceive = async () => {
+    if (!order) return;
+    const entries = Object.entries(delivered)
+      .filter(([, entry]) => entry.quantity.trim() !== '')
+      .map(([productId, entry]) => ({
+        productId,
+        quantity: Number(entry.quantity),
+        unitCost: entry.unitCost.trim() === '' ? undefined : parseCost(entry.unitCost),
+      }));
+    try {
+      setSaving(true);
+      const receipt = await hybridSyncService.receiveGoods({
+        purchaseOrderId: order.id,
+        delivered: entries,
+        note: receiptNote,
+        staffName,
+      });
+      setDelivered({});
+      setReceiptNote('');
+      await loadOrder();
+      Alert.alert('Delivery Recorded', `${receipt.lines.reduce((sum, line) => sum + line.quantity, 0)} unit(s) added to stock.`);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to record the delivery');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = (status: 'closed' | 'cancelled') => {
+    if (!order) return;
+    const message = status === 'cancelled'
+      ? `Cancel ${order.reference}? Nothing has been received against it.`
+      : `Close ${order.reference}? Anything still outstanding is no longer expected.`;
+    Alert.alert(status === 'cancelled' ? 'Cancel Order' : 'Close Order', message, [
+      { text: 'Back', style: 'cancel' },
+      {
+        text: status === 'cancelled' ? 'Cancel Order' : 'Close Order',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setOrder(await hybridSyncService.closePurchaseOrder(order.id, status));
+          } catch (error: any) {
+            Alert.alert('Error', error?.message || 'Failed to update the purchase order');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered, isDarkMode && styles.darkContainer]}>
+        <ActivityIndicator size="large" color="#007bff" />
+      </View>
+    );
+  }
+
+  const inputStyle = [styles.input, isDarkMode && styles.darkInput];
+  const placeholderColor = isDarkMode ? '#888' : '#999';
+
+  // ---- New purchase order ----
+  if (!purchaseOrderId) {
+    const total = draftLines.reduce((sum, line) => sum + (Number(line.quantity) || 0) * (parseCost(line.unitCost) || 0), 0);
+    return (
+      <ScrollView style={[styles.container, isDarkMode && styles.darkContainer]} keyboardShouldPersistTaps="handled">
+        <TextInput style={inputStyle} value={reference} onChangeText={setReference} placeholder="Reference (optional)" placeholderTextColor={placeholderColor} />
+        {suppliers.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+            {suppliers.map(supplier => (
+              <TouchableOpacity
+                key={supplier.id}
+                style={[styles.chip, supplierId === supplier.id && styles.selectedChip, isDarkMode && styles.darkChip]}
+                onPress={() => setSupplierId(supplierId === supplier.id ? null : supplier.id)}
+              >
+                <Text style={[styles.chipText, supplierId === supplier.id && styles.selectedChipText, isDarkMode && styles.darkText]}>
+                  {supplier.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+        {!supplierId && (
+          <TextInput style={inputStyle} value={supplierName} onChangeText={setSupplierName} placeholder="Supplier (not in the directory)" placeholderTextColor={placeholderColor} />
+        )}
+        <TextInput style={inputStyle} value={notes} onChangeText={setNotes} placeholder="Notes" placeholderTextColor={placeholderColor} />
+
+        <Text style={[styles.sectionTitle, isDarkMode && styles.darkText]}>Products</Text>
+        {draftLines.map(line => (
+          <View key={line.productId} style={[styles.card, isDarkMode && styles.darkCard]}>
+            <View style={styles.cardHeader}>
+              <Text style={[styles.productName, isDarkMode && styles.darkText]}>{line.productName}</Text>
+              <TouchableOpacity onPress={() => setDraftLines(prev => prev.filter(l => l.productId !== line.productId))}>
+                <Text style={styles.removeText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+            {(line.supplierSku || line.packSize) && (
+              <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+                {line.supplierSku ? `SKU ${line.supplierSku}` : ''}
+                {line.supplierSku && line.packSize ? ' · ' : ''}
+                {line.packSize ? `Pack of ${line.packSize}` : ''}
+              </Text>
+            )}
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[inputStyle, styles.halfInput]}
+                value={line.quantity}
+                onChangeText={text => updateDraftLine(line.productId, 'quantity', text.replace(/[^0-9]/g, ''))}
+                keyboardType="number-pad"
+                placeholder="Quantity"
+                placeholderTextColor={placeholderColor}
+              />
+              <TextInput
+                style={[inputStyle, styles.halfInput]}
+                value={line.unitCost}
+                onChangeText={text => updateDraftLine(line.productId, 'unitCost', text)}
+                keyboardType="decimal-pad"
+                placeholder="Unit cost"
+                placeholderTextColor={placeholderColor}
+              />
+            </View>
+          </View>
+        ))}
+
+        {supplierProducts.length > 0 && (
+          <>
+            <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>From this supplier</Text>
+            {supplierProducts.map((product: any) => (
+              <TouchableOpacity key={product.id} style={[styles.searchResult, isDarkMode && styles.darkCard]} onPress={() => addDraftLine(product)}>
+                <Text style={[styles.productName, isDarkMode && styles.darkText]}>{product.name}</Text>
+                <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+                  In stock: {product.stock ?? 0}{product.supplierSku ? ` · SKU ${product.supplierSku}` : ''}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </>
+        )}
+        <TextInput style={inputStyle} value={search} onChangeText={setSearch} placeholder="Search products to add" placeholderTextColor={placeholderColor} />
+        {searchResults.map((product: any) => (
+          <TouchableOpacity key={product.id} style={[styles.searchResult, isDarkMode && styles.darkCard]} onPress={() => addDraftLine(product)}>
+            <Text style={[styles.productName, isDarkMode && styles.darkText]}>{product.name}</Text>
+            <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>In stock: {product.stock ?? 0}</Text>
+          </TouchableOpacity>
+        ))}
+
+        <Text style={[styles.total, isDarkMode && styles.darkText]}>Order total: {formatCurrency(total, currency)}</Text>
+        <TouchableOpacity
+          style={[styles.button, styles.primaryButton, (saving || draftLines.length === 0) && styles.disabledButton]}
+          onPress={handleCreate}
+          disabled={saving || draftLines.length === 0}
+        >
+          {saving ? <ActivityIndicator size="small" color="#fff" /> : <Text style={styles.buttonText}>Raise Purchase Order</Text>}
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  }
+
+  if (!order) {
+    return (
+      <View style={[styles.container, styles.centered, isDarkMode && styles.darkContainer]}>
+        <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>This purchase order could not be found on this device.</Text>
+      </View>
+    );
+  }
+
+  // ---- Existing order ----
+  const progress = purchaseOrderProgress(order, receipts);
+  const canReceive = order.status === 'open' && lineStatus.some(line => line.outstanding > 0);
+
+  return (
+    <ScrollView style={[styles.container, isDarkMode && styles.darkContainer]} keyboardShouldPersistTaps="handled">
+      <View style={[styles.card, isDarkMode && styles.darkCard]}>
+        <Text style={[styles.title, isDarkMode && styles.darkText]}>{order.reference}</Text>
+        <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+          {order.supplierName ? `${order.supplierName} · ` : ''}Raised {new Date(order.raisedAt).toLocaleDateString()}
+          {order.raisedBy ? ` by ${order.raisedBy}` : ''}
+        </Text>
+        <Text style={[styles.status, isDarkMode && styles.darkText]}>{PURCHASE_ORDER_PROGRESS[progress]}</Text>
+        {order.notes ? <Text style={[styles.note, isDarkMode && styles.darkSubText]}>{order.notes}</Text> : null}
+      </View>
+
+      <Text style={[styles.sectionTitle, isDarkMode && styles.darkText]}>Lines</Text>
+      {lineStatus.map(line => (
+        <View key={line.productId} style={[styles.card, isDarkMode && styles.darkCard]}>
+          <View style={styles.cardHeader}>
+            <Text style={[styles.productName, isDarkMode && styles.darkText]}>{line.productName}</Text>
+            <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>{formatCurrency(line.unitCost, currency)} each</Text>
+          </View>
+          <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+            Ordered {line.quantity} · received {line.received} · outstanding {line.outstanding}
+          </Text>
+          {canReceive && line.outstanding > 0 && (
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[inputStyle, styles.halfInput]}
+                value={delivered[line.productId]?.quantity ?? ''}
+                onChangeText={text => setDelivered(prev => ({
+                  ...prev,
+                  [line.productId]: { unitCost: prev[line.productId]?.unitCost ?? String(line.unitCost), quantity: text.replace(/[^0-9]/g, '') },
+                }))}
+                keyboardType="number-pad"
+                placeholder="Delivered"
+                placeholderTextColor={placeholderColor}
+              />
+              <TextInput
+                style={[inputStyle, styles.halfInput]}
+                value={delivered[line.productId]?.unitCost ?? String(line.unitCost)}
+                onChangeText={text => setDelivered(prev => ({
+                  ...prev,
+                  [line.productId]: { quantity: prev[line.productId]?.quantity ?? '', unitCost: text },
+                }))}
+                keyboardType="decimal-pad"
+                placeholder="Unit cost"
+                placeholderTextColor={placeholderColor}
+              />
+            </View>
+          )}
+        </View>
+      ))}
+
+      {canReceive && (
+        <View>
+          <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+            Product costs are updated by {costingMethod ? COSTING_METHODS[costingMethod].toLowerCase() : 'the costing rule'}.
+          </Text>
+          <TextInput style={inputStyle} value={receiptNote} onChangeText={setReceiptNote} placeholder="Delivery note (optional)" placeholderTextColor={placeholderColor} />
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={fillOutstanding}>
+              <Text style={styles.buttonText}>Fill Outstanding</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.primaryButton, saving && styles.disabledButton]}
+              onPress={handleReceive}
+              disabled={saving}
+            >
+              {saving ? <ActivityIndicator size="small" color="#fff" /> : <Text style={styles.buttonText}>Record Delivery</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {receipts.length > 0 && (
+        <>
+          <Text style={[styles.sectionTitle, isDarkMode && styles.darkText]}>Deliveries</Text>
+          {receipts.map(receipt => (
+            <View key={receipt.id} style={[styles.card, isDarkMode && styles.darkCard]}>
+              <Text style={[styles.productName, isDarkMode && styles.darkText]}>
+                {new Date(receipt.receivedAt).toLocaleString()}
+                {receipt.receivedBy ? ` · ${receipt.receivedBy}` : ''}
+              </Text>
+              {receipt.lines.map(line => (
+                <Text key={line.productId} style={[styles.meta, isDarkMode && styles.darkSubText]}>
+                  {line.quantity} × {line.productName} at {formatCurrency(line.unitCost, currency)}
+                  {line.newCost !== line.previousCost
+                    ? ` · cost ${line.previousCost === null ? 'set to' : `${formatCurrency(line.previousCost, currency)} →`} ${formatCurrency(line.newCost, currency)}`
+                    : ''}
+                </Text>
+              ))}
+              {receipt.note ? <Text style={[styles.note, isDarkMode && styles.darkSubText]}>{receipt.note}</Text> : null}
+            </View>
+          ))}
+        </>
+      )}
+
+      {order.status === 'open' && (
+        <View style={styles.buttonRow}>
+          {receipts.length > 0 ? (
+            <TouchableOpacity style={[styles.button, styles.dangerButton]} onPress={() => handleClose('closed')}>
+              <Text style={styles.buttonText}>Close Short</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={[styles.button, styles.dangerButton]} onPress={() => handleClose('cancelled')}>
+              <Text style={styles.buttonText}>Cancel Order</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 16,
+  },
+  darkContainer: {
+    backgroundColor: '#121212',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  darkCard: {
+    backgroundColor: '#1E1E1E',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  status: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 6,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  productName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  note: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    marginVertical: 6,
+    fontSize: 16,
+    color: '#333',
+    backgroundColor: '#fff',
+  },
+  darkInput: {
+    borderColor: '#555',
+    backgroundColor: '#333',
+    color: '#fff',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  halfInput: {
+    flex: 1,
+  },
+  searchResult: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 4,
+  },
+  chipRow: {
+    marginVertical: 6,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+    marginRight: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#007bff',
+    borderColor: '#007bff',
+  },
+  darkChip: {
+    backgroundColor: '#333',
+    borderColor: '#555',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  selectedChipText: {
+    color: '#fff',
+  },
+  removeText: {
+    color: '#dc3545',
+    fontSize: 14,
+  },
+  total: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 24,
+  },
+  button: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#28a745',
+  },
+  secondaryButton: {
+    backgroundColor: '#007bff',
+  },
+  dangerButton: {
+    backgroundColor: '#dc3545',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  darkText: {
+    color: '#fff',
+  },
+  darkSubText: {
+    color: '#aaa',
+  },
+});
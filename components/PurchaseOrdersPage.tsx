@@ -0,0 +1,196 @@
+import React, { useCallback, useState } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, ActivityIndicator, RefreshControl } from 'react-native';
+import { NavigationProp, useFocusEffect } from '@react-navigation/native';
+import { hybridSyncService } from '../services/HybridSyncService';
+import {
+  PurchaseOrder,
+  GoodsReceipt,
+  PurchaseOrderProgress,
+  PURCHASE_ORDER_PROGRESS,
+  purchaseOrderProgress,
+} from '../services/PurchaseOrders';
+import { useTheme } from '../app/ThemeContext';
+
+const PROGRESS_COLORS: Record<PurchaseOrderProgress, string> = {
+  open: '#007bff',
+  partial: '#f39c12',
+  received: '#28a745',
+  closed: '#6c757d',
+  cancelled: '#dc3545',
+};
+
+/**
+ * Purchase orders with how much of each has been delivered
+ */
+export default function PurchaseOrdersPage({ navigation }: { navigation: NavigationProp<any> }) {
+  const { isDarkMode } = useTheme();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [fromCache, setFromCache] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadOrders = useCallback(async () => {
+    try {
+      const purchasing = await hybridSyncService.getPurchasing();
+      setOrders(purchasing.orders);
+      setReceipts(purchasing.receipts);
+      setFromCache(purchasing.fromCache);
+    } catch (error) {
+      console.error('❌ Failed to load purchase orders:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadOrders();
+    }, [loadOrders])
+  );
+
+  const renderOrder = ({ item }: { item: PurchaseOrder }) => {
+    const progress = purchaseOrderProgress(item, receipts);
+    const units = item.lines.reduce((sum, line) => sum + line.quantity, 0);
+    return (
+      <TouchableOpacity
+        style={[styles.order, isDarkMode && styles.darkOrder]}
+        onPress={() => navigation.navigate('PurchaseOrder', { purchaseOrderId: item.id })}
+      >
+        <View style={styles.orderMain}>
+          <Text style={[styles.reference, isDarkMode && styles.darkText]}>{item.reference}</Text>
+          <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+            {item.supplierName ? `${item.supplierName} · ` : ''}
+            {new Date(item.raisedAt).toLocaleDateString()} · {item.lines.length} product(s), {units} unit(s)
+          </Text>
+        </View>
+        <Text style={[styles.progress, { color: PROGRESS_COLORS[progress] }]}>
+          {PURCHASE_ORDER_PROGRESS[progress]}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered, isDarkMode && styles.darkContainer]}>
+        <ActivityIndicator size="large" color="#007bff" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, isDarkMode && styles.darkContainer]}>
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.newButton} onPress={() => navigation.navigate('PurchaseOrder')}>
+          <Text style={styles.newButtonText}>New Purchase Order</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.newButton, styles.suppliersButton]} onPress={() => navigation.navigate('Suppliers')}>
+          <Text style={styles.newButtonText}>Suppliers</Text>
+        </TouchableOpacity>
+      </View>
+      {fromCache && (
+        <Text style={styles.warning}>Offline - orders are from the last time this was opened online.</Text>
+      )}
+
+      <FlatList
+        data={orders}
+        renderItem={renderOrder}
+        keyExtractor={item => item.id}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadOrders();
+            }}
+          />
+        }
+        ListEmptyComponent={
+          <Text style={[styles.empty, isDarkMode && styles.darkSubText]}>No purchase orders yet.</Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 16,
+  },
+  darkContainer: {
+    backgroundColor: '#121212',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  newButton: {
+    flex: 1,
+    backgroundColor: '#28a745',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  suppliersButton: {
+    backgroundColor: '#007bff',
+  },
+  newButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  warning: {
+    fontSize: 12,
+    color: '#e67e22',
+    marginBottom: 8,
+  },
+  order: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  darkOrder: {
+    backgroundColor: '#1E1E1E',
+  },
+  orderMain: {
+    flex: 1,
+  },
+  reference: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  progress: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 12,
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 24,
+  },
+  darkText: {
+    color: '#fff',
+  },
+  darkSubText: {
+    color: '#aaa',
+  },
+});
@@ -5,6 +5,7 @@ import { useTheme } from '../app/ThemeContext';
 import { useIsFocused } from '@react-navigation/native';
 import { useOrganization } from '../contexts/OrganizationContext';
 import { formatCurrency } from '../utils/currency';
+import { isCancelledAssignment } from '../utils/assignmentLines';
 
 const { width } = Dimensions.get('window');
 
@@ -34,6 +35,8 @@ export default function ReportsPage() {
       const dateGroups: { [date: string]: any[] } = {};
       
       assignments.forEach((assignment: any) => {
+        if (isCancelledAssignment(assignment)) return; // Voided sales don't count
+
         // Extract just the date part from timestamp/date field
         let dateOnly: string;
         try {
@@ -0,0 +1,490 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  Dimensions,
+} from 'react-native';
+import { RouteProp, useRoute } from '@react-navigation/native';
+import { hybridSyncService } from '../services/HybridSyncService';
+import {
+  StockTakeSession,
+  StockTakeReport,
+  FinishedStockTake,
+  buildVarianceReport,
+  countedTotal,
+} from '../services/StockTakeSessions';
+import { useOverlayCollection } from '../hooks/useOverlayStore';
+import { useTheme } from '../app/ThemeContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { formatCurrency } from '../utils/currency';
+
+const { width } = Dimensions.get('window');
+
+type StockCountRoute = RouteProp<{ StockCount: { stockTakeId?: string } | undefined }, 'StockCount'>;
+
+/**
+ * Variance table for a session under review or a finished stock take
+ */
+const StockTakeReportView = ({ report, currency, isDarkMode }: { report: StockTakeReport; currency: string; isDarkMode: boolean }) => (
+  <View>
+    <View style={[styles.summary, isDarkMode && styles.darkCard]}>
+      <Text style={[styles.summaryText, isDarkMode && styles.darkText]}>
+        {report.productsCounted} counted · {report.productsWithVariance} with a variance
+      </Text>
+      <Text style={[styles.summaryText, isDarkMode && styles.darkText]}>
+        {report.unitsOver} over · {report.unitsShort} short · net {formatCurrency(report.netVarianceValue, currency)}
+      </Text>
+    </View>
+    {report.lines.map(line => (
+      <View key={line.productId} style={[styles.row, isDarkMode && styles.darkRow]}>
+        <View style={styles.rowMain}>
+          <Text style={[styles.productName, isDarkMode && styles.darkText]}>{line.productName}</Text>
+          <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+            Expected {line.expected} · counted {line.counted}
+            {line.countedBy.length > 0 ? ` · by ${line.countedBy.join(', ')}` : ''}
+          </Text>
+        </View>
+        <View style={styles.rowSide}>
+          <Text style={[styles.variance, line.variance < 0 ? styles.negative : line.variance > 0 ? styles.positive : styles.neutral]}>
+            {line.variance > 0 ? `+${line.variance}` : line.variance}
+          </Text>
+          {line.variance !== 0 && (
+            <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>{formatCurrency(line.varianceValue, currency)}</Text>
+          )}
+        </View>
+      </View>
+    ))}
+  </View>
+);
+
+/**
+ * Stock-take counting: start a session, count products (several staff can count on this
+ * device), review the variances and commit them as one rebase bundle. Opened with a
+ * stockTakeId it shows that finished stock take's report.
+ */
+export default function StockCountPage() {
+  const stockTakeId = useRoute<StockCountRoute>().params?.stockTakeId;
+  const { isDarkMode } = useTheme();
+  const { user } = useAuth();
+  const { organization } = useOrganization();
+  const currency = organization?.currency || 'GBP';
+  const { items: products } = useOverlayCollection('products');
+
+  const [session, setSession] = useState<StockTakeSession | null>(null);
+  const [finished, setFinished] = useState<FinishedStockTake | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [staffName, setStaffName] = useState(user?.displayName || user?.email || '');
+  const [search, setSearch] = useState('');
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [reviewing, setReviewing] = useState(false);
+  const [committing, setCommitting] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      if (stockTakeId) {
+        const history = await hybridSyncService.getStockTakeHistory();
+        setFinished(history.find(entry => entry.id === stockTakeId) || null);
+      } else {
+        setSession(await hybridSyncService.getStockTakeSession());
+      }
+    } catch (error) {
+      console.error('❌ Failed to load stock take:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [stockTakeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const activeProducts = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return products
+      .filter((product: any) => product.isActive !== false)
+      .filter((product: any) => !term || product.name?.toLowerCase().includes(term))
+      .sort((a: any, b: any) => (a.name || '').localeCompare(b.name || ''));
+  }, [products, search]);
+
+  const report = useMemo(
+    () => (session && reviewing ? buildVarianceReport(session, products) : null),
+    [session, reviewing, products]
+  );
+
+  const requireStaffName = (): string | null => {
+    const name = staffName.trim();
+    if (!name) {
+      Alert.alert('Name required', 'Enter who is counting.');
+      return null;
+    }
+    return name;
+  };
+
+  const startSession = async () => {
+    const name = requireStaffName();
+    if (!name) return;
+    try {
+      setSession(await hybridSyncService.startStockTakeSession(name));
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to start the stock take');
+    }
+  };
+
+  const saveCount = async (productId: string) => {
+    const name = requireStaffName();
+    const draft = drafts[productId];
+    if (!name || draft === undefined || draft.trim() === '') return;
+    try {
+      setSession(await hybridSyncService.recordStockTakeCount(productId, Number(draft), name));
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[productId];
+        return next;
+      });
+    } catch (error: any) {
+      Alert.alert('Invalid count', error?.message || 'Failed to save the count');
+    }
+  };
+
+  const clearCount = async (productId: string) => {
+    setSession(await hybridSyncService.removeStockTakeCount(productId, staffName.trim() || undefined));
+  };
+
+  const cancelSession = () => {
+    Alert.alert('Cancel Stock Take', 'Discard every count in this stock take?', [
+      { text: 'Keep Counting', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: async () => {
+          await hybridSyncService.cancelStockTakeSession();
+          setSession(null);
+          setReviewing(false);
+        },
+      },
+    ]);
+  };
+
+  const commitSession = async () => {
+    const name = requireStaffName();
+    if (!name) return;
+    try {
+      setCommitting(true);
+      const result = await hybridSyncService.commitStockTakeSession(name);
+      setFinished(result);
+      setSession(null);
+      setReviewing(false);
+      Alert.alert(
+        'Stock Take Committed',
+        `${result.report.productsWithVariance} product(s) adjusted. Sales made during the count are kept.`
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to commit the stock take');
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered, isDarkMode && styles.darkContainer]}>
+        <ActivityIndicator size="large" color="#007bff" />
+      </View>
+    );
+  }
+
+  // Finished stock take - just the report
+  if (finished) {
+    return (
+      <View style={[styles.container, isDarkMode && styles.darkContainer]}>
+        <FlatList
+          data={[finished]}
+          keyExtractor={item => item.id}
+          renderItem={({ item }) => (
+            <View>
+              <Text style={[styles.title, isDarkMode && styles.darkText]}>
+                Stock take {new Date(item.finishedAt).toLocaleString()}
+              </Text>
+              <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+                Started by {item.startedBy} · finished by {item.finishedBy}
+              </Text>
+              <StockTakeReportView report={item.report} currency={currency} isDarkMode={isDarkMode} />
+            </View>
+          )}
+        />
+      </View>
+    );
+  }
+
+  if (stockTakeId) {
+    return (
+      <View style={[styles.container, styles.centered, isDarkMode && styles.darkContainer]}>
+        <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>This stock take is no longer on this device.</Text>
+      </View>
+    );
+  }
+
+  const staffInput = (
+    <TextInput
+      style={[styles.input, isDarkMode && styles.darkInput]}
+      value={staffName}
+      onChangeText={setStaffName}
+      placeholder="Counted by"
+      placeholderTextColor={isDarkMode ? '#888' : '#999'}
+    />
+  );
+
+  if (!session) {
+    return (
+      <View style={[styles.container, isDarkMode && styles.darkContainer]}>
+        <Text style={[styles.title, isDarkMode && styles.darkText]}>Start a Stock Take</Text>
+        <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+          Count each product on the shelves. Sales can carry on while you count - they are taken
+          into account when the count is committed.
+        </Text>
+        {staffInput}
+        <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={startSession}>
+          <Text style={styles.buttonText}>Start Counting</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const countedCount = Object.keys(session.products).length;
+
+  return (
+    <View style={[styles.container, isDarkMode && styles.darkContainer]}>
+      <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+        Started {new Date(session.startedAt).toLocaleString()} by {session.startedBy} · {countedCount} counted
+      </Text>
+      {staffInput}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={() => setReviewing(!reviewing)}>
+          <Text style={styles.buttonText}>{reviewing ? 'Back to Counting' : 'Review Variances'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.button, styles.dangerButton]} onPress={cancelSession}>
+          <Text style={styles.buttonText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+
+      {reviewing && report ? (
+        <FlatList
+          data={[report]}
+          keyExtractor={() => 'report'}
+          renderItem={({ item }) => (
+            <View>
+              <StockTakeReportView report={item} currency={currency} isDarkMode={isDarkMode} />
+              <TouchableOpacity
+                style={[styles.button, styles.primaryButton, (committing || countedCount === 0) && styles.disabledButton]}
+                onPress={commitSession}
+                disabled={committing || countedCount === 0}
+              >
+                {committing ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.buttonText}>Commit Stock Take</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        />
+      ) : (
+        <>
+          <TextInput
+            style={[styles.input, isDarkMode && styles.darkInput]}
+            value={search}
+            onChangeText={setSearch}
+            placeholder="Search products"
+            placeholderTextColor={isDarkMode ? '#888' : '#999'}
+          />
+          <FlatList
+            data={activeProducts}
+            keyExtractor={(item: any) => item.id}
+            keyboardShouldPersistTaps="handled"
+            renderItem={({ item }: { item: any }) => {
+              const entry = session.products[item.id];
+              const mine = entry?.counts[staffName.trim()];
+              return (
+                <View style={[styles.row, isDarkMode && styles.darkRow, entry && styles.countedRow]}>
+                  <View style={styles.rowMain}>
+                    <Text style={[styles.productName, isDarkMode && styles.darkText]}>{item.name}</Text>
+                    <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+                      {entry
+                        ? `Counted ${countedTotal(entry)} (${Object.entries(entry.counts).map(([by, c]) => `${by}: ${c.count}`).join(', ')})`
+                        : 'Not counted yet'}
+                    </Text>
+                  </View>
+                  <TextInput
+                    style={[styles.countInput, isDarkMode && styles.darkInput]}
+                    value={drafts[item.id] ?? (mine ? String(mine.count) : '')}
+                    onChangeText={text => setDrafts(prev => ({ ...prev, [item.id]: text.replace(/[^0-9]/g, '') }))}
+                    onSubmitEditing={() => saveCount(item.id)}
+                    onBlur={() => saveCount(item.id)}
+                    keyboardType="number-pad"
+                    placeholder="Count"
+                    placeholderTextColor={isDarkMode ? '#888' : '#999'}
+                  />
+                  {mine && (
+                    <TouchableOpacity style={styles.clearButton} onPress={() => clearCount(item.id)}>
+                      <Text style={styles.clearButtonText}>✕</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            }}
+          />
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: width > 600 ? 40 : 20,
+    backgroundColor: '#fff',
+  },
+  darkContainer: {
+    backgroundColor: '#1a1a1a',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: width > 600 ? 24 : 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    marginVertical: 8,
+    fontSize: 16,
+    color: '#333',
+  },
+  darkInput: {
+    borderColor: '#555',
+    backgroundColor: '#333',
+    color: '#fff',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  button: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#28a745',
+  },
+  secondaryButton: {
+    backgroundColor: '#007bff',
+  },
+  dangerButton: {
+    backgroundColor: '#dc3545',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  summary: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 12,
+    marginVertical: 8,
+  },
+  darkCard: {
+    backgroundColor: '#2a2a2a',
+  },
+  summaryText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  darkRow: {
+    borderBottomColor: '#555',
+  },
+  countedRow: {
+    backgroundColor: 'rgba(40, 167, 69, 0.08)',
+  },
+  rowMain: {
+    flex: 1,
+  },
+  rowSide: {
+    alignItems: 'flex-end',
+    marginLeft: 12,
+  },
+  productName: {
+    fontSize: width > 600 ? 18 : 16,
+    fontWeight: '500',
+  },
+  countInput: {
+    width: 80,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 16,
+    textAlign: 'center',
+    color: '#333',
+  },
+  clearButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  clearButtonText: {
+    color: '#dc3545',
+    fontSize: 16,
+  },
+  variance: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  positive: {
+    color: '#28a745',
+  },
+  negative: {
+    color: '#dc3545',
+  },
+  neutral: {
+    color: '#888',
+  },
+  darkText: {
+    color: '#fff',
+  },
+  darkSubText: {
+    color: '#aaa',
+  },
+});
@@ -18,6 +18,7 @@ import {
 } from 'react-native';
 import { StockReconciliationTool, ReconciliationReport } from '../utils/StockReconciliationTool';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { hybridSyncService } from '../services/HybridSyncService';
 
 interface StockDebugPanelProps {
   visible: boolean;
@@ -146,9 +147,9 @@ export const StockDebugPanel: React.FC<StockDebugPanelProps> = ({ visible, onClo
     setLoading(true);
     try {
       const data = {
-        provisionalStockDeltas: await AsyncStorage.getItem('provisional_stock_deltas'),
-        provisionalBalanceDeltas: await AsyncStorage.getItem('provisional_balance_deltas'),
-        provisionalSteps: await AsyncStorage.getItem('provisional_steps'),
+        provisionalStockDeltas: await hybridSyncService.getStorageAdapter().getItem('provisional_stock_deltas'),
+        provisionalBalanceDeltas: await hybridSyncService.getStorageAdapter().getItem('provisional_balance_deltas'),
+        provisionalSteps: await hybridSyncService.getStorageAdapter().getItem('provisional_steps'),
         cacheProducts: await AsyncStorage.getItem('cache_products'),
         cachePlayers: await AsyncStorage.getItem('cache_players'),
       };
@@ -196,6 +197,8 @@ export const StockDebugPanel: React.FC<StockDebugPanelProps> = ({ visible, onClo
               ];
 
               await AsyncStorage.multiRemove(keys);
+              await hybridSyncService.getStorageAdapter().multiRemove(keys);
+              hybridSyncService.getOverlayStore().invalidate();
               Alert.alert('✅ Caches Cleared', 'All cached data has been cleared.');
               setReport(null);
               setDebugData(null);
@@ -0,0 +1,218 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, FlatList, StyleSheet, ActivityIndicator, RefreshControl } from 'react-native';
+import { RouteProp, useRoute } from '@react-navigation/native';
+import { hybridSyncService } from '../services/HybridSyncService';
+import { StockMovement, STOCK_MOVEMENT_REASONS } from '../services/StockLedger';
+import { useOverlayRecord } from '../hooks/useOverlayStore';
+import { useTheme } from '../app/ThemeContext';
+
+type HistoryEntry = StockMovement & { stockAfter: number };
+
+type StockHistoryRoute = RouteProp<{ StockHistory: { productId: string; productName?: string } }, 'StockHistory'>;
+
+/**
+ * Every stock movement of one product - why its count is what it is
+ */
+export default function StockHistoryPage() {
+  const { productId, productName } = useRoute<StockHistoryRoute>().params;
+  const { isDarkMode } = useTheme();
+  const product = useOverlayRecord('products', productId);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [unrecorded, setUnrecorded] = useState(0);
+  const [fromCache, setFromCache] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const history = await hybridSyncService.getStockHistory(productId);
+      setEntries(history.entries);
+      setUnrecorded(history.unrecorded);
+      setFromCache(history.fromCache);
+    } catch (error) {
+      console.error('❌ Failed to load stock history:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [productId]);
+
+  // Reload whenever the product's stock changes - a sale, a sync, an adjustment
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, product?.stock]);
+
+  const renderEntry = ({ item }: { item: HistoryEntry }) => (
+    <View style={[styles.entry, isDarkMode && styles.darkEntry, item.pending && styles.pendingEntry]}>
+      <View style={styles.entryMain}>
+        <Text style={[styles.reason, isDarkMode && styles.darkText]}>
+          {STOCK_MOVEMENT_REASONS[item.reason] || item.reason}
+          {item.pending ? '  ⏳ not synced' : ''}
+        </Text>
+        <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+          {item.at ? new Date(item.at).toLocaleString() : 'Unknown time'}
+          {item.staffName ? ` · ${item.staffName}` : ''}
+        </Text>
+        {item.note ? <Text style={[styles.note, isDarkMode && styles.darkSubText]}>{item.note}</Text> : null}
+        <Text style={[styles.ids, isDarkMode && styles.darkSubText]}>
+          {item.deviceId ? `Device ${item.deviceId.slice(-8)}` : 'Device unknown'}
+          {item.bundleId ? ` · Bundle ${item.bundleId.slice(0, 8)}` : ''}
+        </Text>
+      </View>
+      <View style={styles.entrySide}>
+        <Text style={[styles.delta, item.delta < 0 ? styles.negative : styles.positive]}>
+          {item.delta > 0 ? `+${item.delta}` : item.delta}
+        </Text>
+        <Text style={[styles.stockAfter, isDarkMode && styles.darkSubText]}>→ {item.stockAfter}</Text>
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered, isDarkMode && styles.darkContainer]}>
+        <ActivityIndicator size="large" color="#007bff" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, isDarkMode && styles.darkContainer]}>
+      <View style={[styles.header, isDarkMode && styles.darkEntry]}>
+        <Text style={[styles.title, isDarkMode && styles.darkText]}>{product?.name || productName || 'Product'}</Text>
+        <Text style={[styles.stock, isDarkMode && styles.darkText]}>In stock: {product?.stock ?? 0}</Text>
+        {fromCache && (
+          <Text style={styles.warning}>Offline - synced movements are from the last time this was opened online.</Text>
+        )}
+        {unrecorded !== 0 && (
+          <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+            {unrecorded} in stock from before movements were recorded
+          </Text>
+        )}
+      </View>
+
+      <FlatList
+        data={entries}
+        renderItem={renderEntry}
+        keyExtractor={item => item.id}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadHistory();
+            }}
+          />
+        }
+        ListEmptyComponent={
+          <Text style={[styles.empty, isDarkMode && styles.darkSubText]}>No stock movements recorded yet.</Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 16,
+  },
+  darkContainer: {
+    backgroundColor: '#121212',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  stock: {
+    fontSize: 16,
+    color: '#333',
+    marginTop: 4,
+  },
+  warning: {
+    fontSize: 12,
+    color: '#e67e22',
+    marginTop: 6,
+  },
+  entry: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  darkEntry: {
+    backgroundColor: '#1E1E1E',
+  },
+  pendingEntry: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#f39c12',
+  },
+  entryMain: {
+    flex: 1,
+  },
+  entrySide: {
+    alignItems: 'flex-end',
+    justifyContent: 'center',
+    marginLeft: 12,
+  },
+  reason: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  note: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  ids: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+  },
+  delta: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  positive: {
+    color: '#28a745',
+  },
+  negative: {
+    color: '#dc3545',
+  },
+  stockAfter: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 24,
+  },
+  darkText: {
+    color: '#fff',
+  },
+  darkSubText: {
+    color: '#aaa',
+  },
+});
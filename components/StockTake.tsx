@@ -1,8 +1,12 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, SectionList, StyleSheet, Dimensions } from 'react-native';
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, SectionList, TouchableOpacity, StyleSheet, Dimensions } from 'react-native';
+import { NavigationProp, useFocusEffect } from '@react-navigation/native';
+import { useOverlayCollection } from '../hooks/useOverlayStore';
 import { hybridSyncService } from '../services/HybridSyncService';
+import { FinishedStockTake } from '../services/StockTakeSessions';
+import { DEFAULT_LOW_STOCK_LEVEL, stockStatus } from '../services/StockLevels';
 import { useTheme } from '../app/ThemeContext';
-import { useIsFocused } from '@react-navigation/native';
+import { useOrganization } from '../contexts/OrganizationContext';
 
 const { width } = Dimensions.get('window');
 
@@ -13,43 +17,42 @@ interface Product {
   price: number;
   category?: string;
   isActive?: boolean;
+  minStockLevel?: number;
+  maxStockLevel?: number;
 }
 
-export default function StockTake() {
-  const [outOfStock, setOutOfStock] = useState<Product[]>([]);
-  const [inStock, setInStock] = useState<Product[]>([]);
+export default function StockTake({ navigation }: { navigation: NavigationProp<any> }) {
   const { isDarkMode } = useTheme();
-  const isFocused = useIsFocused(); // Detect if the screen is in focus
+  const { organization } = useOrganization();
+  const lowStockLevel = organization?.settings?.lowStockAlertLevel ?? DEFAULT_LOW_STOCK_LEVEL;
+  // Live overlay view - provisional stock changes show up as sales are made
+  const { items: products } = useOverlayCollection('products');
+  const [countInProgress, setCountInProgress] = useState(false);
+  const [pastCounts, setPastCounts] = useState<FinishedStockTake[]>([]);
 
-  // Load products using hybrid sync service
-  const loadProducts = async () => {
-    try {
-      const productList = await hybridSyncService.getProductsWithOverlay(); // Use overlay to show provisional stock changes
-      const activeProducts = productList.filter((product: Product) => product.isActive !== false);
+  useFocusEffect(
+    useCallback(() => {
+      hybridSyncService.getStockTakeSession().then(session => setCountInProgress(!!session));
+      hybridSyncService.getStockTakeHistory().then(setPastCounts);
+    }, [])
+  );
 
-      // Separate products into out of stock and in stock
-      const outOfStockProducts = activeProducts.filter((product: Product) => product.stock === 0);
-      const inStockProducts = activeProducts
+  // Separate products into out of stock and in stock
+  const { outOfStock, inStock } = useMemo(() => {
+    const activeProducts = products.filter((product: Product) => product.isActive !== false);
+    return {
+      outOfStock: activeProducts.filter((product: Product) => product.stock === 0),
+      inStock: activeProducts
         .filter((product: Product) => product.stock > 0)
-        .sort((a: Product, b: Product) => a.stock - b.stock); // Sort in ascending order by stock
-
-      setOutOfStock(outOfStockProducts);
-      setInStock(inStockProducts);
-    } catch (error) {
-      console.error('Error loading products:', error);
-    }
-  };
-
-  // Reload products whenever the page gains focus
-  useEffect(() => {
-    if (isFocused) {
-      loadProducts();
-    }
-  }, [isFocused]);
+        .sort((a: Product, b: Product) => a.stock - b.stock), // Sort in ascending order by stock
+    };
+  }, [products]);
 
-  const getStockStyle = (quantity: number) => {
-    if (quantity < 3) return styles.lowStock; // Orange
-    if (quantity < 10) return styles.mediumStock; // Yellow
+  // Colour by the product's own min/max levels, or the organization's low-stock level
+  const getStockStyle = (product: Product) => {
+    const status = stockStatus(product, lowStockLevel);
+    if (status === 'low') return styles.lowStock; // Orange
+    if (status === 'overstocked') return styles.overStock; // Yellow
     return styles.highStock; // Green
   };
 
@@ -72,7 +75,7 @@ export default function StockTake() {
       renderItem: ({ item }: { item: Product }) => (
         <View style={[styles.productRow, isDarkMode && styles.darkProductRow]}>
           <Text style={[styles.productName, isDarkMode && styles.darkProductName]}>{item.name}</Text>
-          <Text style={[styles.productQuantity, getStockStyle(item.stock)]}>
+          <Text style={[styles.productQuantity, getStockStyle(item)]}>
             {item.stock} remaining
           </Text>
         </View>
@@ -94,6 +97,37 @@ export default function StockTake() {
           </View>
         )}
         renderItem={({ item, section }) => section.renderItem({ item })}
+        ListHeaderComponent={
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.countButton} onPress={() => navigation.navigate('StockCount')}>
+              <Text style={styles.countButtonText}>{countInProgress ? 'Continue Stock Count' : 'Start Stock Count'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.countButton, styles.lowStockButton]} onPress={() => navigation.navigate('LowStock')}>
+              <Text style={styles.countButtonText}>Low Stock & Reorder</Text>
+            </TouchableOpacity>
+          </View>
+        }
+        ListFooterComponent={
+          pastCounts.length > 0 ? (
+            <View>
+              <Text style={[styles.header, isDarkMode && styles.darkHeader]}>Past Counts</Text>
+              {pastCounts.map(stockTake => (
+                <TouchableOpacity
+                  key={stockTake.id}
+                  style={[styles.productRow, isDarkMode && styles.darkProductRow]}
+                  onPress={() => navigation.navigate('StockCount', { stockTakeId: stockTake.id })}
+                >
+                  <Text style={[styles.productName, isDarkMode && styles.darkProductName]}>
+                    {new Date(stockTake.finishedAt).toLocaleDateString()} · {stockTake.finishedBy}
+                  </Text>
+                  <Text style={[styles.productQuantity, isDarkMode && styles.darkProductName]}>
+                    {stockTake.report.productsWithVariance}/{stockTake.report.productsCounted} varied
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : null
+        }
       />
     </View>
   );
@@ -108,6 +142,26 @@ const styles = StyleSheet.create({
   darkContainer: {
     backgroundColor: '#1a1a1a',
   },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  countButton: {
+    flex: 1,
+    backgroundColor: '#007bff',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  lowStockButton: {
+    backgroundColor: '#FF5733',
+  },
+  countButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
   header: {
     fontSize: width > 600 ? 24 : 20,
     fontWeight: 'bold',
@@ -155,12 +209,12 @@ const styles = StyleSheet.create({
     fontWeight: '500',
   },
   lowStock: {
-    color: '#FF5733', // Orange for stock less than 3
+    color: '#FF5733', // Orange for stock at or below the min level
   },
-  mediumStock: {
-    color: '#FFBF00', // Yellow for stock less than 10
+  overStock: {
+    color: '#FFBF00', // Yellow for stock above the max level
   },
   highStock: {
-    color: 'green', // Green for stock 10 or more
+    color: 'green', // Green for stock between the levels
   },
 });
@@ -0,0 +1,298 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, ScrollView, TouchableOpacity, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { NavigationProp, RouteProp, useRoute } from '@react-navigation/native';
+import { hybridSyncService } from '../services/HybridSyncService';
+import { Supplier, SupplierOrderHistory, buildSupplierOrderHistory } from '../services/Suppliers';
+import { PURCHASE_ORDER_PROGRESS } from '../services/PurchaseOrders';
+import { useOverlayCollection } from '../hooks/useOverlayStore';
+import { useTheme } from '../app/ThemeContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { formatCurrency } from '../utils/currency';
+
+type SupplierRoute = RouteProp<{ Supplier: { supplierId?: string } | undefined }, 'Supplier'>;
+
+const FIELDS: { key: keyof Supplier; label: string; keyboardType?: 'default' | 'email-address' | 'phone-pad' | 'number-pad' }[] = [
+  { key: 'name', label: 'Supplier name' },
+  { key: 'contactName', label: 'Contact name' },
+  { key: 'phone', label: 'Phone', keyboardType: 'phone-pad' },
+  { key: 'email', label: 'Email', keyboardType: 'email-address' },
+  { key: 'address', label: 'Address' },
+  { key: 'accountNumber', label: 'Account number' },
+  { key: 'leadTimeDays', label: 'Lead time (days)', keyboardType: 'number-pad' },
+  { key: 'notes', label: 'Notes' },
+];
+
+/**
+ * Add or edit a supplier; for an existing one, the products it supplies and its order history
+ */
+export default function SupplierPage({ navigation }: { navigation: NavigationProp<any> }) {
+  const supplierId = useRoute<SupplierRoute>().params?.supplierId;
+  const { isDarkMode } = useTheme();
+  const { organization } = useOrganization();
+  const currency = organization?.currency || 'GBP';
+  const { items: products } = useOverlayCollection('products');
+
+  const [supplier, setSupplier] = useState<Supplier | null>(null);
+  const [form, setForm] = useState<Record<string, string>>({});
+  const [history, setHistory] = useState<SupplierOrderHistory | null>(null);
+  const [loading, setLoading] = useState(!!supplierId);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!supplierId) return;
+    try {
+      const { suppliers } = await hybridSyncService.getSuppliers({ includeInactive: true });
+      const found = suppliers.find(candidate => candidate.id === supplierId) || null;
+      setSupplier(found);
+      if (found) {
+        setForm(Object.fromEntries(FIELDS.map(field => [field.key, found[field.key] == null ? '' : String(found[field.key])])));
+        const { orders, receipts } = await hybridSyncService.getPurchasing();
+        setHistory(buildSupplierOrderHistory(found, orders, receipts));
+      }
+    } catch (error) {
+      console.error('❌ Failed to load supplier:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [supplierId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const suppliedProducts = useMemo(
+    () => products.filter((product: any) => product.isActive !== false && supplierId && product.supplierId === supplierId),
+    [products, supplierId]
+  );
+
+  const handleSave = async () => {
+    const leadTime = (form.leadTimeDays || '').trim();
+    const input = {
+      name: form.name || '',
+      contactName: form.contactName,
+      phone: form.phone,
+      email: form.email,
+      address: form.address,
+      accountNumber: form.accountNumber,
+      leadTimeDays: leadTime === '' ? null : Number(leadTime),
+      notes: form.notes,
+    };
+    try {
+      setSaving(true);
+      if (supplier) {
+        setSupplier(await hybridSyncService.updateSupplier(supplier.id, input));
+        Alert.alert('Success', 'Supplier updated');
+      } else {
+        await hybridSyncService.createSupplier(input);
+        navigation.goBack();
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to save the supplier');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async () => {
+    if (!supplier) return;
+    try {
+      setSupplier(await hybridSyncService.updateSupplier(supplier.id, { isActive: supplier.isActive === false }));
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to update the supplier');
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered, isDarkMode && styles.darkContainer]}>
+        <ActivityIndicator size="large" color="#007bff" />
+      </View>
+    );
+  }
+
+  if (supplierId && !supplier) {
+    return (
+      <View style={[styles.container, styles.centered, isDarkMode && styles.darkContainer]}>
+        <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>This supplier could not be found on this device.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={[styles.container, isDarkMode && styles.darkContainer]} keyboardShouldPersistTaps="handled">
+      <View style={[styles.card, isDarkMode && styles.darkCard]}>
+        {FIELDS.map(field => (
+          <TextInput
+            key={field.key}
+            style={[styles.input, isDarkMode && styles.darkInput]}
+            value={form[field.key] || ''}
+            onChangeText={text => setForm(prev => ({
+              ...prev,
+              [field.key]: field.keyboardType === 'number-pad' ? text.replace(/[^0-9]/g, '') : text,
+            }))}
+            placeholder={field.label}
+            placeholderTextColor={isDarkMode ? '#888' : '#999'}
+            keyboardType={field.keyboardType || 'default'}
+            autoCapitalize={field.keyboardType === 'email-address' ? 'none' : 'sentences'}
+          />
+        ))}
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={[styles.button, styles.primaryButton, saving && styles.disabledButton]} onPress={handleSave} disabled={saving}>
+            {saving ? <ActivityIndicator size="small" color="#fff" /> : <Text style={styles.buttonText}>{supplier ? 'Save Changes' : 'Add Supplier'}</Text>}
+          </TouchableOpacity>
+          {supplier && (
+            <TouchableOpacity style={[styles.button, supplier.isActive === false ? styles.secondaryButton : styles.dangerButton]} onPress={toggleActive}>
+              <Text style={styles.buttonText}>{supplier.isActive === false ? 'Reactivate' : 'Deactivate'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {supplier && (
+        <>
+          <Text style={[styles.sectionTitle, isDarkMode && styles.darkText]}>Products ({suppliedProducts.length})</Text>
+          {suppliedProducts.length === 0 ? (
+            <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>Link products to this supplier from Manage Products.</Text>
+          ) : suppliedProducts.map((product: any) => (
+            <View key={product.id} style={[styles.row, isDarkMode && styles.darkCard]}>
+              <Text style={[styles.rowTitle, isDarkMode && styles.darkText]}>{product.name}</Text>
+              <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+                {product.supplierSku ? `SKU ${product.supplierSku} · ` : ''}
+                {product.packSize ? `Pack of ${product.packSize} · ` : ''}
+                In stock: {product.stock ?? 0}
+              </Text>
+            </View>
+          ))}
+
+          <Text style={[styles.sectionTitle, isDarkMode && styles.darkText]}>Order History</Text>
+          {history && history.orderCount > 0 ? (
+            <>
+              <View style={[styles.card, isDarkMode && styles.darkCard]}>
+                <Text style={[styles.rowTitle, isDarkMode && styles.darkText]}>
+                  {history.orderCount} order(s) · {formatCurrency(history.orderedValue, currency)} ordered
+                </Text>
+                <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+                  {formatCurrency(history.receivedValue, currency)} received
+                  {history.averageDaysToFirstDelivery !== null ? ` · delivered in ${history.averageDaysToFirstDelivery} day(s) on average` : ''}
+                  {typeof supplier.leadTimeDays === 'number' ? ` (quoted ${supplier.leadTimeDays})` : ''}
+                </Text>
+              </View>
+              {history.entries.map(entry => (
+                <TouchableOpacity
+                  key={entry.order.id}
+                  style={[styles.row, isDarkMode && styles.darkCard]}
+                  onPress={() => navigation.navigate('PurchaseOrder', { purchaseOrderId: entry.order.id })}
+                >
+                  <Text style={[styles.rowTitle, isDarkMode && styles.darkText]}>
+                    {entry.order.reference} · {PURCHASE_ORDER_PROGRESS[entry.progress]}
+                  </Text>
+                  <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+                    {new Date(entry.order.raisedAt).toLocaleDateString()} · {formatCurrency(entry.orderedValue, currency)} ordered,{' '}
+                    {formatCurrency(entry.receivedValue, currency)} received in {entry.deliveries} deliver{entry.deliveries === 1 ? 'y' : 'ies'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </>
+          ) : (
+            <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>No purchase orders with this supplier yet.</Text>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 16,
+  },
+  darkContainer: {
+    backgroundColor: '#121212',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  darkCard: {
+    backgroundColor: '#1E1E1E',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    marginVertical: 4,
+    fontSize: 16,
+    color: '#333',
+  },
+  darkInput: {
+    borderColor: '#555',
+    backgroundColor: '#333',
+    color: '#fff',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  row: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 6,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#28a745',
+  },
+  secondaryButton: {
+    backgroundColor: '#007bff',
+  },
+  dangerButton: {
+    backgroundColor: '#dc3545',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  darkText: {
+    color: '#fff',
+  },
+  darkSubText: {
+    color: '#aaa',
+  },
+});
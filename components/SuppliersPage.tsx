@@ -0,0 +1,182 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, ActivityIndicator, RefreshControl, Switch } from 'react-native';
+import { NavigationProp, useFocusEffect } from '@react-navigation/native';
+import { hybridSyncService } from '../services/HybridSyncService';
+import { Supplier } from '../services/Suppliers';
+import { useOverlayCollection } from '../hooks/useOverlayStore';
+import { useTheme } from '../app/ThemeContext';
+
+/**
+ * Supplier directory - who products are ordered from
+ */
+export default function SuppliersPage({ navigation }: { navigation: NavigationProp<any> }) {
+  const { isDarkMode } = useTheme();
+  const { items: products } = useOverlayCollection('products');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [showInactive, setShowInactive] = useState(false);
+  const [fromCache, setFromCache] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadSuppliers = useCallback(async () => {
+    try {
+      const result = await hybridSyncService.getSuppliers({ includeInactive: true });
+      setSuppliers(result.suppliers);
+      setFromCache(result.fromCache);
+    } catch (error) {
+      console.error('❌ Failed to load suppliers:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSuppliers();
+    }, [loadSuppliers])
+  );
+
+  const productCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    products
+      .filter((product: any) => product.isActive !== false && product.supplierId)
+      .forEach((product: any) => {
+        counts[product.supplierId] = (counts[product.supplierId] || 0) + 1;
+      });
+    return counts;
+  }, [products]);
+
+  const visible = suppliers.filter(supplier => showInactive || supplier.isActive !== false);
+
+  const renderSupplier = ({ item }: { item: Supplier }) => (
+    <TouchableOpacity
+      style={[styles.supplier, isDarkMode && styles.darkSupplier, item.isActive === false && styles.inactive]}
+      onPress={() => navigation.navigate('Supplier', { supplierId: item.id })}
+    >
+      <Text style={[styles.name, isDarkMode && styles.darkText]}>
+        {item.name}{item.isActive === false ? ' (inactive)' : ''}
+      </Text>
+      <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+        {[item.contactName, item.phone, item.email].filter(Boolean).join(' · ') || 'No contact details'}
+      </Text>
+      <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>
+        {productCounts[item.id] || 0} product(s)
+        {typeof item.leadTimeDays === 'number' ? ` · ${item.leadTimeDays} day lead time` : ''}
+        {item.accountNumber ? ` · Account ${item.accountNumber}` : ''}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered, isDarkMode && styles.darkContainer]}>
+        <ActivityIndicator size="large" color="#007bff" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, isDarkMode && styles.darkContainer]}>
+      <TouchableOpacity style={styles.newButton} onPress={() => navigation.navigate('Supplier')}>
+        <Text style={styles.newButtonText}>Add Supplier</Text>
+      </TouchableOpacity>
+      <View style={styles.toggleRow}>
+        <Text style={[styles.meta, isDarkMode && styles.darkSubText]}>Show inactive suppliers</Text>
+        <Switch value={showInactive} onValueChange={setShowInactive} />
+      </View>
+      {fromCache && (
+        <Text style={styles.warning}>Offline - suppliers are from the last time this was opened online.</Text>
+      )}
+
+      <FlatList
+        data={visible}
+        renderItem={renderSupplier}
+        keyExtractor={item => item.id}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadSuppliers();
+            }}
+          />
+        }
+        ListEmptyComponent={
+          <Text style={[styles.empty, isDarkMode && styles.darkSubText]}>No suppliers yet.</Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 16,
+  },
+  darkContainer: {
+    backgroundColor: '#121212',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  newButton: {
+    backgroundColor: '#28a745',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  newButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  warning: {
+    fontSize: 12,
+    color: '#e67e22',
+    marginBottom: 8,
+  },
+  supplier: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  darkSupplier: {
+    backgroundColor: '#1E1E1E',
+  },
+  inactive: {
+    opacity: 0.6,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 24,
+  },
+  darkText: {
+    color: '#fff',
+  },
+  darkSubText: {
+    color: '#aaa',
+  },
+});
@@ -2,7 +2,10 @@ import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { hybridSyncService } from '../services/HybridSyncService';
+import { getBackgroundSyncTaskStatus } from '../services/BackgroundSyncTask';
+import { describeBundle } from '../services/OperationBundles';
 import { useOrganization } from '../contexts/OrganizationContext';
+import { isUsingFirestoreEmulator } from '../config/firebase';
 
 /**
  * Temporary Debug Panel Component
@@ -17,56 +20,42 @@ export const SyncDebugPanel = () => {
     setDebugOutput(prev => `[${timestamp}] ${message}\n${prev}`);
   };
 
+  // Live sync event log while the panel is open
+  React.useEffect(() => {
+    return hybridSyncService.subscribe(event => {
+      const { type, timestamp, ...details } = event;
+      addToOutput(`📡 ${type}: ${JSON.stringify(details)}`);
+    });
+  }, []);
+
   const runSyncDiagnostics = async () => {
     addToOutput('🔍 Starting sync diagnostics...');
     
     try {
-      // 1. Check sync queue state
-      const syncQueueData = await AsyncStorage.getItem('sync_queue');
-      const syncQueue = syncQueueData ? JSON.parse(syncQueueData) : [];
+      // 1. Check pending bundles
+      const pendingBundles = await hybridSyncService.getPendingBundleList();
       
-      addToOutput(`📋 Sync Queue: ${syncQueue.length} items total`);
+      addToOutput(`📦 Pending Bundles: ${pendingBundles.length}`);
       
-      // Count by collection
-      const byCollection = syncQueue.reduce((acc: any, item: any) => {
-        acc[item.collection] = (acc[item.collection] || 0) + 1;
+      // Count by bundle type
+      const byType = pendingBundles.reduce((acc: any, bundle: any) => {
+        acc[bundle.type] = (acc[bundle.type] || 0) + 1;
         return acc;
       }, {});
-      
-      addToOutput(`📊 By Collection: ${JSON.stringify(byCollection)}`);
-      
-      // 2. Check pending bundles (new bundle system)
-      const pendingBundlesData = await AsyncStorage.getItem('pending_bundles');
-      const pendingBundles = pendingBundlesData ? JSON.parse(pendingBundlesData) : [];
-      
-      addToOutput(`📦 Pending Bundles: ${pendingBundles.length}`);
-      if (pendingBundles.length > 0) {
-        pendingBundles.forEach((bundle: any, index: number) => {
-          addToOutput(`  Bundle ${index + 1}: ${bundle.bundleId} (${bundle.type}) - ${bundle.steps.length} steps`);
-          bundle.steps.forEach((step: any, stepIndex: number) => {
-            addToOutput(`    Step ${stepIndex + 1}: ${step.kind} - ${step.opId}`);
-          });
-        });
-      } else {
-        addToOutput('✅ No pending bundles (new system)');
-      }
+      addToOutput(`📊 By Type: ${JSON.stringify(byType)}`);
 
-      // 3. Detailed assignment analysis (legacy sync queue)
-      const assignmentItems = syncQueue.filter((item: any) => item.collection === 'assignments');
-      if (assignmentItems.length > 0) {
-        addToOutput(`🎯 Assignment Items (legacy): ${assignmentItems.length}`);
-        assignmentItems.forEach((item: any, index: number) => {
-          addToOutput(`  Assignment ${index + 1}: ${item.action} - ID:${item.id} - Retries:${item.retryCount || 0}`);
-          if (item.data) {
-            addToOutput(`    Product:${item.data.productId} Player:${item.data.playerId} Qty:${item.data.quantity}`);
-          }
+      pendingBundles.forEach((bundle: any, index: number) => {
+        addToOutput(`  Bundle ${index + 1}: ${describeBundle(bundle)} - ${bundle.bundleId} - ${bundle.steps.length} steps - Retries:${bundle.retryCount || 0}`);
+        bundle.steps.forEach((step: any, stepIndex: number) => {
+          addToOutput(`    Step ${stepIndex + 1}: ${step.kind} - ${step.opId}`);
         });
-      } else {
-        addToOutput('✅ No assignments in sync queue (legacy)');
-      }
+        if (bundle.lastError) {
+          addToOutput(`    Last error: ${bundle.lastError}`);
+        }
+      });
       
-      // 3. Check dead letter queue
-      const deadLetterData = await AsyncStorage.getItem('dead_letter_queue');
+      // 2. Check dead letter queue
+      const deadLetterData = await hybridSyncService.getStorageAdapter().getItem('dead_letter_queue');
       const deadLetterQueue = deadLetterData ? JSON.parse(deadLetterData) : [];
       
       if (deadLetterQueue.length > 0) {
@@ -75,9 +64,8 @@ export const SyncDebugPanel = () => {
         addToOutput('✅ No failed items in dead letter queue');
       }
       
-      // 4. Check local assignments
-      const localAssignmentsData = await AsyncStorage.getItem('assignments');
-      const localAssignments = localAssignmentsData ? JSON.parse(localAssignmentsData) : [];
+      // 3. Check local assignments
+      const localAssignments = await hybridSyncService.getStorageAdapter().getCollection('assignments');
       
       addToOutput(`📱 Local Assignments: ${localAssignments.length} total`);
       
@@ -87,7 +75,7 @@ export const SyncDebugPanel = () => {
       );
       addToOutput(`📅 Recent (24h): ${recent.length} assignments`);
       
-      // 5. Check sync service state
+      // 4. Check sync service state
       const syncStatus = hybridSyncService.getSyncStatus();
       addToOutput(`🔧 Sync Status: ${JSON.stringify(syncStatus)}`);
       
@@ -203,62 +191,41 @@ export const SyncDebugPanel = () => {
     }
   };
 
-  const clearStuckItems = async () => {
-    addToOutput('🧹 Clearing stuck sync items...');
+  const retryStuckBundles = async () => {
+    addToOutput('⏭️ Retrying bundles that are backing off...');
     try {
-      const syncQueueData = await AsyncStorage.getItem('sync_queue');
-      const syncQueue = syncQueueData ? JSON.parse(syncQueueData) : [];
-      
-      const stuckItems = syncQueue.filter((item: any) => {
-        const isOld = Date.now() - item.timestamp > 60 * 60 * 1000; // 1 hour
-        const hasHighRetries = (item.retryCount || 0) > 3;
-        return isOld || hasHighRetries;
-      });
+      const pendingBundles = await hybridSyncService.getPendingBundleList();
+      const stuckBundles = pendingBundles.filter((bundle: any) => bundle.nextAttemptAt && bundle.nextAttemptAt > Date.now());
       
-      if (stuckItems.length > 0) {
-        const cleanQueue = syncQueue.filter((item: any) => !stuckItems.includes(item));
-        await AsyncStorage.setItem('sync_queue', JSON.stringify(cleanQueue));
-        addToOutput(`🗑️ Cleared ${stuckItems.length} stuck items`);
-      } else {
-        addToOutput('✅ No stuck items found');
+      if (stuckBundles.length === 0) {
+        addToOutput('✅ No bundles are backing off');
+        return;
       }
+
+      stuckBundles.forEach((bundle: any) => {
+        addToOutput(`  ${describeBundle(bundle)} - Retries:${bundle.retryCount || 0} - ${bundle.lastError || 'no error recorded'}`);
+      });
+      await hybridSyncService.forceSyncNow();
+      addToOutput(`✅ Retried ${stuckBundles.length} stuck bundles`);
       
     } catch (error) {
-      addToOutput(`❌ Clear failed: ${error}`);
+      addToOutput(`❌ Retry failed: ${error}`);
     }
   };
 
   const resurrectDeadLetterItems = async () => {
     addToOutput('♻️ Resurrecting dead letter queue items...');
     try {
-      const deadLetterData = await AsyncStorage.getItem('dead_letter_queue');
-      const deadLetterQueue = deadLetterData ? JSON.parse(deadLetterData) : [];
-      
-      if (deadLetterQueue.length === 0) {
+      const deadCount = hybridSyncService.getDeadLetterItems().length;
+      if (deadCount === 0) {
         addToOutput('✅ No items in dead letter queue to resurrect');
         return;
       }
 
-      // Move items back to main queue
-      const syncQueueData = await AsyncStorage.getItem('sync_queue');
-      const syncQueue = syncQueueData ? JSON.parse(syncQueueData) : [];
-      
-      // Reset retry counts and timestamps
-      const resurrectedItems = deadLetterQueue.map((item: any) => ({
-        ...item,
-        retryCount: 0,
-        timestamp: Date.now()
-      }));
-      
-      // Add to main queue
-      syncQueue.push(...resurrectedItems);
+      await hybridSyncService.resurrectDeadLetterQueueItems();
       
-      // Clear dead letter queue
-      await AsyncStorage.setItem('sync_queue', JSON.stringify(syncQueue));
-      await AsyncStorage.setItem('dead_letter_queue', JSON.stringify([]));
-      
-      addToOutput(`♻️ Resurrected ${resurrectedItems.length} items from dead letter queue`);
-      addToOutput(`📊 Main queue now has ${syncQueue.length} items`);
+      addToOutput(`♻️ Resurrected ${deadCount - hybridSyncService.getDeadLetterItems().length} bundles from dead letter queue`);
+      addToOutput(`📊 Outbox now has ${hybridSyncService.getSyncQueueLength()} bundles`);
       
     } catch (error) {
       addToOutput(`❌ Resurrection failed: ${error}`);
@@ -288,31 +255,27 @@ export const SyncDebugPanel = () => {
     console.log('='.repeat(50));
     
     try {
-      // Log sync queue
-      const syncQueueData = await AsyncStorage.getItem('sync_queue');
-      const syncQueue = syncQueueData ? JSON.parse(syncQueueData) : [];
-      console.log('\n📋 SYNC QUEUE:');
-      console.log('Length:', syncQueue.length);
-      if (syncQueue.length > 0) {
-        syncQueue.forEach((item: any, index: number) => {
-          console.log(`  ${index + 1}. ${item.collection}/${item.action} - ID: ${item.id}`);
-          console.log(`     Retries: ${item.retryCount || 0}, Time: ${new Date(item.timestamp).toLocaleTimeString()}`);
-          if (item.data) {
-            console.log(`     Data: ProductId=${item.data.productId}, PlayerId=${item.data.playerId}`);
-          }
+      // Log pending bundles
+      const pendingBundles = await hybridSyncService.getPendingBundleList();
+      console.log('\n📦 PENDING BUNDLES:');
+      console.log('Length:', pendingBundles.length);
+      if (pendingBundles.length > 0) {
+        pendingBundles.forEach((bundle: any, index: number) => {
+          console.log(`  ${index + 1}. ${describeBundle(bundle)} - ID: ${bundle.bundleId}`);
+          console.log(`     Retries: ${bundle.retryCount || 0}, Time: ${new Date(bundle.timestamp).toLocaleTimeString()}`);
         });
       } else {
         console.log('  (empty)');
       }
       
       // Log dead letter queue  
-      const deadLetterData = await AsyncStorage.getItem('dead_letter_queue');
+      const deadLetterData = await hybridSyncService.getStorageAdapter().getItem('dead_letter_queue');
       const deadLetterQueue = deadLetterData ? JSON.parse(deadLetterData) : [];
       console.log('\n💀 DEAD LETTER QUEUE:');
       console.log('Length:', deadLetterQueue.length);
       if (deadLetterQueue.length > 0) {
         deadLetterQueue.forEach((item: any, index: number) => {
-          console.log(`  ${index + 1}. ${item.collection}/${item.action} - ID: ${item.id}`);
+          console.log(`  ${index + 1}. ${describeBundle(item)} - ID: ${item.bundleId}`);
         });
       } else {
         console.log('  (empty)');
@@ -341,31 +304,24 @@ export const SyncDebugPanel = () => {
     addToOutput('🐛 Deep diving into sync failure...');
     
     try {
-      const syncQueueData = await AsyncStorage.getItem('sync_queue');
-      const syncQueue = syncQueueData ? JSON.parse(syncQueueData) : [];
+      const pendingBundles = await hybridSyncService.getPendingBundleList();
       
-      if (syncQueue.length === 0) {
-        addToOutput('No items in sync queue to debug');
+      if (pendingBundles.length === 0) {
+        addToOutput('No pending bundles to debug');
         return;
       }
       
-      const assignmentItems = syncQueue.filter((item: any) => item.collection === 'assignments');
-      
-      for (const item of assignmentItems) {
-        addToOutput(`🔍 Debugging item: ${item.id}`);
-        addToOutput(`  Action: ${item.action}, Retries: ${item.retryCount || 0}`);
-        addToOutput(`  Timestamp: ${new Date(item.timestamp).toLocaleString()}`);
-        addToOutput(`  Has Data: ${!!item.data}`);
+      for (const bundle of pendingBundles) {
+        addToOutput(`🔍 Debugging bundle: ${bundle.bundleId}`);
+        addToOutput(`  ${describeBundle(bundle)}, Retries: ${bundle.retryCount || 0}`);
+        addToOutput(`  Timestamp: ${new Date(bundle.timestamp).toLocaleString()}`);
+        addToOutput(`  Steps: ${bundle.steps.map((step: any) => step.kind).join(', ')}`);
         
-        if (item.data) {
-          addToOutput(`  ProductId: ${item.data.productId}, PlayerId: ${item.data.playerId}`);
-        }
-        
-        // Try to process this specific item
+        // Try to process this specific bundle
         try {
-          addToOutput(`  🚀 Attempting manual sync for ${item.id}...`);
-          await hybridSyncService.debugProcessSingleItem(item);
-          addToOutput(`  ✅ Manual sync succeeded for ${item.id}`);
+          addToOutput(`  🚀 Attempting manual sync for ${bundle.bundleId}...`);
+          await hybridSyncService.debugProcessSingleBundle(bundle.bundleId);
+          addToOutput(`  ✅ Manual sync succeeded for ${bundle.bundleId}`);
         } catch (error) {
           addToOutput(`  ❌ Manual sync failed: ${error}`);
           console.error('Manual sync error details:', error);
@@ -419,6 +375,69 @@ export const SyncDebugPanel = () => {
     }
   };
 
+  const showSyncMetrics = () => {
+    const metrics = hybridSyncService.getSyncMetrics();
+    const formatTime = (time: number | null) => time ? new Date(time).toLocaleTimeString() : 'never';
+
+    addToOutput(`📈 Last ${metrics.attempts} sync attempts: ${metrics.failures} failures, ${metrics.deadLettered} dead-lettered`);
+    addToOutput(`⏱️ Duration avg ${metrics.averageDurationMs}ms, max ${metrics.maxDurationMs}ms`);
+    addToOutput(`✅ Last success: ${formatTime(metrics.lastSuccessAt)} | ❌ Last failure: ${formatTime(metrics.lastFailureAt)}`);
+    console.log('📈 Sync metrics:', metrics);
+  };
+
+  const showBackgroundSyncRuns = async () => {
+    try {
+      const status = await getBackgroundSyncTaskStatus();
+      addToOutput(`🌙 Background sync: ${status.available ? 'available' : 'restricted'}, ${status.registered ? 'registered' : 'not registered'}`);
+
+      const runs = await hybridSyncService.getBackgroundSyncRuns();
+      if (runs.length === 0) {
+        addToOutput('🌙 No background sync runs recorded yet');
+      }
+      runs.slice(0, 5).forEach(run => {
+        addToOutput(`🌙 ${new Date(run.startedAt).toLocaleString()} ${run.status}${run.reason ? ` (${run.reason})` : ''}: ` +
+          `${run.bundlesBefore}→${run.bundlesAfter} bundles in ${run.durationMs}ms`);
+      });
+    } catch (error) {
+      addToOutput(`❌ Failed to read background sync runs: ${error}`);
+    }
+  };
+
+  const runBackgroundSyncNow = async () => {
+    addToOutput('🌙 Running background sync now...');
+    const run = await hybridSyncService.runBackgroundSync();
+    addToOutput(`🌙 ${run.status}${run.reason ? ` (${run.reason})` : ''}: ${run.bundlesBefore}→${run.bundlesAfter} bundles in ${run.durationMs}ms`);
+  };
+
+  const compactAppliedOps = async () => {
+    const watermark = hybridSyncService.getSyncWatermark();
+    addToOutput(`🔢 Watermark: acked through seq ${watermark.ackedSeq}, ${watermark.inFlight} bundles in flight`);
+    addToOutput('🧹 Compacting appliedOps...');
+
+    try {
+      const result = await hybridSyncService.compactAppliedOps();
+      addToOutput(result.cutoff
+        ? `✅ Removed ${result.deleted} appliedOps records older than ${new Date(result.cutoff).toLocaleString()}`
+        : '⚠️ No device watermarks yet - nothing compacted');
+    } catch (error) {
+      addToOutput(`❌ Compaction failed: ${error}`);
+      console.error('❌ Compaction failed:', error);
+    }
+  };
+
+  const runSyncSimulator = async () => {
+    addToOutput('🧪 Running multi-device sync simulator against the emulator...');
+
+    try {
+      const { runSyncScenarios } = await import('../utils/syncScenarios');
+      const results = await runSyncScenarios(undefined, addToOutput);
+      console.log('🧪 Sync simulator results:', JSON.stringify(results, null, 2));
+    } catch (error) {
+      addToOutput(`❌ Sync simulator failed: ${error}`);
+      console.error('❌ Sync simulator failed:', error);
+    }
+  };
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>🔍 Sync Debug Panel</Text>
@@ -448,8 +467,8 @@ export const SyncDebugPanel = () => {
           <Text style={styles.buttonText}>🔍 Check Firebase</Text>
         </TouchableOpacity>
         
-        <TouchableOpacity style={styles.button} onPress={clearStuckItems}>
-          <Text style={styles.buttonText}>Clear Stuck</Text>
+        <TouchableOpacity style={styles.button} onPress={retryStuckBundles}>
+          <Text style={styles.buttonText}>Retry Stuck</Text>
         </TouchableOpacity>
       </View>
 
@@ -483,6 +502,34 @@ export const SyncDebugPanel = () => {
         </TouchableOpacity>
       </View>
 
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.button} onPress={showSyncMetrics}>
+          <Text style={styles.buttonText}>📈 Sync Metrics</Text>
+        </TouchableOpacity>
+        
+        <TouchableOpacity style={styles.button} onPress={compactAppliedOps}>
+          <Text style={styles.buttonText}>🧹 Compact Ops</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.button} onPress={showBackgroundSyncRuns}>
+          <Text style={styles.buttonText}>🌙 Background Runs</Text>
+        </TouchableOpacity>
+        
+        <TouchableOpacity style={styles.button} onPress={runBackgroundSyncNow}>
+          <Text style={styles.buttonText}>🌙 Run Background Sync</Text>
+        </TouchableOpacity>
+      </View>
+
+      {isUsingFirestoreEmulator() && (
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={styles.button} onPress={runSyncSimulator}>
+            <Text style={styles.buttonText}>🧪 Run Sync Simulator</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       <TouchableOpacity style={styles.clearButton} onPress={clearDebugOutput}>
         <Text style={styles.buttonText}>Clear Output</Text>
       </TouchableOpacity>
@@ -0,0 +1,343 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView, Alert, ActivityIndicator, Modal } from 'react-native';
+import { CameraView, Camera } from 'expo-camera';
+import { hybridSyncService } from '../services/HybridSyncService';
+import {
+  HandoverFrameSet,
+  HandoverHeader,
+  addHandoverFrame,
+  getMissingHandoverFrames,
+  isHandoverFrame,
+  joinHandoverFrames,
+} from '../services/SyncHandover';
+import { useTheme } from '../app/ThemeContext';
+
+/**
+ * Import unsynced work handed over by another device in this organization - scan its QR codes
+ * or paste the shared handover file, enter the handover code, and the bundles join this
+ * device's outbox with their original opIds
+ */
+export const SyncHandoverImportPanel = () => {
+  const { isDarkMode } = useTheme();
+  const [envelope, setEnvelope] = useState('');
+  const [header, setHeader] = useState<HandoverHeader | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [hasPermission, setHasPermission] = useState<boolean | null>(null);
+  const [frames, setFrames] = useState<HandoverFrameSet | null>(null);
+  const [importing, setImporting] = useState(false);
+  // Scans arrive faster than state updates - keep the latest set in a ref
+  const framesRef = useRef<HandoverFrameSet | null>(null);
+
+  const loadEnvelope = (text: string) => {
+    setEnvelope(text);
+    setHeader(null);
+    setPreviewError(null);
+    if (!text.trim()) return;
+    try {
+      setHeader(hybridSyncService.previewHandover(text));
+    } catch (error: any) {
+      setPreviewError(error?.message || 'This is not a handover file');
+    }
+  };
+
+  const startScanner = async () => {
+    const { status } = await Camera.requestCameraPermissionsAsync();
+    setHasPermission(status === 'granted');
+    if (status !== 'granted') {
+      Alert.alert('Permission Required', 'Camera permission is required to scan handover codes.');
+      return;
+    }
+    framesRef.current = null;
+    setFrames(null);
+    setShowScanner(true);
+  };
+
+  const handleBarCodeScanned = ({ data }: { type: string; data: string }) => {
+    if (!isHandoverFrame(data)) return;
+    try {
+      const next = addHandoverFrame(framesRef.current, data);
+      framesRef.current = next;
+      setFrames(next);
+      if (getMissingHandoverFrames(next).length === 0) {
+        setShowScanner(false);
+        loadEnvelope(joinHandoverFrames(next));
+      }
+    } catch (error) {
+      console.warn('⚠️ Ignoring unreadable handover QR code:', error);
+    }
+  };
+
+  const importHandover = async () => {
+    if (!code.trim()) {
+      Alert.alert('Code Required', 'Enter the handover code shown on the other device.');
+      return;
+    }
+    try {
+      setImporting(true);
+      const result = await hybridSyncService.importHandover(envelope, code);
+      Alert.alert(
+        'Handover Imported',
+        `${result.bundles} change bundle(s) will sync from this device.` +
+          (result.skippedBundles > 0 ? ` ${result.skippedBundles} were already queued here.` : '') +
+          '\n\nThe other device can now sign out.'
+      );
+      setEnvelope('');
+      setHeader(null);
+      setCode('');
+    } catch (error: any) {
+      console.error('❌ Handover import failed:', error);
+      Alert.alert('Import Failed', error?.message || String(error));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const missingFrames = frames ? getMissingHandoverFrames(frames).length : 0;
+
+  return (
+    <View style={[styles.container, isDarkMode && styles.darkContainer]}>
+      <Text style={[styles.title, isDarkMode && styles.darkText]}>📥 Import Handover</Text>
+      <Text style={[styles.subtitle, isDarkMode && styles.darkSubtitle]}>
+        Take over unsynced sales from a device that has to sign out while offline. Scan the codes
+        it shows, or paste the handover file it shared.
+      </Text>
+
+      <ScrollView style={styles.content}>
+        <TouchableOpacity style={[styles.button, styles.scanButton]} onPress={startScanner}>
+          <Text style={styles.buttonText}>Scan QR Codes</Text>
+        </TouchableOpacity>
+
+        <Text style={[styles.sectionLabel, isDarkMode && styles.darkText]}>Or paste the handover file</Text>
+        <TextInput
+          style={[styles.envelopeInput, isDarkMode && styles.darkInput]}
+          value={envelope}
+          onChangeText={loadEnvelope}
+          placeholder='{"v":1,"handoverId":...}'
+          placeholderTextColor={isDarkMode ? '#888' : '#999'}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        {previewError && <Text style={styles.errorText}>{previewError}</Text>}
+
+        {header && (
+          <View style={[styles.card, isDarkMode && styles.darkCard]}>
+            <Text style={[styles.cardTitle, isDarkMode && styles.darkText]}>
+              {header.bundleCount} bundle(s)
+              {header.queueItemCount > 0 ? `, ${header.queueItemCount} queued change(s)` : ''}
+            </Text>
+            <Text style={[styles.cardMeta, isDarkMode && styles.darkSubtitle]}>
+              From device {header.sourceDeviceId} · created {new Date(header.createdAt).toLocaleString()}
+            </Text>
+
+            <TextInput
+              style={[styles.codeInput, isDarkMode && styles.darkInput]}
+              value={code}
+              onChangeText={setCode}
+              placeholder="Handover code (XXXXX-XXXXX)"
+              placeholderTextColor={isDarkMode ? '#888' : '#999'}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+
+            <TouchableOpacity
+              style={[styles.button, styles.importButton, importing && styles.disabledButton]}
+              onPress={importHandover}
+              disabled={importing}
+            >
+              {importing ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Import & Sync</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+
+      <Modal visible={showScanner} animationType="slide" onRequestClose={() => setShowScanner(false)}>
+        <View style={styles.scannerContainer}>
+          <View style={styles.scannerHeader}>
+            <TouchableOpacity style={styles.scannerCloseButton} onPress={() => setShowScanner(false)}>
+              <Text style={styles.buttonText}>Close</Text>
+            </TouchableOpacity>
+            <Text style={styles.scannerTitle}>Scan Handover</Text>
+          </View>
+
+          {hasPermission && (
+            <CameraView
+              onBarcodeScanned={handleBarCodeScanned}
+              barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+              style={styles.scanner}
+            />
+          )}
+
+          <View style={styles.scannerInstructions}>
+            <Text style={styles.instructionText}>
+              {frames
+                ? `Scanned ${frames.total - missingFrames} of ${frames.total} codes - keep the camera on the other screen`
+                : 'Point the camera at the handover code on the other device'}
+            </Text>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#f5f5f5',
+  },
+  darkContainer: {
+    backgroundColor: '#1a1a1a',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  darkSubtitle: {
+    color: '#aaa',
+  },
+  darkText: {
+    color: '#fff',
+  },
+  content: {
+    flex: 1,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  envelopeInput: {
+    fontFamily: 'monospace',
+    fontSize: 11,
+    minHeight: 120,
+    maxHeight: 200,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    padding: 8,
+    color: '#333',
+    backgroundColor: '#fff',
+    textAlignVertical: 'top',
+  },
+  codeInput: {
+    borderWidth: 1,
+    borderColor: '#007bff',
+    borderRadius: 6,
+    padding: 10,
+    marginTop: 12,
+    fontSize: 18,
+    letterSpacing: 2,
+    textAlign: 'center',
+    color: '#333',
+  },
+  darkInput: {
+    borderColor: '#555',
+    backgroundColor: '#333',
+    color: '#fff',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#007bff',
+  },
+  darkCard: {
+    backgroundColor: '#2a2a2a',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 4,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  button: {
+    padding: 12,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  scanButton: {
+    backgroundColor: '#007bff',
+  },
+  importButton: {
+    backgroundColor: '#28a745',
+    marginTop: 12,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  scannerContainer: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  scannerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+  },
+  scannerCloseButton: {
+    padding: 8,
+  },
+  scannerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginRight: 40, // Offset for close button
+  },
+  scanner: {
+    flex: 1,
+  },
+  scannerInstructions: {
+    position: 'absolute',
+    bottom: 100,
+    left: 20,
+    right: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 8,
+    padding: 16,
+  },
+  instructionText: {
+    color: '#fff',
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
+
+export default SyncHandoverImportPanel;
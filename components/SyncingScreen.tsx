@@ -49,6 +49,21 @@ export default function SyncingScreen({ onSyncComplete, onSyncFailed }: SyncingS
       setProgress(10);
       console.log('🔄 SyncingScreen - Starting sync process');
 
+      // Local sync data is upgraded before anything syncs - retrying won't help if that failed
+      try {
+        await hybridSyncService.whenReady();
+      } catch (startupError: any) {
+        console.error('🛑 SyncingScreen - Sync engine refused to start:', startupError);
+        setHasError(true);
+        setRetryCount(maxRetries);
+        setSyncStatus('Local data could not be upgraded.');
+        Alert.alert(
+          'Local Data Upgrade Failed',
+          `${startupError?.message || startupError}\n\nUnsynced sales are still stored on this device. Please contact support before signing out or reinstalling.`
+        );
+        return;
+      }
+
       // ENABLE FORCE SERVER MODE for login sync - bypass conflict resolution
       console.log('💪 SyncingScreen - Enabling force server mode for login sync');
       hybridSyncService.enableForceServerMode();
@@ -87,7 +102,24 @@ export default function SyncingScreen({ onSyncComplete, onSyncFailed }: SyncingS
       setSyncStatus('Applying server changes...');
       setProgress(60);
       console.log(`🔄 SyncingScreen - Hydrating latest server changes via applyOp on ${Platform.OS}`);
-      await hybridSyncService.hydrateFromServerForStartup();
+      const hydratedCollections: string[] = [];
+      const stopHydrationUpdates = hybridSyncService.subscribe(event => {
+        if (event.type === 'hydrationProgress' && event.phase === 'completed') {
+          hydratedCollections.push(event.collection);
+          setSyncStatus(`Applying server changes (${hydratedCollections.join(', ')} ✓)`);
+          setProgress(60 + hydratedCollections.length);
+        }
+      }, ['hydrationProgress']);
+      try {
+        await hybridSyncService.hydrateFromServerForStartup();
+      } finally {
+        stopHydrationUpdates();
+      }
+
+      // From here on, changes from other tills arrive through live listeners
+      hybridSyncService.startRealtimeSync().catch(error => {
+        console.warn('⚠️ SyncingScreen - Realtime listeners not started, falling back to polling:', error);
+      });
       
       // Now preload data with the merged results (includes both local and server changes)
       setSyncStatus('Loading players...');
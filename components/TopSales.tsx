@@ -10,6 +10,7 @@ import {
 import { hybridSyncService } from '../services/HybridSyncService';
 import { useTheme } from '../app/ThemeContext';
 import { useIsFocused } from '@react-navigation/native';
+import { getAssignmentLines, isBasketAssignment, isCancelledAssignment } from '../utils/assignmentLines';
 
 const { width } = Dimensions.get('window');
 
@@ -35,19 +36,21 @@ export default function TopSellingStock() {
       // Group assignments by product
       const productStats: { [productName: string]: { quantities: number[], revenues: number[] } } = {};
       
+      // Basket sales are expanded so each product line counts towards its own product
       assignments.forEach((assignment: any) => {
-        const productName = assignment.productName || assignment.product;
-        if (!productName) return;
-        
-        if (!productStats[productName]) {
-          productStats[productName] = { quantities: [], revenues: [] };
-        }
-        
-        const quantity = assignment.quantity || 1;
-        const revenue = assignment.total || assignment.totalAmount || 0;
-        
-        productStats[productName].quantities.push(quantity);
-        productStats[productName].revenues.push(typeof revenue === 'number' ? revenue : 0);
+        if (isCancelledAssignment(assignment)) return; // Voided sales don't count
+        if (!isBasketAssignment(assignment) && !(assignment.productName || assignment.product)) return;
+
+        getAssignmentLines(assignment).forEach(line => {
+          const productName = line.productName;
+          
+          if (!productStats[productName]) {
+            productStats[productName] = { quantities: [], revenues: [] };
+          }
+          
+          productStats[productName].quantities.push(line.quantity);
+          productStats[productName].revenues.push(line.total);
+        });
       });
       
       // Calculate totals and averages
@@ -19,6 +19,8 @@ import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { Platform } from 'react-native';
 import { formatUKDateTime } from '../utils/dateUtils';
 import { formatCurrency } from '../utils/currency';
+import { describeAssignment, getAssignmentLines, isBasketAssignment, isCancelledAssignment } from '../utils/assignmentLines';
+import VoidSaleModal from './VoidSaleModal';
 
 // Conditional Stripe imports to prevent web bundling issues
 let stripePaymentService: any = null;
@@ -52,6 +54,7 @@ interface Assignment {
   date: string; // Date in DD.MM.YYYY format
   paid: boolean; // Property to indicate if the assignment is paid
   id?: string;
+  lineItems?: any[]; // Basket sales - one entry per product
 }
 
 interface PlayerTotal {
@@ -72,6 +75,7 @@ export default function UserSummary() {
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [paymentPlayer, setPaymentPlayer] = useState<PlayerTotal | null>(null);
   const [processingPayment, setProcessingPayment] = useState(false);
+  const [voidingAssignment, setVoidingAssignment] = useState<Assignment | null>(null);
   const { isDarkMode } = useTheme();
   const { isAdmin, assignedPlayer } = useAuth();
   const { organization } = useOrganization();
@@ -97,7 +101,7 @@ export default function UserSummary() {
       const validAssignments = assignments.filter((a: any) => {
         const playerName = a.playerName || a.userName || a.user;
         const isValid = playerName && playerName !== 'Unknown Player' && playerName.trim() !== '';
-        const isUnpaid = !a.paid;
+        const isUnpaid = !a.paid && !isCancelledAssignment(a);
         
         if (a._provisional) {
           console.log('💰 Processing provisional assignment:', {
@@ -417,70 +421,40 @@ export default function UserSummary() {
     setShowBreakdownModal(true);
   };
 
-  const handleDeleteAssignment = async (assignment: Assignment) => {
-    // Get item details for confirmation
-    const productName = assignment.product || assignment.productName || 'Unknown Product';
-    const amount = assignment.total || assignment.amount || assignment.totalAmount || 0;
-    const validAmount = typeof amount === 'number' && !isNaN(amount) ? amount : 0;
-    const quantity = assignment.quantity || 1;
-    
-    // Show confirmation to prevent accidental deletion
-    Alert.alert(
-      'Delete Assignment',
-      `Are you sure you want to delete this assignment?\n\n${quantity}x ${productName}\nAmount: ${formatCurrency(validAmount, organization?.currency || 'GBP')}\n\nThis will:\n• Remove the assignment\n• Refund the player's balance\n• Restore product stock\n• Remove from purchase history`,
-      [
-        {
-          text: 'Cancel',
-          style: 'cancel'
-        },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              // Use the same deletion logic as AssignmentsPage
-              console.log('🗑️ UserSummary: Deleting assignment via HybridSyncService:', assignment.id);
-              
-              if (!assignment.id) {
-                throw new Error('Assignment ID is required for deletion');
-              }
-              
-              await hybridSyncService.deleteEntity('assignments', assignment.id);
-              
-              // Refresh the data to show changes
-              await loadAssignments();
-              
-              // Close modal if no more assignments for this player
-              if (selectedPlayer) {
-                const updatedPlayer = playerTotals.find(p => p.name === selectedPlayer.name);
-                if (!updatedPlayer || updatedPlayer.assignments.length === 0) {
-                  setShowBreakdownModal(false);
-                  setSelectedPlayer(null);
-                }
-              }
-              
-              console.log('✅ UserSummary: Assignment deleted successfully');
-            } catch (error) {
-              console.error('❌ UserSummary: Failed to delete assignment:', error);
-              Alert.alert('Error', 'Failed to delete assignment. Please try again.');
-            }
-          }
-        }
-      ]
-    );
+  const handleVoidAssignment = (assignment: Assignment) => {
+    if (!assignment.id) {
+      Alert.alert('Error', 'This sale cannot be voided yet. Please try again shortly.');
+      return;
+    }
+    setVoidingAssignment(assignment);
+  };
+
+  const handleAssignmentVoided = async () => {
+    setVoidingAssignment(null);
+
+    // Refresh the data to show changes
+    await loadAssignments();
+
+    // Close modal if no more assignments for this player
+    if (selectedPlayer) {
+      const updatedPlayer = playerTotals.find(p => p.name === selectedPlayer.name);
+      if (!updatedPlayer || updatedPlayer.assignments.length === 0) {
+        setShowBreakdownModal(false);
+        setSelectedPlayer(null);
+      }
+    }
   };
 
   const handleMarkIndividualPaid = async (assignment: Assignment) => {
     // Get item details for confirmation
-    const productName = assignment.product || assignment.productName || 'Unknown Product';
+    const itemLabel = describeAssignment(assignment);
     const amount = assignment.total || assignment.amount || assignment.totalAmount || 0;
     const validAmount = typeof amount === 'number' && !isNaN(amount) ? amount : 0;
-    const quantity = assignment.quantity || 1;
     
     // Show confirmation to prevent accidental marking as paid
     Alert.alert(
       'Mark Item as Paid',
-      `Are you sure you want to mark this item as paid?\n\n${quantity}x ${productName}\nAmount: ${formatCurrency(validAmount, organization?.currency || 'GBP')}`,
+      `Are you sure you want to mark this item as paid?\n\n${itemLabel}\nAmount: ${formatCurrency(validAmount, organization?.currency || 'GBP')}`,
       [
         {
           text: 'Cancel',
@@ -532,7 +506,7 @@ export default function UserSummary() {
               await loadAssignments();
               
               // Show success message
-              Alert.alert('Success', `${quantity}x ${productName} has been marked as paid!\n\nBundle: ${bundleId}`);
+              Alert.alert('Success', `${itemLabel} has been marked as paid!\n\nBundle: ${bundleId}`);
             } catch (error) {
               console.error('Error marking individual item as paid:', error);
               Alert.alert('Error', 'Failed to update payment status. Please try again.');
@@ -624,7 +598,7 @@ export default function UserSummary() {
       <View style={[styles.breakdownItem, isDarkMode && styles.darkBreakdownItem]}>
         <View style={styles.breakdownInfo}>
           <Text style={[styles.breakdownProduct, isDarkMode && styles.darkBreakdownProduct]}>
-            {quantity}x {productName}
+            {describeAssignment(item)}
           </Text>
           <Text style={[styles.breakdownDate, isDarkMode && styles.darkBreakdownDate]}>
             {date} {isPaid ? '(Paid)' : '(Unpaid)'}
@@ -763,9 +737,9 @@ export default function UserSummary() {
                     const amount = assignment.total || assignment.amount || assignment.totalAmount || 0;
                     const validAmount = typeof amount === 'number' && !isNaN(amount) ? amount : 0;
                     
-                    // Handle different property names for product
-                    const productName = assignment.product || assignment.productName || 'Unknown Product';
-                    const quantity = assignment.quantity || 1;
+                    // Basket sales are one grouped item with a line breakdown
+                    const label = describeAssignment(assignment);
+                    const lines = isBasketAssignment(assignment) ? getAssignmentLines(assignment) : [];
                     const date = assignment.date ? formatUKDateTime(assignment.date) : ((assignment as any).createdAt ? formatUKDateTime((assignment as any).createdAt) : 'No Date');
                     const isPaid = assignment.paid || false;
                     
@@ -773,8 +747,16 @@ export default function UserSummary() {
                       <View key={assignment.id || `assignment-${index}`} style={[styles.breakdownItem, isDarkMode && styles.darkBreakdownItem]}>
                         <View style={styles.breakdownInfo}>
                           <Text style={[styles.breakdownProduct, isDarkMode && styles.darkBreakdownProduct]}>
-                            {quantity}x {productName}
+                            {label}
                           </Text>
+                          {lines.map((line, lineIndex) => (
+                            <Text
+                              key={`${assignment.id || index}-line-${lineIndex}`}
+                              style={[styles.breakdownLine, isDarkMode && styles.darkBreakdownDate]}
+                            >
+                              {line.quantity}x {line.productName} • {formatCurrency(line.total, organization?.currency || 'GBP')}
+                            </Text>
+                          ))}
                           <Text style={[styles.breakdownDate, isDarkMode && styles.darkBreakdownDate]}>
                             {date} {isPaid ? '(Paid)' : '(Unpaid)'}
                           </Text>
@@ -794,9 +776,9 @@ export default function UserSummary() {
                             )}
                             <TouchableOpacity
                               style={[styles.itemDeleteButton, isDarkMode && styles.darkItemDeleteButton]}
-                              onPress={() => handleDeleteAssignment(assignment)}
+                              onPress={() => handleVoidAssignment(assignment)}
                             >
-                              <Icon name="trash-can" size={14} color="#fff" />
+                              <Icon name="cancel" size={14} color="#fff" />
                             </TouchableOpacity>
                           </View>
                         </View>
@@ -874,6 +856,14 @@ export default function UserSummary() {
             </View>
           </View>
         </View>
+
+        <VoidSaleModal
+          visible={!!voidingAssignment}
+          assignment={voidingAssignment}
+          currency={organization?.currency || 'GBP'}
+          onClose={() => setVoidingAssignment(null)}
+          onVoided={handleAssignmentVoided}
+        />
       </Modal>
     </View>
   );
@@ -1234,6 +1224,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  breakdownLine: {
+    fontSize: 13,
+    color: '#666',
+    marginLeft: 8,
+    marginBottom: 2,
+  },
   darkBreakdownDate: {
     color: '#999',
   },
@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal, Switch, Alert, Dimensions } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useTheme } from '../app/ThemeContext';
+import { useAuth } from '../contexts/AuthContext';
+import { hybridSyncService } from '../services/HybridSyncService';
+import { formatCurrency } from '../utils/currency';
+import { describeAssignment, getAssignmentLines } from '../utils/assignmentLines';
+
+const { width } = Dimensions.get('window');
+
+interface VoidSaleModalProps {
+  visible: boolean;
+  assignment: any | null;
+  currency: string;
+  onClose: () => void;
+  onVoided: () => void;
+}
+
+/**
+ * Asks for the void reason (and refund for paid sales) and voids the sale with a compensating bundle
+ */
+export default function VoidSaleModal({ visible, assignment, currency, onClose, onVoided }: VoidSaleModalProps) {
+  const { isDarkMode } = useTheme();
+  const { user } = useAuth();
+  const [reason, setReason] = useState('');
+  const [refund, setRefund] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setReason('');
+      setRefund(true);
+    }
+  }, [visible, assignment?.id]);
+
+  if (!assignment) return null;
+
+  const total = getAssignmentLines(assignment).reduce((sum, line) => sum + line.total, 0);
+  const isPaid = !!assignment.paid;
+
+  const handleVoid = async () => {
+    if (!reason.trim()) {
+      Alert.alert('Reason required', 'Please enter why this sale is being voided.');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      console.log('🚫 Voiding sale:', assignment.id);
+      await hybridSyncService.createVoidSaleBundle({
+        assignmentId: assignment.id,
+        reason,
+        staffName: user?.displayName || user?.email || 'Unknown staff',
+        refund: isPaid ? refund : undefined,
+      });
+      console.log('✅ Sale voided:', assignment.id);
+      onVoided();
+    } catch (error: any) {
+      console.error('❌ Failed to void sale:', error);
+      Alert.alert('Error', error?.message || 'Failed to void sale. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContainer, isDarkMode && styles.darkModalContainer]}>
+          <Icon name="cancel" size={48} color="#ff6b6b" />
+          <Text style={[styles.modalTitle, isDarkMode && styles.darkText]}>Void Sale</Text>
+          <Text style={[styles.modalMessage, isDarkMode && styles.darkModalMessage]}>
+            {describeAssignment(assignment)}{'\n'}
+            Amount: {formatCurrency(total, currency)}{'\n\n'}
+            Stock is restored and the amount is taken off the player&apos;s balance.
+            The sale stays in the history marked as voided.
+          </Text>
+
+          <TextInput
+            style={[styles.reasonInput, isDarkMode && styles.darkReasonInput]}
+            placeholder="Reason (required)"
+            placeholderTextColor={isDarkMode ? '#888' : '#999'}
+            value={reason}
+            onChangeText={setReason}
+            multiline
+          />
+
+          {isPaid && (
+            <View style={styles.refundRow}>
+              <Text style={[styles.refundLabel, isDarkMode && styles.darkText]}>
+                Refund {formatCurrency(total, currency)} to the player
+              </Text>
+              <Switch value={refund} onValueChange={setRefund} />
+            </View>
+          )}
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity
+              style={[styles.cancelButton, isDarkMode && styles.darkCancelButton]}
+              onPress={onClose}
+              disabled={submitting}
+            >
+              <Text style={[styles.cancelButtonText, isDarkMode && styles.darkCancelButtonText]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.voidButton, submitting && styles.disabledButton]}
+              onPress={handleVoid}
+              disabled={submitting}
+            >
+              <Text style={styles.voidButtonText}>{submitting ? 'Voiding...' : 'Void Sale'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    minWidth: width * 0.8,
+    maxWidth: 400,
+  },
+  darkModalContainer: {
+    backgroundColor: '#1e1e1e',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  darkText: {
+    color: '#fff',
+  },
+  modalMessage: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 16,
+    lineHeight: 21,
+  },
+  darkModalMessage: {
+    color: '#ccc',
+  },
+  reasonInput: {
+    width: '100%',
+    minHeight: 60,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    color: '#333',
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  darkReasonInput: {
+    borderColor: '#444',
+    color: '#fff',
+    backgroundColor: '#2a2a2a',
+  },
+  refundRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    width: '100%',
+    marginBottom: 16,
+  },
+  refundLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+    marginRight: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    width: '100%',
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  darkCancelButton: {
+    backgroundColor: '#333',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  darkCancelButtonText: {
+    color: '#ccc',
+  },
+  voidButton: {
+    flex: 1,
+    backgroundColor: '#ff6b6b',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  voidButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
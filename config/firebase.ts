@@ -276,9 +276,18 @@ if (DEV_MODE === 'true' && __DEV__) {
   // You can uncomment these if you're running Firebase emulators:
   
   // connectAuthEmulator(FirebaseAuth, 'http://localhost:9099');
-  // connectFirestoreEmulator(FirebaseFirestore, 'localhost', 8080);
 }
 
+// Firestore emulator (e.g. "localhost:8080") - used by the multi-device sync simulator
+const FIRESTORE_EMULATOR_HOST = process.env.EXPO_PUBLIC_FIRESTORE_EMULATOR_HOST;
+if (FIRESTORE_EMULATOR_HOST && __DEV__) {
+  const [host, port] = FIRESTORE_EMULATOR_HOST.split(':');
+  connectFirestoreEmulator(FirebaseFirestore, host, Number(port) || 8080);
+  console.log('🧪 Firestore connected to emulator:', FIRESTORE_EMULATOR_HOST);
+}
+
+export const isUsingFirestoreEmulator = (): boolean => !!FIRESTORE_EMULATOR_HOST && __DEV__;
+
 // Helper functions
 export const isFirebaseConfigured = (): boolean => {
   return !!(
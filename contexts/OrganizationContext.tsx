@@ -27,6 +27,8 @@ interface Organization {
     requireParentEmail?: boolean;
     autoSyncInterval: number;
     chargeReasons?: ChargeReason[];
+    costingMethod?: 'lastCost' | 'weightedAverage'; // How goods receipts move Product.cost
+    lowStockAlertLevel?: number; // Products without their own minStockLevel are low at this
     features?: {
       enableBarcodeScan?: boolean;
       enablePushNotifications?: boolean;
@@ -210,7 +212,6 @@ export const OrganizationProvider: React.FC<OrganizationProviderProps> = ({ chil
       // Clear organization-specific cache through HybridSyncService
       if (organization?.id) {
         console.log('🧹 Clearing HybridSyncService cache for organization switch');
-        await hybridSyncService.clearSyncQueue();
         await hybridSyncService.clearAllStuckData();
         await hybridSyncService.clearPendingBundles();
         
@@ -0,0 +1,82 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import { hybridSyncService } from '../services/HybridSyncService';
+import { OverlayCollection } from '../services/OverlayStore';
+import { isLowStock } from '../services/StockLevels';
+
+/**
+ * Live folded views (base cache + provisional overlays) for screens. Each hook re-renders only
+ * when its collection changes - and with a selector, only when the selected value changes.
+ * Records are `undefined`/empty until the view has loaded; `loading` tells the two apart.
+ */
+
+const EMPTY: any[] = [];
+
+const useSubscribe = (collection: OverlayCollection) =>
+  useCallback(
+    (listener: () => void) => hybridSyncService.getOverlayStore().subscribe(collection, listener),
+    [collection]
+  );
+
+/**
+ * Every folded record of a collection
+ */
+export function useOverlayCollection(collection: OverlayCollection): { items: any[]; loading: boolean } {
+  const items = useSyncExternalStore(
+    useSubscribe(collection),
+    () => hybridSyncService.getOverlayStore().peek(collection)
+  );
+  return { items: items || EMPTY, loading: items === undefined };
+}
+
+/**
+ * One folded record by id, e.g. the player on a bill screen - ignores changes to other records
+ */
+export function useOverlayRecord(collection: OverlayCollection, id: string | null | undefined): any | undefined {
+  return useSyncExternalStore(
+    useSubscribe(collection),
+    () => (id ? hybridSyncService.getOverlayStore().peekRecord(collection, id) : undefined)
+  );
+}
+
+/**
+ * A value derived from a collection. The selector reruns when the view changes; the component
+ * re-renders only if `isEqual` says the result changed (so a selector returning a new array of
+ * the same records can pass shallowEqualArrays)
+ */
+export function useOverlaySelector<T>(
+  collection: OverlayCollection,
+  selector: (items: any[]) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T | undefined {
+  const cache = useRef<{ items?: any[]; selector?: (items: any[]) => T; selected?: T }>({});
+
+  const getSelected = () => {
+    const items = hybridSyncService.getOverlayStore().peek(collection);
+    if (items === undefined) return undefined;
+    const current = cache.current;
+    if (current.items === items && current.selector === selector) return current.selected;
+
+    const selected = selector(items);
+    const keep = current.items !== undefined && isEqual(current.selected as T, selected);
+    cache.current = { items, selector, selected: keep ? current.selected : selected };
+    return cache.current.selected;
+  };
+
+  return useSyncExternalStore(useSubscribe(collection), getSelected);
+}
+
+export const shallowEqualArrays = (a: any[] | undefined, b: any[] | undefined): boolean =>
+  a === b || (!!a && !!b && a.length === b.length && a.every((item, index) => item === b[index]));
+
+// ============================================
+// SELECTORS
+// ============================================
+
+/**
+ * Active products at or below their minimum stock level (or `threshold` when none is set),
+ * lowest stock first
+ */
+export const selectLowStockProducts = (threshold: number) => (products: any[]): any[] =>
+  products
+    .filter(product => isLowStock(product, threshold))
+    .sort((a, b) => (a.stock || 0) - (b.stock || 0));
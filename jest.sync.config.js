@@ -0,0 +1,9 @@
+/**
+ * Sync scenarios against the Firestore emulator - `npm run test:sync` starts the emulator (needs
+ * the Firebase CLI) and runs them. Node preset, so Firestore loads its Node build.
+ */
+module.exports = {
+  preset: 'jest-expo/node',
+  testMatch: ['**/__tests__/**/*.emulator.test.ts'],
+  testTimeout: 120000,
+};
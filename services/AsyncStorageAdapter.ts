@@ -0,0 +1,70 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageAdapter } from './StorageAdapter';
+
+/**
+ * AsyncStorage adapter - the original layout: each collection is one JSON array under its own key.
+ * Record writes still rewrite the whole array; kept as the default for compatibility with
+ * screens and tools that read the collection keys directly.
+ */
+export class AsyncStorageAdapter implements StorageAdapter {
+  readonly name = 'asyncStorage';
+
+  async init(): Promise<void> {}
+
+  getItem(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return AsyncStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return AsyncStorage.removeItem(key);
+  }
+
+  multiRemove(keys: readonly string[]): Promise<void> {
+    return AsyncStorage.multiRemove(keys);
+  }
+
+  getAllKeys(): Promise<readonly string[]> {
+    return AsyncStorage.getAllKeys();
+  }
+
+  async getCollection(collection: string): Promise<any[]> {
+    const data = await AsyncStorage.getItem(collection);
+    return data ? JSON.parse(data) : [];
+  }
+
+  async replaceCollection(collection: string, records: any[]): Promise<void> {
+    await AsyncStorage.setItem(collection, JSON.stringify(records));
+  }
+
+  async getRecord(collection: string, id: string): Promise<any | null> {
+    const records = await this.getCollection(collection);
+    return records.find((record: any) => record.id === id) || null;
+  }
+
+  async upsertRecords(collection: string, records: any[]): Promise<void> {
+    const current = await this.getCollection(collection);
+    for (const record of records) {
+      const index = current.findIndex((item: any) => item.id === record.id);
+      if (index === -1) {
+        current.push(record);
+      } else {
+        current[index] = record;
+      }
+    }
+    await this.replaceCollection(collection, current);
+  }
+
+  async deleteRecords(collection: string, ids: string[]): Promise<void> {
+    const idSet = new Set(ids);
+    const current = await this.getCollection(collection);
+    await this.replaceCollection(collection, current.filter((item: any) => !idSet.has(item.id)));
+  }
+
+  async clearCollection(collection: string): Promise<void> {
+    await AsyncStorage.removeItem(collection);
+  }
+}
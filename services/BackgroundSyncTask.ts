@@ -0,0 +1,69 @@
+import * as BackgroundTask from 'expo-background-task';
+import * as TaskManager from 'expo-task-manager';
+import { hybridSyncService } from './HybridSyncService';
+
+/**
+ * OS-scheduled background sync
+ *
+ * The foreground timers in HybridSyncService stop when the app is backgrounded, so a till closed
+ * at the end of break would otherwise keep its bundles until the next morning. The OS wakes the
+ * app every so often (at most every `minimumInterval` minutes, when it decides) and this task
+ * drains the outbox with a bounded time budget - see HybridSyncService.runBackgroundSync.
+ *
+ * The task has to be defined when the JS bundle loads, so App.js imports this module.
+ */
+
+export const BACKGROUND_SYNC_TASK = 'vmstock-background-sync';
+const BACKGROUND_SYNC_MINIMUM_INTERVAL_MINUTES = 15;
+
+TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+  try {
+    const run = await hybridSyncService.runBackgroundSync();
+    return run.status === 'failed' ? BackgroundTask.BackgroundTaskResult.Failed : BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    console.error('❌ Background sync task failed:', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+/**
+ * Ask the OS to run background sync - safe to call on every launch
+ */
+export const registerBackgroundSyncTask = async (): Promise<boolean> => {
+  try {
+    const status = await BackgroundTask.getStatusAsync();
+    if (status === BackgroundTask.BackgroundTaskStatus.Restricted) {
+      console.warn('⚠️ Background sync unavailable - background tasks are restricted on this device');
+      return false;
+    }
+
+    if (!(await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK))) {
+      await BackgroundTask.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+        minimumInterval: BACKGROUND_SYNC_MINIMUM_INTERVAL_MINUTES,
+      });
+      console.log('🌙 Background sync task registered');
+    }
+    return true;
+  } catch (error) {
+    console.warn('⚠️ Failed to register background sync task:', error);
+    return false;
+  }
+};
+
+export const unregisterBackgroundSyncTask = async (): Promise<void> => {
+  if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK)) {
+    await BackgroundTask.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+    console.log('🌙 Background sync task unregistered');
+  }
+};
+
+/**
+ * Registration state for the diagnostics screens
+ */
+export const getBackgroundSyncTaskStatus = async (): Promise<{ available: boolean; registered: boolean }> => {
+  const status = await BackgroundTask.getStatusAsync();
+  return {
+    available: status === BackgroundTask.BackgroundTaskStatus.Available,
+    registered: await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK),
+  };
+};
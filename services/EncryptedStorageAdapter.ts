@@ -0,0 +1,420 @@
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { StorageAdapter, RECORD_COLLECTIONS } from './StorageAdapter';
+import {
+  StorageKey,
+  decryptValue,
+  deriveStorageKey,
+  encryptValue,
+  fromBase64,
+  getValueKeyId,
+  isEncryptedValue,
+  toBase64,
+} from '../utils/storageCrypto';
+
+/**
+ * Encryption at rest for the sync engine's local data
+ *
+ * Wraps another StorageAdapter: sync key/value items (outbox, provisional overlays, dead letters)
+ * and record collections (products, players, ...) are encrypted before they reach the backend.
+ * The per-install key lives in the platform secure store next to the JWT and biometric
+ * credentials - the storage itself only ever holds ciphertext.
+ *
+ * Records keep only their id - an opaque generated id - in the clear so the backend can still
+ * address them; everything else, timestamps included, is in the sealed payload. Rewriting a
+ * collection re-seals only the records whose contents changed since they were last sealed or
+ * read, so a sync pass that touches a few records doesn't pay for the whole cache in pure JS.
+ * Plaintext written by older
+ * builds is still readable until a one-time sweep on init encrypts it - after that, plaintext in a
+ * sensitive item or record can only have been written around this adapter and is refused.
+ */
+
+/** Secure store contents: every key that may still be in use, and which one new writes use */
+export interface StorageKeyring {
+  current: string;
+  keys: Record<string, string>; // keyId -> base64 master key
+}
+
+export interface StorageKeyStore {
+  load(): Promise<StorageKeyring | null>;
+  save(keyring: StorageKeyring): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const KEYRING_SECURE_STORE_KEY = 'vmstock_storage_keyring';
+// Plain marker in the backend - set once existing plaintext has been swept
+const ENCRYPTION_MARKER_KEY = 'storage_encryption';
+
+/**
+ * Keyring in expo-secure-store. Readable after first unlock so background sync can open the
+ * outbox; never included in backups, so restored data can't be read on another device.
+ */
+export const secureStoreKeyStore: StorageKeyStore = {
+  async load() {
+    const raw = await SecureStore.getItemAsync(KEYRING_SECURE_STORE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  },
+  async save(keyring) {
+    await SecureStore.setItemAsync(KEYRING_SECURE_STORE_KEY, JSON.stringify(keyring), {
+      keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+    });
+  },
+  async clear() {
+    await SecureStore.deleteItemAsync(KEYRING_SECURE_STORE_KEY);
+  },
+};
+
+export interface EncryptedStorageOptions {
+  /** Which key/value items to encrypt - others (app-level keys sharing the backend) pass through */
+  isSensitiveKey?: (key: string) => boolean;
+  keyStore?: StorageKeyStore;
+}
+
+interface LoadedKeyring {
+  current: StorageKey;
+  keys: Map<string, StorageKey>;
+  stored: StorageKeyring;
+}
+
+const newKeyId = (): string =>
+  Array.from(Crypto.getRandomBytes(4)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export class EncryptedStorageAdapter implements StorageAdapter {
+  readonly name: string;
+  private keyring: Promise<LoadedKeyring> | null = null;
+  // Rotation and wipes rewrite everything - other calls wait for them
+  private exclusive: Promise<void> = Promise.resolve();
+  private isSensitiveKey: (key: string) => boolean;
+  private keyStore: StorageKeyStore;
+  // Set once the marker is in place - unsealed sensitive values are tampered from then on
+  private swept = false;
+  // Plaintext and sealed form of each record last written or read, by label
+  private sealedRecords = new Map<string, { plaintext: string; sealed: string }>();
+
+  constructor(private inner: StorageAdapter, options: EncryptedStorageOptions = {}) {
+    this.name = inner.name;
+    // The marker stays readable - init needs it before any key is loaded
+    const isSensitiveKey = options.isSensitiveKey || (() => true);
+    this.isSensitiveKey = key => key !== ENCRYPTION_MARKER_KEY && isSensitiveKey(key);
+    this.keyStore = options.keyStore || secureStoreKeyStore;
+  }
+
+  async init(): Promise<void> {
+    await this.inner.init();
+    await this.runExclusive(async () => {
+      const keyring = await this.getKeyring();
+      const marker = await this.inner.getItem(ENCRYPTION_MARKER_KEY);
+      this.swept = !!marker;
+
+      // First run on this install, or a rotation that was interrupted
+      if (!marker || keyring.keys.size > 1) {
+        const rewritten = await this.resealAll(keyring);
+        await this.pruneKeyring(keyring);
+        await this.inner.setItem(ENCRYPTION_MARKER_KEY, JSON.stringify({ keyId: keyring.current.id, sweptAt: Date.now() }));
+        this.swept = true;
+        if (rewritten > 0) {
+          console.log(`🔐 Encrypted ${rewritten} local sync entries`);
+        }
+      }
+    });
+  }
+
+  // ============================================
+  // KEY/VALUE ITEMS
+  // ============================================
+
+  async getItem(key: string): Promise<string | null> {
+    await this.exclusive;
+    return this.readItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.exclusive;
+    await this.writeItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.exclusive;
+    await this.inner.removeItem(key);
+  }
+
+  async multiRemove(keys: readonly string[]): Promise<void> {
+    await this.exclusive;
+    await this.inner.multiRemove(keys);
+  }
+
+  async getAllKeys(): Promise<readonly string[]> {
+    await this.exclusive;
+    return this.inner.getAllKeys();
+  }
+
+  // ============================================
+  // RECORD COLLECTIONS
+  // ============================================
+
+  async getCollection(collection: string): Promise<any[]> {
+    await this.exclusive;
+    return this.readCollection(collection);
+  }
+
+  async replaceCollection(collection: string, records: any[]): Promise<void> {
+    await this.exclusive;
+    await this.writeCollection(collection, records);
+  }
+
+  async getRecord(collection: string, id: string): Promise<any | null> {
+    await this.exclusive;
+    const stored = await this.inner.getRecord(collection, id);
+    return stored ? this.openRecord(collection, stored) : null;
+  }
+
+  async upsertRecords(collection: string, records: any[]): Promise<void> {
+    await this.exclusive;
+    const sealed = await Promise.all(records.map(record => this.sealRecord(collection, record)));
+    await this.inner.upsertRecords(collection, sealed);
+  }
+
+  async deleteRecords(collection: string, ids: string[]): Promise<void> {
+    await this.exclusive;
+    ids.forEach(id => this.sealedRecords.delete(`${collection}/${id}`));
+    await this.inner.deleteRecords(collection, ids);
+  }
+
+  async clearCollection(collection: string): Promise<void> {
+    await this.exclusive;
+    this.forgetSealedRecords(collection);
+    await this.inner.clearCollection(collection);
+  }
+
+  // ============================================
+  // KEY MANAGEMENT
+  // ============================================
+
+  /**
+   * Id of the key new writes are encrypted with
+   */
+  async getCurrentKeyId(): Promise<string> {
+    return (await this.getKeyring()).current.id;
+  }
+
+  /**
+   * Switch to a fresh key and re-encrypt everything under it. The old key stays in the keyring
+   * until every entry has been rewritten, so an interrupted rotation is finished on next init.
+   */
+  async rotateKey(): Promise<void> {
+    await this.runExclusive(async () => {
+      const keyring = await this.getKeyring();
+      const previousId = keyring.current.id;
+      const next = this.createKey();
+
+      keyring.keys.set(next.key.id, next.key);
+      keyring.current = next.key;
+      keyring.stored = {
+        current: next.key.id,
+        keys: { ...keyring.stored.keys, [next.key.id]: next.master },
+      };
+      await this.keyStore.save(keyring.stored);
+
+      await this.resealAll(keyring);
+      await this.pruneKeyring(keyring);
+      console.log(`🔐 Local storage key rotated (${previousId} → ${next.key.id})`);
+    });
+  }
+
+  /**
+   * Delete every sensitive item and record collection, then destroy the key - any copy left
+   * behind by the backend or flash storage can no longer be decrypted. Items in `keep` are
+   * carried over under a new key.
+   */
+  async secureWipe(keep: string[] = []): Promise<void> {
+    await this.runExclusive(async () => {
+      const kept: [string, string][] = [];
+      for (const key of keep) {
+        const value = await this.readItem(key);
+        if (value !== null) kept.push([key, value]);
+      }
+
+      const keys = (await this.inner.getAllKeys()).filter(key => this.isSensitiveKey(key) || RECORD_COLLECTIONS.includes(key));
+      await this.inner.multiRemove(keys);
+      for (const collection of RECORD_COLLECTIONS) {
+        await this.inner.clearCollection(collection);
+      }
+
+      await this.keyStore.clear();
+      this.keyring = null;
+      this.sealedRecords.clear();
+      for (const [key, value] of kept) {
+        await this.writeItem(key, value);
+      }
+      await this.inner.setItem(ENCRYPTION_MARKER_KEY, JSON.stringify({ keyId: await this.getCurrentKeyId(), sweptAt: Date.now() }));
+      this.swept = true;
+      console.log(`🔐 Local sync data wiped (${keys.length} keys) and storage key destroyed`);
+    });
+  }
+
+  private createKey(): { key: StorageKey; master: string } {
+    const master = Crypto.getRandomBytes(32);
+    return { key: deriveStorageKey(newKeyId(), master), master: toBase64(master) };
+  }
+
+  private getKeyring(): Promise<LoadedKeyring> {
+    if (!this.keyring) {
+      this.keyring = this.loadKeyring();
+      // Let the next call retry if the secure store was unavailable
+      this.keyring.catch(() => { this.keyring = null; });
+    }
+    return this.keyring;
+  }
+
+  private async loadKeyring(): Promise<LoadedKeyring> {
+    let stored = await this.keyStore.load();
+    if (!stored || !stored.keys[stored.current]) {
+      const created = this.createKey();
+      stored = { current: created.key.id, keys: { [created.key.id]: created.master } };
+      await this.keyStore.save(stored);
+      console.log('🔐 Created local storage key', created.key.id);
+    }
+
+    const keys = new Map<string, StorageKey>();
+    Object.entries(stored.keys).forEach(([id, master]) => keys.set(id, deriveStorageKey(id, fromBase64(master))));
+    return { current: keys.get(stored.current)!, keys, stored };
+  }
+
+  private async pruneKeyring(keyring: LoadedKeyring): Promise<void> {
+    if (keyring.keys.size === 1) return;
+    keyring.keys = new Map([[keyring.current.id, keyring.current]]);
+    keyring.stored = { current: keyring.current.id, keys: { [keyring.current.id]: keyring.stored.keys[keyring.current.id] } };
+    await this.keyStore.save(keyring.stored);
+  }
+
+  private async runExclusive(work: () => Promise<void>): Promise<void> {
+    const run = this.exclusive.then(work);
+    this.exclusive = run.catch(() => {});
+    return run;
+  }
+
+  // ============================================
+  // SEALING
+  // ============================================
+
+  private async seal(plaintext: string, label: string): Promise<string> {
+    const keyring = await this.getKeyring();
+    return encryptValue(plaintext, keyring.current, label, Crypto.getRandomBytes(12));
+  }
+
+  /**
+   * Plaintext of a stored value - legacy plaintext passes through until the sweep, values under a
+   * key that no longer exists read as missing (they can never be recovered)
+   */
+  private async open(value: string, label: string): Promise<string | null> {
+    if (!isEncryptedValue(value)) {
+      this.assertNotSwept(label);
+      return value;
+    }
+    const keyring = await this.getKeyring();
+    const key = keyring.keys.get(getValueKeyId(value) || '');
+    if (!key) {
+      console.error(`❌ Local value ${label} was encrypted with a key this install no longer has - ignoring it`);
+      return null;
+    }
+    return decryptValue(value, key, label);
+  }
+
+  private async readItem(key: string): Promise<string | null> {
+    const value = await this.inner.getItem(key);
+    if (value === null || !this.isSensitiveKey(key)) return value;
+    return this.open(value, key);
+  }
+
+  private async writeItem(key: string, value: string): Promise<void> {
+    await this.inner.setItem(key, this.isSensitiveKey(key) ? await this.seal(value, key) : value);
+  }
+
+  /**
+   * Sealed form of a record - reuses the last ciphertext if the record is unchanged and its key is
+   * still current
+   */
+  private async sealRecord(collection: string, record: any): Promise<any> {
+    const label = `${collection}/${record.id}`;
+    const plaintext = JSON.stringify(record);
+    const cached = this.sealedRecords.get(label);
+    const keyring = await this.getKeyring();
+    if (cached && cached.plaintext === plaintext && getValueKeyId(cached.sealed) === keyring.current.id) {
+      return { id: record.id, sealed: cached.sealed };
+    }
+
+    const sealed = await this.seal(plaintext, label);
+    this.sealedRecords.set(label, { plaintext, sealed });
+    return { id: record.id, sealed };
+  }
+
+  private async openRecord(collection: string, stored: any): Promise<any | null> {
+    const label = `${collection}/${stored?.id}`;
+    if (typeof stored?.sealed !== 'string') {
+      this.assertNotSwept(label);
+      return stored;
+    }
+    const plaintext = await this.open(stored.sealed, label);
+    if (plaintext === null) return null;
+    this.sealedRecords.set(label, { plaintext, sealed: stored.sealed });
+    return JSON.parse(plaintext);
+  }
+
+  // Drop cached records of a collection, except the labels in `keep`
+  private forgetSealedRecords(collection: string, keep: Set<string> = new Set()): void {
+    for (const label of this.sealedRecords.keys()) {
+      if (label.startsWith(`${collection}/`) && !keep.has(label)) this.sealedRecords.delete(label);
+    }
+  }
+
+  /**
+   * Refuse plaintext once everything has been encrypted - like a failed integrity check
+   */
+  private assertNotSwept(label: string): void {
+    if (this.swept) {
+      throw new Error(`Local value ${label} is not encrypted - it was written outside the app`);
+    }
+  }
+
+  private async readCollection(collection: string): Promise<any[]> {
+    const stored = await this.inner.getCollection(collection);
+    const records = await Promise.all(stored.map(record => this.openRecord(collection, record)));
+    return records.filter(record => record !== null);
+  }
+
+  private async writeCollection(collection: string, records: any[]): Promise<void> {
+    const sealed = await Promise.all(records.map(record => this.sealRecord(collection, record)));
+    this.forgetSealedRecords(collection, new Set(records.map(record => `${collection}/${record.id}`)));
+    await this.inner.replaceCollection(collection, sealed);
+  }
+
+  /**
+   * Rewrite every sensitive item and record not already under the current key
+   */
+  private async resealAll(keyring: LoadedKeyring): Promise<number> {
+    const isCurrent = (value: string) => getValueKeyId(value) === keyring.current.id;
+    let rewritten = 0;
+
+    for (const key of await this.inner.getAllKeys()) {
+      if (!this.isSensitiveKey(key) || RECORD_COLLECTIONS.includes(key)) continue;
+      const value = await this.inner.getItem(key);
+      if (value === null || isCurrent(value)) continue;
+      const plaintext = await this.open(value, key);
+      if (plaintext === null) {
+        await this.inner.removeItem(key);
+      } else {
+        await this.writeItem(key, plaintext);
+      }
+      rewritten++;
+    }
+
+    for (const collection of RECORD_COLLECTIONS) {
+      const stored = await this.inner.getCollection(collection);
+      if (stored.every(record => typeof record?.sealed === 'string' && isCurrent(record.sealed))) continue;
+      await this.writeCollection(collection, await this.readCollection(collection));
+      rewritten++;
+    }
+
+    return rewritten;
+  }
+}
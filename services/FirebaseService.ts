@@ -5,6 +5,7 @@ import {
   setDoc,
   getDoc,
   getDocs,
+  getCountFromServer,
   updateDoc,
   deleteDoc,
   query,
@@ -15,11 +16,18 @@ import {
   serverTimestamp,
   writeBatch,
   Timestamp,
-  increment
+  increment,
+  startAfter,
+  documentId,
+  runTransaction,
+  Unsubscribe
 } from 'firebase/firestore';
 import { FirebaseFirestore } from '../config/firebase';
 import { generateUUID } from '../utils/uuid';
 import { formatCurrency } from '../utils/currency';
+import { StockMovement, StockMovementReason, stockMovementReason } from './StockLedger';
+import { PurchaseOrder, GoodsReceipt } from './PurchaseOrders';
+import { Supplier } from './Suppliers';
 
 // Types for our data models
 export interface Product {
@@ -103,11 +111,23 @@ export interface Assignment {
   totalAmount: number;
   date: string;
   status: 'pending' | 'completed' | 'cancelled';
+  cancelledAt?: string;
+  cancelledBy?: string;
+  cancelReason?: string;
+  refundChargeId?: string;
   // Payment tracking
   paid?: boolean;
   paidAt?: Timestamp;
   paidBy?: string; // User ID who processed payment
   paidByUserName?: string;
+  // Basket sales carry one line per product (productId/quantity summarise the basket)
+  lineItems?: {
+    productId: string;
+    productName: string;
+    quantity: number;
+    unitPrice: number;
+    total: number;
+  }[];
   organizationId: string;
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
@@ -127,9 +147,101 @@ export interface Report {
   createdAt?: Timestamp;
 }
 
+// Position in a collection's change stream: last seen updatedAt (ms) plus doc id as tie-breaker
+export interface ChangeCursor {
+  updatedAt: number;
+  docId: string;
+}
+
+export interface ChangePage<T> {
+  docs: T[];
+  cursor: ChangeCursor | null; // Cursor after the last doc in this page (null if page empty)
+  hasMore: boolean;
+}
+
+export interface Tombstone {
+  id: string;
+  collection: string;
+  entityId: string;
+  deletedAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// sync-metadata/{deviceId}: how far a device's own outbox has been acknowledged
+export interface SyncWatermark {
+  deviceId: string;
+  ackedSeq: number;        // Every bundle this device numbered <= ackedSeq has been acknowledged
+  lowWatermarkAt: number;  // Every bundle this device created before this time (ms) has been acknowledged
+  updatedAt?: Timestamp;
+}
+
+// Chunk-level progress of a bundle too large for one transaction (kept on the pending bundle)
+export interface BundleChunkProgress {
+  completedSteps: number;  // Steps [0, completedSteps) are committed
+  totalSteps: number;
+  chunk: number;
+  chunkCount: number;
+  acks: any[];             // Acks of the committed steps
+}
+
+export interface BundleApplyOptions {
+  onChunkCommitted?: (progress: BundleChunkProgress) => Promise<void> | void;
+}
+
+// Firestore allows 500 writes per transaction - leave headroom
+export const MAX_WRITES_PER_CHUNK = 450;
+// Single-entity bundle steps (see OperationBundles) - their target doc may legitimately be missing
+const ENTITY_STEP_KINDS = ['createEntity', 'updateEntity', 'deleteEntity'];
+
+// Document writes one step makes, including its appliedOps marker
+const countStepWrites = (step: any): number => {
+  switch (step.kind) {
+    case 'stockDelta':
+    case 'stockTakeRebase':
+    case 'balanceDelta':
+    case 'updatePlayerBalance':
+    case 'deleteCharge':
+    case 'deleteEntity':
+      return 3;
+    case 'createEntity':
+    case 'updateEntity':
+      // Setting a product's stock also writes its stock-movement entry
+      return step.payload?.collection === 'products' && typeof step.payload?.data?.stock === 'number' ? 3 : 2;
+    default:
+      return 2;
+  }
+};
+
+/**
+ * Split steps into ordered chunks that each fit in one transaction
+ */
+export const planBundleChunks = (steps: any[]): any[][] => {
+  const chunks: any[][] = [];
+  let current: any[] = [];
+  let writes = 0;
+
+  steps.forEach(step => {
+    const stepWrites = countStepWrites(step);
+    if (current.length > 0 && writes + stepWrites > MAX_WRITES_PER_CHUNK) {
+      chunks.push(current);
+      current = [];
+      writes = 0;
+    }
+    current.push(step);
+    writes += stepWrites;
+  });
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+};
+
 // Firebase Service Class
 export class FirebaseService {
   private organizationId: string;
+  // Watermarks read or written by this client, keyed by deviceId - only the owning device advances one
+  private watermarkCache = new Map<string, SyncWatermark>();
 
   constructor(organizationId?: string) {
     // Default to empty string if no organizationId provided - will throw error on use
@@ -141,6 +253,9 @@ export class FirebaseService {
     if (!organizationId) {
       throw new Error('Organization ID cannot be empty');
     }
+    if (organizationId !== this.organizationId) {
+      this.watermarkCache.clear();
+    }
     this.organizationId = organizationId;
   }
 
@@ -149,6 +264,10 @@ export class FirebaseService {
     return !!this.organizationId;
   }
 
+  getOrganizationId(): string {
+    return this.organizationId;
+  }
+
   // Helper method to get organization collection path
   private getOrgCollection(collectionName: string) {
     // Ensure organizationId is valid to prevent path issues
@@ -194,80 +313,399 @@ export class FirebaseService {
     }
   }
 
+  // ============================================
+  // APPLIED-OPS WATERMARKS & COMPACTION
+  // ============================================
+
+  /**
+   * Publish how far this device's outbox has been acknowledged (sync-metadata/{deviceId})
+   */
+  async updateSyncWatermark(deviceId: string, watermark: { ackedSeq: number; lowWatermarkAt: number }): Promise<void> {
+    const ref = doc(FirebaseFirestore, this.getOrgCollection('sync-metadata'), deviceId);
+    await setDoc(ref, {
+      deviceId,
+      ackedSeq: watermark.ackedSeq,
+      lowWatermarkAt: watermark.lowWatermarkAt,
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+    this.watermarkCache.set(deviceId, { deviceId, ...watermark });
+  }
+
+  /**
+   * Watermark for one device - cached, so the common case costs no read
+   */
+  async getSyncWatermark(deviceId: string): Promise<SyncWatermark | null> {
+    const cached = this.watermarkCache.get(deviceId);
+    if (cached) return cached;
+
+    const snapshot = await getDoc(doc(FirebaseFirestore, this.getOrgCollection('sync-metadata'), deviceId));
+    if (!snapshot.exists()) return null;
+
+    const watermark = { deviceId, ...snapshot.data() } as SyncWatermark;
+    this.watermarkCache.set(deviceId, watermark);
+    return watermark;
+  }
+
+  /**
+   * Watermarks of every device that has ever synced in this organization
+   */
+  async getSyncWatermarks(): Promise<SyncWatermark[]> {
+    const snapshot = await getDocs(collection(FirebaseFirestore, this.getOrgCollection('sync-metadata')));
+    return snapshot.docs.map(d => ({ deviceId: d.id, ...d.data() } as SyncWatermark));
+  }
+
+  /**
+   * Delete appliedOps records applied before the cutoff (ms), in batches - returns how many were removed
+   */
+  async deleteAppliedOpsBefore(cutoff: number, pageSize: number = 400): Promise<number> {
+    const ref = collection(FirebaseFirestore, this.getOrgCollection('appliedOps'));
+    let deleted = 0;
+
+    while (true) {
+      const snapshot = await getDocs(query(ref, where('appliedAt', '<', Timestamp.fromMillis(cutoff)), orderBy('appliedAt'), limit(pageSize)));
+      if (snapshot.empty) break;
+
+      const batch = writeBatch(FirebaseFirestore);
+      snapshot.docs.forEach(d => batch.delete(d.ref));
+      await batch.commit();
+      deleted += snapshot.docs.length;
+
+      if (snapshot.docs.length < pageSize) break;
+    }
+
+    return deleted;
+  }
+
   /**
-   * Apply bundle transaction with idempotency (from MD specification)
+   * Number of appliedOps records the organization holds (a server-side count, no documents read)
    */
-  async applyBundleTransaction(bundle: any): Promise<any[]> {
+  async countAppliedOps(): Promise<number> {
+    const snapshot = await getCountFromServer(collection(FirebaseFirestore, this.getOrgCollection('appliedOps')));
+    return snapshot.data().count;
+  }
+
+  /**
+   * True if the originating device has already confirmed this bundle - its appliedOps
+   * records may have been compacted away, so the watermark is the authority
+   */
+  private async isBundleBelowWatermark(bundle: any): Promise<boolean> {
+    if (typeof bundle.seq !== 'number' || !bundle.deviceId) return false;
+    try {
+      const watermark = await this.getSyncWatermark(bundle.deviceId);
+      return !!watermark && bundle.seq <= watermark.ackedSeq;
+    } catch (error) {
+      console.warn('⚠️ Could not read sync watermark, falling back to per-op checks:', error);
+      return false;
+    }
+  }
+
+  // ============================================
+  // INCREMENTAL SYNC (updatedAt cursors + tombstones)
+  // ============================================
+
+  /**
+   * Fetch one page of documents changed after the given cursor, ordered by (updatedAt, docId)
+   */
+  async getChangedDocs(collectionName: string, cursor: ChangeCursor | null, pageSize: number = 300): Promise<ChangePage<any>> {
+    const ref = collection(FirebaseFirestore, this.getOrgCollection(collectionName));
+    const q = cursor
+      ? query(ref, orderBy('updatedAt'), orderBy(documentId()), this.startAfterCursor(cursor), limit(pageSize))
+      : query(ref, orderBy('updatedAt'), orderBy(documentId()), limit(pageSize));
+    const snapshot = await getDocs(q);
+
+    const docs = snapshot.docs.map(d => {
+      const data = d.data();
+      return { ...data, id: data.id || d.id };
+    });
+
+    const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    const lastUpdatedAt = lastDoc?.data().updatedAt;
+
+    return {
+      docs,
+      cursor: lastDoc ? { updatedAt: lastUpdatedAt?.toMillis ? lastUpdatedAt.toMillis() : 0, docId: lastDoc.id } : null,
+      hasMore: snapshot.docs.length === pageSize
+    };
+  }
+
+  /**
+   * Fetch tombstones for a collection recorded after the given cursor
+   */
+  async getTombstonesSince(collectionName: string, cursor: ChangeCursor | null, pageSize: number = 300): Promise<ChangePage<Tombstone>> {
+    const ref = collection(FirebaseFirestore, this.getOrgCollection('tombstones'));
+    const q = cursor
+      ? query(ref, where('collection', '==', collectionName), orderBy('updatedAt'), orderBy(documentId()), this.startAfterCursor(cursor), limit(pageSize))
+      : query(ref, where('collection', '==', collectionName), orderBy('updatedAt'), orderBy(documentId()), limit(pageSize));
+    const snapshot = await getDocs(q);
+
+    const docs = snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Tombstone));
+    const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    const lastUpdatedAt = lastDoc?.data().updatedAt;
+
+    return {
+      docs,
+      cursor: lastDoc ? { updatedAt: lastUpdatedAt?.toMillis ? lastUpdatedAt.toMillis() : 0, docId: lastDoc.id } : null,
+      hasMore: snapshot.docs.length === pageSize
+    };
+  }
+
+  /**
+   * Live changes to a collection from the cursor time onwards - docs still waiting on a local
+   * write are left for the next snapshot. Returns the unsubscribe function.
+   */
+  subscribeToChangedDocs(
+    collectionName: string,
+    cursor: ChangeCursor | null,
+    onChanges: (docs: any[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    const ref = collection(FirebaseFirestore, this.getOrgCollection(collectionName));
+    const q = query(ref, where('updatedAt', '>=', Timestamp.fromMillis(cursor?.updatedAt || 0)), orderBy('updatedAt'));
+
+    return onSnapshot(q, snapshot => {
+      const docs = snapshot.docChanges()
+        .filter(change => change.type !== 'removed' && !change.doc.metadata.hasPendingWrites)
+        .map(change => {
+          const data = change.doc.data();
+          return { ...data, id: data.id || change.doc.id };
+        });
+      if (docs.length > 0) {
+        onChanges(docs);
+      }
+    }, onError);
+  }
+
+  /**
+   * Live tombstones for a collection from the cursor time onwards
+   */
+  subscribeToTombstones(
+    collectionName: string,
+    cursor: ChangeCursor | null,
+    onTombstones: (tombstones: Tombstone[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    const ref = collection(FirebaseFirestore, this.getOrgCollection('tombstones'));
+    const q = query(
+      ref,
+      where('collection', '==', collectionName),
+      where('updatedAt', '>=', Timestamp.fromMillis(cursor?.updatedAt || 0)),
+      orderBy('updatedAt')
+    );
+
+    return onSnapshot(q, snapshot => {
+      const tombstones = snapshot.docChanges()
+        .filter(change => change.type === 'added' && !change.doc.metadata.hasPendingWrites)
+        .map(change => ({ id: change.doc.id, ...change.doc.data() } as Tombstone));
+      if (tombstones.length > 0) {
+        onTombstones(tombstones);
+      }
+    }, onError);
+  }
+
+  // Seeded cursors carry no docId - documentId() rejects empty strings, so start after the time only
+  private startAfterCursor(cursor: ChangeCursor) {
+    return cursor.docId
+      ? startAfter(Timestamp.fromMillis(cursor.updatedAt), cursor.docId)
+      : startAfter(Timestamp.fromMillis(cursor.updatedAt));
+  }
+
+  /**
+   * Record a deletion so incremental pulls on other devices can remove the entity
+   */
+  async writeTombstone(collectionName: string, entityId: string, batch?: any): Promise<void> {
+    const tombstoneRef = doc(FirebaseFirestore, this.getOrgCollection('tombstones'), `${collectionName}_${entityId}`);
+    const tombstone = {
+      collection: collectionName,
+      entityId,
+      deletedAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    };
+
+    if (batch) {
+      batch.set(tombstoneRef, tombstone);
+    } else {
+      await setDoc(tombstoneRef, tombstone);
+    }
+  }
+
+  /**
+   * Append an entry to the organization's audit log (audit-logs subcollection)
+   */
+  async writeAuditLog(entry: { id?: string; action: string; [key: string]: any }): Promise<string> {
+    const logId = entry.id || generateUUID();
+    const logRef = doc(FirebaseFirestore, this.getOrgCollection('audit-logs'), logId);
+    await setDoc(logRef, {
+      ...entry,
+      id: logId,
+      createdAt: serverTimestamp()
+    });
+    return logId;
+  }
+
+  /**
+   * Apply a bundle with idempotency. Bundles too big for one transaction are applied in
+   * ordered chunks; progress is reported after each chunk and bundle.chunkProgress resumes there.
+   */
+  async applyBundleTransaction(bundle: any, options: BundleApplyOptions = {}): Promise<any[]> {
     console.log('🔥 Starting bundle transaction:', bundle.bundleId);
     
     if (!bundle || !bundle.steps || !Array.isArray(bundle.steps)) {
       throw new Error('Invalid bundle: missing or invalid steps array');
     }
+
+    bundle.steps.forEach((step: any) => {
+      if (!step || !step.opId) {
+        console.error('❌ Invalid step in bundle:', step);
+        throw new Error('Invalid step: missing opId');
+      }
+    });
+
+    if (bundle.type === 'basketSale') {
+      this.validateBasketBundle(bundle);
+    }
+    if (bundle.type === 'entityWrite') {
+      await this.prepareEntitySteps(bundle);
+    }
+
+    if (await this.isBundleBelowWatermark(bundle)) {
+      console.log(`⚠️ Bundle ${bundle.bundleId} (seq ${bundle.seq}) is below its device watermark, skipping`);
+      return bundle.steps.map((step: any) => ({ opId: step.opId, appliedAt: Date.now(), skipped: true }));
+    }
     
-    const batch = writeBatch(FirebaseFirestore);
-    const acks: any[] = [];
+    const totalSteps = bundle.steps.length;
+    const progress: BundleChunkProgress | undefined = bundle.chunkProgress;
+    const resumeAt = progress?.completedSteps || 0;
+    const acks: any[] = resumeAt > 0 ? [...(progress?.acks || [])] : [];
+    const chunks = planBundleChunks(bundle.steps.slice(resumeAt));
+    const chunked = chunks.length > 1 || resumeAt > 0;
+
+    if (chunked) {
+      console.log(`🧩 Bundle ${bundle.bundleId} split into ${chunks.length} chunks (resuming at step ${resumeAt}/${totalSteps})`);
+    }
     
     try {
-      // Check each step for idempotency
-      for (const step of bundle.steps) {
-        if (!step || !step.opId) {
-          console.error('❌ Invalid step in bundle:', step);
-          throw new Error('Invalid step: missing opId');
+      let completedSteps = resumeAt;
+      for (let index = 0; index < chunks.length; index++) {
+        acks.push(...await this.applyBundleChunk(bundle, chunks[index]));
+        completedSteps += chunks[index].length;
+
+        if (chunked) {
+          await options.onChunkCommitted?.({
+            completedSteps,
+            totalSteps,
+            chunk: index + 1,
+            chunkCount: chunks.length,
+            acks: [...acks],
+          });
         }
-        
-        const isAlreadyApplied = await this.isOpIdApplied(step.opId);
-        
-        if (isAlreadyApplied) {
+      }
+
+      console.log(`✅ Bundle ${bundle.bundleId} applied successfully with ${acks.length} steps`);
+      return acks;
+      
+    } catch (error) {
+      console.error(`❌ Bundle ${bundle.bundleId} transaction failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply one chunk in a Firestore transaction: the applied-op markers and the affected
+   * product/player docs are read inside it, so two devices retrying the same bundle can't
+   * both pass the idempotency check - the loser is retried by Firestore and sees the markers
+   */
+  private async applyBundleChunk(bundle: any, steps: any[]): Promise<any[]> {
+    // The callback may run several times - everything it returns is rebuilt per attempt
+    return runTransaction(FirebaseFirestore, async transaction => {
+      const attemptAcks: any[] = [];
+
+      // Reads first (Firestore requires all reads before any write)
+      const markers = await Promise.all(steps.map((step: any) =>
+        transaction.get(doc(FirebaseFirestore, this.getOrgCollection('appliedOps'), step.opId))
+      ));
+      const pendingSteps = steps.filter((_: any, index: number) => !markers[index].exists());
+
+      const entityRefs = new Map<string, any>();
+      pendingSteps.forEach((step: any) => {
+        const ref = this.getStepEntityRef(step);
+        if (ref) entityRefs.set(ref.path, ref);
+      });
+      const paths = Array.from(entityRefs.keys());
+      const entities = await Promise.all(paths.map(path => transaction.get(entityRefs.get(path))));
+      const snapshots = new Map(paths.map((path, index) => [path, entities[index]]));
+
+      // A sale another till has already voided - this whole void is dropped, not applied twice
+      if (bundle.type === 'voidSale' && bundle.entityRefs?.assignmentId) {
+        const sale = await transaction.get(doc(FirebaseFirestore, this.getOrgCollection('assignments'), bundle.entityRefs.assignmentId));
+        if (sale.exists() && sale.data().status === 'cancelled' && sale.data().voidedByDevice !== bundle.deviceId) {
+          console.log(`⚠️ Sale ${bundle.entityRefs.assignmentId} was already voided on another till, dropping ${bundle.bundleId}`);
+          return steps.map((step: any) => ({ opId: step.opId, appliedAt: Date.now(), skipped: true, discarded: true }));
+        }
+      }
+      pendingSteps.forEach((step: any) => {
+        const ref = this.getStepEntityRef(step);
+        // Entity steps decide for themselves what a missing doc means
+        if (ref && !ENTITY_STEP_KINDS.includes(step.kind) && !snapshots.get(ref.path)!.exists()) {
+          throw new Error(`Bundle ${bundle.bundleId} targets a missing document: ${ref.path}`);
+        }
+      });
+
+      for (let index = 0; index < steps.length; index++) {
+        const step = steps[index];
+
+        if (markers[index].exists()) {
           console.log(`⚠️ OpId ${step.opId} already applied, skipping`);
-          acks.push({ opId: step.opId, appliedAt: Date.now(), skipped: true });
+          attemptAcks.push({ opId: step.opId, appliedAt: Date.now(), skipped: true });
           continue;
         }
 
         // Apply the step
         switch (step.kind) {
           case 'createAssignment':
-            await this.batchCreateAssignment(batch, step.payload);
+            await this.batchCreateAssignment(transaction, step.payload);
             break;
           case 'stockDelta':
-            await this.batchAppendStockDelta(batch, step.payload);
+            await this.batchAppendStockDelta(transaction, bundle, step);
             break;
           case 'balanceDelta':
-            await this.batchAppendBalanceDelta(batch, step.payload, bundle.type);
+            await this.batchAppendBalanceDelta(transaction, step.payload, bundle.type);
             break;
           case 'stockTakeRebase':
-            await this.batchApplyStockTakeRebase(batch, step.payload);
+            await this.batchApplyStockTakeRebase(transaction, bundle, step, snapshots.get(this.getStepEntityRef(step)!.path));
             break;
           case 'updateAssignment':
-            await this.batchUpdateAssignment(batch, step.assignment);
+            await this.batchUpdateAssignment(transaction, step.assignment);
             break;
           case 'updatePlayerBalance':
-            await this.batchAppendBalanceDelta(batch, {
+            await this.batchAppendBalanceDelta(transaction, {
               playerId: step.player.playerId,
               delta: step.player.balanceDelta,
               reason: step.player.reason || 'Payment received'
             }, bundle.type);
             break;
           case 'updateOrganization':
-            await this.batchUpdateOrganization(batch, step.organization);
+            await this.batchUpdateOrganization(transaction, step.organization);
             break;
           case 'createCharge':
-            await this.batchCreateCharge(batch, step.payload);
+            await this.batchCreateCharge(transaction, step.payload);
             break;
           case 'updateCharge':
-            await this.batchUpdateCharge(batch, step.payload);
+            await this.batchUpdateCharge(transaction, step.payload);
             break;
           case 'deleteCharge':
-            await this.batchDeleteCharge(batch, step.payload);
+            await this.batchDeleteCharge(transaction, step.payload);
+            break;
+          case 'createEntity':
+          case 'updateEntity':
+          case 'deleteEntity':
+            await this.batchApplyEntityStep(transaction, bundle, step, snapshots.get(this.getStepEntityRef(step)!.path));
             break;
           default:
             console.error(`❌ Unknown bundle step kind: ${step.kind}`);
             throw new Error(`Unsupported bundle step kind: ${step.kind}`);
         }
 
-        // Mark step as applied
-        const opRef = doc(FirebaseFirestore, this.getOrgCollection('appliedOps'), step.opId);
-        
-        // Get metadata based on step type
+        // Mark step as applied - in the same commit as its writes
         let metadata;
         switch (step.kind) {
           case 'updateAssignment':
@@ -284,31 +722,83 @@ export class FirebaseService {
             break;
         }
         
-        batch.set(opRef, {
+        transaction.set(markers[index].ref, {
           opId: step.opId,
           bundleId: bundle.bundleId,
+          deviceId: bundle.deviceId || null,
+          bundleSeq: typeof bundle.seq === 'number' ? bundle.seq : null,
           appliedAt: serverTimestamp(),
           step: step.kind,
           metadata: metadata || {} // Ensure metadata is never undefined
         });
 
-        acks.push({ opId: step.opId, appliedAt: Date.now() });
+        attemptAcks.push({ opId: step.opId, appliedAt: Date.now() });
       }
 
-      // Commit all changes atomically
-      await batch.commit();
-      console.log(`✅ Bundle ${bundle.bundleId} applied successfully with ${acks.length} steps`);
-      
-      return acks;
-      
-    } catch (error) {
-      console.error(`❌ Bundle ${bundle.bundleId} transaction failed:`, error);
-      throw error;
+      return attemptAcks;
+    });
+  }
+
+  /**
+   * Doc a step changes with a delta, or the target of an entity step - read inside the bundle transaction
+   */
+  private getStepEntityRef(step: any) {
+    switch (step.kind) {
+      case 'stockDelta':
+      case 'stockTakeRebase':
+        return step.payload?.productId
+          ? doc(FirebaseFirestore, this.getOrgCollection('products'), step.payload.productId)
+          : null;
+      case 'balanceDelta':
+        return step.payload?.playerId
+          ? doc(FirebaseFirestore, this.getOrgCollection('players'), step.payload.playerId)
+          : null;
+      case 'updatePlayerBalance':
+        return step.player?.playerId
+          ? doc(FirebaseFirestore, this.getOrgCollection('players'), step.player.playerId)
+          : null;
+      case 'updateAssignment':
+        return step.assignment?.assignmentId
+          ? doc(FirebaseFirestore, this.getOrgCollection('assignments'), step.assignment.assignmentId)
+          : null;
+      case 'createEntity':
+      case 'updateEntity':
+      case 'deleteEntity':
+        if (!step.payload?.collection || !step.payload?.entityId) {
+          throw new Error(`Invalid ${step.kind} payload: missing collection or entityId`);
+        }
+        return doc(FirebaseFirestore, this.getOrgCollection(step.payload.collection), step.payload.entityId);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Basket sales must be applied all-or-nothing: one assignment, one stock delta
+   * per line and a single balance delta matching the basket total
+   */
+  private validateBasketBundle(bundle: any): void {
+    const assignmentSteps = bundle.steps.filter((s: any) => s.kind === 'createAssignment');
+    const stockSteps = bundle.steps.filter((s: any) => s.kind === 'stockDelta');
+    const balanceSteps = bundle.steps.filter((s: any) => s.kind === 'balanceDelta');
+
+    if (assignmentSteps.length !== 1 || balanceSteps.length !== 1) {
+      throw new Error(`Invalid basket bundle ${bundle.bundleId}: expected one assignment and one balance delta`);
+    }
+
+    const lineItems = assignmentSteps[0].payload?.lineItems;
+    if (!Array.isArray(lineItems) || lineItems.length === 0 || lineItems.length !== stockSteps.length) {
+      throw new Error(`Invalid basket bundle ${bundle.bundleId}: stock deltas do not match line items`);
+    }
+
+    const linesTotal = lineItems.reduce((sum: number, line: any) => sum + (line.total || 0), 0);
+    if (Math.abs(linesTotal - balanceSteps[0].payload.delta) > 0.001) {
+      throw new Error(`Invalid basket bundle ${bundle.bundleId}: balance delta does not match line totals`);
     }
   }
 
   /**
-   * Batch operation helpers for bundle transactions
+   * Write helpers for bundle transactions - take a Transaction or WriteBatch (same set/update/delete API)
    */
   private async batchCreateAssignment(batch: any, payload: any): Promise<void> {
     if (!payload || !payload.assignmentId) {
@@ -362,32 +852,105 @@ export class FirebaseService {
     console.log('💰 Batching charge deletion:', payload.chargeId);
     const chargeRef = doc(FirebaseFirestore, this.getOrgCollection('charges'), payload.chargeId);
     batch.delete(chargeRef);
+    await this.writeTombstone('charges', payload.chargeId, batch);
   }
 
-  private async batchAppendStockDelta(batch: any, payload: any): Promise<void> {
+  private async batchAppendStockDelta(batch: any, bundle: any, step: any): Promise<void> {
+    const payload = step.payload;
     if (!payload || !payload.productId || payload.delta === undefined) {
       throw new Error('Invalid stock delta payload: missing productId or delta');
     }
     
     console.log('📦 Batching stock delta:', { productId: payload.productId, delta: payload.delta });
     
-    // Append to stock deltas subcollection and update materialized stock
+    // Append to the movement ledger and update materialized stock
     const productRef = doc(FirebaseFirestore, this.getOrgCollection('products'), payload.productId);
-    const deltaRef = doc(FirebaseFirestore, `${this.getOrgCollection('products')}/${payload.productId}/stockDeltas`, generateUUID());
-    
-    batch.set(deltaRef, {
-      delta: payload.delta,
-      appliedAt: serverTimestamp(),
-      source: 'sale'
-    });
+    this.batchRecordStockMovement(batch, bundle, step, payload.productId, payload.delta);
 
-    // Update materialized stock (this is a simplified approach)
     batch.update(productRef, {
       stock: increment(payload.delta),
       updatedAt: serverTimestamp()
     });
   }
 
+  /**
+   * Stock movement ledger entry - keyed by the step's opId, written with the stock change
+   */
+  private batchRecordStockMovement(batch: any, bundle: any, step: any, productId: string, delta: number, reason?: StockMovementReason): void {
+    const payload = step.payload || {};
+    const movementRef = doc(FirebaseFirestore, `${this.getOrgCollection('products')}/${productId}/stockDeltas`, step.opId);
+    const movementReason = reason || stockMovementReason(bundle.type, step);
+    batch.set(movementRef, {
+      opId: step.opId,
+      delta,
+      reason: movementReason,
+      source: movementReason, // Read by builds from before the ledger
+      note: payload.note || null,
+      staffId: payload.staffId || null,
+      staffName: payload.staffName || null,
+      deviceId: bundle.deviceId || null,
+      bundleId: bundle.bundleId,
+      appliedAt: serverTimestamp()
+    });
+  }
+
+  /**
+   * Movement ledger of a product, newest first
+   */
+  async getStockMovements(productId: string, maxMovements: number = 200): Promise<StockMovement[]> {
+    const ref = collection(FirebaseFirestore, `${this.getOrgCollection('products')}/${productId}/stockDeltas`);
+    const snapshot = await getDocs(query(ref, orderBy('appliedAt', 'desc'), limit(maxMovements)));
+    return snapshot.docs.map(movementDoc => {
+      const data = movementDoc.data();
+      return {
+        id: movementDoc.id,
+        productId,
+        delta: data.delta || 0,
+        // Entries from before the ledger only carry a source
+        reason: data.reason || (data.source === 'void' ? 'void' : 'sale'),
+        note: data.note || null,
+        staffId: data.staffId || null,
+        staffName: data.staffName || null,
+        deviceId: data.deviceId || null,
+        bundleId: data.bundleId || null,
+        at: data.appliedAt?.toMillis?.() || 0,
+      };
+    });
+  }
+
+  /**
+   * Purchase orders, newest first
+   */
+  async getPurchaseOrders(): Promise<PurchaseOrder[]> {
+    const ref = collection(FirebaseFirestore, this.getOrgCollection('purchaseOrders'));
+    const snapshot = await getDocs(query(ref, orderBy('raisedAt', 'desc')));
+    return snapshot.docs.map(orderDoc => this.withoutServerTimestamps({ ...orderDoc.data(), id: orderDoc.id }) as PurchaseOrder);
+  }
+
+  /**
+   * Goods receipts against purchase orders, newest first
+   */
+  async getGoodsReceipts(): Promise<GoodsReceipt[]> {
+    const ref = collection(FirebaseFirestore, this.getOrgCollection('goodsReceipts'));
+    const snapshot = await getDocs(query(ref, orderBy('receivedAt', 'desc')));
+    return snapshot.docs.map(receiptDoc => this.withoutServerTimestamps({ ...receiptDoc.data(), id: receiptDoc.id }) as GoodsReceipt);
+  }
+
+  /**
+   * Supplier directory, by name
+   */
+  async getSuppliers(): Promise<Supplier[]> {
+    const ref = collection(FirebaseFirestore, this.getOrgCollection('suppliers'));
+    const snapshot = await getDocs(query(ref, orderBy('name')));
+    return snapshot.docs.map(supplierDoc => this.withoutServerTimestamps({ ...supplierDoc.data(), id: supplierDoc.id }) as Supplier);
+  }
+
+  // Server-set Timestamps don't survive a JSON cache - the purchasing docs carry their own times
+  private withoutServerTimestamps(data: Record<string, any>): Record<string, any> {
+    const { createdAt, updatedAt, metadata, organizationId, ...rest } = data;
+    return rest;
+  }
+
   private async batchAppendBalanceDelta(batch: any, payload: any, bundleType?: string): Promise<void> {
     if (!payload || !payload.playerId || payload.delta === undefined) {
       throw new Error('Invalid balance delta payload: missing playerId or delta');
@@ -400,7 +963,10 @@ export class FirebaseService {
     const deltaRef = doc(FirebaseFirestore, `${this.getOrgCollection('players')}/${payload.playerId}/balanceDeltas`, generateUUID());
     
     // Determine source based on bundle type
-    const source = bundleType === 'charge' ? 'charge' : 'assignment';
+    const source = bundleType === 'charge' ? 'charge'
+      : bundleType === 'voidSale' ? 'void'
+      : bundleType === 'balanceAdjustment' ? 'adjustment'
+      : 'assignment';
     
     batch.set(deltaRef, {
       delta: payload.delta,
@@ -414,12 +980,17 @@ export class FirebaseService {
       updatedAt: serverTimestamp()
     };
     
-    // Only increment totalSpent and totalPurchases for actual purchases (not charges)
-    const isPurchase = bundleType !== 'charge';
+    // Only increment totalSpent and totalPurchases for actual purchases (not charges or voids)
+    const isPurchase = bundleType !== 'charge' && bundleType !== 'voidSale' && bundleType !== 'balanceAdjustment';
     if (isPurchase && payload.delta > 0) {
       updateData.totalSpent = increment(payload.delta);
       updateData.totalPurchases = increment(1);
       console.log('👤 PURCHASE: Incrementing server totalSpent and totalPurchases');
+    } else if (payload.reversesPurchase) {
+      // Voided sale - take it back out of the purchase stats
+      updateData.totalSpent = increment(payload.delta);
+      updateData.totalPurchases = increment(-1);
+      console.log('👤 VOID: Reversing server totalSpent and totalPurchases');
     } else {
       console.log('👤 CHARGE/PAYMENT: Not incrementing server totalSpent/totalPurchases');
     }
@@ -427,14 +998,25 @@ export class FirebaseService {
     batch.update(playerRef, updateData);
   }
 
-  private async batchApplyStockTakeRebase(batch: any, payload: any): Promise<void> {
+  private async batchApplyStockTakeRebase(batch: any, bundle: any, step: any, snapshot: any): Promise<void> {
     // Apply stock-take with rebase logic (from MD)
+    const payload = step.payload;
     const productRef = doc(FirebaseFirestore, this.getOrgCollection('products'), payload.productId);
     
-    // This would implement the rebase algorithm from the MD
-    // For now, just set the absolute count
+    // onHand = count + (sales since base) = current + (count - baseStock), so deltas
+    // synced while the count was taken survive. Legacy payloads without a base set the count.
+    const stock = typeof payload.baseStock === 'number'
+      ? increment(payload.count - payload.baseStock)
+      : payload.count;
+    const delta = typeof payload.baseStock === 'number'
+      ? payload.count - payload.baseStock
+      : payload.count - (snapshot.data()?.stock || 0);
+    if (delta !== 0) {
+      this.batchRecordStockMovement(batch, bundle, step, payload.productId, delta, 'stockTake');
+    }
+
     batch.update(productRef, {
-      stock: payload.count,
+      stock,
       lastStockTake: serverTimestamp(),
       updatedAt: serverTimestamp()
     });
@@ -461,6 +1043,93 @@ export class FirebaseService {
     });
   }
 
+  /**
+   * Create/update/delete of one entity doc (doc id = logical id). Creates of an existing doc
+   * and edits or deletes of a missing one are skipped - the end state is the same.
+   */
+  private async batchApplyEntityStep(batch: any, bundle: any, step: any, snapshot: any): Promise<void> {
+    const { collection: collectionName, entityId, data, metadata } = step.payload;
+    const entityRef = snapshot.ref;
+
+    switch (step.kind) {
+      case 'createEntity':
+        if (snapshot.exists()) {
+          console.log(`⚠️ ${collectionName}/${entityId} already exists, skipping create`);
+          return;
+        }
+        console.log(`📄 Batching ${collectionName} creation:`, entityId);
+        if (collectionName === 'products' && typeof data.stock === 'number' && data.stock !== 0) {
+          this.batchRecordStockMovement(batch, bundle, step, entityId, data.stock, 'opening');
+        }
+        batch.set(entityRef, {
+          ...data,
+          ...(collectionName === 'players' && step.payload.uniqueName ? { name: step.payload.uniqueName } : {}),
+          organizationId: this.organizationId,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+        return;
+
+      case 'updateEntity': {
+        if (!snapshot.exists()) {
+          console.warn(`⚠️ ${collectionName}/${entityId} no longer exists, skipping update`);
+          return;
+        }
+        const updates = { ...data };
+        // Keep the display name in step with its parts
+        if (collectionName === 'players' && (data.firstName !== undefined || data.lastName !== undefined)) {
+          const current = snapshot.data();
+          const firstName = data.firstName !== undefined ? data.firstName : current.firstName || '';
+          const lastName = data.lastName !== undefined ? data.lastName : current.lastName || '';
+          updates.name = `${firstName} ${lastName}`.trim();
+        }
+        // Stock set directly by an edit or repair tool - ledger it as the difference it makes
+        const stockChange = collectionName === 'products' && typeof data.stock === 'number'
+          ? data.stock - (snapshot.data().stock || 0)
+          : 0;
+        if (stockChange !== 0) {
+          this.batchRecordStockMovement(batch, bundle, step, entityId, stockChange, 'correction');
+        }
+        console.log(`📄 Batching ${collectionName} update:`, { entityId, fields: Object.keys(updates) });
+        batch.update(entityRef, {
+          ...updates,
+          ...(metadata && Object.keys(metadata).length > 0 ? { metadata } : {}),
+          updatedAt: serverTimestamp()
+        });
+        return;
+      }
+
+      case 'deleteEntity':
+        if (!snapshot.exists()) {
+          console.log(`📝 ${collectionName}/${entityId} already deleted or never existed`);
+          return;
+        }
+        console.log(`🗑️ Batching ${collectionName} deletion:`, entityId);
+        if (collectionName === 'products') {
+          // Products are soft-deleted - old sales still reference them
+          batch.update(entityRef, { isActive: false, updatedAt: serverTimestamp() });
+          return;
+        }
+        batch.delete(entityRef);
+        await this.writeTombstone(collectionName, entityId, batch);
+        return;
+    }
+  }
+
+  /**
+   * Resolve unique player names before a bundle's transaction - a query can't run inside one
+   */
+  private async prepareEntitySteps(bundle: any): Promise<void> {
+    for (const step of bundle.steps) {
+      if (step.kind !== 'createEntity' || step.payload?.collection !== 'players' || step.payload.uniqueName) continue;
+      const data = step.payload.data || {};
+      const proposedName = data.name || `${data.firstName || ''} ${data.lastName || ''}`.trim();
+      if (proposedName) {
+        step.payload.uniqueName = await this.ensureUniqueName(proposedName);
+      }
+    }
+  }
+
   private async batchUpdateOrganization(batch: any, organizationUpdates: any): Promise<void> {
     if (!organizationUpdates || Object.keys(organizationUpdates).length === 0) {
       throw new Error('Invalid organization update: no updates provided');
@@ -922,6 +1591,7 @@ export class FirebaseService {
       });
       
       await deleteDoc(playerDoc.ref);
+      await this.writeTombstone('players', playerId);
       
       console.log('✅ Player deleted successfully');
     } catch (error) {
@@ -1095,6 +1765,7 @@ export class FirebaseService {
       // Delete the first matching document (should only be one)
       const docRef = snapshot.docs[0].ref;
       await deleteDoc(docRef);
+      await this.writeTombstone('assignments', id);
       
       console.log('✅ Assignment deleted by logical ID:', id);
     } catch (error) {
@@ -1124,6 +1795,7 @@ export class FirebaseService {
     try {
       const chargeRef = doc(FirebaseFirestore, this.getOrgCollection('charges'), id);
       await deleteDoc(chargeRef);
+      await this.writeTombstone('charges', id);
       console.log('✅ Charge deleted:', id);
     } catch (error) {
       console.error('Error deleting charge:', error);
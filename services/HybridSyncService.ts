@@ -1,25 +1,78 @@
 import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { firebaseService, FirebaseService } from './FirebaseService';
+import { AppState, AppStateStatus } from 'react-native';
+import { firebaseService, FirebaseService, ChangeCursor, BundleChunkProgress, Tombstone } from './FirebaseService';
+import { StorageAdapter, StorageBackend, InMemoryStorageAdapter, RECORD_COLLECTIONS, isRecordCollection, copyStorage } from './StorageAdapter';
+import { AsyncStorageAdapter } from './AsyncStorageAdapter';
+import { EncryptedStorageAdapter } from './EncryptedStorageAdapter';
+import { runSyncStateMigrations, getSyncStateVersion, SyncStateVersion, SYNC_STATE_VERSION_KEY } from './SyncStateMigrations';
+import { SYNC_LANES, SyncLane, SyncLaneConfig, OutboxUnit, planOutboxLanes, getBundleLane } from './SyncScheduler';
+import { buildEntityBundle, buildBalanceAdjustmentBundle, buildStaffUserBundle, describeBundle, hashBundleStep, queueItemToBundle } from './OperationBundles';
+import { StockActor, StockMovement, StockMovementReason, MANUAL_STOCK_REASONS, stockMovementFields, stockMovementReason, withRunningStock } from './StockLedger';
+import {
+  StockTakeSession,
+  FinishedStockTake,
+  addStockTakeCount,
+  removeStockTakeCount,
+  buildVarianceReport,
+  buildStockTakeBundle,
+} from './StockTakeSessions';
+import {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  GoodsReceipt,
+  CostingMethod,
+  COSTING_METHODS,
+  DEFAULT_COSTING_METHOD,
+  validatePurchaseOrderLines,
+  buildReceiptLines,
+  buildGoodsReceiptBundle,
+} from './PurchaseOrders';
+import { Supplier, SupplierInput, normalizeSupplier } from './Suppliers';
+import { DEFAULT_LOW_STOCK_LEVEL, LowStockAlert, findLowStockCrossings, lowStockThreshold } from './StockLevels';
+import { SQLiteStorageAdapter } from './SQLiteStorageAdapter';
+import { OverlayStore, OverlayCollection } from './OverlayStore';
+import {
+  HandoverHeader,
+  HandoverPayload,
+  HANDOVER_PROVISIONAL_KEYS,
+  generateHandoverCode,
+  mergeProvisionalValue,
+  openHandover,
+  readHandoverHeader,
+  sealHandover,
+  splitHandoverFrames,
+} from './SyncHandover';
 import { FirebaseAuth } from '../config/firebase';
+import { isEncryptedValue } from '../utils/storageCrypto';
 import { generateUUID } from '../utils/uuid';
-
-interface SyncQueueItem {
-  id: string;
-  action: 'create' | 'update' | 'delete' | 'updateBalance';
-  collection: 'products' | 'staff-users' | 'assignments' | 'players' | 'reports' | 'charges' | 'organizations';
-  data: any;
+import { VectorClock, compareVectorClocks, hasVectorClock, mergeVectorClocks } from '../utils/vectorClock';
+import { BasketLineItem } from '../types/BundleOp';
+import { BackgroundSyncRun, SyncEventListener, SyncEventOf, SyncEventType, SyncMetricsSample, SyncMetricsSummary } from '../types/SyncEvent';
+import { getAssignmentLines, describeAssignment } from '../utils/assignmentLines';
+
+// A bundle that used up its retries - kept for staff to retry, edit or discard
+export interface DeadLetterBundle {
+  bundleId: string;
+  type: string;
+  steps: any[];
   timestamp: number;
   retryCount: number;
-  // Batch grouping for related operations
-  batchId?: string;
-  batchLabel?: string; // User-friendly label like "Assignment Sale"
+  batchLabel?: string;
+  // Failure history - shown to staff once the bundle is dead-lettered
+  lastError?: string;
+  errorHistory?: { at: number; error: string; retryCount: number }[];
+  deadLetteredAt: number;
+  // Sync queue item that could not be converted on upgrade - can only be discarded
+  legacyItem?: any;
+  [key: string]: any;
 }
 
 // Unified Operation Interface - Single Source of Truth for All Writes
 interface Operation {
   id: string;
-  type: 'create' | 'update' | 'delete' | 'updateBalance' | 'createAssignmentTransaction';
+  type: 'create' | 'update' | 'delete';
   collection: 'products' | 'staff-users' | 'assignments' | 'players' | 'reports' | 'charges' | 'organizations';
   entityId?: string;
   data: any;
@@ -30,17 +83,169 @@ interface Operation {
     vectorClock: Record<string, number>;
     userId?: string;
     source: 'local' | 'server' | 'sync';
+    fields?: string[]; // Fields written by an update - stored on the server doc for conflict detection
   };
 }
 
+// Per-device position in a collection's server change stream
+interface SyncCursor {
+  schemaVersion: number;
+  deviceId: string;
+  docs: ChangeCursor | null;
+  tombstones: ChangeCursor | null;
+  lastPulledAt: number;
+}
+
+type PullCollection = 'players' | 'products' | 'assignments';
+
+// One side of a concurrent edit
+export interface ConflictVersion {
+  deviceId: string;
+  timestamp: number;
+  vectorClock: VectorClock;
+  values: Record<string, any>;
+}
+
+// Concurrent edits to the same non-additive fields, kept for review
+export interface ConflictRecord {
+  id: string;
+  collection: string;
+  entityId: string;
+  entityName?: string;
+  fields: string[];
+  local: ConflictVersion;
+  remote: ConflictVersion;
+  // Side applied by the default rule: later edit wins, higher device id breaks ties
+  defaultWinner: 'local' | 'remote';
+  status: 'open' | 'resolved';
+  detectedAt: number;
+  resolvedAt?: number;
+  resolvedBy?: string;
+  // Side picked per field when an admin resolved it
+  resolution?: Record<string, 'local' | 'remote'>;
+}
+
+export interface DeadLetterDiscard {
+  id: string;
+  item: DeadLetterBundle;
+  reason: string;
+  discardedBy: string;
+  discardedAt: number;
+  deviceId: string;
+  auditLogged: boolean; // Uploaded to the organization's audit-logs
+}
+
+export interface ConflictFilter {
+  status?: ConflictRecord['status'];
+  collection?: string;
+  entityId?: string;
+}
+
+export interface HybridSyncOptions {
+  storage?: StorageAdapter;
+  firebase?: FirebaseService;
+  deviceId?: string;
+  // false = no NetInfo listener or background timers (headless harnesses drive sync manually)
+  autoStart?: boolean;
+}
+
+// Bump when the local cache shape changes - forces one full re-hydrate per collection
+const SYNC_CURSOR_SCHEMA_VERSION = 1;
+// Seed margin so docs written just before a full hydrate finished are re-checked
+const SYNC_CURSOR_SKEW_MS = 5 * 60 * 1000;
+
+const SYNC_CONFLICTS_KEY = 'sync_conflicts';
+// Oldest resolved records are dropped past this
+const MAX_CONFLICT_RECORDS = 500;
+
+// Discarded dead-letter items are kept here (and in the server audit log) so lost writes stay accountable
+const DEAD_LETTER_DISCARDS_KEY = 'dead_letter_discards';
+const MAX_ERROR_HISTORY = 10;
+
+// Rolling window of outbox attempts kept for diagnostics
+const MAX_SYNC_METRICS_SAMPLES = 100;
+
+// Persistent sync identity: { deviceId, bundleSeq, lastCompactionAt }
+const SYNC_DEVICE_KEY = 'sync_device';
+// appliedOps records are kept at least this long, even once every device's watermark has passed them
+const APPLIED_OPS_MIN_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const APPLIED_OPS_COMPACTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// OS-scheduled background runs: stop starting new outbox work after the budget, keep recent results
+const BACKGROUND_SYNC_BUDGET_MS = 25000;
+const SYNC_BACKGROUND_RUNS_KEY = 'sync_background_runs';
+const MAX_BACKGROUND_SYNC_RUNS = 20;
+
+// Handovers imported on this device: [{ handoverId, sourceDeviceId, importedAt, bundles }]
+const SYNC_HANDOVER_IMPORTS_KEY = 'sync_handover_imports';
+
+// Stock-take counting: the session in progress on this device and the finished ones (newest first)
+const STOCK_TAKE_SESSION_KEY = 'stock_take_session';
+const STOCK_TAKE_HISTORY_KEY = 'stock_take_history';
+const MAX_STOCK_TAKE_HISTORY = 50;
+
+// Purchase orders and goods receipts - refreshed from the server when online, kept for offline use
+const PURCHASE_ORDERS_KEY = 'purchasing_orders';
+const GOODS_RECEIPTS_KEY = 'purchasing_receipts';
+const SUPPLIERS_KEY = 'purchasing_suppliers';
+
+// Low-stock alerts raised on this device: { lowProductIds, alerts } - lowProductIds is null until the first check
+const LOW_STOCK_ALERTS_KEY = 'stock_alerts';
+const MAX_LOW_STOCK_ALERTS = 50;
+
+// Survive a secure wipe - the device keeps its identity, clock counters and schema version
+const SECURE_WIPE_KEEP_KEYS = [SYNC_DEVICE_KEY, 'vector_clock', SYNC_STATE_VERSION_KEY];
+
+// Collections kept live with snapshot listeners; failed listeners re-attach with backoff
+const REALTIME_COLLECTIONS: PullCollection[] = ['players', 'products', 'assignments'];
+const REALTIME_RETRY_BASE_MS = 5000;
+const REALTIME_RETRY_MAX_MS = 60000;
+
+// Counters changed by deltas on the server - never field conflicts, the server value always wins
+const ADDITIVE_FIELDS = ['stock', 'currentStock', 'balance', 'totalSpent', 'totalPurchases'];
+// Bookkeeping fields that are not part of an edit
+const CONFLICT_IGNORED_FIELDS = [
+  'id', 'entityId', 'metadata', 'version', 'vectorClock', 'deviceId', 'timestamp',
+  'createdAt', 'updatedAt', 'organizationId',
+];
+
+// Staff user cache - written only here, so it is sealed with the sync data
+const STAFF_USERS_KEY = 'staff-users';
+
+// Keys owned by the sync engine - app-level keys (@organization_data, organizations, ...) stay in AsyncStorage
+const SYNC_STORAGE_KEY_PREFIXES = [
+  'sync_queue', 'syncQueue', 'dead_letter_', 'pending_bundles', 'processed_ids', 'vector_clock',
+  'provisional_', 'sync_cursor_', 'cache_initialized_', 'last_sync_', 'sync_conflicts', 'sync_state_',
+  'sync_device', 'sync_handover', 'sync_background_', 'stock_history_', 'stock_take_',
+  'stock_alerts', 'purchasing_',
+];
+
+// Staff users match exactly - OrganizationSettings keeps its own plain 'staff-users_<orgId>' list
+const isSyncStorageKey = (key: string): boolean =>
+  key === STAFF_USERS_KEY || SYNC_STORAGE_KEY_PREFIXES.some(prefix => key.startsWith(prefix));
+
+const LOCAL_STORAGE_BACKEND = process.env.EXPO_PUBLIC_LOCAL_STORAGE_BACKEND;
+
+/**
+ * Build the local storage adapter for a backend name (defaults to AsyncStorage).
+ * Device backends are encrypted at rest; the in-memory one is for headless harnesses.
+ */
+export const createStorageAdapter = (backend?: string): StorageAdapter => {
+  switch (backend as StorageBackend) {
+    case 'sqlite':
+      return new EncryptedStorageAdapter(new SQLiteStorageAdapter(), { isSensitiveKey: isSyncStorageKey });
+    case 'memory':
+      return new InMemoryStorageAdapter();
+    default:
+      return new EncryptedStorageAdapter(new AsyncStorageAdapter(), { isSensitiveKey: isSyncStorageKey });
+  }
+};
+
 export class HybridSyncService {
-  private syncQueue: SyncQueueItem[] = [];
   private isOnline: boolean = true;
   private isSyncing: boolean = false;
   private syncStartTime: number = 0;
-  private syncQueueKey = 'sync_queue';
-  private maxRetries = 3; // Only for REAL failures
-  private maxNetworkRetries = 15; // More lenient for network issues (poor signal, etc.)
+  private maxRetries = 3; // Only for REAL failures - network issues retry until they clear
   private syncInterval: any = null;
   private highPriorityInterval: any = null;
   private conflictDetectionInterval: any = null;
@@ -49,19 +254,247 @@ export class HybridSyncService {
   private serverChangesInterval: any = null;
   private deviceId: string;
   private vectorClock: Map<string, number> = new Map();
-  private processedIds: Set<string> = new Set(); // Idempotency tracking
-  private deadLetterQueue: SyncQueueItem[] = [];
-  private batchSize = 10; // Process items in batches for better performance
+  private deadLetterQueue: DeadLetterBundle[] = [];
+  // Counts from the last read/write of pending_bundles - lets timers and status getters stay synchronous
+  private outboxStats = { pending: 0, urgent: 0, retrying: 0, retryTotal: 0, nextAttemptAt: 0 };
   private forceServerMode: boolean = false; // Temporarily bypass conflict resolution on login
+  private storage: StorageAdapter;
+  private storageReady: Promise<void>;
+  private ready: Promise<void>;
+  private overlayStore: OverlayStore; // Folded base + provisional views, kept up to date in memory
+  private firebase: FirebaseService;
+  private eventListeners: Set<SyncEventListener> = new Set();
+  private syncMetrics: SyncMetricsSample[] = [];
+  private deadLetteredCount = 0;
+  private lastSyncSuccessAt: number | null = null;
+  private lastSyncFailureAt: number | null = null;
+  private startupError: Error | null = null; // Set when persisted state could not be migrated
+  private hasExplicitDeviceId: boolean;
+  private bundleSequence = 0; // Last seq handed to a bundle from this device
+  private inFlightBundles: Map<number, number> = new Map(); // seq -> created at, until the bundle leaves pending_bundles
+  private lastCompactionAt = 0;
+  private realtimeRequested = false; // startRealtimeSync() called and not stopped since
+  private realtimeListeners: Map<PullCollection, (() => void)[]> = new Map();
+  private realtimeQueues: Map<PullCollection, Promise<void>> = new Map(); // Snapshots applied in order per collection
+  private realtimeRetryTimer: any = null;
+  private realtimeRetryDelay = REALTIME_RETRY_BASE_MS;
+  private appIsActive = true;
+  private lowStockCheck: Promise<void> = Promise.resolve(); // Checks run one at a time
+
+  constructor(options: HybridSyncOptions = {}) {
+    this.storage = options.storage || createStorageAdapter(LOCAL_STORAGE_BACKEND);
+    this.firebase = options.firebase || firebaseService;
+    this.overlayStore = new OverlayStore({
+      base: async collection => {
+        await this.storageReady;
+        return this.getLocalData(collection);
+      },
+      overlay: async key => {
+        await this.storageReady;
+        const dataStr = await this.storage.getItem(key);
+        return dataStr ? JSON.parse(dataStr) : {};
+      },
+    });
 
-  constructor() {
     // Initialize device-specific vector clock
-    this.deviceId = this.generateDeviceId();
-    
-    this.initializeNetworkListener();
-    this.loadSyncQueue();
-    this.initializeVectorClock(); // Async initialization
-    this.startBackgroundSync();
+    this.deviceId = options.deviceId || this.generateDeviceId();
+    this.hasExplicitDeviceId = !!options.deviceId;
+    
+    const autoStart = options.autoStart !== false;
+    if (autoStart) {
+      this.initializeNetworkListener();
+      this.initializeAppStateListener();
+    }
+    // Listeners follow connectivity - detached offline, caught up and re-attached on reconnect
+    this.subscribe(() => this.updateRealtimeListeners(), ['connectivityChanged']);
+    this.storageReady = this.initializeStorage();
+    this.ready = this.storageReady.then(async () => {
+      await this.migrateSyncState();
+      this.overlayStore.invalidate(); // Migrations may have rewritten overlays a screen already read
+      await this.loadDeadLetterQueue();
+      await this.loadSyncDevice();
+      await this.initializeVectorClock(); // Async initialization
+      if (autoStart) {
+        this.startBackgroundSync();
+        // Every stock change - local sale, sync, realtime snapshot - is checked against the thresholds
+        this.overlayStore.subscribe('products', () => this.queueLowStockCheck());
+      }
+    });
+    // Failures surface through whenReady()/getStartupError() - don't leave the rejection unhandled
+    this.ready.catch(() => {});
+  }
+
+  /**
+   * Resolves once local storage is open, migrated and the outbox has been loaded.
+   * Rejects if the stored sync state could not be migrated - the engine stays stopped.
+   */
+  public whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * Why the engine refused to start, or null if it is running
+   */
+  public getStartupError(): Error | null {
+    return this.startupError;
+  }
+
+  public async getSyncStateVersion(): Promise<SyncStateVersion | null> {
+    await this.storageReady;
+    return getSyncStateVersion(this.storage);
+  }
+
+  /**
+   * Upgrade persisted sync state to the current schema before anything reads it
+   */
+  private async migrateSyncState(): Promise<void> {
+    try {
+      await runSyncStateMigrations(this.storage);
+      this.startupError = null;
+    } catch (error) {
+      this.startupError = error instanceof Error ? error : new Error(String(error));
+      console.error('🛑 Sync engine not started - local sync data could not be migrated:', this.startupError.message);
+      throw this.startupError;
+    }
+  }
+
+  private assertEngineStarted(): void {
+    if (this.startupError) {
+      throw new Error(`Sync engine is stopped: ${this.startupError.message}`);
+    }
+  }
+
+  // ============================================
+  // LOCAL STORAGE BACKEND
+  // ============================================
+
+  /**
+   * Open the storage backend and, on first use of a non-AsyncStorage backend,
+   * copy the existing AsyncStorage data across
+   */
+  private async initializeStorage(): Promise<void> {
+    try {
+      await this.storage.init();
+      await this.sealLegacyStaffUsers();
+
+      if (this.storage.name === 'sqlite') {
+        const migratedKey = 'storage_migrated_from_asyncStorage';
+        const migrated = await this.storage.getItem(migratedKey);
+        if (!migrated) {
+          console.log('🗄️ Migrating local data from AsyncStorage to', this.storage.name);
+          await copyStorage(createStorageAdapter('asyncStorage'), this.storage, isSyncStorageKey);
+          await this.storage.setItem(migratedKey, Date.now().toString());
+          console.log('✅ Local data migrated to', this.storage.name);
+        }
+      }
+    } catch (error) {
+      // Fall back to AsyncStorage rather than running without local data
+      console.error(`❌ Failed to initialize ${this.storage.name} storage, falling back to AsyncStorage:`, error);
+      this.storage = createStorageAdapter('asyncStorage');
+    }
+  }
+
+  /**
+   * Staff users used to be a plain AsyncStorage key - move a copy written by an older build into
+   * sealed storage (installs swept before then would otherwise refuse it as tampered)
+   */
+  private async sealLegacyStaffUsers(): Promise<void> {
+    if (this.storage.name === 'memory') return;
+    const legacy = await AsyncStorage.getItem(STAFF_USERS_KEY);
+    if (legacy === null || isEncryptedValue(legacy)) return;
+
+    await this.storage.setItem(STAFF_USERS_KEY, legacy);
+    if (this.storage.name !== 'asyncStorage') {
+      await AsyncStorage.removeItem(STAFF_USERS_KEY);
+    }
+    console.log('🔐 Moved the staff user cache into encrypted storage');
+  }
+
+  /**
+   * Current storage adapter - debug tools read local data through this
+   */
+  public getStorageAdapter(): StorageAdapter {
+    return this.storage;
+  }
+
+  /**
+   * Swap the storage backend at runtime, optionally copying current data into the new one
+   */
+  public async setStorageAdapter(adapter: StorageAdapter, options: { migrate?: boolean } = {}): Promise<void> {
+    await this.storageReady;
+    await adapter.init();
+    if (options.migrate) {
+      await copyStorage(this.storage, adapter, isSyncStorageKey);
+    }
+    this.storage = adapter;
+    this.storageReady = Promise.resolve();
+    await this.migrateSyncState();
+    this.overlayStore.invalidate();
+    await this.loadDeadLetterQueue();
+    await this.loadSyncDevice();
+    console.log('🗄️ Storage backend switched to', adapter.name);
+  }
+
+  // ============================================
+  // SYNC EVENTS & METRICS
+  // ============================================
+
+  /**
+   * Subscribe to sync events (optionally only some types) - returns the unsubscribe function
+   */
+  public subscribe(listener: SyncEventListener, types?: SyncEventType[]): () => void {
+    const wrapped: SyncEventListener = types
+      ? event => { if (types.includes(event.type)) listener(event); }
+      : listener;
+    this.eventListeners.add(wrapped);
+    return () => {
+      this.eventListeners.delete(wrapped);
+    };
+  }
+
+  private emit<T extends SyncEventType>(type: T, data: Omit<SyncEventOf<T>, 'type' | 'timestamp'>): void {
+    const event = { type, timestamp: Date.now(), ...data } as unknown as SyncEventOf<T>;
+    this.eventListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        // A broken screen must never break the sync engine
+        console.warn(`⚠️ Sync event listener failed for ${type}:`, error);
+      }
+    });
+  }
+
+  private recordSyncMetric(sample: SyncMetricsSample): void {
+    this.syncMetrics.push(sample);
+    if (this.syncMetrics.length > MAX_SYNC_METRICS_SAMPLES) {
+      this.syncMetrics.splice(0, this.syncMetrics.length - MAX_SYNC_METRICS_SAMPLES);
+    }
+
+    const finishedAt = sample.startedAt + sample.durationMs;
+    if (sample.failureCount > 0) {
+      this.lastSyncFailureAt = finishedAt;
+    } else {
+      this.lastSyncSuccessAt = finishedAt;
+    }
+  }
+
+  /**
+   * Rolling sync durations and failure counts for the last MAX_SYNC_METRICS_SAMPLES attempts
+   */
+  public getSyncMetrics(): SyncMetricsSummary {
+    const samples = [...this.syncMetrics];
+    const totalDuration = samples.reduce((sum, sample) => sum + sample.durationMs, 0);
+
+    return {
+      samples,
+      attempts: samples.length,
+      failures: samples.reduce((sum, sample) => sum + sample.failureCount, 0),
+      deadLettered: this.deadLetteredCount,
+      averageDurationMs: samples.length ? Math.round(totalDuration / samples.length) : 0,
+      maxDurationMs: samples.reduce((max, sample) => Math.max(max, sample.durationMs), 0),
+      lastSuccessAt: this.lastSyncSuccessAt,
+      lastFailureAt: this.lastSyncFailureAt,
+    };
   }
 
   // ============================================
@@ -75,10 +508,12 @@ export class HybridSyncService {
    * 1. Local cache is updated first (truth always local)
    * 2. Consistent version bumping and timestamps
    * 3. Proper conflict resolution rules
-   * 4. Outbox queue management
+   * 4. The write is queued as a single-step bundle (see OperationBundles) - the operation id
+   *    is the bundleId, so its opId is the same on every retry
    * 5. Server hydration happens after local success
    */
   public async applyOp(operation: Operation): Promise<void> {
+    this.assertEngineStarted();
     console.log('📝 applyOp - Single write path:', {
       type: operation.type,
       collection: operation.collection,
@@ -100,6 +535,10 @@ export class HybridSyncService {
       });
     }
 
+    if (!operation.entityId) {
+      throw new Error(`Invalid operation: ${operation.type} on ${operation.collection} has no entityId`);
+    }
+
     try {
       // Validate operation structure
       if (!operation.metadata || operation.metadata.timestamp === undefined) {
@@ -109,18 +548,29 @@ export class HybridSyncService {
       // Step 1: ALWAYS update local cache first (truth is local)
       await this.applyOpToLocalCache(operation);
       
-      // Step 2: Add to outbox for server sync (if not from server)
-      if (operation.metadata.source !== 'server') {
-        await this.addOpToOutbox(operation);
+      // Step 2: Queue as a bundle for server sync (if not from server)
+      if (operation.metadata.source === 'server') {
+        console.log('✅ applyOp completed successfully');
+        return;
       }
+      const bundle = buildEntityBundle({
+        id: operation.id,
+        type: operation.type,
+        collection: operation.collection,
+        entityId: operation.entityId,
+        data: operation.data,
+        metadata: this.getWriteMetadata(operation),
+        batchId: operation.data?.batchId,
+        batchLabel: operation.data?.batchLabel,
+      });
+      await this.enqueueBundleForSync(bundle);
       
       // Step 3: Attempt immediate server sync if online (best effort)
       if (this.isOnline && operation.metadata.source === 'local') {
         try {
-          await this.syncOpToServer(operation);
-          // If immediate sync succeeds, remove from outbox to prevent duplicate
-          await this.removeOpFromOutbox(operation.id);
-          console.log('✅ Operation synced immediately and removed from outbox:', operation.id);
+          // Stays in pending_bundles until the next drain clears it - the marker makes that a no-op
+          await this.processSingleBundle(bundle);
+          console.log('✅ Operation synced immediately:', operation.id);
         } catch (error) {
           console.warn('⚠️ Immediate server sync failed, will retry via outbox:', error);
           // Don't throw - local cache is already updated, outbox will handle retry
@@ -174,7 +624,7 @@ export class HybridSyncService {
     const bundleId = input.assignmentId ?? generateUUID();
     const steps = [
       { 
-        opId: this.hashBundleStep(bundleId, 'createAssignment'), 
+        opId: hashBundleStep(bundleId, 'createAssignment'), 
         kind: 'createAssignment' as const, 
         payload: {
           id: bundleId, // Use 'id' for consistency with Firebase service
@@ -192,15 +642,16 @@ export class HybridSyncService {
         }
       },
       { 
-        opId: this.hashBundleStep(bundleId, 'stockDelta'), 
+        opId: hashBundleStep(bundleId, 'stockDelta'), 
         kind: 'stockDelta' as const, 
         payload: {
           productId: input.productId,
           delta: -Math.abs(input.quantity), // sale decrements stock
+          ...stockMovementFields('sale', this.getStockActor()),
         }
       },
       { 
-        opId: this.hashBundleStep(bundleId, 'balanceDelta'), 
+        opId: hashBundleStep(bundleId, 'balanceDelta'), 
         kind: 'balanceDelta' as const, 
         payload: {
           playerId: input.playerId,
@@ -238,6 +689,123 @@ export class HybridSyncService {
     return bundleId;
   }
 
+  /**
+   * Create a multi-line basket sale as one atomic bundle
+   * 
+   * Emits a single createAssignment (carrying every line item), one stockDelta
+   * per line and a single balanceDelta for the basket total.
+   */
+  public async createBasketBundle(input: {
+    basketId?: string;
+    playerId: string;
+    userName: string;
+    organizationId: string;
+    items: (Omit<BasketLineItem, 'total'> & { total?: number })[];
+    notes?: string;
+  }): Promise<string> {
+    if (!input.playerId || !input.organizationId || !input.items?.length) {
+      throw new Error('Missing required fields for basket bundle');
+    }
+
+    const lineItems: BasketLineItem[] = input.items.map(item => {
+      if (!item.productId || !item.quantity || item.quantity < 1) {
+        throw new Error(`Invalid basket line for product: ${item.productName || item.productId}`);
+      }
+      return {
+        productId: item.productId,
+        productName: item.productName,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        total: item.total ?? item.unitPrice * item.quantity,
+      };
+    });
+
+    const basketTotal = lineItems.reduce((sum, line) => sum + line.total, 0);
+    const basketQuantity = lineItems.reduce((sum, line) => sum + line.quantity, 0);
+
+    console.log('🧺 Creating basket bundle:', {
+      playerId: input.playerId,
+      lines: lineItems.length,
+      quantity: basketQuantity,
+      total: basketTotal
+    });
+
+    const bundleId = input.basketId ?? generateUUID();
+    const steps = [
+      {
+        opId: hashBundleStep(bundleId, 'createAssignment'),
+        kind: 'createAssignment' as const,
+        payload: {
+          id: bundleId,
+          assignmentId: bundleId,
+          // Product fields only when one line describes the whole sale - multi-line baskets are
+          // read through getAssignmentLines
+          ...(lineItems.length === 1 && {
+            productId: lineItems[0].productId,
+            quantity: lineItems[0].quantity,
+            unitPrice: lineItems[0].unitPrice,
+          }),
+          productName: lineItems.length === 1
+            ? lineItems[0].productName
+            : `Basket (${lineItems.length} items)`,
+          userName: input.userName,
+          playerId: input.playerId,
+          total: basketTotal,
+          lineItems,
+          date: new Date().toISOString(),
+          paid: false,
+          organizationId: input.organizationId,
+          ...(input.notes && { notes: input.notes }),
+        }
+      },
+      ...lineItems.map((line, index) => ({
+        opId: hashBundleStep(bundleId, `stockDelta_${index}`),
+        kind: 'stockDelta' as const,
+        payload: {
+          productId: line.productId,
+          delta: -Math.abs(line.quantity),
+          ...stockMovementFields('sale', this.getStockActor()),
+        }
+      })),
+      {
+        opId: hashBundleStep(bundleId, 'balanceDelta'),
+        kind: 'balanceDelta' as const,
+        payload: {
+          playerId: input.playerId,
+          delta: +Math.abs(basketTotal),
+        }
+      },
+    ];
+
+    const bundle = {
+      bundleId,
+      type: 'basketSale' as const,
+      entityRefs: { assignmentId: bundleId, playerId: input.playerId },
+      steps,
+      vectorClock: await this.getBumpedVectorClock(),
+      timestamp: Date.now(),
+      source: 'local' as const,
+    };
+
+    // 1) Apply locally as provisional overlay
+    await this.applyBundleLocally(bundle);
+
+    // 2) Enqueue for sync (outbox)
+    await this.enqueueBundleForSync(bundle);
+
+    // 3) Best-effort immediate sync
+    if (this.isOnline) {
+      try {
+        await this.processSingleBundle(bundle);
+        console.log('✅ Basket bundle synced immediately:', bundleId);
+      } catch (error) {
+        console.warn('⚠️ Immediate basket bundle sync failed, will retry via outbox:', error);
+      }
+    }
+
+    return bundleId;
+  }
+
   public async createChargeBundle(input: {
     chargeId?: string;
     playerId: string;
@@ -266,7 +834,7 @@ export class HybridSyncService {
     
     const steps = [
       { 
-        opId: this.hashBundleStep(bundleId, 'createCharge'), 
+        opId: hashBundleStep(bundleId, 'createCharge'), 
         kind: 'createCharge' as const, 
         payload: {
           id: bundleId,
@@ -284,7 +852,7 @@ export class HybridSyncService {
         }
       },
       { 
-        opId: this.hashBundleStep(bundleId, 'balanceDelta'), 
+        opId: hashBundleStep(bundleId, 'balanceDelta'), 
         kind: 'balanceDelta' as const, 
         payload: {
           playerId: input.playerId,
@@ -342,12 +910,15 @@ export class HybridSyncService {
       if (!charge) {
         throw new Error(`Charge not found: ${chargeId}`);
       }
+      if (charge.reason === 'refund') {
+        throw new Error('Refunds are settled when the sale is voided and cannot be marked paid or unpaid');
+      }
       
       // Create an update bundle for the charge
       const bundleId = generateUUID();
       const steps: any[] = [
         {
-          opId: this.hashBundleStep(bundleId, 'updateCharge'),
+          opId: hashBundleStep(bundleId, 'updateCharge'),
           kind: 'updateCharge' as const,
           payload: {
             chargeId,
@@ -360,7 +931,7 @@ export class HybridSyncService {
       // If marking as paid, also add a balance delta to reduce the player's balance
       if (status === 'paid' && charge.status !== 'paid') {
         steps.push({
-          opId: this.hashBundleStep(bundleId, 'balanceDelta'),
+          opId: hashBundleStep(bundleId, 'balanceDelta'),
           kind: 'balanceDelta' as const,
           payload: {
             playerId: charge.playerId,
@@ -381,7 +952,7 @@ export class HybridSyncService {
       // If marking as pending (unpaid) when it was previously paid, add balance delta to increase balance
       if (status === 'pending' && charge.status === 'paid') {
         steps.push({
-          opId: this.hashBundleStep(bundleId, 'balanceDelta'),
+          opId: hashBundleStep(bundleId, 'balanceDelta'),
           kind: 'balanceDelta' as const,
           payload: {
             playerId: charge.playerId,
@@ -439,7 +1010,7 @@ export class HybridSyncService {
       const bundleId = generateUUID();
       const steps = [
         {
-          opId: this.hashBundleStep(bundleId, 'deleteCharge'),
+          opId: hashBundleStep(bundleId, 'deleteCharge'),
           kind: 'deleteCharge' as const,
           payload: {
             chargeId,
@@ -505,7 +1076,7 @@ export class HybridSyncService {
     const steps = [
       // Step 1: Mark all assignments as paid
       ...input.assignmentIds.map((assignmentId, index) => ({
-        opId: this.hashBundleStep(bundleId, `markPaid_${index}`),
+        opId: hashBundleStep(bundleId, `markPaid_${index}`),
         kind: 'updateAssignment' as const,
         assignment: {
           assignmentId,
@@ -516,7 +1087,7 @@ export class HybridSyncService {
       })),
       // Step 2: Update player balance (credit - payment received)
       {
-        opId: this.hashBundleStep(bundleId, 'updateBalance'),
+        opId: hashBundleStep(bundleId, 'updateBalance'),
         kind: 'updatePlayerBalance' as const,
         player: {
           playerId: input.playerId,
@@ -566,6 +1137,160 @@ export class HybridSyncService {
     return bundleId;
   }
 
+  /**
+   * Void a sale with compensating steps instead of deleting it
+   * 
+   * Stock and balance are reversed by deltas and the assignment is kept, marked cancelled
+   * with the reason and staff member. A paid sale is refunded in the same bundle with a
+   * 'refund' charge - negative and paid, like a payment, so it never reads as a debt - and a
+   * balance delta for the money handed back.
+   *
+   * The bundle id comes from the sale, so the same sale voided on two offline tills gives the
+   * same opIds, and the server drops a void whose sale another till has already cancelled.
+   */
+  public async createVoidSaleBundle(input: {
+    assignmentId: string;
+    reason: string;
+    staffName: string;
+    refund?: boolean; // Paid sales only - defaults to true
+  }): Promise<string> {
+    const reason = input.reason?.trim();
+    if (!input.assignmentId || !reason || !input.staffName) {
+      throw new Error('Voiding a sale needs the assignment, a reason and the staff member');
+    }
+
+    const assignments = await this.getAssignmentsWithOverlay();
+    const assignment = assignments.find((a: any) => a.id === input.assignmentId);
+    if (!assignment) {
+      throw new Error(`Assignment not found: ${input.assignmentId}`);
+    }
+    if (assignment.status === 'cancelled') {
+      throw new Error(`Assignment ${input.assignmentId} is already voided`);
+    }
+    if (!assignment.playerId) {
+      throw new Error(`Assignment ${input.assignmentId} has no playerId - cannot reverse its balance`);
+    }
+
+    const lines = getAssignmentLines(assignment);
+    const total = lines.reduce((sum, line) => sum + line.total, 0);
+    const refund = !!assignment.paid && input.refund !== false;
+    const organizationId = assignment.organizationId || this.firebase.getOrganizationId();
+    const voidedAt = new Date().toISOString();
+
+    console.log('🚫 Creating void sale bundle:', {
+      assignmentId: input.assignmentId,
+      playerId: assignment.playerId,
+      total,
+      paid: !!assignment.paid,
+      refund
+    });
+
+    const bundleId = `void:${input.assignmentId}`;
+    const refundChargeId = refund ? `refund_${input.assignmentId}` : null;
+    const steps: any[] = [
+      // Put the stock back, one delta per product line
+      ...lines
+        .filter(line => line.productId)
+        .map((line, index) => ({
+          opId: hashBundleStep(bundleId, `stockDelta_${index}`),
+          kind: 'stockDelta' as const,
+          payload: {
+            productId: line.productId,
+            delta: +Math.abs(line.quantity),
+            source: 'void',
+            ...stockMovementFields('void', this.getStockActor(input.staffName), reason),
+          }
+        })),
+      // Take the sale back off the player's balance and purchase stats
+      {
+        opId: hashBundleStep(bundleId, 'balanceDelta'),
+        kind: 'balanceDelta' as const,
+        payload: {
+          playerId: assignment.playerId,
+          delta: -Math.abs(total),
+          reversesPurchase: true,
+        }
+      },
+      {
+        opId: hashBundleStep(bundleId, 'cancelAssignment'),
+        kind: 'updateAssignment' as const,
+        assignment: {
+          assignmentId: input.assignmentId,
+          status: 'cancelled',
+          cancelledAt: voidedAt,
+          cancelledBy: input.staffName,
+          cancelReason: reason,
+          voidedByDevice: this.deviceId, // Lets the server tell this void's later chunks from another till's void
+          ...(refundChargeId && { refundChargeId }),
+        }
+      },
+    ];
+
+    if (refundChargeId) {
+      // The player already paid - record the money handed back as a settled credit
+      steps.push(
+        {
+          opId: hashBundleStep(bundleId, 'createRefundCharge'),
+          kind: 'createCharge' as const,
+          payload: {
+            id: refundChargeId,
+            playerId: assignment.playerId,
+            playerName: assignment.playerName || assignment.userName || '',
+            amount: -Math.abs(total),
+            reason: 'refund',
+            reasonName: 'Refund',
+            reasonDescription: `Refund for voided sale: ${describeAssignment(assignment)}`,
+            date: voidedAt,
+            organizationId,
+            status: 'paid', // Money already handed back
+            relatedAssignmentId: input.assignmentId,
+            notes: reason,
+          }
+        },
+        {
+          opId: hashBundleStep(bundleId, 'refundBalanceDelta'),
+          kind: 'balanceDelta' as const,
+          payload: {
+            playerId: assignment.playerId,
+            delta: +Math.abs(total),
+          }
+        }
+      );
+    }
+
+    const bundle = {
+      bundleId,
+      type: 'voidSale' as const,
+      entityRefs: {
+        assignmentId: input.assignmentId,
+        playerId: assignment.playerId,
+        ...(refundChargeId && { chargeId: refundChargeId }),
+      },
+      steps,
+      vectorClock: await this.getBumpedVectorClock(),
+      timestamp: Date.now(),
+      source: 'local' as const,
+    };
+
+    // 1) Apply locally as provisional overlay
+    await this.applyBundleLocally(bundle);
+
+    // 2) Enqueue for sync (outbox)
+    await this.enqueueBundleForSync(bundle);
+
+    // 3) Best-effort immediate sync
+    if (this.isOnline) {
+      try {
+        await this.processSingleBundle(bundle);
+        console.log('✅ Void sale bundle synced immediately:', bundleId);
+      } catch (error) {
+        console.warn('⚠️ Immediate void sale bundle sync failed, will retry via outbox:', error);
+      }
+    }
+
+    return bundleId;
+  }
+
   /**
    * Create organization update bundle (for settings changes)
    */
@@ -586,7 +1311,7 @@ export class HybridSyncService {
 
     // Create bundle step for organization update
     const steps = [{
-      opId: this.hashBundleStep(bundleId, 'updateOrganization'),
+      opId: hashBundleStep(bundleId, 'updateOrganization'),
       kind: 'updateOrganization' as const,
       organization: organizationUpdates
     }];
@@ -628,20 +1353,696 @@ export class HybridSyncService {
   }
 
   /**
-   * Apply bundle to local provisional state
+   * Commit a stock-take count as a rebase against the stock seen when counting started
+   * 
+   * The step carries (count - baseStock) semantics, so sales synced by other devices while
+   * this one was counting offline are kept rather than clobbered by the absolute count.
    */
-  private async applyBundleLocally(bundle: any): Promise<void> {
-    console.log('📝 Applying bundle locally (provisional):', bundle.bundleId);
+  public async commitStockTake(input: {
+    productId: string;
+    count: number;
+    baseStock: number;
+    staffName?: string;
+  }): Promise<string> {
+    if (!input.productId || input.count < 0) {
+      throw new Error('Missing required fields for stock-take bundle');
+    }
 
-    for (const step of bundle.steps) {
-      switch (step.kind) {
-        case 'createAssignment':
-          // Store assignment in provisional state
-          await this.addProvisionalAssignment(step.payload.assignmentId, step);
-          break;
-        case 'stockDelta':
-          // Add to provisional stock deltas
-          await this.addProvisionalStockDelta(step.payload.productId, step.payload.delta, step.opId);
+    const bundleId = generateUUID();
+    const bundle = {
+      bundleId,
+      type: 'stockTake' as const,
+      entityRefs: { productId: input.productId },
+      steps: [
+        {
+          opId: hashBundleStep(bundleId, 'stockTakeRebase'),
+          kind: 'stockTakeRebase' as const,
+          payload: {
+            productId: input.productId,
+            count: input.count,
+            baseStock: input.baseStock,
+            ...stockMovementFields('stockTake', this.getStockActor(input.staffName)),
+          }
+        }
+      ],
+      vectorClock: await this.getBumpedVectorClock(),
+      timestamp: Date.now(),
+      source: 'local' as const,
+    };
+
+    console.log('📋 Creating stock-take bundle:', {
+      productId: input.productId,
+      count: input.count,
+      baseStock: input.baseStock,
+      rebaseDelta: input.count - input.baseStock
+    });
+
+    await this.applyBundleLocally(bundle);
+    await this.enqueueBundleForSync(bundle);
+
+    if (this.isOnline) {
+      try {
+        await this.processSingleBundle(bundle);
+        console.log('✅ Stock-take bundle synced immediately:', bundleId);
+      } catch (error) {
+        console.warn('⚠️ Immediate stock-take bundle sync failed, will retry via outbox:', error);
+      }
+    }
+
+    return bundleId;
+  }
+
+  /**
+   * Adjust a product's stock by hand - a restock, wastage or correction with its reason.
+   * Goes through the outbox as a delta, so sales made elsewhere meanwhile are kept.
+   */
+  public async adjustStock(input: {
+    productId: string;
+    delta: number;
+    reason: StockMovementReason;
+    note?: string;
+    staffName?: string;
+  }): Promise<string> {
+    if (!input.productId || !input.delta || !Number.isFinite(input.delta)) {
+      throw new Error('Stock adjustment needs a product and a non-zero quantity');
+    }
+    if (!MANUAL_STOCK_REASONS.includes(input.reason)) {
+      throw new Error(`Not a manual stock adjustment reason: ${input.reason}`);
+    }
+
+    const bundleId = generateUUID();
+    const bundle = {
+      bundleId,
+      type: 'stockAdjustment' as const,
+      entityRefs: { productId: input.productId },
+      steps: [
+        {
+          opId: hashBundleStep(bundleId, 'stockDelta'),
+          kind: 'stockDelta' as const,
+          payload: {
+            productId: input.productId,
+            delta: input.delta,
+            ...stockMovementFields(input.reason, this.getStockActor(input.staffName), input.note?.trim()),
+          }
+        }
+      ],
+      vectorClock: await this.getBumpedVectorClock(),
+      timestamp: Date.now(),
+      source: 'local' as const,
+    };
+
+    console.log('📦 Creating stock adjustment bundle:', {
+      productId: input.productId,
+      delta: input.delta,
+      reason: input.reason
+    });
+
+    await this.applyBundleLocally(bundle);
+    await this.enqueueBundleForSync(bundle);
+
+    if (this.isOnline) {
+      try {
+        await this.processSingleBundle(bundle);
+        console.log('✅ Stock adjustment bundle synced immediately:', bundleId);
+      } catch (error) {
+        console.warn('⚠️ Immediate stock adjustment bundle sync failed, will retry via outbox:', error);
+      }
+    }
+
+    return bundleId;
+  }
+
+  // ============================================
+  // STOCK-TAKE SESSIONS
+  // ============================================
+
+  public async getStockTakeSession(): Promise<StockTakeSession | null> {
+    await this.storageReady;
+    const sessionStr = await this.storage.getItem(STOCK_TAKE_SESSION_KEY);
+    return sessionStr ? JSON.parse(sessionStr) : null;
+  }
+
+  private async saveStockTakeSession(session: StockTakeSession | null): Promise<void> {
+    if (session) {
+      await this.storage.setItem(STOCK_TAKE_SESSION_KEY, JSON.stringify(session));
+    } else {
+      await this.storage.removeItem(STOCK_TAKE_SESSION_KEY);
+    }
+  }
+
+  /**
+   * Start counting - one session at a time per device
+   */
+  public async startStockTakeSession(staffName: string): Promise<StockTakeSession> {
+    if (await this.getStockTakeSession()) {
+      throw new Error('A stock take is already in progress on this device');
+    }
+    const session: StockTakeSession = {
+      id: generateUUID(),
+      startedAt: Date.now(),
+      startedBy: staffName,
+      products: {},
+    };
+    await this.saveStockTakeSession(session);
+    console.log('📋 Stock take started:', { sessionId: session.id, startedBy: staffName });
+    return session;
+  }
+
+  /**
+   * Record a staff member's count for a product - the base is the stock this device shows now
+   */
+  public async recordStockTakeCount(productId: string, count: number, staffName: string): Promise<StockTakeSession> {
+    const session = await this.getStockTakeSession();
+    if (!session) {
+      throw new Error('No stock take in progress');
+    }
+    const product = (await this.getProductsWithOverlay()).find((p: any) => p.id === productId);
+    if (!product) {
+      throw new Error(`Product not found: ${productId}`);
+    }
+    const updated = addStockTakeCount(session, product, staffName, count);
+    await this.saveStockTakeSession(updated);
+    return updated;
+  }
+
+  public async removeStockTakeCount(productId: string, staffName?: string): Promise<StockTakeSession | null> {
+    const session = await this.getStockTakeSession();
+    if (!session) return null;
+    const updated = removeStockTakeCount(session, productId, staffName);
+    await this.saveStockTakeSession(updated);
+    return updated;
+  }
+
+  public async cancelStockTakeSession(): Promise<void> {
+    await this.saveStockTakeSession(null);
+    console.log('📋 Stock take cancelled');
+  }
+
+  /**
+   * Commit the session: one rebase bundle for every product whose count differs from its
+   * base, and the finished session with its variance report
+   */
+  public async commitStockTakeSession(staffName: string): Promise<FinishedStockTake> {
+    const session = await this.getStockTakeSession();
+    if (!session) {
+      throw new Error('No stock take in progress');
+    }
+    if (Object.keys(session.products).length === 0) {
+      throw new Error('Count at least one product before finishing the stock take');
+    }
+
+    const report = buildVarianceReport(session, await this.getProductsWithOverlay());
+    const finished: FinishedStockTake = {
+      id: session.id,
+      startedAt: session.startedAt,
+      startedBy: session.startedBy,
+      finishedAt: Date.now(),
+      finishedBy: staffName,
+      bundleId: generateUUID(),
+      report,
+    };
+    const bundle = buildStockTakeBundle({
+      session,
+      finished,
+      actor: this.getStockActor(staffName),
+      vectorClock: await this.getBumpedVectorClock(),
+    });
+
+    console.log('📋 Committing stock take:', {
+      sessionId: session.id,
+      productsCounted: report.productsCounted,
+      productsWithVariance: report.productsWithVariance
+    });
+
+    await this.applyBundleLocally(bundle);
+    await this.enqueueBundleForSync(bundle);
+
+    const history = await this.getStockTakeHistory();
+    await this.storage.setItem(STOCK_TAKE_HISTORY_KEY, JSON.stringify([finished, ...history].slice(0, MAX_STOCK_TAKE_HISTORY)));
+    await this.saveStockTakeSession(null);
+
+    if (this.isOnline) {
+      try {
+        await this.processSingleBundle(bundle);
+        console.log('✅ Stock take bundle synced immediately:', bundle.bundleId);
+      } catch (error) {
+        console.warn('⚠️ Immediate stock take bundle sync failed, will retry via outbox:', error);
+      }
+    }
+
+    return finished;
+  }
+
+  /**
+   * Finished stock takes on this device, newest first
+   */
+  public async getStockTakeHistory(): Promise<FinishedStockTake[]> {
+    await this.storageReady;
+    const historyStr = await this.storage.getItem(STOCK_TAKE_HISTORY_KEY);
+    return historyStr ? JSON.parse(historyStr) : [];
+  }
+
+  // ============================================
+  // PURCHASE ORDERS & GOODS RECEIVING
+  // ============================================
+
+  /**
+   * Purchase orders and their receipts, newest first
+   */
+  public async getPurchasing(): Promise<{ orders: PurchaseOrder[]; receipts: GoodsReceipt[]; fromCache: boolean }> {
+    const orders = await this.refreshPurchasingRecords<PurchaseOrder>(
+      PURCHASE_ORDERS_KEY, 'purchaseOrders', () => this.firebase.getPurchaseOrders()
+    );
+    const receipts = await this.refreshPurchasingRecords<GoodsReceipt>(
+      GOODS_RECEIPTS_KEY, 'goodsReceipts', () => this.firebase.getGoodsReceipts()
+    );
+    return {
+      orders: orders.records.sort((a, b) => b.raisedAt - a.raisedAt),
+      receipts: receipts.records.sort((a, b) => b.receivedAt - a.receivedAt),
+      fromCache: orders.fromCache || receipts.fromCache,
+    };
+  }
+
+  /**
+   * Supplier directory, by name - inactive suppliers only when asked for
+   */
+  public async getSuppliers(options: { includeInactive?: boolean } = {}): Promise<{ suppliers: Supplier[]; fromCache: boolean }> {
+    const { records, fromCache } = await this.refreshPurchasingRecords<Supplier>(
+      SUPPLIERS_KEY, 'suppliers', () => this.firebase.getSuppliers()
+    );
+    return {
+      suppliers: records
+        .filter(supplier => options.includeInactive || supplier.isActive !== false)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      fromCache,
+    };
+  }
+
+  /**
+   * Cached copy of a purchasing collection, refreshed from the server when online. Records with
+   * writes still in the outbox keep their local version over the server's.
+   */
+  private async refreshPurchasingRecords<T extends { id: string }>(
+    key: string,
+    collection: string,
+    fetchFromServer: () => Promise<T[]>
+  ): Promise<{ records: T[]; fromCache: boolean }> {
+    await this.storageReady;
+    const local: T[] = JSON.parse((await this.storage.getItem(key)) || '[]');
+    if (!this.isOnline || !this.firebase.isReady()) {
+      return { records: local, fromCache: true };
+    }
+
+    try {
+      const server = await fetchFromServer();
+      const pendingIds = new Set<string>();
+      (await this.getPendingBundles()).forEach(bundle => bundle.steps?.forEach((step: any) => {
+        if (step.payload?.collection === collection) pendingIds.add(step.payload.entityId);
+      }));
+      const pendingLocal = local.filter(record => pendingIds.has(record.id));
+      const pendingLocalIds = new Set(pendingLocal.map(record => record.id));
+      const records = [...pendingLocal, ...server.filter(record => !pendingLocalIds.has(record.id))];
+      await this.storage.setItem(key, JSON.stringify(records));
+      return { records, fromCache: false };
+    } catch (error) {
+      console.warn(`⚠️ Failed to load ${collection}, using cached copy:`, error);
+      return { records: local, fromCache: true };
+    }
+  }
+
+  /**
+   * Raise a purchase order - one line per product
+   */
+  public async createPurchaseOrder(input: {
+    lines: PurchaseOrderLine[];
+    reference?: string;
+    supplierId?: string | null;
+    supplierName?: string;
+    notes?: string;
+    staffName?: string;
+  }): Promise<PurchaseOrder> {
+    validatePurchaseOrderLines(input.lines);
+
+    const raisedAt = Date.now();
+    const id = generateUUID();
+    const order: PurchaseOrder = {
+      id,
+      reference: input.reference?.trim() || `PO-${new Date(raisedAt).toISOString().slice(0, 10).replace(/-/g, '')}-${id.slice(0, 4).toUpperCase()}`,
+      supplierId: input.supplierId || null,
+      supplierName: input.supplierName?.trim() || null,
+      lines: input.lines,
+      notes: input.notes?.trim() || null,
+      status: 'open',
+      raisedAt,
+      raisedBy: this.getStockActor(input.staffName).staffName,
+      closedAt: null,
+    };
+
+    console.log('🧾 Raising purchase order:', { reference: order.reference, lines: order.lines.length });
+    await this.savePurchasingRecord(PURCHASE_ORDERS_KEY, order);
+    await this.queuePurchasingWrite('create', 'purchaseOrders', order.id, order);
+    return order;
+  }
+
+  /**
+   * Stop expecting deliveries: close an order short, or cancel one nothing was received against
+   */
+  public async closePurchaseOrder(orderId: string, status: 'closed' | 'cancelled'): Promise<PurchaseOrder> {
+    const { orders, receipts } = await this.getPurchasing();
+    const order = orders.find(candidate => candidate.id === orderId);
+    if (!order) {
+      throw new Error(`Purchase order not found: ${orderId}`);
+    }
+    if (order.status !== 'open') {
+      throw new Error(`Purchase order ${order.reference} is already ${order.status}`);
+    }
+    if (status === 'cancelled' && receipts.some(receipt => receipt.purchaseOrderId === orderId)) {
+      throw new Error(`Goods have been received against ${order.reference} - close it instead`);
+    }
+
+    const updates = { status, closedAt: Date.now() };
+    const updated = { ...order, ...updates };
+    await this.savePurchasingRecord(PURCHASE_ORDERS_KEY, updated);
+    await this.queuePurchasingWrite('update', 'purchaseOrders', orderId, updates);
+    console.log(`🧾 Purchase order ${order.reference} ${status}`);
+    return updated;
+  }
+
+  /**
+   * Receive a delivery against a purchase order. Stock comes in as restock movements through
+   * the outbox and product costs move by the organization's costing rule.
+   */
+  public async receiveGoods(input: {
+    purchaseOrderId: string;
+    delivered: { productId: string; quantity: number; unitCost?: number }[];
+    note?: string;
+    staffName?: string;
+  }): Promise<GoodsReceipt> {
+    const { orders, receipts } = await this.getPurchasing();
+    const order = orders.find(candidate => candidate.id === input.purchaseOrderId);
+    if (!order) {
+      throw new Error(`Purchase order not found: ${input.purchaseOrderId}`);
+    }
+
+    const costingMethod = await this.getCostingMethod();
+    const lines = buildReceiptLines({
+      order,
+      receipts,
+      delivered: input.delivered,
+      products: await this.getProductsWithOverlay(),
+      costingMethod,
+    });
+
+    const actor = this.getStockActor(input.staffName);
+    const receivedAt = Date.now();
+    const receipt: GoodsReceipt = {
+      id: generateUUID(),
+      purchaseOrderId: order.id,
+      reference: order.reference,
+      lines,
+      costingMethod,
+      note: input.note?.trim() || null,
+      receivedAt,
+      receivedBy: actor.staffName,
+      bundleId: generateUUID(),
+    };
+    const metadata = {
+      deviceId: this.deviceId,
+      timestamp: receivedAt,
+      version: this.incrementVectorClock(),
+      vectorClock: Object.fromEntries(this.vectorClock),
+      source: 'local' as const,
+    };
+    const bundle = buildGoodsReceiptBundle({ receipt, actor, metadata });
+
+    console.log('📦 Receiving goods:', {
+      reference: order.reference,
+      lines: lines.length,
+      units: lines.reduce((sum, line) => sum + line.quantity, 0),
+      costingMethod
+    });
+
+    // Costs are plain product edits locally; the stock arrives as provisional restock deltas
+    for (const line of lines.filter(line => line.newCost !== line.previousCost)) {
+      await this.applyOpToLocalCache({
+        id: generateUUID(),
+        type: 'update',
+        collection: 'products',
+        entityId: line.productId,
+        data: { cost: line.newCost },
+        metadata,
+      });
+    }
+    await this.applyBundleLocally(bundle);
+    await this.enqueueBundleForSync(bundle);
+    await this.savePurchasingRecord(GOODS_RECEIPTS_KEY, receipt);
+
+    if (this.isOnline) {
+      try {
+        await this.processSingleBundle(bundle);
+        console.log('✅ Goods receipt bundle synced immediately:', bundle.bundleId);
+      } catch (error) {
+        console.warn('⚠️ Immediate goods receipt bundle sync failed, will retry via outbox:', error);
+      }
+    }
+
+    return receipt;
+  }
+
+  public async getCostingMethod(): Promise<CostingMethod> {
+    const organization = await this.getOrganizationWithOverlay();
+    const method = organization?.settings?.costingMethod;
+    return method && method in COSTING_METHODS ? method : DEFAULT_COSTING_METHOD;
+  }
+
+  public async createSupplier(input: SupplierInput): Promise<Supplier> {
+    const supplier: Supplier = { ...normalizeSupplier(input), id: generateUUID(), isActive: true };
+    console.log('🚚 Adding supplier:', supplier.name);
+    await this.savePurchasingRecord(SUPPLIERS_KEY, supplier);
+    await this.queuePurchasingWrite('create', 'suppliers', supplier.id, supplier);
+    return supplier;
+  }
+
+  /**
+   * Edit a supplier's details, or deactivate one (products keep their link, but it is no
+   * longer offered for new links)
+   */
+  public async updateSupplier(supplierId: string, updates: Partial<SupplierInput> & { isActive?: boolean }): Promise<Supplier> {
+    const { suppliers } = await this.getSuppliers({ includeInactive: true });
+    const existing = suppliers.find(supplier => supplier.id === supplierId);
+    if (!existing) {
+      throw new Error(`Supplier not found: ${supplierId}`);
+    }
+    const { isActive, ...details } = updates;
+    const fields = {
+      ...(Object.keys(details).length > 0 ? normalizeSupplier({ ...existing, ...details }) : {}),
+      ...(isActive !== undefined ? { isActive } : {}),
+    };
+    const updated = { ...existing, ...fields };
+    await this.savePurchasingRecord(SUPPLIERS_KEY, updated);
+    await this.queuePurchasingWrite('update', 'suppliers', supplierId, fields);
+    return updated;
+  }
+
+  private async savePurchasingRecord(key: string, record: PurchaseOrder | GoodsReceipt | Supplier): Promise<void> {
+    await this.storageReady;
+    const records: any[] = JSON.parse((await this.storage.getItem(key)) || '[]');
+    await this.storage.setItem(key, JSON.stringify([record, ...records.filter(existing => existing.id !== record.id)]));
+  }
+
+  /**
+   * Purchase order writes go out as entity bundles - the local copy is the purchasing cache
+   */
+  private async queuePurchasingWrite(type: 'create' | 'update', collection: string, entityId: string, data: any): Promise<void> {
+    const bundle = buildEntityBundle({
+      id: generateUUID(),
+      type,
+      collection,
+      entityId,
+      data,
+      metadata: { timestamp: Date.now(), vectorClock: await this.getBumpedVectorClock() },
+    });
+    await this.enqueueBundleForSync(bundle);
+
+    if (this.isOnline) {
+      try {
+        await this.processSingleBundle(bundle);
+      } catch (error) {
+        console.warn(`⚠️ Immediate ${collection} sync failed, will retry via outbox:`, error);
+      }
+    }
+  }
+
+  // ============================================
+  // LOW-STOCK ALERTS
+  // ============================================
+
+  /**
+   * Stock level products without their own minStockLevel are low at
+   */
+  public async getLowStockAlertLevel(): Promise<number> {
+    const organization = await this.getOrganizationWithOverlay();
+    const level = organization?.settings?.lowStockAlertLevel;
+    return typeof level === 'number' && level >= 0 ? level : DEFAULT_LOW_STOCK_LEVEL;
+  }
+
+  /**
+   * Alerts for products that dropped to their threshold, newest first - cleared once restocked
+   */
+  public async getLowStockAlerts(): Promise<LowStockAlert[]> {
+    return (await this.loadLowStockState()).alerts;
+  }
+
+  /**
+   * Mark alerts as seen (all of them when no ids are given)
+   */
+  public async acknowledgeLowStockAlerts(alertIds?: string[]): Promise<void> {
+    await this.queueLowStockCheck(async state => ({
+      ...state,
+      alerts: state.alerts.map(alert =>
+        !alertIds || alertIds.includes(alert.id) ? { ...alert, acknowledged: true } : alert),
+    }));
+  }
+
+  private async loadLowStockState(): Promise<{ lowProductIds: string[] | null; alerts: LowStockAlert[] }> {
+    await this.storageReady;
+    const stateStr = await this.storage.getItem(LOW_STOCK_ALERTS_KEY);
+    return stateStr ? JSON.parse(stateStr) : { lowProductIds: null, alerts: [] };
+  }
+
+  /**
+   * Run a change to the alert state after any check already in progress - by default, compare
+   * the products view with what was low last time and raise an alert for each new crossing
+   */
+  private queueLowStockCheck(
+    update: (state: { lowProductIds: string[] | null; alerts: LowStockAlert[] }) => Promise<{ lowProductIds: string[] | null; alerts: LowStockAlert[] }> =
+      state => this.checkLowStock(state)
+  ): Promise<void> {
+    const run = this.lowStockCheck.then(async () => {
+      const state = await this.loadLowStockState();
+      await this.storage.setItem(LOW_STOCK_ALERTS_KEY, JSON.stringify(await update(state)));
+    });
+    this.lowStockCheck = run.catch(error => console.warn('⚠️ Low-stock check failed:', error));
+    return run;
+  }
+
+  private async checkLowStock(
+    state: { lowProductIds: string[] | null; alerts: LowStockAlert[] }
+  ): Promise<{ lowProductIds: string[] | null; alerts: LowStockAlert[] }> {
+    const products = this.overlayStore.peek('products');
+    // Nothing to compare until the cache has products - otherwise the first hydrate would alert on all of them
+    if (!products || products.length === 0) return state;
+    const defaultLevel = await this.getLowStockAlertLevel();
+    const { lowIds, crossed } = findLowStockCrossings(products, new Set(state.lowProductIds || []), defaultLevel);
+    const lowSet = new Set(lowIds);
+
+    // The first check only records what is already low - the dashboard lists those
+    const raised: LowStockAlert[] = state.lowProductIds === null ? [] : crossed.map(product => ({
+      id: generateUUID(),
+      productId: product.id,
+      productName: product.name,
+      stock: product.stock ?? 0,
+      threshold: lowStockThreshold(product, defaultLevel),
+      raisedAt: Date.now(),
+      acknowledged: false,
+    }));
+    if (raised.length > 0) {
+      console.log('📉 Products at their low-stock level:', raised.map(alert => alert.productName).join(', '));
+      this.emit('lowStockAlert', {
+        alerts: raised.map(({ id, productId, productName, stock, threshold }) => ({ id, productId, productName, stock, threshold })),
+      });
+    }
+
+    return {
+      lowProductIds: lowIds,
+      alerts: [...raised, ...state.alerts.filter(alert => lowSet.has(alert.productId))].slice(0, MAX_LOW_STOCK_ALERTS),
+    };
+  }
+
+  /**
+   * Staff member stamped on stock movements - the signed-in user unless a name is given
+   */
+  private getStockActor(staffName?: string): StockActor {
+    const user = FirebaseAuth.currentUser;
+    return {
+      staffId: user?.uid || null,
+      staffName: staffName || user?.displayName || user?.email || null,
+    };
+  }
+
+  /**
+   * A product's stock movements, newest first, with the stock after each one. Pending
+   * movements come from the outbox; synced ones from the server (cached for offline use).
+   */
+  public async getStockHistory(productId: string): Promise<{
+    stock: number;
+    entries: (StockMovement & { stockAfter: number })[];
+    unrecorded: number;                    // Stock no recorded movement explains
+    fromCache: boolean;                    // Synced movements could not be refreshed
+  }> {
+    const product = (await this.getProductsWithOverlay()).find((p: any) => p.id === productId);
+    if (!product) {
+      throw new Error(`Product not found: ${productId}`);
+    }
+
+    const pendingDeltas = (await this.getProvisionalStockDeltas())[productId] || [];
+    const pending: StockMovement[] = pendingDeltas.map((entry: any) => ({
+      id: entry.opId,
+      productId,
+      delta: entry.delta,
+      reason: entry.reason || 'sale',
+      note: entry.note || null,
+      staffName: entry.staffName || null,
+      deviceId: this.deviceId,
+      bundleId: entry.bundleId || null,
+      at: entry.timestamp,
+      pending: true,
+    }));
+
+    const cacheKey = `stock_history_${productId}`;
+    let synced: StockMovement[] = [];
+    let fromCache = true;
+    if (this.isOnline) {
+      try {
+        synced = await this.firebase.getStockMovements(productId);
+        await this.storage.setItem(cacheKey, JSON.stringify(synced));
+        fromCache = false;
+      } catch (error) {
+        console.warn('⚠️ Failed to load stock movements, using cached history:', error);
+      }
+    }
+    if (fromCache) {
+      const cached = await this.storage.getItem(cacheKey);
+      synced = cached ? JSON.parse(cached) : [];
+    }
+
+    // A movement synced after the cache was written is still in the pending list until committed
+    const pendingIds = new Set(pending.map(movement => movement.id));
+    const movements = [...pending, ...synced.filter(movement => !pendingIds.has(movement.id))];
+    const stock = product.stock || 0;
+    return { stock, ...withRunningStock(movements, stock), fromCache };
+  }
+
+  /**
+   * Apply bundle to local provisional state
+   */
+  private async applyBundleLocally(bundle: any): Promise<void> {
+    this.assertEngineStarted();
+    console.log('📝 Applying bundle locally (provisional):', bundle.bundleId);
+
+    for (const step of bundle.steps) {
+      switch (step.kind) {
+        case 'createAssignment':
+          // Store assignment in provisional state
+          await this.addProvisionalAssignment(step.payload.assignmentId, step);
+          break;
+        case 'stockDelta':
+          // Add to provisional stock deltas
+          await this.addProvisionalStockDelta(step.payload.productId, step.payload.delta, step.opId, bundle, step);
+          break;
+        case 'stockTakeRebase':
+          // Stock-take shows locally as the difference between the count and its base
+          await this.addProvisionalStockDelta(step.payload.productId, step.payload.count - step.payload.baseStock, step.opId, bundle, step);
           break;
         case 'balanceDelta':
           // Add to provisional balance deltas
@@ -677,29 +2078,6 @@ export class HybridSyncService {
     await this.persistProvisionalState();
   }
 
-  /**
-   * Generate deterministic opId for bundle step
-   */
-  private hashBundleStep(bundleId: string, stepName: string): string {
-    // Validate inputs to prevent indexOf errors
-    if (!bundleId || typeof bundleId !== 'string') {
-      throw new Error('Invalid bundleId for hash generation');
-    }
-    if (!stepName || typeof stepName !== 'string') {
-      throw new Error('Invalid stepName for hash generation');
-    }
-    
-    // Simple hash implementation - in production, use crypto.subtle or similar
-    const combined = `${bundleId}:${stepName}`;
-    let hash = 0;
-    for (let i = 0; i < combined.length; i++) {
-      const char = combined.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return `opId_${Math.abs(hash).toString(16)}`;
-  }
-
   /**
    * Process single bundle for sync
    */
@@ -716,12 +2094,15 @@ export class HybridSyncService {
       })) || 'NO STEPS'
     });
     
+    const startedAt = Date.now();
     try {
-      // Use the global firebaseService instance that has the organization ID set
-      if (!firebaseService.isReady()) {
+      // Use the injected FirebaseService instance that has the organization ID set
+      if (!this.firebase.isReady()) {
         throw new Error('FirebaseService is not ready. Organization ID not set.');
       }
-      const acks = await firebaseService.applyBundleTransaction(bundle);
+      const acks = await this.firebase.applyBundleTransaction(bundle, {
+        onChunkCommitted: progress => this.saveBundleChunkProgress(bundle, progress),
+      });
       
       console.log('✅ Bundle processed successfully:', {
         bundleId: bundle.bundleId,
@@ -731,8 +2112,43 @@ export class HybridSyncService {
       
       // Mark provisional items as committed (would be implemented later)
       await this.commitProvisionalItems(bundle, acks);
+
+      const durationMs = Date.now() - startedAt;
+      const skippedCount = acks.filter((ack: any) => ack.skipped).length;
+      this.recordSyncMetric({
+        kind: 'bundle',
+        id: bundle.bundleId,
+        startedAt,
+        durationMs,
+        itemCount: bundle.steps?.length || 0,
+        failureCount: 0,
+      });
+      this.emit('bundleCommitted', {
+        bundleId: bundle.bundleId,
+        bundleType: bundle.type,
+        appliedCount: acks.length - skippedCount,
+        skippedCount,
+        durationMs,
+      });
       
     } catch (error) {
+      this.recordSyncMetric({
+        kind: 'bundle',
+        id: bundle.bundleId,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        itemCount: bundle.steps?.length || 0,
+        failureCount: 1,
+      });
+      // Bundles stay in pending_bundles until they commit
+      this.emit('itemFailed', {
+        itemId: bundle.bundleId,
+        kind: 'bundle',
+        bundleType: bundle.type,
+        error: error instanceof Error ? error.message : String(error),
+        willRetry: true,
+      });
+
       console.error('❌ Bundle processing failed:', {
         bundleId: bundle.bundleId,
         bundleType: bundle.type,
@@ -763,12 +2179,10 @@ export class HybridSyncService {
    * Add assignment to base cache
    */
   private async addAssignmentToBaseCache(assignmentData: any): Promise<void> {
-    const assignments = await this.getLocalData('assignments');
-    const existingIndex = assignments.findIndex((a: any) => a.id === assignmentData.id || a.id === assignmentData.assignmentId);
+    const existing = await this.getLocalRecord('assignments', assignmentData.id || assignmentData.assignmentId);
     
-    if (existingIndex === -1) {
-      assignments.push(assignmentData);
-      await this.saveLocalData('assignments', assignments);
+    if (!existing) {
+      await this.upsertLocalRecords('assignments', [assignmentData]);
       console.log('✅ Assignment added to base cache:', assignmentData.id || assignmentData.assignmentId);
     }
   }
@@ -777,33 +2191,28 @@ export class HybridSyncService {
    * Add charge to base cache
    */
   private async addChargeToBaseCache(chargeData: any): Promise<void> {
-    const charges = await this.getLocalData('charges');
-    const existingIndex = charges.findIndex((c: any) => c.id === chargeData.id);
+    const existing = await this.getLocalRecord('charges', chargeData.id);
     
-    if (existingIndex === -1) {
-      charges.push(chargeData);
-      await this.saveLocalData('charges', charges);
+    if (!existing) {
+      await this.upsertLocalRecords('charges', [chargeData]);
       console.log('✅ Charge added to base cache:', chargeData.id);
     }
   }
 
   private async updateChargeInBaseCache(chargeId: string, updates: any): Promise<void> {
-    const charges = await this.getLocalData('charges');
-    const chargeIndex = charges.findIndex((c: any) => c.id === chargeId);
+    const charge = await this.getLocalRecord('charges', chargeId);
     
-    if (chargeIndex !== -1) {
-      charges[chargeIndex] = { ...charges[chargeIndex], ...updates };
-      await this.saveLocalData('charges', charges);
+    if (charge) {
+      await this.upsertLocalRecords('charges', [{ ...charge, ...updates }]);
       console.log('✅ Charge updated in base cache:', { chargeId, updates });
     }
   }
 
   private async removeChargeFromBaseCache(chargeId: string): Promise<void> {
-    const charges = await this.getLocalData('charges');
-    const filteredCharges = charges.filter((c: any) => c.id !== chargeId);
+    const charge = await this.getLocalRecord('charges', chargeId);
     
-    if (filteredCharges.length !== charges.length) {
-      await this.saveLocalData('charges', filteredCharges);
+    if (charge) {
+      await this.deleteLocalRecords('charges', [chargeId]);
       console.log('✅ Charge removed from base cache:', chargeId);
     }
   }
@@ -812,12 +2221,11 @@ export class HybridSyncService {
    * Apply stock delta to base cache
    */
   private async applyStockDeltaToBaseCache(productId: string, delta: number): Promise<void> {
-    const products = await this.getLocalData('products');
-    const product = products.find((p: any) => p.id === productId);
+    const product = await this.getLocalRecord('products', productId);
     
     if (product) {
       product.stock = (product.stock || 0) + delta;
-      await this.saveLocalData('products', products);
+      await this.upsertLocalRecords('products', [product]);
       console.log('✅ Stock delta applied to base cache:', { productId, delta, newStock: product.stock });
     }
   }
@@ -825,9 +2233,13 @@ export class HybridSyncService {
   /**
    * Apply balance delta to base cache
    */
-  private async applyBalanceDeltaToBaseCache(playerId: string, delta: number, isPurchase: boolean = true): Promise<void> {
-    const players = await this.getLocalData('players');
-    const player = players.find((p: any) => p.id === playerId);
+  private async applyBalanceDeltaToBaseCache(
+    playerId: string,
+    delta: number,
+    isPurchase: boolean = true,
+    reversesPurchase: boolean = false
+  ): Promise<void> {
+    const player = await this.getLocalRecord('players', playerId);
     
     if (player) {
       player.balance = (player.balance || 0) + delta;
@@ -837,21 +2249,24 @@ export class HybridSyncService {
         player.totalSpent = (player.totalSpent || 0) + delta;
         player.totalPurchases = (player.totalPurchases || 0) + 1;
         console.log('✅ Balance delta applied to base cache (PURCHASE):', { playerId, delta, newBalance: player.balance, totalSpent: player.totalSpent });
+      } else if (reversesPurchase) {
+        player.totalSpent = Math.max(0, (player.totalSpent || 0) + delta);
+        player.totalPurchases = Math.max(0, (player.totalPurchases || 0) - 1);
+        console.log('✅ Balance delta applied to base cache (VOID):', { playerId, delta, newBalance: player.balance, totalSpent: player.totalSpent });
       } else {
         console.log('✅ Balance delta applied to base cache (CHARGE/PAYMENT):', { playerId, delta, newBalance: player.balance, note: 'totalSpent/totalPurchases unchanged' });
       }
       
-      await this.saveLocalData('players', players);
+      await this.upsertLocalRecords('players', [player]);
     }
   }
 
   private async applyAssignmentUpdateToBaseCache(assignmentId: string, updates: any): Promise<void> {
-    const assignments = await this.getLocalData('assignments');
-    const assignment = assignments.find((a: any) => a.id === assignmentId);
+    const assignment = await this.getLocalRecord('assignments', assignmentId);
     
     if (assignment) {
       Object.assign(assignment, updates);
-      await this.saveLocalData('assignments', assignments);
+      await this.upsertLocalRecords('assignments', [assignment]);
       console.log('✅ Assignment update applied to base cache:', { assignmentId, updates });
     }
   }
@@ -887,10 +2302,19 @@ export class HybridSyncService {
             await this.applyStockDeltaToBaseCache(step.payload.productId, step.payload.delta);
             break;
             
+          case 'stockTakeRebase':
+            await this.applyStockDeltaToBaseCache(step.payload.productId, step.payload.count - step.payload.baseStock);
+            break;
+            
           case 'balanceDelta':
-            // Apply balance delta to base cache - charges should not count as purchases
-            const isChargeBundle = bundle.type === 'charge';
-            await this.applyBalanceDeltaToBaseCache(step.payload.playerId, step.payload.delta, !isChargeBundle);
+            // Apply balance delta to base cache - charges and voids should not count as purchases
+            const isPurchaseBundle = bundle.type !== 'charge' && bundle.type !== 'voidSale';
+            await this.applyBalanceDeltaToBaseCache(
+              step.payload.playerId,
+              step.payload.delta,
+              isPurchaseBundle,
+              !!step.payload.reversesPurchase
+            );
             break;
             
           case 'updateAssignment':
@@ -922,220 +2346,79 @@ export class HybridSyncService {
       
       console.log('✅ Provisional data committed to base cache');
       
-    } catch (error) {
-      console.error('❌ Failed to commit provisional data to base cache:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Mark provisional items as committed and clean up
-   */
-  private async commitProvisionalItems(bundle: any, acks: any[]): Promise<void> {
-    console.log('📝 Committing provisional items for bundle:', bundle.bundleId);
-    
-    try {
-      // Extract opIds from successful acks
-      const committedOpIds = acks
-        .filter(ack => !ack.skipped)
-        .map(ack => ack.opId);
-      
-      if (committedOpIds.length > 0) {
-        // CRITICAL: Commit provisional data to base cache BEFORE clearing
-        await this.commitProvisionalToBaseCache(bundle, committedOpIds);
-        
-        // Then clear provisional overlays
-        await this.clearProvisionalData(committedOpIds);
-      }
-      
-      console.log('✅ Provisional items committed and cleaned up:', committedOpIds);
-      
-    } catch (error) {
-      console.error('❌ Failed to commit provisional items:', error);
-    }
-  }
-
-  /**
-   * Convert bundle to individual operations (temporary bridge)
-   */
-  private bundleToOperations(bundle: any): Operation[] {
-    const operations: Operation[] = [];
-    
-    for (const step of bundle.steps) {
-      switch (step.kind) {
-        case 'createAssignment':
-          operations.push({
-            id: step.opId,
-            type: 'create',
-            collection: 'assignments',
-            entityId: step.payload.id || step.payload.assignmentId, // Use id first, fallback to assignmentId
-            data: step.payload,
-            metadata: {
-              source: 'local',
-              timestamp: bundle.timestamp,
-              vectorClock: bundle.vectorClock,
-              deviceId: this.deviceId,
-              version: 1
-            }
-          });
-          break;
-        case 'stockDelta':
-          operations.push({
-            id: step.opId,
-            type: 'update',
-            collection: 'products',
-            entityId: step.payload.productId,
-            data: { stockDelta: step.payload.delta },
-            metadata: {
-              source: 'local',
-              timestamp: bundle.timestamp,
-              vectorClock: bundle.vectorClock,
-              deviceId: this.deviceId,
-              version: 1
-            }
-          });
-          break;
-        case 'balanceDelta':
-          operations.push({
-            id: step.opId,
-            type: 'updateBalance',
-            collection: 'players',
-            entityId: step.payload.playerId,
-            data: { 
-              amount: Math.abs(step.payload.delta), 
-              isDebit: step.payload.delta > 0 // positive delta = debit (owed money)
-            },
-            metadata: {
-              source: 'local',
-              timestamp: bundle.timestamp,
-              vectorClock: bundle.vectorClock,
-              deviceId: this.deviceId,
-              version: 1
-            }
-          });
-          break;
-        case 'updateAssignment':
-          operations.push({
-            id: step.opId,
-            type: 'update',
-            collection: 'assignments',
-            entityId: step.assignment.assignmentId,
-            data: step.assignment,
-            metadata: {
-              source: 'local',
-              timestamp: bundle.timestamp,
-              vectorClock: bundle.vectorClock,
-              deviceId: this.deviceId,
-              version: 1
-            }
-          });
-          break;
-        case 'updatePlayerBalance':
-          operations.push({
-            id: step.opId,
-            type: 'updateBalance',
-            collection: 'players',
-            entityId: step.player.playerId,
-            data: { 
-              amount: Math.abs(step.player.balanceDelta), 
-              isDebit: step.player.balanceDelta > 0
-            },
-            metadata: {
-              source: 'local',
-              timestamp: bundle.timestamp,
-              vectorClock: bundle.vectorClock,
-              deviceId: this.deviceId,
-              version: 1
-            }
-          });
-          break;
-        case 'updateOrganization':
-          operations.push({
-            id: step.opId,
-            type: 'update',
-            collection: 'organizations',
-            entityId: step.organization.id,
-            data: step.organization,
-            metadata: {
-              source: 'local',
-              timestamp: bundle.timestamp,
-              vectorClock: bundle.vectorClock,
-              deviceId: this.deviceId,
-              version: 1
-            }
-          });
-          break;
-        case 'createCharge':
-          operations.push({
-            id: step.opId,
-            type: 'create',
-            collection: 'charges',
-            entityId: step.payload.id,
-            data: step.payload,
-            metadata: {
-              source: 'local',
-              timestamp: bundle.timestamp,
-              vectorClock: bundle.vectorClock,
-              deviceId: this.deviceId,
-              version: 1
-            }
-          });
-          break;
-        case 'updateCharge':
-          operations.push({
-            id: step.opId,
-            type: 'update',
-            collection: 'charges',
-            entityId: step.payload.chargeId,
-            data: step.payload.updates,
-            metadata: {
-              source: 'local',
-              timestamp: bundle.timestamp,
-              vectorClock: bundle.vectorClock,
-              deviceId: this.deviceId,
-              version: 1
-            }
-          });
-          break;
-        case 'deleteCharge':
-          operations.push({
-            id: step.opId,
-            type: 'delete',
-            collection: 'charges',
-            entityId: step.payload.chargeId,
-            data: {},
-            metadata: {
-              source: 'local',
-              timestamp: bundle.timestamp,
-              vectorClock: bundle.vectorClock,
-              deviceId: this.deviceId,
-              version: 1
+    } catch (error) {
+      console.error('❌ Failed to commit provisional data to base cache:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark provisional items as committed and clean up
+   */
+  private async commitProvisionalItems(bundle: any, acks: any[]): Promise<void> {
+    console.log('📝 Committing provisional items for bundle:', bundle.bundleId);
+    
+    try {
+      // Extract opIds from successful acks
+      const committedOpIds = acks
+        .filter(ack => !ack.skipped)
+        .map(ack => ack.opId);
+      
+      if (committedOpIds.length > 0) {
+        // One notification for both writes - screens never see the base and the overlay counted twice
+        await this.overlayStore.batch(async () => {
+          // CRITICAL: Commit provisional data to base cache BEFORE clearing
+          await this.commitProvisionalToBaseCache(bundle, committedOpIds);
+          
+          // Then clear provisional overlays
+          await this.clearProvisionalData(committedOpIds);
+        });
+      }
+
+      // Steps the server dropped (a sale another till already voided) never reach the base cache
+      const discardedOpIds = acks.filter(ack => ack.discarded).map(ack => ack.opId);
+      if (discardedOpIds.length > 0) {
+        await this.overlayStore.batch(async () => {
+          await this.clearProvisionalData(discardedOpIds);
+          for (const step of bundle.steps) {
+            if (step.kind === 'createCharge' && discardedOpIds.includes(step.opId)) {
+              await this.removeProvisionalCharge(step.payload.id);
             }
-          });
-          break;
-        default:
-          console.error(`❌ Unknown bundle step kind: ${step.kind}`);
-          throw new Error(`Unsupported bundle step kind: ${step.kind}`);
+          }
+        });
       }
+      
+      console.log('✅ Provisional items committed and cleaned up:', committedOpIds);
+      
+    } catch (error) {
+      console.error('❌ Failed to commit provisional items:', error);
     }
-    
-    return operations;
   }
 
   /**
    * Provisional state management (simplified for now)
    */
+  private async writeProvisional(key: string, data: any): Promise<void> {
+    await this.storage.setItem(key, JSON.stringify(data));
+    this.overlayStore.setOverlay(key, data);
+  }
+
+  private async removeProvisional(key: string): Promise<void> {
+    await this.storage.removeItem(key);
+    this.overlayStore.setOverlay(key, undefined);
+  }
+
   private async addProvisionalAssignment(id: string, step: any): Promise<void> {
     const provisionalKey = 'provisional_assignments';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     const data = dataStr ? JSON.parse(dataStr) : {};
     data[id] = step;
-    await AsyncStorage.setItem(provisionalKey, JSON.stringify(data));
+    await this.writeProvisional(provisionalKey, data);
   }
 
-  private async addProvisionalStockDelta(productId: string, delta: number, opId: string): Promise<void> {
+  private async addProvisionalStockDelta(productId: string, delta: number, opId: string, bundle: any, step: any): Promise<void> {
     const provisionalKey = 'provisional_stock_deltas';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     const data = dataStr ? JSON.parse(dataStr) : {};
     if (!data[productId]) data[productId] = [];
     
@@ -1146,13 +2429,22 @@ export class HybridSyncService {
       return; // Skip adding duplicate operation
     }
     
-    data[productId].push({ delta, opId, timestamp: Date.now() });
-    await AsyncStorage.setItem(provisionalKey, JSON.stringify(data));
+    // Ledger details ride along so pending movements show in the product's stock history
+    data[productId].push({
+      delta,
+      opId,
+      timestamp: Date.now(),
+      bundleId: bundle.bundleId,
+      reason: stockMovementReason(bundle.type, step),
+      staffName: step.payload.staffName || null,
+      note: step.payload.note || null,
+    });
+    await this.writeProvisional(provisionalKey, data);
   }
 
   private async addProvisionalBalanceDelta(playerId: string, delta: number, opId: string, bundleType?: string): Promise<void> {
     const provisionalKey = 'provisional_balance_deltas';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     const data = dataStr ? JSON.parse(dataStr) : {};
     if (!data[playerId]) data[playerId] = [];
     
@@ -1164,16 +2456,16 @@ export class HybridSyncService {
     }
     
     data[playerId].push({ delta, opId, timestamp: Date.now(), bundleType });
-    await AsyncStorage.setItem(provisionalKey, JSON.stringify(data));
+    await this.writeProvisional(provisionalKey, data);
   }
 
   private async addProvisionalAssignmentUpdate(assignmentId: string, updates: any, opId: string): Promise<void> {
     const provisionalKey = 'provisional_assignment_updates';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     const data = dataStr ? JSON.parse(dataStr) : {};
     if (!data[assignmentId]) data[assignmentId] = [];
     data[assignmentId].push({ updates, opId, timestamp: Date.now() });
-    await AsyncStorage.setItem(provisionalKey, JSON.stringify(data));
+    await this.writeProvisional(provisionalKey, data);
     console.log('💰 Added provisional assignment update:', { 
       assignmentId, 
       updates, 
@@ -1184,10 +2476,10 @@ export class HybridSyncService {
 
   private async addProvisionalOrganizationUpdate(organizationData: any, opId: string): Promise<void> {
     const provisionalKey = 'provisional_organization_updates';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     const data = dataStr ? JSON.parse(dataStr) : [];
     data.push({ organization: organizationData, opId, timestamp: Date.now() });
-    await AsyncStorage.setItem(provisionalKey, JSON.stringify(data));
+    await this.writeProvisional(provisionalKey, data);
     console.log('🏢 Added provisional organization update:', { 
       organizationData, 
       opId,
@@ -1197,10 +2489,10 @@ export class HybridSyncService {
 
   private async addProvisionalCharge(id: string, step: any): Promise<void> {
     const provisionalKey = 'provisional_charges';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     const data = dataStr ? JSON.parse(dataStr) : {};
     data[id] = step;
-    await AsyncStorage.setItem(provisionalKey, JSON.stringify(data));
+    await this.writeProvisional(provisionalKey, data);
     console.log('💰 Added provisional charge:', { 
       chargeId: id, 
       amount: step.payload.amount,
@@ -1210,23 +2502,23 @@ export class HybridSyncService {
 
   private async updateProvisionalCharge(chargeId: string, updates: any): Promise<void> {
     const provisionalKey = 'provisional_charges';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     const data = dataStr ? JSON.parse(dataStr) : {};
     if (data[chargeId]) {
       // Update the charge payload with new values
       data[chargeId].payload = { ...data[chargeId].payload, ...updates };
-      await AsyncStorage.setItem(provisionalKey, JSON.stringify(data));
+      await this.writeProvisional(provisionalKey, data);
       console.log('🔄 Updated provisional charge:', { chargeId, updates });
     }
   }
 
   private async removeProvisionalCharge(chargeId: string): Promise<void> {
     const provisionalKey = 'provisional_charges';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     const data = dataStr ? JSON.parse(dataStr) : {};
     if (data[chargeId]) {
       delete data[chargeId];
-      await AsyncStorage.setItem(provisionalKey, JSON.stringify(data));
+      await this.writeProvisional(provisionalKey, data);
       console.log('🗑️ Removed provisional charge:', { chargeId });
     }
   }
@@ -1244,30 +2536,21 @@ export class HybridSyncService {
    * Get products with provisional overlays (read reconciliation)
    */
   public async getProductsWithOverlay(): Promise<any[]> {
-    const baseProducts = await this.getLocalData('products');
-    const provisionalDeltas = await this.getProvisionalStockDeltas();
-    
-    return this.foldProductOverlay(baseProducts, provisionalDeltas);
+    return [...await this.overlayStore.getView('products')];
   }
 
   /**
    * Get players with provisional overlays (read reconciliation)
    */
   public async getPlayersWithOverlay(): Promise<any[]> {
-    const basePlayers = await this.getLocalData('players');
-    const provisionalDeltas = await this.getProvisionalBalanceDeltas();
-    
-    return this.foldPlayerOverlay(basePlayers, provisionalDeltas);
+    return [...await this.overlayStore.getView('players')];
   }
 
   /**
    * Get assignments with provisional overlays (read reconciliation)
    */
   public async getAssignmentsWithOverlay(): Promise<any[]> {
-    const baseAssignments = await this.getLocalData('assignments');
-    const provisionalAssignments = await this.getProvisionalAssignments();
-    
-    return await this.foldAssignmentOverlay(baseAssignments, provisionalAssignments);
+    return [...await this.overlayStore.getView('assignments')];
   }
 
   /**
@@ -1303,130 +2586,14 @@ export class HybridSyncService {
    * Get charges with provisional overlays (read reconciliation)
    */
   public async getChargesWithOverlay(): Promise<any[]> {
-    const baseCharges = await this.getLocalData('charges');
-    const provisionalCharges = await this.getProvisionalCharges();
-    
-    return await this.foldChargeOverlay(baseCharges, provisionalCharges);
-  }
-
-  /**
-   * Fold product overlays (base + deltas)
-   */
-  private foldProductOverlay(base: any[], deltas: Record<string, any[]>): any[] {
-    const byId = new Map(base.map(p => [p.id, { ...p }]));
-    
-    for (const [productId, deltaArray] of Object.entries(deltas)) {
-      const product = byId.get(productId);
-      if (product) {
-        const totalDelta = deltaArray.reduce((sum, d) => sum + d.delta, 0);
-        product.stock = (product.stock || 0) + totalDelta;
-        product._provisional = true; // Mark as having provisional data
-      }
-    }
-    
-    return [...byId.values()];
+    return [...await this.overlayStore.getView('charges')];
   }
 
   /**
-   * Fold player overlays (base + deltas)
+   * Live folded views for screens - see hooks/useOverlayStore
    */
-  private foldPlayerOverlay(base: any[], deltas: Record<string, any[]>): any[] {
-    const byId = new Map(base.map(p => [p.id, { ...p }]));
-    
-    for (const [playerId, deltaArray] of Object.entries(deltas)) {
-      const player = byId.get(playerId);
-      if (player) {
-        const totalDelta = deltaArray.reduce((sum, d) => sum + d.delta, 0);
-        
-        // Only count purchase bundles in statistics, not charges
-        const purchaseDeltas = deltaArray.filter(d => d.bundleType === 'purchase' && d.delta > 0);
-        const purchaseCount = purchaseDeltas.length;
-        const totalSpentDelta = purchaseDeltas.reduce((sum, d) => sum + d.delta, 0);
-        
-        player.balance = (player.balance || 0) + totalDelta;
-        player.totalSpent = (player.totalSpent || 0) + totalSpentDelta;
-        player.totalPurchases = (player.totalPurchases || 0) + purchaseCount;
-        player._provisional = true; // Mark as having provisional data
-        
-        console.log('📊 Applied provisional player statistics:', {
-          playerId,
-          balanceDelta: totalDelta,
-          totalSpentDelta,
-          purchaseCountDelta: purchaseCount,
-          newBalance: player.balance,
-          newTotalSpent: player.totalSpent,
-          newTotalPurchases: player.totalPurchases,
-          deltaTypes: deltaArray.map(d => ({ delta: d.delta, bundleType: d.bundleType }))
-        });
-      }
-    }
-    
-    return [...byId.values()];
-  }
-
-  /**
-   * Fold assignment overlays (base + provisional)
-   */  
-  private async foldAssignmentOverlay(base: any[], provisional: Record<string, any>): Promise<any[]> {
-    const result = [...base];
-    
-    // 1. Add new provisional assignments
-    for (const [assignmentId, provAssignment] of Object.entries(provisional)) {
-      // Check if this assignment is already in base (shouldn't be for new ones)
-      const existsInBase = base.find(a => a.id === assignmentId);
-      if (!existsInBase) {
-        result.push({
-          ...provAssignment.payload,
-          _provisional: true
-        });
-      }
-    }
-    
-    // 2. Apply provisional assignment updates (like payment status)
-    const provisionalUpdates = await this.getProvisionalAssignmentUpdates();
-    let updatesApplied = 0;
-    for (const assignment of result) {
-      if (provisionalUpdates[assignment.id]) {
-        const updates = provisionalUpdates[assignment.id];
-        console.log('💰 Applying provisional updates to assignment:', {
-          assignmentId: assignment.id,
-          updateCount: updates.length,
-          updates: updates.map((u: any) => u.updates)
-        });
-        // Apply all updates in order
-        updates.forEach((update: any) => {
-          Object.assign(assignment, update.updates);
-          assignment._provisional = true; // Mark as having provisional changes
-          updatesApplied++;
-        });
-      }
-    }
-    console.log('💰 Total provisional assignment updates applied:', updatesApplied);
-    
-    return result;
-    
-    return result;
-  }
-
-  /**
-   * Fold charge overlays (base + provisional)
-   */  
-  private async foldChargeOverlay(base: any[], provisional: Record<string, any>): Promise<any[]> {
-    const result = [...base];
-    
-    // Add new provisional charges
-    for (const [chargeId, provCharge] of Object.entries(provisional)) {
-      // Check if this charge is already in base (shouldn't be for new ones)
-      const existsInBase = base.find(c => c.id === chargeId);
-      if (!existsInBase) {
-        result.push({
-          ...provCharge.payload,
-          _provisional: true
-        });
-      }
-    }
-    
-    return result;
+  public getOverlayStore(): OverlayStore {
+    return this.overlayStore;
   }
 
   /**
@@ -1434,7 +2601,7 @@ export class HybridSyncService {
    */
   private async getProvisionalStockDeltas(): Promise<Record<string, any[]>> {
     const provisionalKey = 'provisional_stock_deltas';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     return dataStr ? JSON.parse(dataStr) : {};
   }
 
@@ -1443,7 +2610,7 @@ export class HybridSyncService {
    */
   private async getProvisionalBalanceDeltas(): Promise<Record<string, any[]>> {
     const provisionalKey = 'provisional_balance_deltas';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     return dataStr ? JSON.parse(dataStr) : {};
   }
 
@@ -1452,7 +2619,7 @@ export class HybridSyncService {
    */
   private async getProvisionalAssignments(): Promise<Record<string, any>> {
     const provisionalKey = 'provisional_assignments';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     return dataStr ? JSON.parse(dataStr) : {};
   }
 
@@ -1461,13 +2628,13 @@ export class HybridSyncService {
    */
   private async getProvisionalCharges(): Promise<Record<string, any>> {
     const provisionalKey = 'provisional_charges';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     return dataStr ? JSON.parse(dataStr) : {};
   }
 
   private async getProvisionalAssignmentUpdates(): Promise<Record<string, any[]>> {
     const provisionalKey = 'provisional_assignment_updates';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     const result = dataStr ? JSON.parse(dataStr) : {};
     console.log('📋 Provisional assignment updates loaded:', Object.keys(result).length, 'assignments with updates');
     return result;
@@ -1475,7 +2642,7 @@ export class HybridSyncService {
 
   private async getProvisionalOrganizationUpdates(): Promise<any[]> {
     const provisionalKey = 'provisional_organization_updates';
-    const dataStr = await AsyncStorage.getItem(provisionalKey);
+    const dataStr = await this.storage.getItem(provisionalKey);
     const result = dataStr ? JSON.parse(dataStr) : [];
     console.log('🏢 Provisional organization updates loaded:', result.length, 'updates');
     return result;
@@ -1552,10 +2719,10 @@ export class HybridSyncService {
       }
       
       // Persist cleaned data
-      await AsyncStorage.setItem('provisional_stock_deltas', JSON.stringify(stockDeltas));
-      await AsyncStorage.setItem('provisional_balance_deltas', JSON.stringify(balanceDeltas));
-      await AsyncStorage.setItem('provisional_assignments', JSON.stringify(assignments));
-      await AsyncStorage.setItem('provisional_assignment_updates', JSON.stringify(assignmentUpdates));
+      await this.writeProvisional('provisional_stock_deltas', stockDeltas);
+      await this.writeProvisional('provisional_balance_deltas', balanceDeltas);
+      await this.writeProvisional('provisional_assignments', assignments);
+      await this.writeProvisional('provisional_assignment_updates', assignmentUpdates);
       
       console.log('✅ Provisional data cleanup completed');
       
@@ -1567,15 +2734,30 @@ export class HybridSyncService {
   private async enqueueBundleForSync(bundle: any): Promise<void> {
     // According to MD spec: Bundles should be queued as atomic units for offline-first support
     console.log('📦 Enqueueing bundle for atomic sync:', bundle.bundleId);
+
+    // Numbered before any await so the watermark can never be reported past a bundle still being queued
+    if (typeof bundle.seq !== 'number') {
+      bundle.deviceId = this.deviceId;
+      bundle.seq = ++this.bundleSequence;
+    }
+    if (bundle.deviceId === this.deviceId) {
+      this.inFlightBundles.set(bundle.seq, bundle.timestamp || Date.now());
+    }
     
     try {
+      await this.saveSyncDevice();
       // Store bundle in pending bundles queue for offline support
       const pendingBundles = await this.getPendingBundles();
       pendingBundles.push(bundle);
-      await AsyncStorage.setItem('pending_bundles', JSON.stringify(pendingBundles));
+      await this.savePendingBundles(pendingBundles);
       
       console.log('✅ Bundle queued for sync:', bundle.bundleId);
       console.log('📊 Pending bundles queue size:', pendingBundles.length);
+      this.emit('bundleEnqueued', {
+        bundleId: bundle.bundleId,
+        bundleType: bundle.type,
+        pendingCount: pendingBundles.length,
+      });
       
     } catch (error) {
       console.error('❌ Failed to enqueue bundle:', error);
@@ -1583,23 +2765,74 @@ export class HybridSyncService {
     }
   }
 
+  /**
+   * Record how far a chunked bundle got, so a retry after a crash resumes at the next chunk
+   */
+  private async saveBundleChunkProgress(bundle: any, progress: BundleChunkProgress): Promise<void> {
+    bundle.chunkProgress = progress;
+    await this.updatePendingBundle(bundle.bundleId, { chunkProgress: progress });
+
+    console.log(`🧩 Bundle ${bundle.bundleId}: chunk ${progress.chunk}/${progress.chunkCount} committed (${progress.completedSteps}/${progress.totalSteps} steps)`);
+    this.emit('bundleProgress', {
+      bundleId: bundle.bundleId,
+      bundleType: bundle.type,
+      completedSteps: progress.completedSteps,
+      totalSteps: progress.totalSteps,
+      chunk: progress.chunk,
+      chunkCount: progress.chunkCount,
+    });
+  }
+
   private async getPendingBundles(): Promise<any[]> {
     try {
-      const stored = await AsyncStorage.getItem('pending_bundles');
-      return stored ? JSON.parse(stored) : [];
+      const stored = await this.storage.getItem('pending_bundles');
+      const bundles = stored ? JSON.parse(stored) : [];
+      this.updateOutboxStats(bundles);
+      return bundles;
     } catch (error) {
       console.error('❌ Failed to get pending bundles:', error);
       return [];
     }
   }
 
+  private async savePendingBundles(bundles: any[]): Promise<void> {
+    await this.storage.setItem('pending_bundles', JSON.stringify(bundles));
+    this.updateOutboxStats(bundles);
+  }
+
+  /**
+   * Merge fields into one stored pending bundle (retry state, chunk progress) - no-op if it has gone
+   */
+  private async updatePendingBundle(bundleId: string, fields: Record<string, any>): Promise<void> {
+    const pendingBundles = await this.getPendingBundles();
+    const index = pendingBundles.findIndex(pending => pending.bundleId === bundleId);
+    if (index !== -1) {
+      pendingBundles[index] = { ...pendingBundles[index], ...fields };
+      await this.savePendingBundles(pendingBundles);
+    }
+  }
+
+  /**
+   * Keep the synchronous counters the timers and status screens read in step with storage
+   */
+  private updateOutboxStats(bundles: any[]): void {
+    const backoffs = bundles.map(bundle => bundle.nextAttemptAt || 0).filter(at => at > 0);
+    this.outboxStats = {
+      pending: bundles.length,
+      urgent: bundles.filter(bundle => ['payments', 'sales'].includes(getBundleLane(bundle))).length,
+      retrying: bundles.filter(bundle => (bundle.retryCount || 0) > 0).length,
+      retryTotal: bundles.reduce((sum, bundle) => sum + (bundle.retryCount || 0), 0),
+      nextAttemptAt: backoffs.length > 0 ? Math.min(...backoffs) : 0,
+    };
+  }
+
   public async getPendingBundlesCount(): Promise<number> {
     const bundles = await this.getPendingBundles();
     return bundles.length;
   }
 
   public async getPendingOperationsCount(): Promise<number> {
-    return this.syncQueue.length;
+    return this.getPendingBundlesCount();
   }
 
   /**
@@ -1616,40 +2849,33 @@ export class HybridSyncService {
     const operationsByCollection: Record<string, number> = {};
     let oldestOperation: { timestamp: number; age: string; type: string; collection: string } | undefined;
 
-    // Analyze sync queue operations
-    for (const operation of this.syncQueue) {
-      // Count by operation type (SyncQueueItem uses 'action' field)
-      const opType = operation.action || 'unknown';
-      operationsByType[opType] = (operationsByType[opType] || 0) + 1;
-
-      // Count by collection
-      const collection = operation.collection || 'unknown';
-      operationsByCollection[collection] = (operationsByCollection[collection] || 0) + 1;
-
-      // Track oldest operation (SyncQueueItem has direct timestamp field)
-      const opTimestamp = operation.timestamp || Date.now();
-      if (!oldestOperation || opTimestamp < oldestOperation.timestamp) {
-        const ageMs = Date.now() - opTimestamp;
-        const ageMinutes = Math.floor(ageMs / (1000 * 60));
+    // Pending bundles count by bundle type and outbox lane
+    const pendingBundles = await this.getPendingBundles();
+    for (const bundle of pendingBundles) {
+      const bundleType = bundle.type || 'bundle';
+      operationsByType[bundleType] = (operationsByType[bundleType] || 0) + 1;
+      const lane = getBundleLane(bundle);
+      operationsByCollection[lane] = (operationsByCollection[lane] || 0) + 1;
+
+      const bundleTimestamp = bundle.timestamp || Date.now();
+      if (!oldestOperation || bundleTimestamp < oldestOperation.timestamp) {
+        const ageMinutes = Math.floor((Date.now() - bundleTimestamp) / (1000 * 60));
         const ageHours = Math.floor(ageMinutes / 60);
-        const ageString = ageHours > 0 
-          ? `${ageHours}h ${ageMinutes % 60}m ago`
-          : `${ageMinutes}m ago`;
-
         oldestOperation = {
-          timestamp: opTimestamp,
-          age: ageString,
-          type: opType,
-          collection
+          timestamp: bundleTimestamp,
+          age: ageHours > 0 ? `${ageHours}h ${ageMinutes % 60}m ago` : `${ageMinutes}m ago`,
+          type: bundleType,
+          collection: lane
         };
       }
     }
 
+    const totalCount = pendingBundles.length;
     return {
-      totalCount: this.syncQueue.length,
+      totalCount,
       operationsByType,
       operationsByCollection,
-      hasUnsyncedData: this.syncQueue.length > 0,
+      hasUnsyncedData: totalCount > 0,
       oldestOperation
     };
   }
@@ -1658,9 +2884,7 @@ export class HybridSyncService {
    * Check if it's safe to logout (no pending operations)
    */
   public async isSafeToLogout(): Promise<boolean> {
-    const pendingOps = await this.getPendingOperationsCount();
-    const pendingBundles = await this.getPendingBundlesCount();
-    return pendingOps === 0 && pendingBundles === 0;
+    return (await this.getPendingBundlesCount()) === 0;
   }
 
   /**
@@ -1670,27 +2894,219 @@ export class HybridSyncService {
     return this.isOnline;
   }
 
-  private async processPendingBundles(bundles: any[]): Promise<void> {
-    for (const bundle of bundles) {
+  /**
+   * Run the outbox lane by lane in rounds until every lane is empty or stopped. A failure stops
+   * only its own lane for this drain - later units there may depend on it - and is returned.
+   * A lane whose next bundle is backing off after a failure waits quietly for a later drain.
+   */
+  private async runOutboxLanes(
+    bundles: any[],
+    deadline?: number
+  ): Promise<{ processedBundles: any[]; error: any; timedOut: boolean }> {
+    const lanes = planOutboxLanes(bundles);
+    const stopped = new Set<SyncLane>();
+    const processedBundles: any[] = [];
+    let firstError: any = null;
+
+    SYNC_LANES.forEach(({ lane }) => {
+      const units = lanes.get(lane)!;
+      if (units.length > 0) {
+        console.log(`🚦 ${lane} lane: ${units.length} units`);
+      }
+    });
+
+    const hasWork = () => SYNC_LANES.some(({ lane }) => !stopped.has(lane) && lanes.get(lane)!.length > 0);
+    while (hasWork()) {
+      for (const config of SYNC_LANES) {
+        const queue = lanes.get(config.lane)!;
+        if (stopped.has(config.lane) || queue.length === 0) continue;
+        // Out of time - units already started have finished, the rest wait for the next drain
+        if (deadline && Date.now() >= deadline) {
+          console.log('⏱️ Sync time budget used - leaving the remaining outbox for the next run');
+          return { processedBundles, error: firstError, timedOut: true };
+        }
+
+        try {
+          const ready = await this.runLaneTurn(config, queue.splice(0, config.weight), processedBundles);
+          if (!ready) {
+            stopped.add(config.lane);
+          }
+        } catch (error) {
+          console.error(`❌ ${config.lane} lane stopped for this sync (${queue.length} units left):`, error);
+          stopped.add(config.lane);
+          firstError = firstError || error;
+        }
+      }
+    }
+
+    return { processedBundles, error: firstError, timedOut: false };
+  }
+
+  /**
+   * One lane turn: bundles one at a time (provisional overlays are read-modify-write). A bundle
+   * that fails for good is dead-lettered and the lane carries on; any other failure is thrown.
+   * Returns false if the lane reached a bundle that is still backing off.
+   */
+  private async runLaneTurn(config: SyncLaneConfig, units: OutboxUnit[], processedBundles: any[]): Promise<boolean> {
+    for (const { bundle } of units) {
+      if (bundle.nextAttemptAt && bundle.nextAttemptAt > Date.now()) {
+        console.log(`⏳ [${config.lane}] ${bundle.bundleId} backing off until ${new Date(bundle.nextAttemptAt).toLocaleTimeString()}`);
+        return false;
+      }
+
+      console.log(`📦 [${config.lane}] Processing pending bundle:`, bundle.bundleId);
       try {
-        console.log('📦 Processing pending bundle:', bundle.bundleId);
         await this.processSingleBundle(bundle);
-        console.log('✅ Pending bundle processed:', bundle.bundleId);
       } catch (error) {
-        console.error('❌ Failed to process pending bundle:', bundle.bundleId, error);
-        // Leave bundle in queue for retry
+        if (await this.handleBundleFailure(bundle, error)) {
+          continue;
+        }
         throw error;
       }
+      processedBundles.push(bundle);
+    }
+    return true;
+  }
+
+  /**
+   * Drop committed bundles from pending_bundles - keep any queued while this drain was running
+   */
+  private async clearProcessedBundles(bundles: any[]): Promise<void> {
+    const processedIds = new Set(bundles.map(bundle => bundle.bundleId));
+    const remaining = (await this.getPendingBundles()).filter(bundle => !processedIds.has(bundle.bundleId));
+    await this.savePendingBundles(remaining);
+    bundles.forEach(bundle => {
+      if (bundle.deviceId === this.deviceId) {
+        this.inFlightBundles.delete(bundle.seq);
+      }
+    });
+    console.log(`✅ ${bundles.length} processed bundles cleared`);
+
+    await this.reportSyncWatermark();
+    this.maybeCompactAppliedOps().catch(error => {
+      console.warn('⚠️ appliedOps compaction failed:', error);
+    });
+  }
+
+  // ============================================
+  // APPLIED-OPS WATERMARK & COMPACTION
+  // ============================================
+
+  /**
+   * Load the persistent device id and bundle sequence, and number bundles queued before sequencing
+   */
+  private async loadSyncDevice(): Promise<void> {
+    try {
+      const raw = await this.storage.getItem(SYNC_DEVICE_KEY);
+      const stored = raw ? JSON.parse(raw) : null;
+
+      if (!this.hasExplicitDeviceId && stored?.deviceId) {
+        this.deviceId = stored.deviceId;
+      }
+      // A fresh sequence starts at the clock so it stays above anything an earlier install with this id confirmed
+      this.bundleSequence = Math.max(this.bundleSequence, stored?.deviceId === this.deviceId && typeof stored.bundleSeq === 'number'
+        ? stored.bundleSeq
+        : Date.now());
+      this.lastCompactionAt = stored?.lastCompactionAt || 0;
+
+      this.inFlightBundles.clear();
+      const pendingBundles = await this.getPendingBundles();
+      let numbered = 0;
+      pendingBundles.forEach(bundle => {
+        if (typeof bundle.seq !== 'number') {
+          bundle.deviceId = this.deviceId;
+          bundle.seq = ++this.bundleSequence;
+          numbered++;
+        }
+        if (bundle.deviceId === this.deviceId) {
+          this.bundleSequence = Math.max(this.bundleSequence, bundle.seq);
+          this.inFlightBundles.set(bundle.seq, bundle.timestamp || Date.now());
+        }
+      });
+      if (numbered > 0) {
+        await this.savePendingBundles(pendingBundles);
+        console.log(`🔢 Numbered ${numbered} pending bundles`);
+      }
+
+      await this.saveSyncDevice();
+    } catch (error) {
+      console.error('❌ Failed to load sync device state:', error);
+      throw error;
+    }
+  }
+
+  private async saveSyncDevice(): Promise<void> {
+    await this.storage.setItem(SYNC_DEVICE_KEY, JSON.stringify({
+      deviceId: this.deviceId,
+      bundleSeq: this.bundleSequence,
+      lastCompactionAt: this.lastCompactionAt,
+    }));
+  }
+
+  /**
+   * This device's low watermark: every bundle numbered <= ackedSeq (and created before
+   * lowWatermarkAt) has been acknowledged by the server and left the outbox
+   */
+  public getSyncWatermark(): { deviceId: string; ackedSeq: number; lowWatermarkAt: number; inFlight: number } {
+    if (this.inFlightBundles.size === 0) {
+      return { deviceId: this.deviceId, ackedSeq: this.bundleSequence, lowWatermarkAt: Date.now(), inFlight: 0 };
+    }
+    const seqs = Array.from(this.inFlightBundles.keys());
+    return {
+      deviceId: this.deviceId,
+      ackedSeq: Math.min(...seqs) - 1,
+      lowWatermarkAt: Math.min(...Array.from(this.inFlightBundles.values())),
+      inFlight: seqs.length,
+    };
+  }
+
+  /**
+   * Publish the watermark to sync-metadata/{deviceId} - best effort, a stale watermark only costs reads
+   */
+  private async reportSyncWatermark(): Promise<void> {
+    const { deviceId, ackedSeq, lowWatermarkAt } = this.getSyncWatermark();
+    try {
+      await this.firebase.updateSyncWatermark(deviceId, { ackedSeq, lowWatermarkAt });
+    } catch (error) {
+      console.warn('⚠️ Failed to report sync watermark:', error);
+    }
+  }
+
+  private async maybeCompactAppliedOps(): Promise<void> {
+    if (Date.now() - this.lastCompactionAt < APPLIED_OPS_COMPACTION_INTERVAL_MS) {
+      return;
+    }
+    await this.compactAppliedOps();
+  }
+
+  /**
+   * Prune appliedOps records older than every device's watermark - no device can resend
+   * those ops, and their bundles short-circuit on the watermark anyway
+   */
+  public async compactAppliedOps(): Promise<{ deleted: number; cutoff: number | null }> {
+    const watermarks = await this.firebase.getSyncWatermarks();
+    this.lastCompactionAt = Date.now();
+    await this.saveSyncDevice();
+
+    if (watermarks.length === 0) {
+      console.log('🧹 appliedOps compaction skipped: no device watermarks yet');
+      return { deleted: 0, cutoff: null };
     }
 
-    // Clear processed bundles
-    await AsyncStorage.setItem('pending_bundles', JSON.stringify([]));
-    console.log('✅ All pending bundles processed and cleared');
+    const lowest = Math.min(...watermarks.map(watermark => watermark.lowWatermarkAt || 0));
+    const cutoff = Math.min(lowest, Date.now() - APPLIED_OPS_MIN_RETENTION_MS);
+    const deleted = await this.firebase.deleteAppliedOpsBefore(cutoff);
+    console.log(`🧹 Compacted ${deleted} appliedOps records older than ${new Date(cutoff).toISOString()} (${watermarks.length} devices)`);
+    return { deleted, cutoff };
   }
 
-  private async getBumpedVectorClock(): Promise<Record<string, number>> {
-    // Simplified vector clock - just return current timestamp
-    return { [this.deviceId]: Date.now() };
+  /**
+   * Tick this device's counter and return the whole clock for a bundle or local write to carry
+   */
+  private async getBumpedVectorClock(): Promise<VectorClock> {
+    await this.ready;
+    this.incrementVectorClock();
+    return Object.fromEntries(this.vectorClock);
   }
 
   /**
@@ -1735,41 +3151,27 @@ export class HybridSyncService {
       originalTimestamp: metadata.timestamp
     });
 
-    // Get current local data
-    const currentData = await this.getLocalData(collection);
-    let updatedData: any[];
-
+    // Only the touched record is read and written - keeps writes O(1) on indexed backends
     switch (type) {
-      case 'create':
-        updatedData = await this.applyCreateOp(currentData, data, metadata, normalizedTimestamp);
-        break;
-        
-      case 'update':
-        updatedData = await this.applyUpdateOp(currentData, entityId!, data, metadata, normalizedTimestamp);
+      case 'create': {
+        const created = await this.applyCreateOp(collection, data, metadata, normalizedTimestamp);
+        if (created) await this.upsertLocalRecords(collection, [created]);
         break;
+      }
         
-      case 'updateBalance':
-        // IMPORTANT: Balance updates should only be processed by sync queue to avoid duplication
-        // Local balance updates happen through provisional overlays for immediate UI feedback
-        console.log('💰 updateBalance operation - skipping local update, will be handled by sync queue');
-        updatedData = currentData; // Don't modify local data, only sync queue should handle this
+      case 'update': {
+        const updated = await this.applyUpdateOp(collection, entityId!, data, metadata, normalizedTimestamp);
+        if (updated) await this.upsertLocalRecords(collection, [updated]);
         break;
-        
-      case 'createAssignmentTransaction':
-        // This is a compound operation that affects multiple collections
-        await this.applyAssignmentTransactionOp(data, metadata, normalizedTimestamp);
-        return; // Early return since we handle multiple collections internally
+      }
         
       case 'delete':
-        updatedData = await this.applyDeleteOp(currentData, entityId!, metadata);
+        await this.applyDeleteOp(collection, entityId!, metadata);
         break;
         
       default:
         throw new Error(`Unknown operation type: ${type}`);
     }
-
-    // Atomically save updated data
-    await this.saveLocalData(collection, updatedData);
     
     console.log('✅ Local cache updated successfully');
   }
@@ -1777,7 +3179,7 @@ export class HybridSyncService {
   /**
    * Apply create operation to local data
    */
-  private async applyCreateOp(currentData: any[], entityData: any, metadata: Operation['metadata'], normalizedTimestamp: string): Promise<any[]> {
+  private async applyCreateOp(collection: string, entityData: any, metadata: Operation['metadata'], normalizedTimestamp: string): Promise<any | null> {
     // Use the already normalized timestamp
     
     const newEntity = {
@@ -1789,190 +3191,195 @@ export class HybridSyncService {
     };
     
     // Check if entity already exists (idempotency)
-    const existingIndex = currentData.findIndex(item => item.id === newEntity.id);
-    if (existingIndex !== -1) {
+    const existing = await this.getLocalRecord(collection, newEntity.id);
+    if (existing) {
       console.log('⏭️ Create operation idempotent - entity already exists:', newEntity.id);
-      return currentData; // No change needed
+      return null; // No change needed
     }
     
-    return [...currentData, newEntity];
+    return newEntity;
   }
 
   /**
    * Apply update operation with conflict resolution
    */
-  private async applyUpdateOp(currentData: any[], entityId: string, updates: any, metadata: Operation['metadata'], normalizedTimestamp: string): Promise<any[]> {
-    const entityIndex = currentData.findIndex(item => item.id === entityId);
+  private async applyUpdateOp(collection: string, entityId: string, updates: any, metadata: Operation['metadata'], normalizedTimestamp: string): Promise<any | null> {
+    const currentEntity = await this.getLocalRecord(collection, entityId);
     
-    if (entityIndex === -1) {
+    if (!currentEntity) {
       console.warn('⚠️ Update operation - entity not found:', entityId);
-      return currentData; // No change if entity doesn't exist
+      return null; // No change if entity doesn't exist
+    }
+
+    // Writes carrying a vector clock are ordered causally; unclocked (legacy) writes fall back to timestamps
+    if (hasVectorClock(metadata.vectorClock)) {
+      return this.applyCausalUpdate(collection, currentEntity, updates, metadata, normalizedTimestamp);
     }
-    
-    const currentEntity = currentData[entityIndex];
-    const updatedData = [...currentData];
     
     // Apply conflict resolution rules
     const resolvedEntity = await this.resolveConflicts(currentEntity, updates, metadata);
     
-    updatedData[entityIndex] = {
+    console.log('🔄 Entity updated with conflict resolution:', entityId);
+    return {
       ...resolvedEntity,
       updatedAt: normalizedTimestamp,
       version: this.createVersionVector()
     };
-    
-    console.log('🔄 Entity updated with conflict resolution:', entityId);
-    return updatedData;
-  }
-
-  /**
-   * Apply balance update operation (specialized for player balances)
-   */
-  private async applyBalanceUpdateOp(currentData: any[], playerId: string, balanceData: any, metadata: Operation['metadata'], normalizedTimestamp: string): Promise<any[]> {
-    const playerIndex = currentData.findIndex(item => item.id === playerId);
-    
-    if (playerIndex === -1) {
-      console.warn('⚠️ Balance update - player not found:', playerId);
-      return currentData;
-    }
-    
-    const player = { ...currentData[playerIndex] };
-    const { amount, isDebit } = balanceData;
-    
-    // Apply balance changes with conflict resolution
-    const currentBalance = player.balance || 0;
-    const newBalance = isDebit ? 
-      currentBalance + amount : 
-      Math.max(0, currentBalance - amount);
-    
-    // Update tracking fields
-    player.balance = newBalance;
-    if (isDebit) {
-      player.totalSpent = (player.totalSpent || 0) + amount;
-      player.totalPurchases = (player.totalPurchases || 0) + 1;
-    }
-    
-    // Set metadata with normalized timestamp
-    player.updatedAt = normalizedTimestamp;
-    player.version = this.createVersionVector();
-    
-    const updatedData = [...currentData];
-    updatedData[playerIndex] = player;
-    
-    console.log('💰 Balance updated via applyOp:', {
-      playerId,
-      newBalance,
-      amount,
-      isDebit
-    });
-    
-    return updatedData;
   }
 
   /**
-   * Apply delete operation
+   * Apply an update by comparing its vector clock with the record's:
+   * - newer: accepted as is
+   * - older or already seen: only server-owned counters are taken
+   * - concurrent: non-overlapping fields merge, overlapping ones are recorded as a conflict and
+   *   settled by the default rule (a local win is written back so every device converges)
    */
-  private async applyDeleteOp(currentData: any[], entityId: string, metadata: Operation['metadata']): Promise<any[]> {
-    const filteredData = currentData.filter(item => item.id !== entityId);
-    
-    if (filteredData.length === currentData.length) {
-      console.log('⏭️ Delete operation idempotent - entity already removed:', entityId);
-    } else {
-      console.log('🗑️ Entity deleted via applyOp:', entityId);
+  private async applyCausalUpdate(
+    collection: string,
+    currentEntity: any,
+    updates: any,
+    metadata: Operation['metadata'],
+    normalizedTimestamp: string
+  ): Promise<any | null> {
+    const localVersion = currentEntity.version || {};
+    const localClock: VectorClock = hasVectorClock(localVersion.vectorClock) ? localVersion.vectorClock : {};
+    const remoteClock = metadata.vectorClock;
+    const mergedClock = mergeVectorClocks(localClock, remoteClock);
+
+    if (metadata.source !== 'server') {
+      return {
+        ...currentEntity,
+        ...updates,
+        updatedAt: normalizedTimestamp,
+        version: {
+          deviceId: metadata.deviceId,
+          version: metadata.version,
+          timestamp: this.toMillis(metadata.timestamp) ?? Date.now(),
+          vectorClock: mergedClock,
+          // Fields this device has written since it last took a remote version
+          fields: this.unionFields(
+            localVersion.deviceId === this.deviceId ? localVersion.fields : [],
+            metadata.fields || this.getWrittenFields(updates)
+          ),
+        },
+      };
     }
-    
-    return filteredData;
-  }
 
-  /**
-   * Apply compound assignment transaction - affects multiple collections atomically
-   */
-  private async applyAssignmentTransactionOp(data: any, metadata: Operation['metadata'], normalizedTimestamp: string): Promise<void> {
-    console.log('💰 Applying assignment transaction to local cache:', {
-      assignment: data.id,
-      product: data.productId,
-      player: data.playerId,
-      quantity: data.quantity,
-      total: data.total
-    });
+    this.observeVectorClock(remoteClock);
+    const order = this.forceServerMode ? 'after' : compareVectorClocks(remoteClock, localClock);
+    // The edit time travels on the server doc; the op timestamp is the server write time
+    const remoteTimestamp = this.toMillis(updates.metadata?.timestamp) ?? this.toMillis(metadata.timestamp) ?? 0;
+    const remoteVersion = {
+      deviceId: metadata.deviceId,
+      version: metadata.version,
+      timestamp: remoteTimestamp,
+      vectorClock: mergedClock,
+      fields: metadata.fields || this.getWrittenFields(updates),
+    };
 
-    try {
-      // 1. Create the assignment
-      const assignmentsData = await this.getLocalData('assignments');
-      const newAssignment = {
-        ...data,
-        createdAt: normalizedTimestamp,
-        updatedAt: normalizedTimestamp,
-        version: this.createVersionVector()
-      };
+    if (order === 'after') {
+      console.log('🕐 Vector clock - remote write is newer, accepting:', currentEntity.id);
+      return { ...currentEntity, ...updates, updatedAt: normalizedTimestamp, version: remoteVersion };
+    }
 
-      // Check if assignment already exists (idempotency)
-      const existingAssignmentIndex = assignmentsData.findIndex(item => item.id === newAssignment.id);
-      if (existingAssignmentIndex !== -1) {
-        console.log('⏭️ Assignment transaction idempotent - assignment already exists:', newAssignment.id);
-        return; // Early return - transaction already applied
-      }
+    if (order === 'before' || order === 'equal') {
+      console.log('🕐 Vector clock - remote write already seen, keeping local fields:', currentEntity.id);
+      const counters = ADDITIVE_FIELDS.filter(field => updates[field] !== undefined);
+      if (counters.length === 0) return null;
+      const resolved = { ...currentEntity };
+      counters.forEach(field => { resolved[field] = updates[field]; });
+      return resolved;
+    }
 
-      const updatedAssignments = [...assignmentsData, newAssignment];
+    // Concurrent - neither device saw the other's edit
+    const localFields: string[] = localVersion.deviceId === this.deviceId ? (localVersion.fields || []) : [];
+    const remoteFields: string[] = remoteVersion.fields;
+    const conflictFields = localFields.filter(field =>
+      remoteFields.includes(field) &&
+      !ADDITIVE_FIELDS.includes(field) &&
+      JSON.stringify(currentEntity[field]) !== JSON.stringify(updates[field])
+    );
+    const localTimestamp = this.toMillis(localVersion.timestamp) ?? 0;
+    const remoteWins = remoteTimestamp !== localTimestamp
+      ? remoteTimestamp > localTimestamp
+      : metadata.deviceId > this.deviceId;
+
+    // Remote changes merge in, except fields this device wrote that the remote did not (or lost to us)
+    const keptLocalFields = localFields.filter(field =>
+      !ADDITIVE_FIELDS.includes(field) && !(remoteWins && conflictFields.includes(field))
+    );
+    const resolved = { ...currentEntity, ...updates, updatedAt: normalizedTimestamp };
+    keptLocalFields.forEach(field => { resolved[field] = currentEntity[field]; });
+    resolved.version = keptLocalFields.length > 0
+      ? { ...localVersion, vectorClock: mergedClock, fields: keptLocalFields }
+      : remoteVersion;
 
-      // 2. Reduce product stock
-      const productsData = await this.getLocalData('products');
-      const productIndex = productsData.findIndex(p => p.id === data.productId);
-      if (productIndex === -1) {
-        throw new Error(`Product not found for assignment transaction: ${data.productId}`);
-      }
+    if (conflictFields.length === 0) {
+      console.log('🔀 Concurrent edits touch different fields - merged:', currentEntity.id);
+      return resolved;
+    }
 
-      const product = productsData[productIndex];
-      if (product.stock < data.quantity) {
-        throw new Error(`Insufficient stock for product ${product.name}. Available: ${product.stock}, Required: ${data.quantity}`);
-      }
+    console.log(`⚔️ Concurrent edit conflict on ${collection}/${currentEntity.id}:`, {
+      fields: conflictFields,
+      winner: remoteWins ? 'remote' : 'local'
+    });
+    await this.recordConflict({
+      collection,
+      entityId: currentEntity.id,
+      entityName: currentEntity.name,
+      fields: conflictFields,
+      local: {
+        deviceId: this.deviceId,
+        timestamp: localTimestamp,
+        vectorClock: localClock,
+        values: this.pickFields(currentEntity, conflictFields),
+      },
+      remote: {
+        deviceId: metadata.deviceId,
+        timestamp: remoteTimestamp,
+        vectorClock: remoteClock,
+        values: this.pickFields(updates, conflictFields),
+      },
+      defaultWinner: remoteWins ? 'remote' : 'local',
+    });
 
-      const updatedProducts = [...productsData];
-      updatedProducts[productIndex] = {
-        ...product,
-        stock: product.stock - data.quantity,
-        updatedAt: normalizedTimestamp,
-        version: this.createVersionVector()
-      };
+    if (!remoteWins) {
+      // The server still holds the losing value - push ours back as a normal update
+      await this.upsertLocalRecords(collection, [resolved]);
+      await this.updateEntity(collection, currentEntity.id, this.pickFields(currentEntity, conflictFields));
+      return null;
+    }
+    return resolved;
+  }
 
-      // 3. Update player balance and stats
-      const playersData = await this.getLocalData('players');
-      const playerIndex = playersData.findIndex(p => p.id === data.playerId);
-      if (playerIndex === -1) {
-        throw new Error(`Player not found for assignment transaction: ${data.playerId}`);
-      }
-
-      const player = playersData[playerIndex];
-      const updatedPlayers = [...playersData];
-      updatedPlayers[playerIndex] = {
-        ...player,
-        // REMOVED: balance update - this is now handled by bundle balanceDelta operations
-        // balance: (player.balance || 0) + data.total, // DUPLICATE - causes double charging
-        totalSpent: (player.totalSpent || 0) + data.total,
-        totalPurchases: (player.totalPurchases || 0) + data.quantity,
-        updatedAt: normalizedTimestamp,
-        version: this.createVersionVector()
-      };
+  /**
+   * Fields an update writes, without bookkeeping fields
+   */
+  private getWrittenFields(updates: any): string[] {
+    return Object.keys(updates || {}).filter(field => !CONFLICT_IGNORED_FIELDS.includes(field));
+  }
 
-      // 4. Save all updates atomically
-      await Promise.all([
-        this.saveLocalData('assignments', updatedAssignments),
-        this.saveLocalData('products', updatedProducts),
-        this.saveLocalData('players', updatedPlayers)
-      ]);
+  private unionFields(a: string[] = [], b: string[] = []): string[] {
+    return Array.from(new Set([...a, ...b]));
+  }
 
-      console.log('✅ Assignment transaction applied to local cache:', {
-        assignmentId: newAssignment.id,
-        productStockReduced: data.quantity,
-        newStock: updatedProducts[productIndex].stock,
-        playerBalanceIncreased: data.total,
-        newBalance: updatedPlayers[playerIndex].balance
-      });
+  private pickFields(entity: any, fields: string[]): Record<string, any> {
+    return Object.fromEntries(fields.map(field => [field, entity[field] ?? null]));
+  }
 
-    } catch (error) {
-      console.error('❌ Failed to apply assignment transaction:', error);
-      throw error;
+  /**
+   * Apply delete operation
+   */
+  private async applyDeleteOp(collection: string, entityId: string, metadata: Operation['metadata']): Promise<void> {
+    const existing = await this.getLocalRecord(collection, entityId);
+    
+    if (!existing) {
+      console.log('⏭️ Delete operation idempotent - entity already removed:', entityId);
+      return;
     }
+    
+    await this.deleteLocalRecords(collection, [entityId]);
+    console.log('🗑️ Entity deleted via applyOp:', entityId);
   }
 
   // ============================================
@@ -1984,7 +3391,14 @@ export class HybridSyncService {
    */
   private async getLocalData(collection: string): Promise<any[]> {
     try {
-      const data = await AsyncStorage.getItem(collection);
+      if (isRecordCollection(collection)) {
+        return await this.storage.getCollection(collection);
+      }
+      // The organizations cache is OrganizationContext's copy of @organization_data, which it reads
+      // before sign-in - the shop PIN in it is a join code, shared openly - so it stays in AsyncStorage
+      const data = collection === STAFF_USERS_KEY
+        ? await this.storage.getItem(collection)
+        : await AsyncStorage.getItem(collection);
       return data ? JSON.parse(data) : [];
     } catch (error) {
       console.error(`❌ Error reading local ${collection}:`, error);
@@ -1997,7 +3411,14 @@ export class HybridSyncService {
    */
   private async saveLocalData(collection: string, data: any[]): Promise<void> {
     try {
-      await AsyncStorage.setItem(collection, JSON.stringify(data));
+      if (isRecordCollection(collection)) {
+        await this.storage.replaceCollection(collection, data);
+        this.overlayStore.baseReplaced(collection as OverlayCollection, data);
+      } else if (collection === STAFF_USERS_KEY) {
+        await this.storage.setItem(collection, JSON.stringify(data));
+      } else {
+        await AsyncStorage.setItem(collection, JSON.stringify(data));
+      }
       console.log(`💾 Saved ${data.length} items to local ${collection}`);
     } catch (error) {
       console.error(`❌ Error saving local ${collection}:`, error);
@@ -2006,337 +3427,61 @@ export class HybridSyncService {
   }
 
   /**
-   * Add operation to outbox for server sync
+   * Read a single record by id without loading the whole collection (record backends)
    */
-  private async addOpToOutbox(operation: Operation): Promise<void> {
-    console.log('📤 OUTBOX DEBUG - Adding operation to outbox:', {
-      operationId: operation.id,
-      type: operation.type,
-      collection: operation.collection,
-      entityId: operation.entityId,
-      currentQueueSize: this.syncQueue.length
-    });
-    
-    // Use the centralized method that checks for duplicates
-    this.addToSyncQueue({
-      id: operation.id,
-      action: operation.type as any,
-      collection: operation.collection,
-      data: {
-        ...operation.data,
-        entityId: operation.entityId,
-        metadata: operation.metadata
-      },
-      // Extract batch info from operation data if present
-      batchId: operation.data?.batchId,
-      batchLabel: operation.data?.batchLabel
-    });
-    
-    console.log('📤 Operation added to outbox:', operation.id);
-    
-    // Special logging for player operations
-    if (operation.collection === 'players' && operation.type === 'create') {
-      console.log('🎯 OUTBOX - Player creation queued:', {
-        operationId: operation.id,
-        playerId: operation.entityId,
-        playerName: operation.data?.name || `${operation.data?.firstName} ${operation.data?.lastName}`,
-        queueLength: this.syncQueue.length,
-        timestamp: new Date().toISOString()
-      });
+  private async getLocalRecord(collection: string, id: string): Promise<any | null> {
+    if (isRecordCollection(collection)) {
+      return this.storage.getRecord(collection, id);
     }
+    const data = await this.getLocalData(collection);
+    return data.find((item: any) => item.id === id) || null;
   }
 
   /**
-   * Remove operation from outbox after successful sync
+   * Insert or replace individual records - O(1) per record on indexed backends
    */
-  private async removeOpFromOutbox(operationId: string): Promise<void> {
-    const initialLength = this.syncQueue.length;
-    this.syncQueue = this.syncQueue.filter(item => item.id !== operationId);
-    const removedCount = initialLength - this.syncQueue.length;
-    
-    if (removedCount > 0) {
-      await this.saveSyncQueue();
-      console.log('🗑️ Removed operation from outbox:', operationId, `(${removedCount} items removed)`);
+  private async upsertLocalRecords(collection: string, records: any[]): Promise<void> {
+    if (records.length === 0) return;
+    if (isRecordCollection(collection)) {
+      await this.storage.upsertRecords(collection, records);
+      this.overlayStore.baseUpserted(collection as OverlayCollection, records);
+      return;
     }
+    const data = await this.getLocalData(collection);
+    for (const record of records) {
+      const index = data.findIndex((item: any) => item.id === record.id);
+      if (index === -1) data.push(record); else data[index] = record;
+    }
+    await this.saveLocalData(collection, data);
   }
 
-  /**
-   * Attempt to sync operation to server immediately
-   */
-  private async syncOpToServer(operation: Operation): Promise<void> {
-    // Use the global firebaseService instance that has the organization ID set
-    if (!firebaseService.isReady()) {
-      throw new Error('FirebaseService is not ready. Organization ID not set.');
-    }
-    
-    console.log('🔥 SYNC TO SERVER - Starting:', {
-      collection: operation.collection,
-      type: operation.type,
-      entityId: operation.entityId,
-      operationId: operation.id,
-      hasData: !!operation.data,
-      timestamp: new Date().toISOString()
-    });
-    
-    switch (operation.collection) {
-      case 'players':
-        if (operation.type === 'updateBalance') {
-          const { entityId, data } = operation;
-          console.log('🔥 PLAYER BALANCE UPDATE - Will be handled by sync queue:', { entityId, amount: data.amount, isDebit: data.isDebit });
-          // REMOVED: Direct Firebase call causes duplicate balance updates
-          // Balance updates are handled by the sync queue to avoid duplication
-          console.log('✅ Player balance update queued for sync processing');
-        } else if (operation.type === 'update') {
-          console.log('🔥 PLAYER UPDATE - Using logical UUID directly:', { 
-            entityUUID: operation.entityId, 
-            data: operation.data 
-          });
-          
-          // FIXED: FirebaseService.updatePlayer handles logical UUID mapping internally
-          const playerUUID = operation.entityId!;
-          await firebaseService.updatePlayer(playerUUID, operation.data);
-          console.log('✅ Player update completed with logical UUID');
-        } else if (operation.type === 'delete') {
-          console.log('🗑️ SYNC TO SERVER - Deleting player:', operation.entityId);
-          await firebaseService.deletePlayer(operation.entityId!);
-          console.log('✅ Player deleted from Firebase:', operation.entityId);
-        } else if (operation.type === 'create') {
-          console.log('🔥 PLAYER CREATE - Raw operation data:', { 
-            originalData: operation.data,
-            operationId: operation.id,
-            entityId: operation.entityId
-          });
-          // CRITICAL FIX: Preserve UUID id field, only remove Firebase-generated fields
-          const { createdAt, updatedAt, ...playerDataForFirebase } = operation.data;
-          console.log('🔥 PLAYER CREATE - Data for Firebase (preserving UUID id):', { 
-            cleanedData: playerDataForFirebase,
-            preservedId: playerDataForFirebase.id,
-            removedFields: { createdAt, updatedAt }
-          });
-          
-          try {
-            const result = await firebaseService.addPlayer(playerDataForFirebase);
-            console.log('✅ Player created in Firebase:', { result, originalId: operation.entityId });
-          } catch (error) {
-            console.error('❌ Firebase player creation failed:', { 
-              error: error instanceof Error ? error.message : String(error), 
-              data: playerDataForFirebase,
-              operationId: operation.id 
-            });
-            throw error;
-          }
-        }
-        break;
-        
-      case 'assignments':
-        if (operation.type === 'update') {
-          await firebaseService.updateAssignment(operation.entityId!, operation.data);
-        } else if (operation.type === 'create') {
-          // Clean assignment data before sending to Firebase (remove operation metadata)
-          const { 
-            entityId, 
-            metadata, 
-            vectorClock, 
-            version, 
-            deviceId, 
-            timestamp,
-            createdAt, 
-            updatedAt, 
-            ...cleanAssignmentData 
-          } = operation.data;
-          
-          console.log('🔄 Cleaned assignment data for Firebase:', {
-            original: operation.data,
-            cleaned: cleanAssignmentData,
-            removedFields: { entityId, metadata, vectorClock, version, deviceId, timestamp, createdAt, updatedAt }
-          });
-          
-          await firebaseService.addAssignment(cleanAssignmentData);
-        } else if (operation.type === 'delete') {
-          console.log('🗑️ SYNC TO SERVER - Deleting assignment:', operation.entityId);
-          await firebaseService.deleteAssignment(operation.entityId!);
-          console.log('✅ Assignment deleted from Firebase:', operation.entityId);
-        }
-        break;
-        
-      case 'products':
-        if (operation.type === 'update') {
-          console.log('🔄 SYNC TO SERVER - Product update operation:', {
-            entityId: operation.entityId,
-            data: operation.data,
-            operationId: operation.id,
-            dataKeys: Object.keys(operation.data || {}),
-            hasStockUpdate: operation.data?.stock !== undefined
-          });
-          
-          try {
-            await firebaseService.updateProduct(operation.entityId!, operation.data);
-            console.log('✅ SYNC TO SERVER - Product update successful:', {
-              productId: operation.entityId,
-              updatedFields: Object.keys(operation.data || {}),
-              operationId: operation.id
-            });
-          } catch (error) {
-            console.error('❌ SYNC TO SERVER - Product update failed:', {
-              productId: operation.entityId,
-              error: error instanceof Error ? error.message : String(error),
-              operationId: operation.id,
-              data: operation.data
-            });
-            throw error;
-          }
-        } else if (operation.type === 'delete') {
-          console.log('🗑️ SYNC TO SERVER - Deleting product:', operation.entityId);
-          await firebaseService.deleteProduct(operation.entityId!);
-          console.log('✅ Product deleted from Firebase:', operation.entityId);
-        } else if (operation.type === 'create') {
-          // Clean product data before sending to Firebase (remove operation metadata)
-          const { 
-            entityId, 
-            metadata, 
-            vectorClock, 
-            version, 
-            deviceId, 
-            timestamp,
-            createdAt, 
-            updatedAt, 
-            ...cleanProductData 
-          } = operation.data;
-          
-          console.log('🔄 Cleaned product data for Firebase:', {
-            original: operation.data,
-            cleaned: cleanProductData,
-            removedFields: { entityId, metadata, vectorClock, version, deviceId, timestamp, createdAt, updatedAt }
-          });
-          
-          await firebaseService.addProduct(cleanProductData);
-        }
-        break;
-        
-      case 'staff-users':
-        if (operation.type === 'update') {
-          console.log('🔄 SYNC TO SERVER - Staff user update operation:', {
-            entityId: operation.entityId,
-            data: operation.data,
-            operationId: operation.id
-          });
-          
-          try {
-            await firebaseService.updateStaffUser(operation.entityId!, operation.data);
-            console.log('✅ SYNC TO SERVER - Staff user update successful:', {
-              staffUserId: operation.entityId,
-              operationId: operation.id
-            });
-          } catch (error) {
-            console.error('❌ SYNC TO SERVER - Staff user update failed:', {
-              staffUserId: operation.entityId,
-              error: error instanceof Error ? error.message : String(error),
-              operationId: operation.id,
-              data: operation.data
-            });
-            throw error;
-          }
-        } else if (operation.type === 'delete') {
-          console.log('🗑️ SYNC TO SERVER - Deleting staff user:', operation.entityId);
-          await firebaseService.deleteStaffUser(operation.entityId!);
-          console.log('✅ Staff user deleted from Firebase:', operation.entityId);
-        } else if (operation.type === 'create') {
-          // Clean staff user data before sending to Firebase (remove operation metadata)
-          const { 
-            entityId, 
-            metadata, 
-            vectorClock, 
-            version, 
-            deviceId, 
-            timestamp,
-            createdAt, 
-            updatedAt, 
-            ...cleanStaffUserData 
-          } = operation.data;
-          
-          console.log('🔄 Cleaned staff user data for Firebase:', {
-            original: operation.data,
-            cleaned: cleanStaffUserData,
-            removedFields: { entityId, metadata, vectorClock, version, deviceId, timestamp, createdAt, updatedAt }
-          });
-          
-          await firebaseService.addStaffUser(cleanStaffUserData);
-          console.log('✅ Staff user created in Firebase:', operation.entityId);
-        }
-        break;
-        
-      default:
-        console.warn('⚠️ Server sync not implemented for:', operation.collection);
+  private async deleteLocalRecords(collection: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    if (isRecordCollection(collection)) {
+      await this.storage.deleteRecords(collection, ids);
+      this.overlayStore.baseDeleted(collection as OverlayCollection, ids);
+      return;
     }
+    const idSet = new Set(ids);
+    const data = await this.getLocalData(collection);
+    await this.saveLocalData(collection, data.filter((item: any) => !idSet.has(item.id)));
+  }
 
-    // Handle compound operations that affect multiple collections
-    if (operation.type === 'createAssignmentTransaction') {
-      await this.syncAssignmentTransactionToServer(operation);
+  private async clearLocalData(collection: string): Promise<void> {
+    if (isRecordCollection(collection)) {
+      await this.storage.clearCollection(collection);
+      this.overlayStore.baseReplaced(collection as OverlayCollection, []);
+    } else {
+      await AsyncStorage.removeItem(collection);
     }
-    
-    console.log('🔥 Operation synced to server:', operation.id);
   }
 
   /**
-   * Sync compound assignment transaction to server  
-   * FIXED: Proper dependency order and UPSERT logic
+   * Metadata stored on the server doc with a write - lets other devices order it causally
    */
-  private async syncAssignmentTransactionToServer(operation: Operation): Promise<void> {
-    // Use the global firebaseService instance that has the organization ID set
-    if (!firebaseService.isReady()) {
-      throw new Error('FirebaseService is not ready. Organization ID not set.');
-    }
-    
-    console.log('🔥 ASSIGNMENT TRANSACTION SYNC - Starting compound operation:', {
-      assignmentId: operation.entityId,
-      productId: operation.data.productId,
-      playerId: operation.data.playerId,
-      quantity: operation.data.quantity,
-      total: operation.data.total
-    });
-
-    try {
-      // Get the updated entities from local cache (these have the correct state)
-      const localProducts = await this.getLocalData('products');
-      const localPlayers = await this.getLocalData('players');
-      const localAssignments = await this.getLocalData('assignments');
-      
-      const product = localProducts.find(p => p.id === operation.data.productId);
-      const player = localPlayers.find(p => p.id === operation.data.playerId);
-      const assignment = localAssignments.find(a => a.id === operation.entityId);
-      
-      if (!product || !player || !assignment) {
-        throw new Error(`Missing entities for assignment transaction: ${operation.entityId}`);
-      }
-
-      console.log('� SYNC DEBUG - Entities found:', {
-        product: { id: product.id, name: product.name, stock: product.stock },
-        player: { id: player.id, name: `${player.firstName} ${player.lastName}`, balance: player.balance },
-        assignment: { id: assignment.id, total: assignment.total }
-      });
-
-      // STEP 1: Ensure product exists in Firebase (UPSERT)
-      const { createdAt: pCreatedAt, updatedAt: pUpdatedAt, version: pVersion, vectorClock: pVectorClock, ...cleanProduct } = product;
-      console.log('📦 Upserting product to Firebase:', cleanProduct.id);
-      await firebaseService.upsertProduct(cleanProduct);
-      
-      // STEP 2: Ensure player exists in Firebase (UPSERT) 
-      const { createdAt: plCreatedAt, updatedAt: plUpdatedAt, version: plVersion, vectorClock: plVectorClock, ...cleanPlayer } = player;
-      console.log('👤 Upserting player to Firebase:', cleanPlayer.id);
-      await firebaseService.upsertPlayer(cleanPlayer);
-
-      
-      // STEP 3: Create/update assignment in Firebase (UPSERT)
-      const { createdAt: aCreatedAt, updatedAt: aUpdatedAt, version: aVersion, vectorClock: aVectorClock, ...cleanAssignment } = assignment;
-      console.log('📋 Upserting assignment to Firebase:', cleanAssignment.id);
-      await firebaseService.upsertAssignment(cleanAssignment);
-      
-      console.log('✅ Assignment transaction synced to server successfully:', operation.entityId);
-
-    } catch (error) {
-      console.error('❌ Assignment transaction sync failed:', error);
-      throw error;
-    }
+  private getWriteMetadata(operation: Operation): Operation['metadata'] {
+    if (operation.type !== 'update') return operation.metadata;
+    return { ...operation.metadata, fields: operation.metadata.fields || this.getWrittenFields(operation.data) };
   }
 
   /**
@@ -2418,11 +3563,8 @@ export class HybridSyncService {
       };
     } else if (updateTimestamp === currentUpdatedAt) {
       // Same timestamp - use vector clock if available
-      if (currentEntity.version && metadata.vectorClock) {
-        const shouldAccept = this.vectorClockComparison(
-          currentEntity.version.vectorClock,
-          metadata.vectorClock
-        );
+      if (hasVectorClock(currentEntity.version?.vectorClock) && hasVectorClock(metadata.vectorClock)) {
+        const shouldAccept = compareVectorClocks(metadata.vectorClock, currentEntity.version.vectorClock) === 'after';
         
         if (shouldAccept) {
           console.log('🕐 Vector clock comparison - accepting changes');
@@ -2438,17 +3580,6 @@ export class HybridSyncService {
     return currentEntity;
   }
 
-  /**
-   * Compare vector clocks for conflict resolution
-   */
-  private vectorClockComparison(current: Record<string, number>, incoming: Record<string, number>): boolean {
-    // Simple comparison - in production you'd want more sophisticated logic
-    const currentSum = Object.values(current).reduce((sum, val) => sum + val, 0);
-    const incomingSum = Object.values(incoming).reduce((sum, val) => sum + val, 0);
-    
-    return incomingSum > currentSum;
-  }
-
   /**
    * Determine if we should use additive resolution for numerical conflicts
    * This handles concurrent stock/balance changes by preserving operations
@@ -2725,7 +3856,7 @@ export class HybridSyncService {
   private async initializeVectorClock(): Promise<void> {
     try {
       // Load existing vector clock from storage
-      const clockData = await AsyncStorage.getItem('vector_clock');
+      const clockData = await this.storage.getItem('vector_clock');
       if (clockData) {
         const clockObj = JSON.parse(clockData);
         this.vectorClock = new Map(Object.entries(clockObj));
@@ -2749,7 +3880,7 @@ export class HybridSyncService {
   private async saveVectorClock(): Promise<void> {
     try {
       const clockObj = Object.fromEntries(this.vectorClock);
-      await AsyncStorage.setItem('vector_clock', JSON.stringify(clockObj));
+      await this.storage.setItem('vector_clock', JSON.stringify(clockObj));
     } catch (error) {
       console.error('❌ Error saving vector clock:', error);
     }
@@ -2772,440 +3903,182 @@ export class HybridSyncService {
     };
   }
 
-  // ============================================
-  // ATOMIC OUTBOX TRANSACTIONS
-  // ============================================
-
   /**
-   * Performs atomic outbox operation: updates local data + sync queue together
-   * This ensures consistency between local state and outbox queue
+   * Fold a remote clock into this device's clock so later local writes are ordered after it
    */
-  private async performAtomicOutboxWrite<T>(
-    storageKey: string,
-    updateOperation: (currentData: T[]) => T[],
-    queueItem: Omit<SyncQueueItem, 'timestamp' | 'retryCount'>
-  ): Promise<void> {
-    try {
-      // Get current data
-      const currentDataStr = await AsyncStorage.getItem(storageKey);
-      const currentData: T[] = currentDataStr ? JSON.parse(currentDataStr) : [];
-      
-      // Apply update operation
-      const updatedData = updateOperation(currentData);
-      
-      // Prepare batch operations
-      const operations = [
-        AsyncStorage.setItem(storageKey, JSON.stringify(updatedData)),
-        this.addToSyncQueueAtomic(queueItem)
-      ];
-      
-      // Execute atomically
-      await Promise.all(operations);
-      
-      console.log(`💾 Atomic outbox write completed for ${storageKey}`, {
-        itemCount: updatedData.length,
-        queueItemId: queueItem.id
-      });
-      
-    } catch (error) {
-      console.error(`❌ Atomic outbox write failed for ${storageKey}:`, error);
-      throw error;
-    }
-  }
-
-  private async addToSyncQueueAtomic(item: Omit<SyncQueueItem, 'timestamp' | 'retryCount'>): Promise<void> {
-    this.syncQueue.push({
-      ...item,
-      timestamp: Date.now(),
-      retryCount: 0
-    });
-    await this.saveSyncQueue();
-  }
-
-  // ============================================
-  // NETWORK MONITORING
-  // ============================================
-  
-  private async initializeNetworkListener(): Promise<void> {
-    // Get initial network state
-    const netInfo = await NetInfo.fetch();
-    this.isOnline = netInfo.isConnected ?? false;
-    
-    console.log('🌐 Network initialized', {
-      isConnected: netInfo.isConnected,
-      type: netInfo.type,
-      isInternetReachable: netInfo.isInternetReachable,
-      details: netInfo.details
-    });
-    
-    // Listen for network changes
-    NetInfo.addEventListener((state: NetInfoState) => {
-      const wasOffline = !this.isOnline;
-      const previousOnlineState = this.isOnline;
-      
-      // More strict offline detection - check both connection AND internet reachability
-      const newOnlineState = (state.isConnected === true) && (state.isInternetReachable !== false);
-      this.isOnline = newOnlineState;
-      
-      console.log('📡 Network state changed', {
-        previousState: previousOnlineState,
-        newState: this.isOnline,
-        rawIsConnected: state.isConnected,
-        rawIsInternetReachable: state.isInternetReachable,
-        type: state.type,
-        details: state.details,
-        queueLength: this.syncQueue.length,
-        timestamp: new Date().toLocaleTimeString()
-      });
-      
-      // If we just came back online, trigger sync AND resurrect dead letter queue items
-      if (wasOffline && this.isOnline) {
-        console.log('📶 Network restored, triggering sync...', {
-          queueLength: this.syncQueue.length,
-          deadLetterLength: this.deadLetterQueue.length
-        });
-        
-        // CRITICAL FIX: Resurrect items from dead letter queue when connectivity restored
-        this.resurrectDeadLetterQueueItems().then(() => {
-          this.processSyncQueue();
-        }).catch((error: any) => {
-          console.error('❌ Failed to resurrect dead letter queue items:', error);
-          this.processSyncQueue(); // Still try to process main queue
-        });
-      }
-      
-      // If we just went offline
-      if (!wasOffline && !this.isOnline) {
-        console.log('📵 Network lost - switching to offline mode');
-      }
-    });
+  private observeVectorClock(remoteClock: VectorClock): void {
+    const merged = mergeVectorClocks(Object.fromEntries(this.vectorClock), remoteClock);
+    this.vectorClock = new Map(Object.entries(merged));
+    this.saveVectorClock(); // Fire and forget
   }
 
   // ============================================
-  // SYNC QUEUE MANAGEMENT
-  // ============================================
-  
-  private async loadSyncQueue(): Promise<void> {
-    try {
-      const queueData = await AsyncStorage.getItem(this.syncQueueKey);
-      const rawQueue: SyncQueueItem[] = queueData ? JSON.parse(queueData) : [];
-      
-      // Validate and filter out corrupted items
-      const validItems: SyncQueueItem[] = [];
-      const invalidItems: any[] = [];
-      const orphanedProductItems: any[] = [];
-      
-      for (const item of rawQueue) {
-        if (this.isValidSyncQueueItem(item)) {
-          // Additional validation for product operations - check if product exists
-          if (item.collection === 'products' && (item.action === 'update' || item.action === 'delete')) {
-            const productExists = await this.checkProductExists(item.id);
-            if (!productExists) {
-              orphanedProductItems.push(item);
-              console.warn('🗑️ Found orphaned product sync item (product no longer exists):', {
-                productId: item.id,
-                action: item.action,
-                data: item.data,
-                timestamp: new Date(item.timestamp).toISOString()
-              });
-              continue;
-            }
-          }
-          // Additional validation for assignment operations - check if assignment exists
-          else if (item.collection === 'assignments' && (item.action === 'update' || item.action === 'delete')) {
-            const assignmentExists = await this.checkAssignmentExists(item.id);
-            if (!assignmentExists) {
-              orphanedProductItems.push(item); // Reusing the same array for simplicity
-              console.warn('🗑️ Found orphaned assignment sync item (assignment no longer exists):', {
-                assignmentId: item.id,
-                action: item.action,
-                data: item.data,
-                timestamp: new Date(item.timestamp).toISOString()
-              });
-              continue;
-            }
-          }
-          validItems.push(item);
-        } else {
-          invalidItems.push(item);
-          console.warn('⚠️ Found invalid sync queue item:', {
-            item: item,
-            missingFields: this.getMissingFields(item)
-          });
-        }
-      }
-      
-      this.syncQueue = validItems;
-      
-      console.log(`📋 Loaded sync queue: ${validItems.length} valid items, ${invalidItems.length} invalid items, ${orphanedProductItems.length} orphaned product items filtered out`);
-      
-      if (invalidItems.length > 0 || orphanedProductItems.length > 0) {
-        // Save the cleaned queue back to storage
-        await this.saveSyncQueue();
-        console.log('🧹 Cleaned and saved sync queue after filtering invalid/orphaned items');
-      }
-
-      // If we still have a suspicious number of items, log details for debugging
-      if (validItems.length > 5) {
-        console.log('⚠️ Large sync queue detected - running debug inspection');
-        await this.debugSyncQueue();
-      }
-      
-    } catch (error) {
-      console.error('Error loading sync queue:', error);
-      this.syncQueue = [];
-    }
-  }
-
-  private isValidSyncQueueItem(item: any): item is SyncQueueItem {
-    return item && 
-           typeof item.id === 'string' &&
-           typeof item.collection === 'string' &&
-           typeof item.action === 'string' &&
-           item.data !== null &&
-           item.data !== undefined &&
-           typeof item.timestamp === 'number' &&
-           typeof item.retryCount === 'number';
-  }
-
-  private getMissingFields(item: any): string[] {
-    const required = ['id', 'collection', 'action', 'data', 'timestamp', 'retryCount'];
-    const missing: string[] = [];
-    
-    for (const field of required) {
-      if (!item || item[field] === null || item[field] === undefined) {
-        missing.push(field);
-      }
-    }
-    
-    return missing;
-  }
-
-  private async checkProductExists(productId: string): Promise<boolean> {
-    try {
-      const products = await this.getLocalData('products');
-      const productExists = products.some((product: any) => product.id === productId);
-      console.log(`🔍 Product existence check: ${productId} = ${productExists}`);
-      return productExists;
-    } catch (error) {
-      console.error('Error checking product existence:', error);
-      return false; // Assume doesn't exist if we can't check
-    }
-  }
+  // CONFLICT RECORDS
+  // ============================================
 
-  private async checkAssignmentExists(assignmentId: string): Promise<boolean> {
+  private async loadConflicts(): Promise<ConflictRecord[]> {
     try {
-      const assignments = await this.getLocalData('assignments');
-      const assignmentExists = assignments.some((assignment: any) => assignment.id === assignmentId);
-      console.log(`🔍 Assignment existence check: ${assignmentId} = ${assignmentExists}`);
-      return assignmentExists;
+      const data = await this.storage.getItem(SYNC_CONFLICTS_KEY);
+      return data ? JSON.parse(data) : [];
     } catch (error) {
-      console.error('Error checking assignment existence:', error);
-      return false; // Assume doesn't exist if we can't check
+      console.error('❌ Error loading conflict records:', error);
+      return [];
     }
   }
 
-  private async checkProductExistsInFirebase(productId: string): Promise<boolean> {
-    try {
-      if (!this.isOnline) {
-        console.log(`🔍 Firebase existence check skipped (offline): ${productId}`);
-        return true; // Assume exists when offline to avoid removing valid operations
-      }
-      
-      const products = await firebaseService.getProducts();
-      const exists = products.some(product => product.id === productId);
-      console.log(`🔍 Firebase product existence check: ${productId} = ${exists}`);
-      return exists;
-    } catch (error: any) {
-      if (error.message && (
-          error.message.includes('not found') || 
-          error.message.includes('No document to update') ||
-          error.message.toLowerCase().includes('no document to update')
-        )) {
-        console.log(`🔍 Firebase product existence check: ${productId} = false (not found)`);
-        return false;
-      }
-      console.error('Error checking Firebase product existence:', error);
-      return true; // Assume exists on error to avoid removing valid operations
+  private async saveConflicts(conflicts: ConflictRecord[]): Promise<void> {
+    let kept = conflicts;
+    if (kept.length > MAX_CONFLICT_RECORDS) {
+      const open = kept.filter(c => c.status === 'open');
+      const resolved = kept.filter(c => c.status !== 'open')
+        .sort((a, b) => b.detectedAt - a.detectedAt)
+        .slice(0, Math.max(0, MAX_CONFLICT_RECORDS - open.length));
+      kept = [...open, ...resolved];
     }
+    await this.storage.setItem(SYNC_CONFLICTS_KEY, JSON.stringify(kept));
   }
 
   /**
-   * Debug method to inspect sync queue contents
+   * Store a conflict unless the same remote write was already recorded (re-pulls)
    */
-  public async debugSyncQueue(): Promise<void> {
-    console.log('🔍 === SYNC QUEUE DEBUG INSPECTION ===');
-    console.log(`📊 Total items in sync queue: ${this.syncQueue.length}`);
-    
-    if (this.syncQueue.length === 0) {
-      console.log('✅ Sync queue is empty');
-      return;
-    }
-
-    // Group by collection and action
-    const grouped: { [key: string]: SyncQueueItem[] } = {};
-    
-    for (const item of this.syncQueue) {
-      const key = `${item.collection}_${item.action}`;
-      if (!grouped[key]) {
-        grouped[key] = [];
-      }
-      grouped[key].push(item);
-    }
-
-    // Log summary
-    console.log('📋 Sync queue breakdown:');
-    for (const [key, items] of Object.entries(grouped)) {
-      console.log(`  ${key}: ${items.length} items`);
-    }
+  private async recordConflict(input: Omit<ConflictRecord, 'id' | 'status' | 'detectedAt'>): Promise<void> {
+    const conflicts = await this.loadConflicts();
+    const duplicate = conflicts.some(c =>
+      c.collection === input.collection &&
+      c.entityId === input.entityId &&
+      compareVectorClocks(c.remote.vectorClock, input.remote.vectorClock) === 'equal'
+    );
+    if (duplicate) return;
 
-    // Log detailed information for each item
-    console.log('📝 Detailed sync queue items:');
-    for (let i = 0; i < this.syncQueue.length; i++) {
-      const item = this.syncQueue[i];
-      const age = Date.now() - item.timestamp;
-      const ageMinutes = Math.round(age / (1000 * 60));
-      
-      console.log(`  ${i + 1}. ${item.collection}/${item.action} (${item.id})`);
-      console.log(`     Age: ${ageMinutes} minutes`);
-      console.log(`     Retry count: ${item.retryCount}`);
-      console.log(`     Data keys: ${item.data ? Object.keys(item.data).join(', ') : 'no data'}`);
-      
-      // Special handling for products - check if they exist
-      if (item.collection === 'products') {
-        const exists = await this.checkProductExists(item.id);
-        console.log(`     Product exists: ${exists}`);
-        if (!exists) {
-          console.log(`     ⚠️  ORPHANED: Product ${item.id} no longer exists!`);
-        }
-      }
-      // Special handling for assignments - check if they exist
-      else if (item.collection === 'assignments') {
-        const exists = await this.checkAssignmentExists(item.id);
-        console.log(`     Assignment exists: ${exists}`);
-        if (!exists) {
-          console.log(`     ⚠️  ORPHANED: Assignment ${item.id} no longer exists!`);
-        }
-      }
-    }
-    
-    console.log('🔍 === END SYNC QUEUE DEBUG ===');
+    conflicts.push({ ...input, id: generateUUID(), status: 'open', detectedAt: Date.now() });
+    await this.saveConflicts(conflicts);
   }
 
   /**
-   * Clean orphaned and invalid items from sync queue
+   * Conflict records, newest first
    */
-  public async cleanSyncQueue(): Promise<{ removed: number; kept: number }> {
-    console.log('🧹 Starting sync queue cleanup...');
-    
-    const originalCount = this.syncQueue.length;
-    const validItems: SyncQueueItem[] = [];
-    let removedCount = 0;
+  public async getConflicts(filter: ConflictFilter = {}): Promise<ConflictRecord[]> {
+    const conflicts = await this.loadConflicts();
+    return conflicts
+      .filter(c => !filter.status || c.status === filter.status)
+      .filter(c => !filter.collection || c.collection === filter.collection)
+      .filter(c => !filter.entityId || c.entityId === filter.entityId)
+      .sort((a, b) => b.detectedAt - a.detectedAt);
+  }
 
-    for (const item of this.syncQueue) {
-      let shouldKeep = true;
+  public async getConflict(conflictId: string): Promise<ConflictRecord | null> {
+    const conflicts = await this.loadConflicts();
+    return conflicts.find(c => c.id === conflictId) || null;
+  }
 
-      // Check if item is valid
-      if (!this.isValidSyncQueueItem(item)) {
-        console.log(`🗑️ Removing invalid sync item: ${(item as any)?.id || 'unknown'}`);
-        shouldKeep = false;
-        removedCount++;
-      }
-      // Check if product operations reference existing products
-      else if (item.collection === 'products' && (item.action === 'update' || item.action === 'delete')) {
-        const productExists = await this.checkProductExists(item.id);
-        if (!productExists) {
-          console.log(`🗑️ Removing orphaned product sync item: ${item.id} (${item.action})`);
-          shouldKeep = false;
-          removedCount++;
-        }
-      }
-      // Check if assignment operations reference existing assignments
-      else if (item.collection === 'assignments' && (item.action === 'update' || item.action === 'delete')) {
-        const assignmentExists = await this.checkAssignmentExists(item.id);
-        if (!assignmentExists) {
-          console.log(`🗑️ Removing orphaned assignment sync item: ${item.id} (${item.action})`);
-          shouldKeep = false;
-          removedCount++;
-        }
-      }
-      // Check age - remove items older than 1 hour that have high retry counts
-      else if (item.retryCount >= this.maxRetries / 2) {
-        const age = Date.now() - item.timestamp;
-        const oneHour = 60 * 60 * 1000;
-        if (age > oneHour) {
-          console.log(`🗑️ Removing stale sync item: ${item.id} (age: ${Math.round(age / (1000 * 60))} minutes, retries: ${item.retryCount})`);
-          shouldKeep = false;
-          removedCount++;
-        }
-      }
+  public async getOpenConflictCount(): Promise<number> {
+    const conflicts = await this.loadConflicts();
+    return conflicts.filter(c => c.status === 'open').length;
+  }
 
-      if (shouldKeep) {
-        validItems.push(item);
-      }
+  /**
+   * Settle a conflict with a side per field - the chosen values go out as a normal update,
+   * so every device ends up with them
+   */
+  public async resolveConflict(
+    conflictId: string,
+    choices: Record<string, 'local' | 'remote'>,
+    resolvedBy: string
+  ): Promise<void> {
+    const conflicts = await this.loadConflicts();
+    const conflict = conflicts.find(c => c.id === conflictId);
+    if (!conflict) {
+      throw new Error(`Conflict ${conflictId} not found`);
+    }
+    if (conflict.status === 'resolved') {
+      throw new Error(`Conflict ${conflictId} is already resolved`);
     }
 
-    this.syncQueue = validItems;
-    await this.saveSyncQueue();
+    const entity = await this.getLocalRecord(conflict.collection, conflict.entityId);
+    if (!entity) {
+      throw new Error(`${conflict.collection}/${conflict.entityId} no longer exists on this device`);
+    }
 
-    const result = { removed: removedCount, kept: validItems.length };
-    console.log(`✅ Sync queue cleanup completed: removed ${result.removed}, kept ${result.kept}`);
-    
-    return result;
-  }
+    const resolution: Record<string, 'local' | 'remote'> = {};
+    const values: Record<string, any> = {};
+    conflict.fields.forEach(field => {
+      const side = choices[field] || conflict.defaultWinner;
+      resolution[field] = side;
+      values[field] = conflict[side].values[field];
+    });
 
-  private async saveSyncQueue(): Promise<void> {
-    try {
-      await AsyncStorage.setItem(this.syncQueueKey, JSON.stringify(this.syncQueue));
-    } catch (error) {
-      console.error('Error saving sync queue:', error);
-    }
+    console.log(`⚖️ Resolving conflict ${conflictId} on ${conflict.collection}/${conflict.entityId}:`, resolution);
+    await this.updateEntity(conflict.collection, conflict.entityId, values);
+
+    conflict.status = 'resolved';
+    conflict.resolvedAt = Date.now();
+    conflict.resolvedBy = resolvedBy;
+    conflict.resolution = resolution;
+    await this.saveConflicts(conflicts);
+    console.log('✅ Conflict resolved:', conflictId);
   }
 
-  private addToSyncQueue(item: Omit<SyncQueueItem, 'timestamp' | 'retryCount'>): void {
-    // Check for duplicates before adding
-    const existingItem = this.syncQueue.find(qItem => 
-      qItem.id === item.id && 
-      qItem.collection === item.collection && 
-      qItem.action === item.action
-    );
-    
-    if (existingItem) {
-      console.warn(`⚠️ DUPLICATE SYNC ITEM DETECTED - Not adding:`, {
-        itemId: item.id,
-        collection: item.collection,
-        action: item.action,
-        existingTimestamp: new Date(existingItem.timestamp).toISOString(),
-        attemptedTimestamp: new Date().toISOString()
-      });
-      return; // Don't add duplicate
-    }
+  // ============================================
+  // NETWORK MONITORING
+  // ============================================
+  
+  private async initializeNetworkListener(): Promise<void> {
+    // Get initial network state
+    const netInfo = await NetInfo.fetch();
+    this.isOnline = netInfo.isConnected ?? false;
     
-    const syncItem: SyncQueueItem = {
-      ...item,
-      timestamp: Date.now(),
-      retryCount: 0
-    };
+    console.log('🌐 Network initialized', {
+      isConnected: netInfo.isConnected,
+      type: netInfo.type,
+      isInternetReachable: netInfo.isInternetReachable,
+      details: netInfo.details
+    });
     
-    this.syncQueue.push(syncItem);
-    this.saveSyncQueue();
-    console.log(`➕ Added ${item.action} ${item.collection} to sync queue: ${item.id}`);
-    console.log(`📊 Sync queue now has ${this.syncQueue.length} items`);
-    
-    // Log detailed breakdown if queue is getting large
-    if (this.syncQueue.length > 3) {
-      const breakdown: { [key: string]: number } = {};
-      this.syncQueue.forEach(qItem => {
-        const key = `${qItem.collection}_${qItem.action}`;
-        breakdown[key] = (breakdown[key] || 0) + 1;
+    // Listen for network changes
+    NetInfo.addEventListener((state: NetInfoState) => {
+      const wasOffline = !this.isOnline;
+      const previousOnlineState = this.isOnline;
+      
+      // More strict offline detection - check both connection AND internet reachability
+      const newOnlineState = (state.isConnected === true) && (state.isInternetReachable !== false);
+      this.isOnline = newOnlineState;
+      
+      console.log('📡 Network state changed', {
+        previousState: previousOnlineState,
+        newState: this.isOnline,
+        rawIsConnected: state.isConnected,
+        rawIsInternetReachable: state.isInternetReachable,
+        type: state.type,
+        details: state.details,
+        pendingBundles: this.outboxStats.pending,
+        timestamp: new Date().toLocaleTimeString()
       });
-      console.log('📋 Queue breakdown:', breakdown);
-    }
-  }
 
-  private removeFromSyncQueue(id: string): void {
-    this.syncQueue = this.syncQueue.filter(item => item.id !== id);
-    this.saveSyncQueue();
+      if (previousOnlineState !== this.isOnline) {
+        this.emit('connectivityChanged', { isOnline: this.isOnline, source: 'netinfo' });
+      }
+      
+      // If we just came back online, trigger sync AND resurrect dead letter queue items
+      if (wasOffline && this.isOnline) {
+        console.log('📶 Network restored, triggering sync...', {
+          pendingBundles: this.outboxStats.pending,
+          deadLetterLength: this.deadLetterQueue.length
+        });
+        
+        // CRITICAL FIX: Resurrect items from dead letter queue when connectivity restored
+        this.resurrectDeadLetterQueueItems().then(() => {
+          this.processSyncQueue();
+        }).catch((error: any) => {
+          console.error('❌ Failed to resurrect dead letter queue items:', error);
+          this.processSyncQueue(); // Still try to drain the outbox
+        });
+      }
+      
+      // If we just went offline
+      if (!wasOffline && !this.isOnline) {
+        console.log('📵 Network lost - switching to offline mode');
+      }
+    });
   }
 
   // ============================================
@@ -3220,7 +4093,7 @@ export class HybridSyncService {
       const auth = FirebaseAuth;
       const hasHighPriority = this.hasHighPriorityItems();
       if (this.isOnline && auth.currentUser && hasHighPriority && !this.isSyncing) {
-        console.log(`🚨 High priority bidirectional sync triggered - ${this.syncQueue.length} items`);
+        console.log(`🚨 High priority bidirectional sync triggered - ${this.outboxStats.urgent} payment/sale bundles`);
         try {
           // Push critical changes immediately
           await this.processSyncQueue();
@@ -3235,12 +4108,12 @@ export class HybridSyncService {
       }
     }, 5000);
 
-    // Normal Priority: Every 15 seconds for regular sync items
+    // Normal Priority: Every 15 seconds for the rest of the outbox
     this.syncInterval = setInterval(async () => {
       const auth = FirebaseAuth;
       if (this.isOnline && auth.currentUser && !this.isSyncing) {
-        if (this.syncQueue.length > 0) {
-          console.log(`📤 Regular outbox drain triggered: ${this.syncQueue.length} items queued`);
+        if (this.outboxStats.pending > 0) {
+          console.log(`📤 Regular outbox drain triggered: ${this.outboxStats.pending} bundles queued`);
           try {
             // Push local changes first
             await this.processSyncQueue();
@@ -3254,8 +4127,8 @@ export class HybridSyncService {
             console.warn('❌ Background bidirectional sync failed gracefully:', error);
           }
         }
-      } else if (this.syncQueue.length > 0) {
-        console.log(`📤 Sync skipped - online: ${this.isOnline}, user: ${!!auth.currentUser}, syncing: ${this.isSyncing}, queue: ${this.syncQueue.length}`);
+      } else if (this.outboxStats.pending > 0) {
+        console.log(`📤 Sync skipped - online: ${this.isOnline}, user: ${!!auth.currentUser}, syncing: ${this.isSyncing}, bundles: ${this.outboxStats.pending}`);
       }
     }, 15000);
 
@@ -3264,14 +4137,14 @@ export class HybridSyncService {
       const auth = FirebaseAuth;
       if (this.isOnline && auth.currentUser && !this.isSyncing) {
         this.performConflictDetectionSync();
-        this.cleanupProcessedIds(); // Prevent memory bloat
       }
     }, 60000);
 
     // Comprehensive Server Sync: Every 5 minutes for full server changes check
     this.serverChangesInterval = setInterval(() => {
       const auth = FirebaseAuth;
-      if (this.isOnline && auth.currentUser && !this.isSyncing) {
+      // Live listeners already keep the cache current - polling is the fallback
+      if (this.isOnline && auth.currentUser && !this.isSyncing && !this.isRealtimeSyncActive()) {
         console.log('🔄 Background: Comprehensive server changes check (5-minute cycle)');
         this.hydrateFromServerForStartup().catch(error => {
           console.warn('Background server hydration failed:', error);
@@ -3299,11 +4172,106 @@ export class HybridSyncService {
   // Legacy player balance sync removed - now handled via applyOp operations
   // All balance updates flow through the unified write path automatically
 
+  /**
+   * One OS-scheduled background run (see BackgroundSyncTask): drain pending bundles under the
+   * same isSyncing lock as processSyncQueue, starting no new work once the time
+   * budget is spent. The result is kept for the diagnostics screens.
+   */
+  public async runBackgroundSync(budgetMs: number = BACKGROUND_SYNC_BUDGET_MS): Promise<BackgroundSyncRun> {
+    const startedAt = Date.now();
+    let bundlesBefore = 0;
+    let status: BackgroundSyncRun['status'] = 'completed';
+    let reason: string | undefined;
+
+    try {
+      await this.ready;
+      bundlesBefore = await this.getPendingBundlesCount();
+
+      if (bundlesBefore === 0) {
+        status = 'skipped';
+        reason = 'Nothing to sync';
+      } else if (!(await this.refreshNetworkState())) {
+        status = 'skipped';
+        reason = 'Offline';
+      } else if (!(await this.prepareBackgroundSession())) {
+        status = 'skipped';
+        reason = 'Not signed in to an organization';
+      } else {
+        const result = await this.drainOutboxWithTransaction({ deadline: startedAt + budgetMs });
+        if (!result) {
+          status = 'skipped';
+          reason = this.isSyncing ? 'Sync already running' : 'Nothing to sync';
+        } else if (result.error) {
+          status = 'failed';
+          reason = result.error instanceof Error ? result.error.message : String(result.error);
+        } else if (result.timedOut) {
+          status = 'partial';
+          reason = 'Time budget used';
+        }
+      }
+    } catch (error) {
+      status = 'failed';
+      reason = error instanceof Error ? error.message : String(error);
+    }
+
+    const run: BackgroundSyncRun = {
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      budgetMs,
+      status,
+      ...(reason && { reason }),
+      bundlesBefore,
+      bundlesAfter: await this.getPendingBundlesCount(),
+    };
+    await this.recordBackgroundSyncRun(run);
+    console.log(`🌙 Background sync ${run.status}${reason ? ` (${reason})` : ''}: ${run.bundlesBefore} → ${run.bundlesAfter} bundles in ${run.durationMs}ms`);
+    return run;
+  }
+
+  /**
+   * A background launch has no screens mounted - wait for the persisted auth session and restore
+   * the organization the UI last selected
+   */
+  private async prepareBackgroundSession(): Promise<boolean> {
+    await FirebaseAuth.authStateReady();
+    if (!FirebaseAuth.currentUser) {
+      return false;
+    }
+    if (!this.firebase.isReady()) {
+      const organizationStr = await AsyncStorage.getItem('@organization_data');
+      const organization = organizationStr ? JSON.parse(organizationStr) : null;
+      if (!organization?.id) {
+        return false;
+      }
+      this.firebase.setOrganizationId(organization.id);
+    }
+    return true;
+  }
+
+  private async recordBackgroundSyncRun(run: BackgroundSyncRun): Promise<void> {
+    try {
+      const runs = await this.getBackgroundSyncRuns();
+      runs.unshift(run);
+      await this.storage.setItem(SYNC_BACKGROUND_RUNS_KEY, JSON.stringify(runs.slice(0, MAX_BACKGROUND_SYNC_RUNS)));
+    } catch (error) {
+      console.warn('⚠️ Failed to record background sync run:', error);
+    }
+    this.emit('backgroundSyncFinished', { run });
+  }
+
+  /**
+   * Recent background sync runs, newest first
+   */
+  public async getBackgroundSyncRuns(): Promise<BackgroundSyncRun[]> {
+    const raw = await this.storage.getItem(SYNC_BACKGROUND_RUNS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  }
+
   private async performConflictDetectionSync(): Promise<void> {
     try {
       // Simple background sync without full conflict resolution to avoid heavy operations
-      // Just try to sync pending items gracefully
-      if (this.syncQueue.length > 0) {
+      // Just try to sync pending bundles gracefully
+      if (this.outboxStats.pending > 0) {
         await this.processSyncQueue();
       }
     } catch (error) {
@@ -3326,17 +4294,16 @@ export class HybridSyncService {
         
         // Log current state for debugging
         console.log('🔍 Stuck sync recovery - current state:', {
-          queueLength: this.syncQueue.length,
+          pendingBundles: this.outboxStats.pending,
           deadLetterLength: this.deadLetterQueue.length,
-          isOnline: this.isOnline,
-          processedIdsCount: this.processedIds.size
+          isOnline: this.isOnline
         });
       }
     }
   }
 
   public async processSyncQueue(): Promise<void> {
-    return this.drainOutboxWithTransaction();
+    await this.drainOutboxWithTransaction();
   }
 
   // ============================================
@@ -3345,251 +4312,121 @@ export class HybridSyncService {
 
   /**
    * Enterprise-grade outbox draining with idempotent transactions
-   * Processes items in atomic batches with proper error handling
+   * Runs pending bundles lane by lane with proper error handling.
+   * Returns null if it did not run (already syncing, offline or nothing queued).
    */
-  private async drainOutboxWithTransaction(): Promise<void> {
-    if (this.isSyncing || !this.isOnline) {
-      return;
+  private async drainOutboxWithTransaction(options: { deadline?: number } = {}): Promise<{ error: any; timedOut: boolean } | null> {
+    if (this.isSyncing || !this.isOnline || this.startupError) {
+      return null;
     }
 
-    // Check both sync queue and pending bundles
     const pendingBundles = await this.getPendingBundles();
-    if (this.syncQueue.length === 0 && pendingBundles.length === 0) {
-      return;
+    if (pendingBundles.length === 0) {
+      return null;
     }
 
     this.isSyncing = true;
     this.syncStartTime = Date.now();
+    const syncStartedAt = this.syncStartTime;
+    let syncError: any = null;
+    let timedOut = false;
+    this.emit('syncStarted', { pendingBundles: pendingBundles.length });
     
     try {
-      // Process pending bundles first (atomic operations)
-      if (pendingBundles.length > 0) {
-        console.log(`📦 Processing ${pendingBundles.length} pending bundles`);
-        await this.processPendingBundles(pendingBundles);
-      }
+      console.log(`🔄 Draining outbox: ${pendingBundles.length} bundles`);
 
-      // Get items ready for processing with idempotency check
-      const itemsToProcess = await this.getItemsReadyForSync();
-      
-      if (itemsToProcess.length === 0) {
-        return;
+      // Payments first, then sales, charges and catalogue edits - see SyncScheduler
+      const drain = await this.runOutboxLanes(pendingBundles, options.deadline);
+      const { processedBundles, error } = drain;
+      timedOut = drain.timedOut;
+      if (processedBundles.length > 0) {
+        await this.clearProcessedBundles(processedBundles);
       }
-
-      console.log(`🔄 Draining outbox: ${itemsToProcess.length} items in ${Math.ceil(itemsToProcess.length / this.batchSize)} batches`);
-      
-      // Process in atomic batches
-      const batches = this.createBatches(itemsToProcess, this.batchSize);
-      
-      for (let i = 0; i < batches.length; i++) {
-        const batch = batches[i];
-        console.log(`📦 Processing batch ${i + 1}/${batches.length} (${batch.length} items)`);
-        
-        await this.processBatchTransaction(batch);
-        
-        // Small delay between batches to prevent overwhelming the server
-        if (i < batches.length - 1) {
-          await this.delay(100); // 100ms between batches
-        }
+      if (error) {
+        throw error;
       }
       
       console.log('✅ Outbox drain completed successfully');
       
     } catch (error) {
+      syncError = error;
       console.error('❌ Outbox drain failed:', {
         error: error instanceof Error ? error.message : String(error),
         errorStack: error instanceof Error ? error.stack : 'No stack trace',
-        pendingBundlesCount: pendingBundles.length,
-        queueLength: this.syncQueue.length,
+        pendingBundlesCount: this.outboxStats.pending,
         isOnline: this.isOnline
       });
-      
-      // Log the specific sync queue items that might be causing issues
-      if (this.syncQueue.length > 0) {
-        console.error('🔍 Current sync queue items causing issues:');
-        this.syncQueue.slice(0, 5).forEach((item, index) => {
-          console.error(`  Item ${index + 1}:`, {
-            id: item.id,
-            collection: item.collection,
-            action: item.action,
-            retryCount: item.retryCount,
-            dataKeys: item.data ? Object.keys(item.data) : 'NO DATA'
-          });
-        });
-      }
     } finally {
       this.isSyncing = false;
       this.syncStartTime = 0;
+      this.emit('syncFinished', {
+        durationMs: Date.now() - syncStartedAt,
+        success: !syncError,
+        ...(syncError && { error: syncError instanceof Error ? syncError.message : String(syncError) }),
+        pendingBundles: this.outboxStats.pending,
+      });
     }
+    return { error: syncError, timedOut };
   }
 
   /**
-   * Get items ready for sync with idempotency filtering
-   */
-  private async getItemsReadyForSync(): Promise<SyncQueueItem[]> {
-    const currentTime = Date.now();
-    
-    return this.syncQueue.filter(item => {
-      // Skip if already processed (idempotency)
-      if (this.processedIds.has(item.id)) {
-        console.log(`⏭️ Skipping already processed item: ${item.id}`);
-        return false;
-      }
-      
-      // Skip if not ready for retry (backoff delay)
-      if (item.timestamp > currentTime) {
-        return false;
-      }
-      
-      return true;
-    }).sort((a, b) => a.timestamp - b.timestamp); // Oldest first for FIFO processing
-  }
-
-  /**
-   * Process a batch of items as an atomic transaction
+   * Retry policy for a bundle that failed during a drain. Real failures count towards maxRetries
+   * and back off; after the last one the bundle is dead-lettered so the rest of its lane can move
+   * on. Network issues don't count - the lane just stops until the next drain.
+   * Returns true if the bundle was dead-lettered.
    */
-  private async processBatchTransaction(batch: SyncQueueItem[]): Promise<void> {
-    const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    console.log(`🔄 Starting transaction ${batchId} with ${batch.length} items`);
-    
-    const processedInBatch: string[] = [];
-    const failedInBatch: { item: SyncQueueItem, error: any }[] = [];
-    
-    try {
-      // Process each item in the batch
-      for (const item of batch) {
-        try {
-          // Double-check idempotency at item level
-          if (this.processedIds.has(item.id)) {
-            console.log(`⏭️ Item ${item.id} already processed, skipping`);
-            continue;
-          }
-          
-          await this.syncItemIdempotent(item);
-          
-          // Mark as processed for idempotency
-          this.processedIds.add(item.id);
-          processedInBatch.push(item.id);
-          
-          console.log(`✅ Processed item ${item.id} in batch ${batchId}`);
-          
-        } catch (error) {
-          console.error(`❌ Item ${item.id} failed in batch ${batchId}:`, {
-            itemId: item.id,
-            collection: item.collection,
-            action: item.action,
-            retryCount: item.retryCount,
-            dataKeys: item.data ? Object.keys(item.data) : 'NO DATA',
-            error: error instanceof Error ? error.message : String(error),
-            errorStack: error instanceof Error ? error.stack : 'No stack trace'
-          });
-          failedInBatch.push({ item, error }); // Capture both item and error
-        }
-      }
-      
-      // Atomic cleanup: Remove successful items from queue
-      if (processedInBatch.length > 0) {
-        this.removeMultipleFromSyncQueue(processedInBatch);
-        console.log(`🧹 Removed ${processedInBatch.length} processed items from queue`);
-      }
-      
-      // Handle failed items with retry logic or dead letter queue
-      if (failedInBatch.length > 0) {
-        await this.handleFailedItemsWithErrors(failedInBatch, batchId);
-      }
-      
-    } catch (batchError) {
-      console.error(`❌ Batch transaction ${batchId} failed:`, batchError);
-      // Rollback: Remove idempotency markers for this batch
-      processedInBatch.forEach(id => this.processedIds.delete(id));
-      throw batchError;
+  private async handleBundleFailure(bundle: any, error: any): Promise<boolean> {
+    const isRealFailure = this.isOnline && this.isRealFailure(error);
+    if (isRealFailure) {
+      bundle.retryCount = (bundle.retryCount || 0) + 1;
+      console.log(`🔄 Real failure - incrementing retry count to ${bundle.retryCount} for bundle: ${bundle.bundleId}`);
+    } else {
+      console.log(`📶 Network issue (not real failure) - NOT incrementing retry count for bundle: ${bundle.bundleId}`);
     }
-    
-    // Persist queue changes
-    await this.saveSyncQueue();
-    
-    console.log(`✅ Batch transaction ${batchId} completed: ${processedInBatch.length} success, ${failedInBatch.length} failed`);
-  }
+    this.recordItemFailure(bundle, error);
 
-  /**
-   * Idempotent sync item processing - safe to call multiple times
-   */
-  private async syncItemIdempotent(item: SyncQueueItem): Promise<void> {
-    // Check if this specific operation was already completed successfully
-    const operationKey = `${item.collection}_${item.action}_${item.id}`;
-    
-    try {
-      await this.syncItem(item);
-      
-      // Mark operation as completed for future idempotency checks
-      console.log(`✅ Idempotent sync completed: ${operationKey}`);
-      
-    } catch (error) {
-      console.error(`❌ Idempotent sync failed: ${operationKey}`, error);
-      throw error;
+    if (isRealFailure && bundle.retryCount >= this.maxRetries) {
+      console.warn(`💀 Moving bundle to dead letter queue after ${this.maxRetries} REAL failures: ${bundle.bundleId}`);
+      console.warn(`💀 Final error was: ${error?.message || 'unknown'}`);
+      await this.deadLetterBundle(bundle, error);
+      return true;
     }
-  }
 
-  /**
-   * Create batches from items array
-   */
-  private createBatches<T>(items: T[], batchSize: number): T[][] {
-    const batches: T[][] = [];
-    for (let i = 0; i < items.length; i += batchSize) {
-      batches.push(items.slice(i, i + batchSize));
+    if (isRealFailure) {
+      const backoffDelay = this.calculateRetryDelay(bundle, true);
+      bundle.nextAttemptAt = Date.now() + backoffDelay;
+      console.log(`⏳ Retry ${bundle.retryCount}/${this.maxRetries} scheduled in ${Math.round(backoffDelay / 1000)}s for bundle ${bundle.bundleId}`);
     }
-    return batches;
-  }
-
-  /**
-   * Remove multiple items from sync queue atomically
-   */
-  private removeMultipleFromSyncQueue(ids: string[]): void {
-    this.syncQueue = this.syncQueue.filter(item => !ids.includes(item.id));
+    await this.updatePendingBundle(bundle.bundleId, {
+      retryCount: bundle.retryCount || 0,
+      lastError: bundle.lastError,
+      errorHistory: bundle.errorHistory,
+      nextAttemptAt: bundle.nextAttemptAt,
+    });
+    return false;
   }
 
   /**
-   * Handle failed items with dead letter queue
-   * ENHANCED: Smart failure detection - distinguishes network issues from real errors
+   * Move a bundle from the outbox to the dead letter queue. Its provisional overlays stay until
+   * staff retry or discard it; it leaves the in-flight set so the watermark can move past it.
    */
-  private async handleFailedItems(failedItems: SyncQueueItem[], batchId: string, error?: any): Promise<void> {
-    for (const item of failedItems) {
-      const queueItem = this.syncQueue.find(q => q.id === item.id);
-      if (queueItem) {
-        // ENHANCED: Determine if this is a real failure or just network issues
-        const isRealFailure = this.isRealFailure(error);
-        const shouldIncrementRetry = this.isOnline && isRealFailure;
-        
-        if (shouldIncrementRetry) {
-          queueItem.retryCount = (queueItem.retryCount || 0) + 1;
-          console.log(`🔄 Real failure - incrementing retry count to ${queueItem.retryCount} for item: ${item.id}`);
-        } else if (!this.isOnline) {
-          console.log(`📴 Offline failure - NOT incrementing retry count for item: ${item.id}`);
-        } else {
-          console.log(`📶 Network issue (not real failure) - NOT incrementing retry count for item: ${item.id}, error: ${error?.message || 'unknown'}`);
-        }
-        
-        // Only move to dead letter queue for REAL failures, not network issues
-        if (shouldIncrementRetry && queueItem.retryCount >= this.maxRetries) {
-          console.warn(`💀 Moving item to dead letter queue after ${this.maxRetries} REAL failures: ${item.id}`);
-          console.warn(`💀 Final error was: ${error?.message || 'unknown'}`);
-          this.deadLetterQueue.push({ ...queueItem });
-          this.removeFromSyncQueue(item.id);
-          
-          // Persist dead letter queue
-          await this.saveDeadLetterQueue();
-        } else {
-          // Schedule retry with smart backoff
-          let backoffDelay = this.calculateRetryDelay(queueItem, isRealFailure);
-          queueItem.timestamp = Date.now() + backoffDelay;
-          
-          const retryReason = !this.isOnline ? 'offline' : 
-                             !isRealFailure ? 'network issue' : 
-                             'real failure';
-          console.log(`⏳ Retry scheduled in ${Math.round(backoffDelay/1000)}s for ${item.id} (${retryReason})`);
-        }
-      }
+  private async deadLetterBundle(bundle: any, error: any): Promise<void> {
+    const remaining = (await this.getPendingBundles()).filter(pending => pending.bundleId !== bundle.bundleId);
+    await this.savePendingBundles(remaining);
+    if (bundle.deviceId === this.deviceId) {
+      this.inFlightBundles.delete(bundle.seq);
     }
+
+    const { nextAttemptAt, ...deadBundle } = bundle;
+    this.deadLetterQueue.push({ ...deadBundle, deadLetteredAt: Date.now() });
+    await this.saveDeadLetterQueue();
+    this.deadLetteredCount++;
+    this.emit('itemDeadLettered', {
+      itemId: bundle.bundleId,
+      bundleType: bundle.type,
+      retryCount: bundle.retryCount,
+      error: error?.message || 'unknown',
+    });
   }
 
   /**
@@ -3666,7 +4503,7 @@ export class HybridSyncService {
   /**
    * ENHANCED: Calculate smart retry delay based on failure type
    */
-  private calculateRetryDelay(queueItem: SyncQueueItem, isRealFailure: boolean): number {
+  private calculateRetryDelay(entry: { retryCount?: number }, isRealFailure: boolean): number {
     if (!this.isOnline) {
       // Short delay for offline items
       return 30000; // 30 seconds
@@ -3674,60 +4511,11 @@ export class HybridSyncService {
     
     if (!isRealFailure) {
       // Network issues: shorter, less aggressive backoff
-      const networkRetryCount = Math.min(queueItem.retryCount || 0, 5); // Cap at 5 for network issues
+      const networkRetryCount = Math.min(entry.retryCount || 0, 5); // Cap at 5 for network issues
       return Math.min(5000 * Math.pow(1.5, networkRetryCount), 60000); // Max 1 minute for network issues
     } else {
       // Real failures: traditional exponential backoff
-      return Math.min(1000 * Math.pow(2, queueItem.retryCount || 0), 300000); // Max 5 minutes
-    }
-  }
-
-  /**
-   * Handle failed items with error context for smarter retry logic
-   */
-  private async handleFailedItemsWithErrors(failedItems: { item: SyncQueueItem, error: any }[], batchId: string): Promise<void> {
-    for (const { item, error } of failedItems) {
-      const queueItem = this.syncQueue.find(q => q.id === item.id);
-      if (queueItem) {
-        // Use the enhanced failure detection with actual error
-        const isRealFailure = this.isRealFailure(error);
-        const shouldIncrementRetry = this.isOnline && isRealFailure;
-        
-        if (shouldIncrementRetry) {
-          queueItem.retryCount = (queueItem.retryCount || 0) + 1;
-          console.log(`🔄 Real failure - incrementing retry count to ${queueItem.retryCount} for item: ${item.id}`);
-        } else if (!this.isOnline) {
-          console.log(`📴 Offline failure - NOT incrementing retry count for item: ${item.id}`);
-        } else {
-          console.log(`📶 Network issue (not real failure) - NOT incrementing retry count for item: ${item.id}, error: ${error?.message || 'unknown'}`);
-        }
-        
-        // Use different retry limits for real failures vs network issues
-        const maxRetriesForThisError = isRealFailure ? this.maxRetries : this.maxNetworkRetries;
-        
-        // Only move to dead letter queue if we've exceeded the appropriate retry limit
-        if (shouldIncrementRetry && queueItem.retryCount >= maxRetriesForThisError) {
-          const failureType = isRealFailure ? 'REAL failures' : 'network issues';
-          console.warn(`💀 Moving item to dead letter queue after ${maxRetriesForThisError} ${failureType}: ${item.id}`);
-          console.warn(`💀 Final error was: ${error?.message || 'unknown'}`);
-          this.deadLetterQueue.push({ ...queueItem });
-          this.removeFromSyncQueue(item.id);
-          
-          // Persist dead letter queue
-          await this.saveDeadLetterQueue();
-        } else {
-          // Schedule retry with smart backoff
-          let backoffDelay = this.calculateRetryDelay(queueItem, isRealFailure);
-          queueItem.timestamp = Date.now() + backoffDelay;
-          
-          const retryReason = !this.isOnline ? 'offline' : 
-                             !isRealFailure ? 'network issue' : 
-                             'real failure';
-          const retriesUsed = queueItem.retryCount || 0;
-          const maxRetries = isRealFailure ? this.maxRetries : this.maxNetworkRetries;
-          console.log(`⏳ Retry ${retriesUsed}/${maxRetries} scheduled in ${Math.round(backoffDelay/1000)}s for ${item.id} (${retryReason})`);
-        }
-      }
+      return Math.min(1000 * Math.pow(2, entry.retryCount || 0), 300000); // Max 5 minutes
     }
   }
 
@@ -3741,575 +4529,237 @@ export class HybridSyncService {
   /**
    * Save dead letter queue to persistent storage
    */
-  private async saveDeadLetterQueue(): Promise<void> {
-    try {
-      await AsyncStorage.setItem('dead_letter_queue', JSON.stringify(this.deadLetterQueue));
-    } catch (error) {
-      console.error('❌ Error saving dead letter queue:', error);
+  private async saveDeadLetterQueue(): Promise<void> {
+    try {
+      await this.storage.setItem('dead_letter_queue', JSON.stringify(this.deadLetterQueue));
+    } catch (error) {
+      console.error('❌ Error saving dead letter queue:', error);
+    }
+  }
+
+  private async loadDeadLetterQueue(): Promise<void> {
+    try {
+      const data = await this.storage.getItem('dead_letter_queue');
+      const items = data ? JSON.parse(data) : [];
+      this.deadLetterQueue = Array.isArray(items)
+        ? items.filter(item => typeof item?.bundleId === 'string' && Array.isArray(item.steps))
+        : [];
+      if (this.deadLetterQueue.length > 0) {
+        console.log(`💀 Loaded dead letter queue: ${this.deadLetterQueue.length} items`);
+      }
+    } catch (error) {
+      console.error('❌ Error loading dead letter queue:', error);
+      this.deadLetterQueue = [];
+    }
+  }
+
+  private recordItemFailure(bundle: any, error: any): void {
+    const message = error?.message || String(error ?? 'unknown');
+    bundle.lastError = message;
+    bundle.errorHistory = [
+      ...(bundle.errorHistory || []),
+      { at: Date.now(), error: message, retryCount: bundle.retryCount || 0 }
+    ].slice(-MAX_ERROR_HISTORY);
+  }
+
+  /**
+   * Put a dead-lettered bundle back in the outbox with a fresh sequence number and retry count.
+   * Parked legacy queue items have no steps to run - they can only be discarded.
+   */
+  private async requeueDeadLetter(entry: DeadLetterBundle, steps?: any[]): Promise<boolean> {
+    if (entry.legacyItem) {
+      return false;
     }
+    const { deadLetteredAt, retryCount, lastError, nextAttemptAt, deviceId, seq, chunkProgress, ...bundle } = entry;
+    await this.enqueueBundleForSync({ ...bundle, ...(steps && { steps }), retryCount: 0 });
+    return true;
   }
 
   /**
-   * CRITICAL FIX: Move items from dead letter queue back to main queue when connectivity restored
+   * CRITICAL FIX: Move bundles from the dead letter queue back to the outbox when connectivity restored
    * This fixes the issue where offline assignments get stuck in dead letter queue
    */
-  private async resurrectDeadLetterQueueItems(): Promise<void> {
+  public async resurrectDeadLetterQueueItems(): Promise<void> {
     if (this.deadLetterQueue.length === 0) {
       console.log('✅ No items in dead letter queue to resurrect');
       return;
     }
 
-    console.log(`♻️ Resurrecting ${this.deadLetterQueue.length} items from dead letter queue`);
-
-    // Move all dead letter items back to main queue with reset retry counts
-    const itemsToResurrect = this.deadLetterQueue.map(item => ({
-      ...item,
-      retryCount: 0, // Reset retry count since we're now online
-      timestamp: Date.now() // Set immediate processing
-    }));
-
-    // Add to main sync queue
-    this.syncQueue.push(...itemsToResurrect);
+    console.log(`♻️ Resurrecting ${this.deadLetterQueue.length} bundles from dead letter queue`);
 
-    // Clear the dead letter queue
-    this.deadLetterQueue = [];
-
-    // Save both queues
-    await Promise.all([
-      this.saveSyncQueue(),
-      this.saveDeadLetterQueue()
-    ]);
-
-    console.log(`✅ Resurrected ${itemsToResurrect.length} items - sync queue now has ${this.syncQueue.length} items`);
+    const kept: DeadLetterBundle[] = [];
+    let resurrected = 0;
+    for (const entry of this.deadLetterQueue) {
+      if (await this.requeueDeadLetter(entry)) {
+        resurrected++;
+        console.log(`♻️ Resurrected: ${describeBundle(entry)} - ${entry.bundleId}`);
+      } else {
+        kept.push(entry);
+      }
+    }
 
-    // Log what was resurrected for debugging
-    itemsToResurrect.forEach((item: any) => {
-      console.log(`♻️ Resurrected: ${item.collection} ${item.action} - ${item.id}`);
-    });
+    this.deadLetterQueue = kept;
+    await this.saveDeadLetterQueue();
+    console.log(`✅ Resurrected ${resurrected} bundles - outbox now has ${this.outboxStats.pending} bundles`);
   }
 
-  private async syncItem(item: SyncQueueItem): Promise<void> {
-    console.log(`🔄 syncItem - Processing item:`, {
-      itemId: item.id,
-      action: item.action,
-      collection: item.collection,
-      dataKeys: item.data ? Object.keys(item.data) : 'NO DATA',
-      timestamp: item.timestamp,
-      retryCount: item.retryCount
-    });
+  // ============================================
+  // DEAD LETTER QUEUE MANAGEMENT (admin screen)
+  // ============================================
 
-    try {
-      switch (item.collection) {
-        case 'products':
-          return this.syncProductItem(item);
-        case 'staff-users':
-          return this.syncUserItem(item);
-        case 'assignments':
-          return this.syncAssignmentItem(item);
-        case 'players':
-          return this.syncPlayerItem(item);
-        case 'reports':
-          return this.syncReportItem(item);
-        case 'charges':
-          return this.syncChargeItem(item);
-        case 'organizations':
-          return this.syncOrganizationItem(item);
-        default:
-          console.error(`❌ Unknown collection in syncItem: ${item.collection}`, {
-            itemId: item.id,
-            action: item.action,
-            availableCollections: ['products', 'staff-users', 'assignments', 'players', 'reports', 'charges', 'organizations']
-          });
-          throw new Error(`Unknown collection: ${item.collection}`);
-      }
-    } catch (error) {
-      console.error(`❌ syncItem failed for ${item.collection}/${item.action}/${item.id}:`, error);
-      throw error;
-    }
+  public getDeadLetterItems(): DeadLetterBundle[] {
+    return this.deadLetterQueue.map(item => ({ ...item }));
   }
 
-  private async syncProductItem(item: SyncQueueItem): Promise<void> {
-    console.log('🔄 syncProductItem - Processing item:', {
-      itemId: item.id,
-      action: item.action,
-      collection: item.collection,
-      dataKeys: item.data ? Object.keys(item.data) : 'NO DATA',
-      hasValidData: !!item.data,
-      timestamp: item.timestamp,
-      retryCount: item.retryCount
-    });
-
-    // Validate item data
-    if (!item.data) {
-      throw new Error(`Invalid sync item: missing data for product ${item.id}`);
-    }
-
-    switch (item.action) {
-      case 'create':
-        // Clean product data before sending to Firebase (same as syncOpToServer)
-        const { 
-          entityId, 
-          metadata, 
-          vectorClock, 
-          version, 
-          deviceId, 
-          timestamp,
-          createdAt, 
-          updatedAt, 
-          ...cleanProductData 
-        } = item.data;
-        
-        console.log('🔄 Cleaned product data for Firebase (sync queue):', {
-          original: item.data,
-          cleaned: cleanProductData,
-          removedFields: { entityId, metadata, vectorClock, version, deviceId, timestamp, createdAt, updatedAt }
-        });
-        
-        await firebaseService.addProduct(cleanProductData);
-        break;
-      case 'update':
-        // Validate update data
-        if (!item.data || typeof item.data !== 'object') {
-          throw new Error(`Invalid update data for product ${item.id}: ${JSON.stringify(item.data)}`);
+  /**
+   * Move a dead-lettered bundle back into the outbox now, optionally with edited steps.
+   * Edited steps must keep each step's opId and kind - only payloads can change.
+   */
+  public async retryDeadLetterItem(bundleId: string, editedSteps?: any[]): Promise<void> {
+    const item = this.deadLetterQueue.find(deadItem => deadItem.bundleId === bundleId);
+    if (!item) {
+      throw new Error(`Dead letter item not found: ${bundleId}`);
+    }
+    if (item.legacyItem) {
+      throw new Error('This change was left over from the old sync queue and cannot be retried - discard it instead');
+    }
+    if (editedSteps !== undefined) {
+      if (!Array.isArray(editedSteps) || editedSteps.length !== item.steps.length) {
+        throw new Error(`Edited steps must be a JSON array of ${item.steps.length} step(s)`);
+      }
+      editedSteps.forEach((step, index) => {
+        if (step?.opId !== item.steps[index].opId || step?.kind !== item.steps[index].kind) {
+          throw new Error(`Step ${index + 1} must keep its opId and kind`);
         }
+      });
+    }
 
-        // Check for undefined values
-        const undefinedKeys = Object.keys(item.data).filter(key => item.data[key] === undefined);
-        if (undefinedKeys.length > 0) {
-          console.warn('⚠️ SYNC QUEUE - Found undefined values in product update:', undefinedKeys);
-          // Clean the data
-          const cleanData = { ...item.data };
-          undefinedKeys.forEach(key => delete cleanData[key]);
-          item.data = cleanData;
-          console.log('� SYNC QUEUE - Cleaned update data:', cleanData);
-        }
+    await this.requeueDeadLetter(item, editedSteps);
+    this.deadLetterQueue = this.deadLetterQueue.filter(deadItem => deadItem.bundleId !== bundleId);
+    await this.saveDeadLetterQueue();
+    console.log(`♻️ Dead letter bundle re-queued${editedSteps !== undefined ? ' with edited steps' : ''}: ${describeBundle(item)} - ${bundleId}`);
 
-        console.log('�🔄 SYNC QUEUE - Product update operation:', {
-          itemId: item.id,
-          dataId: item.data.id,
-          data: item.data,
-          dataKeys: Object.keys(item.data),
-          usingId: item.id // Use the same logic as syncOpToServer
-        });
-        // Check if product still exists locally (for logging, but don't skip if missing)
-        const actualProductId = item.data.entityId || item.data.id || item.id;
-        const productExists = await this.checkProductExists(actualProductId);
-        if (!productExists) {
-          console.warn('⚠️ SYNC QUEUE - Product not found in local cache, but attempting Firebase update anyway:', actualProductId);
-          // Don't return - continue with Firebase update as product might exist on server
-        }
-        
-        try {
-          const productId = item.data.entityId || item.data.id || item.id; // Use entityId first, then fallback
-          await firebaseService.updateProduct(productId, item.data);
-          console.log('✅ SYNC QUEUE - Product updated successfully in Firebase:', {
-            productId: productId,
-            updatedFields: Object.keys(item.data || {}),
-            hasStockUpdate: item.data?.stock !== undefined,
-            itemId: item.id
-          });
-        } catch (error: any) {
-          // Check if error is due to product not existing in Firebase
-          if (error.message && (
-              error.message.includes('not found') || 
-              error.message.includes('No document to update') ||
-              error.message.includes('Product with logical ID') && error.message.includes('not found') ||
-              error.message.toLowerCase().includes('no document to update')
-            )) {
-            console.warn('⚠️ SYNC QUEUE - Product no longer exists in Firebase, skipping update:', {
-              productId: item.id,
-              error: error.message,
-              updateData: item.data
-            });
-            return; // Skip this operation instead of retrying
-          }
-          
-          console.error('❌ Failed to update product in Firebase:', {
-            productId: item.id,
-            data: item.data,
-            error: error.message,
-            errorCode: error.code,
-            fullError: error
-          });
-          throw error; // Re-throw to trigger retry mechanism for other errors
-        }
-        break;
-      case 'delete':
-        try {
-          await firebaseService.deleteProduct(item.data.id);
-          console.log('✅ Product deleted from Firebase:', item.data.id);
-        } catch (error: any) {
-          // Handle case where document doesn't exist (already deleted or never existed)
-          if (error?.message?.includes('No document to update') || 
-              error?.code === 'not-found' || 
-              error?.message?.includes('not-found')) {
-            console.log('📝 Product already deleted or never existed in Firebase:', item.data.id);
-            // Treat as successful - the end result is the same (product is gone)
-            return;
-          }
-          // Re-throw other errors
-          throw error;
-        }
-        break;
+    if (this.isOnline) {
+      await this.processSyncQueue();
     }
   }
 
-  private async syncUserItem(item: SyncQueueItem): Promise<void> {
-    switch (item.action) {
-      case 'create':
-        await firebaseService.addUser(item.data);
-        break;
-      case 'update':
-        await firebaseService.updateUser(item.data.uid, item.data);
-        break;
-      case 'delete':
-        // Mark user as inactive instead of deleting
-        await firebaseService.updateUser(item.data.uid, { isActive: false });
-        break;
+  /**
+   * Drop a dead-lettered bundle for good - its provisional overlays are cleared and the discard
+   * is logged locally and to the server audit log
+   */
+  public async discardDeadLetterItem(bundleId: string, reason: string, discardedBy: string): Promise<DeadLetterDiscard> {
+    const trimmedReason = reason?.trim();
+    if (!trimmedReason || !discardedBy) {
+      throw new Error('Discarding a sync item needs a reason and the staff member');
     }
-  }
 
-  private async syncAssignmentItem(item: SyncQueueItem): Promise<void> {
-    switch (item.action) {
-      case 'create':
-        // Clean assignment data before sending to Firebase (same as syncOpToServer)
-        const { 
-          entityId: _entityId, 
-          metadata: _metadata, 
-          vectorClock, 
-          version, 
-          deviceId, 
-          timestamp,
-          createdAt, 
-          updatedAt, 
-          ...cleanAssignmentData 
-        } = item.data;
-        
-        console.log('🔄 Cleaned assignment data for Firebase (sync queue):', {
-          original: item.data,
-          cleaned: cleanAssignmentData,
-          removedFields: { _entityId, _metadata, vectorClock, version, deviceId, timestamp, createdAt, updatedAt }
-        });
-        
-        // Simple approach: Let Firebase generate the ID and use it everywhere
-        const firebaseId = await firebaseService.addAssignment(cleanAssignmentData);
-        
-        // Update local storage to use the Firebase ID
-        const localAssignments = await this.getLocalAssignments();
-        const assignmentIndex = localAssignments.findIndex(a => a.id === item.data.id);
-        if (assignmentIndex >= 0) {
-          // Replace the assignment with Firebase ID
-          localAssignments[assignmentIndex] = { ...localAssignments[assignmentIndex], id: firebaseId };
-          await AsyncStorage.setItem('assignments', JSON.stringify(localAssignments));
-          console.log(`✅ Assignment synced to Firebase with ID: ${firebaseId}`);
-        }
-        break;
-      case 'update':
-        console.log(`🔄 Syncing assignment update:`, {
-          queueItemId: item.id,
-          dataKeys: Object.keys(item.data),
-          itemData: item.data
-        });
-        
-        // For assignment updates, we need to find the assignment ID
-        // It could be in item.data.entityId (from applyOp) or item.data.id (old format)
-        const assignmentId = item.data.entityId || item.data.id;
-        
-        if (!assignmentId) {
-          console.error('Assignment update missing ID:', item.data);
-          throw new Error('Assignment update missing assignment ID');
-        }
-        
-        // Create clean update object without metadata fields
-        const { entityId, metadata, ...updateData } = item.data;
-        
-        // Check if assignment still exists locally before attempting Firebase update
-        const assignmentExists = await this.checkAssignmentExists(assignmentId);
-        if (!assignmentExists) {
-          console.log('⚠️ SYNC QUEUE - Assignment no longer exists locally, skipping update:', assignmentId);
-          return; // Skip this operation
-        }
-        
-        try {
-          if (!firebaseService.isReady()) {
-            throw new Error('FirebaseService is not ready. Organization ID not set.');
-          }
-          await firebaseService.updateAssignment(assignmentId, updateData);
-          console.log('✅ Assignment updated successfully in Firebase:', assignmentId);
-        } catch (error: any) {
-          // Check if error is due to assignment not existing in Firebase
-          if (error.message && error.message.includes('not found')) {
-            console.log('⚠️ SYNC QUEUE - Assignment no longer exists in Firebase, skipping update:', assignmentId);
-            return; // Skip this operation instead of retrying
-          }
-          
-          console.error('❌ Failed to update assignment in Firebase:', {
-            assignmentId,
-            updateData,
-            error: error.message,
-            errorCode: error.code,
-            fullError: error
-          });
-          throw error; // Re-throw to trigger retry mechanism for other errors
-        }
-        break;
-      case 'delete':
-        const deleteAssignmentId = item.data.entityId || item.data.id;
-        if (!deleteAssignmentId) {
-          throw new Error('Assignment delete missing assignment ID');
-        }
-        await firebaseService.deleteAssignment(deleteAssignmentId);
-        console.log('✅ Assignment deleted from Firebase:', deleteAssignmentId);
-        break;
+    const item = this.deadLetterQueue.find(deadItem => deadItem.bundleId === bundleId);
+    if (!item) {
+      throw new Error(`Dead letter item not found: ${bundleId}`);
     }
-  }
 
+    const discard: DeadLetterDiscard = {
+      id: generateUUID(),
+      item,
+      reason: trimmedReason,
+      discardedBy,
+      discardedAt: Date.now(),
+      deviceId: this.deviceId,
+      auditLogged: false,
+    };
 
+    // Record the discard before dropping the item so nothing disappears unlogged
+    const discards = await this.getDeadLetterDiscards();
+    discards.push(discard);
+    await this.storage.setItem(DEAD_LETTER_DISCARDS_KEY, JSON.stringify(discards));
 
-  private async syncPlayerItem(item: SyncQueueItem): Promise<void> {
-    try {
-      console.log('🔄 SYNC PLAYER ITEM:', {
-        action: item.action,
-        playerId: item.data.id || item.data.entityId,
-        hasData: !!item.data,
-        itemId: item.id
-      });
-      
-      const fbService = firebaseService;
-      
-      switch (item.action) {
-        case 'create':
-          console.log('🔄 Syncing player CREATE to Firebase - Raw item.data:', item.data);
-          
-          // CRITICAL FIX: Extract only player fields from operation data
-          // item.data may contain operation metadata, we need just the player fields
-          const { 
-            entityId, 
-            metadata, 
-            vectorClock, 
-            version, 
-            deviceId, 
-            timestamp,
-            createdAt, 
-            updatedAt, 
-            ...cleanPlayerData 
-          } = item.data;
-          
-          console.log('🔄 Cleaned player data for Firebase:', {
-            original: item.data,
-            cleaned: cleanPlayerData,
-            removedFields: { entityId, metadata, vectorClock, version, deviceId, timestamp, createdAt, updatedAt }
-          });
-          
-          // Validate we have essential player fields
-          if (!cleanPlayerData.firstName || !cleanPlayerData.lastName || !cleanPlayerData.id) {
-            console.error('❌ Missing essential player fields:', cleanPlayerData);
-            throw new Error('Invalid player data - missing firstName, lastName, or id');
-          }
-          
-          // Check if player already exists in Firebase (prevent duplicates)
-          try {
-            const existingPlayers = await fbService.getPlayers();
-            const existingPlayer = existingPlayers.find(p => p.id === cleanPlayerData.id);
-            
-            if (existingPlayer) {
-              console.log('⚠️ Player already exists in Firebase, skipping create:', cleanPlayerData.id);
-              return; // Skip this sync operation
-            }
-          } catch (error) {
-            console.warn('⚠️ Could not check for existing players, proceeding with create:', error);
-          }
-          
-          await fbService.addPlayer(cleanPlayerData);
-          console.log('✅ Player CREATE synced to Firebase with clean data');
-          break;
-          
-        case 'updateBalance':
-          const { amount, isDebit } = item.data;
-          const playerId = item.data.id || item.data.entityId; // Use same logic as the log
-          
-          console.log('💰 DEBUG BALANCE UPDATE:', {
-            playerId,
-            amount,
-            isDebit,
-            itemId: item.id,
-            fullItemData: item.data
-          });
-          
-          // Legacy balance update - assume it's not a purchase to avoid incorrect stats
-          await fbService.updatePlayerBalance(playerId, amount, isDebit, false);
-          console.log('✅ Player balance update synced to Firebase (legacy):', {
-            playerId,
-            amount,
-            isDebit,
-            isPurchase: false
-          });
-          break;
-          
-        case 'update':
-          console.log('🔄 Syncing player UPDATE to Firebase:', {
-            playerId: item.data.id,
-            updates: item.data
-          });
-          
-          // FIXED: FirebaseService.updatePlayer handles logical UUID mapping internally
-          const playerUUID = item.data.id || item.data.entityId;
-          if (!playerUUID) {
-            throw new Error('No player UUID provided for update');
-          }
-          
-          console.log('🔍 Updating player with logical UUID:', { uuid: playerUUID, data: item.data });
-          
-          // Update using logical UUID - Firebase service handles the mapping internally
-          await fbService.updatePlayer(playerUUID, item.data);
-          console.log('✅ Player UPDATE synced to Firebase');
-          break;
-          
-        default:
-          console.warn('❌ Unknown player action:', item.action);
-          throw new Error(`Unknown player action: ${item.action}`);
-      }
-    } catch (error) {
-      console.error('❌ Error syncing player item:', error);
-      throw error;
+    this.deadLetterQueue = this.deadLetterQueue.filter(deadItem => deadItem.bundleId !== bundleId);
+    await this.saveDeadLetterQueue();
+    const opIds = item.steps.map((step: any) => step.opId).filter(Boolean);
+    if (opIds.length > 0) {
+      await this.clearProvisionalData(opIds);
     }
-  }
+    console.warn(`🗑️ Discarded dead letter bundle: ${describeBundle(item)} - ${bundleId}`, {
+      reason: trimmedReason,
+      discardedBy
+    });
 
-  private async syncReportItem(item: SyncQueueItem): Promise<void> {
-    switch (item.action) {
-      case 'create':
-        await firebaseService.addReport(item.data);
-        break;
-      case 'update':
-        // For now, skip update as reports don't have update method
-        console.log('Report update not implemented yet');
-        break;
-      case 'delete':
-        // For now, skip delete as reports don't have delete method  
-        console.log('Report delete not implemented yet');
-        break;
-    }
+    await this.flushDeadLetterDiscardLog();
+    return discard;
   }
 
-  private async syncChargeItem(item: SyncQueueItem): Promise<void> {
-    console.log(`🔄 syncChargeItem - Processing charge ${item.action}:`, {
-      itemId: item.id,
-      action: item.action,
-      dataKeys: item.data ? Object.keys(item.data) : 'NO DATA',
-      timestamp: item.timestamp,
-      retryCount: item.retryCount
-    });
-
+  public async getDeadLetterDiscards(): Promise<DeadLetterDiscard[]> {
     try {
-      // For now, skip charge sync as FirebaseService doesn't have individual charge methods
-      // Charges are handled through bundle operations in the atomic transactions
-      console.log('⚠️ Charge sync via individual operations not implemented - charges are handled via bundles');
-      console.log('💳 Charge operation details:', {
-        action: item.action,
-        chargeId: item.data?.id,
-        playerId: item.data?.playerId,
-        amount: item.data?.amount,
-        status: item.data?.status
-      });
-      
-      // Mark as completed since bundles handle the actual Firebase operations
-      console.log('✅ Charge sync skipped - handled by bundle operations');
+      const data = await this.storage.getItem(DEAD_LETTER_DISCARDS_KEY);
+      return data ? JSON.parse(data) : [];
     } catch (error) {
-      console.error(`❌ syncChargeItem failed for ${item.action}/${item.id}:`, error);
-      throw error;
+      console.error('❌ Error loading dead letter discards:', error);
+      return [];
     }
   }
 
-  private async syncOrganizationItem(item: SyncQueueItem): Promise<void> {
-    console.log(`🔄 syncOrganizationItem - Processing organization ${item.action}:`, {
-      itemId: item.id,
-      action: item.action,
-      dataKeys: item.data ? Object.keys(item.data) : 'NO DATA',
-      timestamp: item.timestamp,
-      retryCount: item.retryCount
-    });
+  /**
+   * Upload discards that have not reached the server audit log yet
+   */
+  public async flushDeadLetterDiscardLog(): Promise<void> {
+    if (!this.isOnline || !this.firebase.isReady()) return;
 
-    try {
-      // For now, skip organization sync as individual methods may not exist
-      // Organizations are handled through bundle operations in atomic transactions
-      console.log('⚠️ Organization sync via individual operations not implemented - organizations are handled via bundles');
-      console.log('🏢 Organization operation details:', {
-        action: item.action,
-        orgId: item.data?.id,
-        name: item.data?.name,
-        settingsKeys: item.data?.settings ? Object.keys(item.data.settings) : 'NO SETTINGS'
-      });
-      
-      // Mark as completed since bundles handle the actual Firebase operations
-      console.log('✅ Organization sync skipped - handled by bundle operations');
-    } catch (error) {
-      console.error(`❌ syncOrganizationItem failed for ${item.action}/${item.id}:`, error);
-      throw error;
+    const discards = await this.getDeadLetterDiscards();
+    if (!discards.some(discard => !discard.auditLogged)) return;
+
+    for (const discard of discards.filter(entry => !entry.auditLogged)) {
+      try {
+        await this.firebase.writeAuditLog({
+          id: discard.id,
+          action: 'syncItemDiscarded',
+          bundleId: discard.item.bundleId,
+          bundleType: discard.item.type,
+          steps: discard.item.steps,
+          ...(discard.item.legacyItem && { legacyItem: discard.item.legacyItem }),
+          lastError: discard.item.lastError || null,
+          retryCount: discard.item.retryCount,
+          reason: discard.reason,
+          discardedBy: discard.discardedBy,
+          discardedAt: discard.discardedAt,
+          deviceId: discard.deviceId,
+        });
+        discard.auditLogged = true;
+      } catch (error) {
+        console.warn('⚠️ Failed to upload discard to audit log, will retry later:', error);
+        break;
+      }
     }
-  }
 
-  // ============================================
-  // PUBLIC API - HYBRID OPERATIONS
-  // ============================================
+    await this.storage.setItem(DEAD_LETTER_DISCARDS_KEY, JSON.stringify(discards));
+  }
 
   /**
-   * Clean up problematic operations from sync queue
-   * Removes operations that are likely to never succeed (like deleting non-existent items)
+   * Dead-lettered items and discards as JSON, for support or manual recovery
    */
-  public async cleanupSyncQueue(): Promise<void> {
-    console.log('🧹 Cleaning up problematic sync queue operations...');
-    
-    const initialCount = this.syncQueue.length;
-    const problemOperations: string[] = [];
-    
-    // Find operations that have failed too many times with "not found" errors
-    const itemsToRemove = this.syncQueue.filter(item => {
-      // Remove delete operations that have retried too many times
-      if (item.action === 'delete' && item.retryCount >= 2) {
-        problemOperations.push(item.id);
-        return true;
-      }
-      
-      // Remove update operations for products that have failed with "not found" errors
-      if (item.action === 'update' && item.collection === 'products' && item.retryCount >= 2) {
-        problemOperations.push(item.id);
-        console.log('🧹 Removing orphaned product update operation:', {
-          itemId: item.id,
-          productId: item.data?.id || item.data?.entityId,
-          retryCount: item.retryCount
-        });
-        return true;
-      }
-      
-      return false;
-    });
-    
-    // Remove problematic operations
-    this.syncQueue = this.syncQueue.filter(item => !problemOperations.includes(item.id));
-    
-    // Also clear dead letter queue of similar items
-    const deadLetterInitialCount = this.deadLetterQueue.length;
-    this.deadLetterQueue = this.deadLetterQueue.filter(item => {
-      return !(item.action === 'delete' && item.collection === 'products');
-    });
-    
-    // Save changes
-    await this.saveSyncQueue();
-    await this.saveDeadLetterQueue();
-    
-    console.log(`🧹 Cleanup completed: Removed ${itemsToRemove.length} operations from sync queue (${initialCount} -> ${this.syncQueue.length})`);
-    console.log(`🧹 Cleanup completed: Removed ${deadLetterInitialCount - this.deadLetterQueue.length} items from dead letter queue`);
+  public async exportDeadLetterQueue(): Promise<string> {
+    return JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      deviceId: this.deviceId,
+      organizationId: this.firebase.getOrganizationId() || null,
+      items: this.deadLetterQueue,
+      discards: await this.getDeadLetterDiscards(),
+    }, null, 2);
   }
 
+
+
+  // ============================================
+  // PUBLIC API - HYBRID OPERATIONS
+  // ============================================
+
   /**
    * Remove an entity from local cache only (bypass server sync)
    */
   public async removeFromLocalCache(collection: string, entityId: string): Promise<void> {
     try {
       console.log(`🗑️ Removing ${entityId} from local ${collection} cache`);
-      const currentData = await this.getLocalData(collection);
-      const filteredData = currentData.filter((item: any) => item.id !== entityId);
-      await this.saveLocalData(collection, filteredData);
+      await this.deleteLocalRecords(collection, [entityId]);
       console.log(`✅ Removed ${entityId} from local ${collection} cache`);
     } catch (error) {
       console.error(`❌ Failed to remove ${entityId} from local ${collection} cache:`, error);
@@ -4324,6 +4774,7 @@ export class HybridSyncService {
     try {
       console.log(`🧹 Force clearing all local ${collection} data`);
       await this.saveLocalData(collection, []);
+      await this.clearSyncCursor(collection);
       console.log(`✅ Force cleared all local ${collection} data`);
     } catch (error) {
       console.error(`❌ Failed to force clear local ${collection} data:`, error);
@@ -4331,89 +4782,6 @@ export class HybridSyncService {
     }
   }
 
-  /**
-   * Remove sync queue items that reference non-existent entities
-   */
-  public async removeOrphanedSyncItems(): Promise<void> {
-    console.log('🧹 Removing orphaned sync queue items...');
-    
-    const currentProducts = await this.getLocalData('products');
-    const currentProductIds = new Set(currentProducts.map((p: any) => p.id));
-    
-    const initialCount = this.syncQueue.length;
-    const orphanedItems: string[] = [];
-    
-    // Check each sync queue item
-    this.syncQueue = this.syncQueue.filter(item => {
-      if (item.collection === 'products') {
-        const entityId = item.data?.id || item.data?.entityId;
-        
-        if (!currentProductIds.has(entityId)) {
-          orphanedItems.push(item.id);
-          console.log('🗑️ Removing orphaned product sync item:', {
-            itemId: item.id,
-            action: item.action,
-            productId: entityId,
-            retryCount: item.retryCount
-          });
-          return false; // Remove this item
-        }
-      }
-      return true; // Keep this item
-    });
-    
-    await this.saveSyncQueue();
-    
-    console.log(`🧹 Removed ${orphanedItems.length} orphaned sync items (${initialCount} -> ${this.syncQueue.length})`);
-  }
-
-  /**
-   * Comprehensive cleanup for current sync issues
-   * Call this once to fix the current problematic state
-   */
-  public async fixCurrentSyncIssues(): Promise<void> {
-    console.log('🩺 Starting comprehensive sync issues fix...');
-    
-    try {
-      // 1. Remove orphaned sync items first
-      await this.removeOrphanedSyncItems();
-      
-      // 2. Clean up sync queue
-      await this.cleanupSyncQueue();
-      
-      // 2. Remove duplicate products from local storage
-      const productsStr = await AsyncStorage.getItem('products');
-      if (productsStr) {
-        const products = JSON.parse(productsStr);
-        const uniqueProducts = [];
-        const seenIds = new Set();
-        
-        for (const product of products) {
-          if (!seenIds.has(product.id)) {
-            seenIds.add(product.id);
-            uniqueProducts.push(product);
-          } else {
-            console.log('🔄 Removing duplicate product:', product.id);
-          }
-        }
-        
-        await AsyncStorage.setItem('products', JSON.stringify(uniqueProducts));
-        console.log(`🧹 Cleaned products: ${products.length} -> ${uniqueProducts.length} items`);
-      }
-      
-      // 3. Remove any products marked as deleted
-      const currentProducts = await this.getLocalProducts();
-      const activeProducts = currentProducts.filter(p => !p.isDeleted);
-      await AsyncStorage.setItem('products', JSON.stringify(activeProducts));
-      console.log(`🗑️ Removed deleted products: ${currentProducts.length} -> ${activeProducts.length} items`);
-      
-      console.log('✅ Comprehensive sync issues fix completed successfully');
-    } catch (error) {
-      console.error('❌ Fix sync issues failed:', error);
-      throw error;
-    }
-  }
-
   async addProduct(product: any): Promise<string> {
     console.log('📦 Adding product via applyOp system');
     
@@ -4437,7 +4805,7 @@ export class HybridSyncService {
         deviceId: this.deviceId,
         timestamp: Date.now(),
         version: 1,
-        vectorClock: this.createVersionVector(),
+        vectorClock: await this.getBumpedVectorClock(),
         source: 'local'
       }
     });
@@ -4453,13 +4821,7 @@ export class HybridSyncService {
       updateKeys: Object.keys(updates || {}),
       isOnline: this.isOnline,
       timestamp: new Date().toLocaleTimeString(),
-      currentSyncQueueSize: this.syncQueue.length
-    });
-    
-    // Log current sync queue items for debugging
-    console.log('📋 Current sync queue before product update:');
-    this.syncQueue.forEach((item, index) => {
-      console.log(`  ${index + 1}. ${item.collection}/${item.action} - ID: ${item.id} - Age: ${Math.round((Date.now() - item.timestamp) / 1000)}s - Retries: ${item.retryCount}`);
+      pendingBundles: this.outboxStats.pending
     });
 
     // ✅ CRITICAL VALIDATION: Ensure product ID is valid before any operations
@@ -4527,80 +4889,34 @@ export class HybridSyncService {
       metadata: {
         deviceId: this.deviceId,
         timestamp: Date.now(),
-        version: 1,
-        vectorClock: this.createVersionVector(),
+        version: this.incrementVectorClock(),
+        vectorClock: Object.fromEntries(this.vectorClock),
         source: 'local'
       }
     });
 
     console.log('✅ Product update applied via applyOp system');
-    console.log('🔍 PRODUCT UPDATE COMPLETE - Final sync queue size:', this.syncQueue.length);
-    
-    // Log final sync queue state
-    console.log('📋 Final sync queue after product update:');
-    this.syncQueue.forEach((item, index) => {
-      console.log(`  ${index + 1}. ${item.collection}/${item.action} - ID: ${item.id} - Age: ${Math.round((Date.now() - item.timestamp) / 1000)}s - Retries: ${item.retryCount}`);
-    });
   }
 
+  /**
+   * Soft delete - the server keeps the product inactive because old sales still reference it
+   */
   public async deleteProduct(id: string): Promise<void> {
-    try {
-      if (this.isOnline) {
-        // Try Firebase first
-        try {
-          await firebaseService.deleteProduct(id);
-          console.log('✅ Product deleted from Firebase:', id);
-        } catch (firebaseError: any) {
-          // Handle case where document doesn't exist
-          if (firebaseError?.message?.includes('No document to update') || 
-              firebaseError?.code === 'not-found' || 
-              firebaseError?.message?.includes('not-found')) {
-            console.log('📝 Product already deleted or never existed in Firebase:', id);
-            // Continue to remove from local storage
-          } else {
-            throw firebaseError;
-          }
-        }
-        
-        // Remove from local storage
-        await this.removeLocalProduct(id);
-      } else {
-        throw new Error('Offline - using local storage');
-      }
-    } catch (error: any) {
-      // Only queue for sync if it's not a "document not found" error
-      if (!error?.message?.includes('No document to update') && 
-          !error?.message?.includes('not-found')) {
-        console.log('📱 Marking product as deleted locally and queueing for sync');
-        
-        // Check if this product is already queued for deletion to prevent duplicates
-        const existingDeleteOp = this.syncQueue.find(item => 
-          item.collection === 'products' && 
-          item.action === 'delete' && 
-          item.data?.id === id
-        );
-        
-        if (!existingDeleteOp) {
-          // Mark as deleted locally (soft delete)
-          await this.updateLocalProduct(id, { isDeleted: true });
-          
-          // Add to sync queue
-          this.addToSyncQueue({
-            id: `delete_${generateUUID()}`,
-            action: 'delete',
-            collection: 'products',
-            data: { id }
-          });
-          console.log('➕ Added delete products to sync queue');
-        } else {
-          console.log('⏭️ Product deletion already queued, skipping duplicate');
-        }
-      } else {
-        // For "not found" errors, just remove locally
-        await this.removeLocalProduct(id);
-        console.log('📱 Removed non-existent product from local storage:', id);
+    await this.applyOp({
+      id: generateUUID(),
+      type: 'delete',
+      collection: 'products',
+      entityId: id,
+      data: {},
+      metadata: {
+        deviceId: this.deviceId,
+        timestamp: Date.now(),
+        version: this.incrementVectorClock(),
+        vectorClock: Object.fromEntries(this.vectorClock),
+        source: 'local'
       }
-    }
+    });
+    console.log('✅ Product deleted via applyOp:', id);
   }
 
   // Similar methods for Users, Assignments, Reports...
@@ -4608,10 +4924,10 @@ export class HybridSyncService {
     try {
       if (this.isOnline) {
         // Try Firebase first - Firebase will generate proper UUID automatically
-        const firebaseId = await firebaseService.addUser(user);
+        const firebaseId = await this.firebase.addUser(user);
         const localUsers = await this.getLocalUsers();
         localUsers.push({ ...user, id: firebaseId });
-        await AsyncStorage.setItem('staff-users', JSON.stringify(localUsers));
+        await this.storage.setItem(STAFF_USERS_KEY, JSON.stringify(localUsers));
         return firebaseId;
       } else {
         throw new Error('Offline - using local storage');
@@ -4626,14 +4942,16 @@ export class HybridSyncService {
       const localUsers = await this.getLocalUsers();
       const userWithId = { ...user, id: tempId };
       localUsers.push(userWithId);
-      await AsyncStorage.setItem('staff-users', JSON.stringify(localUsers));
+      await this.storage.setItem(STAFF_USERS_KEY, JSON.stringify(localUsers));
       
-      this.addToSyncQueue({
-        id: tempId,
-        action: 'create',
+      await this.enqueueBundleForSync(buildStaffUserBundle({
+        id: generateUUID(),
+        type: 'create',
         collection: 'staff-users',
-        data: userWithId
-      });
+        entityId: tempId,
+        data: userWithId,
+        metadata: { timestamp: Date.now(), vectorClock: await this.getBumpedVectorClock() }
+      }));
       
       return tempId;
     }
@@ -4643,16 +4961,10 @@ export class HybridSyncService {
     console.log('� Adding assignment via applyOp system');
     console.log('🔍 ASSIGNMENT CREATION DEBUG - Input data:', {
       assignment: assignment,
-      currentSyncQueueSize: this.syncQueue.length,
+      pendingBundles: this.outboxStats.pending,
       isOnline: this.isOnline
     });
     
-    // Log current sync queue items for debugging
-    console.log('📋 Current sync queue before assignment creation:');
-    this.syncQueue.forEach((item, index) => {
-      console.log(`  ${index + 1}. ${item.collection}/${item.action} - ID: ${item.id} - Age: ${Math.round((Date.now() - item.timestamp) / 1000)}s - Retries: ${item.retryCount}`);
-    });
-    
     // Generate UUID for the assignment
     const assignmentId = generateUUID();
     const assignmentWithId = { 
@@ -4676,18 +4988,11 @@ export class HybridSyncService {
             deviceId: this.deviceId,
             timestamp: Date.now(),
             version: 1,
-            vectorClock: this.createVersionVector(),
+            vectorClock: await this.getBumpedVectorClock(),
             source: 'local'
           }
         });
         console.log('✅ Assignment added via applyOp:', assignmentId);
-        console.log('🔍 ASSIGNMENT CREATION COMPLETE - Final sync queue size:', this.syncQueue.length);
-        
-        // Log final sync queue state
-        console.log('📋 Final sync queue after assignment creation:');
-        this.syncQueue.forEach((item, index) => {
-          console.log(`  ${index + 1}. ${item.collection}/${item.action} - ID: ${item.id} - Age: ${Math.round((Date.now() - item.timestamp) / 1000)}s - Retries: ${item.retryCount}`);
-        });
         
         return { id: assignmentId, syncStatus: this.isOnline ? 'synced' : 'pending' };
     } catch (error) {
@@ -4707,7 +5012,7 @@ export class HybridSyncService {
 
   private async getLocalUsers(): Promise<any[]> {
     try {
-      const data = await AsyncStorage.getItem('staff-users');
+      const data = await this.storage.getItem(STAFF_USERS_KEY);
       return data ? JSON.parse(data) : [];
     } catch {
       return [];
@@ -4716,10 +5021,7 @@ export class HybridSyncService {
 
   private async getLocalAssignments(): Promise<any[]> {
     try {
-      const data = await AsyncStorage.getItem('assignments');
-      if (!data) return [];
-      
-      const assignments = JSON.parse(data);
+      const assignments = await this.getLocalData('assignments');
       
       // Validate and clean assignments data
       return assignments.map((assignment: any) => {
@@ -4744,14 +5046,12 @@ export class HybridSyncService {
     const index = products.findIndex(p => p.id === id);
     if (index !== -1) {
       products[index] = { ...products[index], ...updates };
-      await AsyncStorage.setItem('products', JSON.stringify(products));
+      await this.upsertLocalRecords('products', [products[index]]);
     }
   }
 
   private async removeLocalProduct(id: string): Promise<void> {
-    const products = await this.getLocalProducts();
-    const filtered = products.filter(p => p.id !== id);
-    await AsyncStorage.setItem('products', JSON.stringify(filtered));
+    await this.deleteLocalRecords('products', [id]);
   }
 
   // ============================================
@@ -4775,98 +5075,24 @@ export class HybridSyncService {
     return this.isOnline;
   }
 
-  public getSyncQueueLength(): number {
-    return this.syncQueue.length;
-  }
-
-  /**
-   * Get sync queue items grouped for UI display
-   * Groups related operations (same batchId) into single items
-   */
-  public getSyncQueueGrouped(): Array<{
-    id: string;
-    label: string;
-    count: number;
-    timestamp: number;
-    collections: string[];
-    batchId?: string;
-  }> {
-    const groups = new Map<string, {
-      id: string;
-      label: string;
-      count: number;
-      timestamp: number;
-      collections: Set<string>;
-      batchId?: string;
-    }>();
-
-    // Group items by batchId or treat as individual items
-    this.syncQueue.forEach(item => {
-      const groupKey = item.batchId || item.id;
-      
-      if (groups.has(groupKey)) {
-        const group = groups.get(groupKey)!;
-        group.count++;
-        group.collections.add(item.collection);
-        // Use earliest timestamp
-        group.timestamp = Math.min(group.timestamp, item.timestamp);
-      } else {
-        groups.set(groupKey, {
-          id: groupKey,
-          label: item.batchLabel || `${item.action} ${item.collection}`,
-          count: 1,
-          timestamp: item.timestamp,
-          collections: new Set([item.collection]),
-          batchId: item.batchId
-        });
-      }
-    });
-
-    // Convert to array and format collections
-    return Array.from(groups.values()).map(group => ({
-      ...group,
-      collections: Array.from(group.collections)
-    })).sort((a, b) => a.timestamp - b.timestamp);
-  }
-
-  /**
-   * Get raw sync queue for debugging
-   */
-  public getSyncQueueRaw(): SyncQueueItem[] {
-    return [...this.syncQueue];
-  }
-
   /**
-   * Debug method: Get all product IDs from local cache
+   * Pending bundle count as of the last outbox read/write - synchronous for render paths
    */
-  public async debugProductIds(): Promise<{localProducts: any[], syncQueueItems: any[]}> {
-    const localProducts = await this.getLocalData('products');
-    const relevantSyncItems = this.syncQueue.filter(item => 
-      item.collection === 'products' || 
-      (item.collection === 'assignments' && item.data?.productId)
-    );
-    
-    console.log('🔍 DEBUG - Local Products:', localProducts.map(p => ({id: p.id, name: p.name, stock: p.stock})));
-    console.log('🔍 DEBUG - Sync Queue Product Items:', relevantSyncItems.map(item => ({
-      id: item.id,
-      collection: item.collection,
-      action: item.action,
-      productId: item.data?.productId || item.data?.entityId,
-      data: item.data
-    })));
-    
-    return { localProducts, syncQueueItems: relevantSyncItems };
+  public getSyncQueueLength(): number {
+    return this.outboxStats.pending;
   }
 
   // Debug methods for testing offline functionality
   public forceOfflineMode(): void {
     console.log('🧪 DEBUG: Forcing offline mode');
     this.isOnline = false;
+    this.emit('connectivityChanged', { isOnline: false, source: 'manual' });
   }
 
   public forceOnlineMode(): void {
     console.log('🧪 DEBUG: Forcing online mode');
     this.isOnline = true;
+    this.emit('connectivityChanged', { isOnline: true, source: 'manual' });
   }
 
   // Force refresh network state from NetInfo
@@ -4883,6 +5109,10 @@ export class HybridSyncService {
         netInfoReachable: state.isInternetReachable,
         type: state.type
       });
+
+      if (previousState !== this.isOnline) {
+        this.emit('connectivityChanged', { isOnline: this.isOnline, source: 'netinfo' });
+      }
       
       return this.isOnline;
     } catch (error) {
@@ -4912,7 +5142,7 @@ export class HybridSyncService {
     // Step 3: Sync player balances as part of full sync
     try {
       console.log('🔄 Syncing player balances...');
-      await firebaseService.syncAllPlayerBalances();
+      await this.firebase.syncAllPlayerBalances();
       console.log('✅ Player balances synced');
     } catch (error) {
       console.error('❌ Failed to sync player balances:', error);
@@ -4922,92 +5152,18 @@ export class HybridSyncService {
     console.log('✅ Manual sync completed - bidirectional sync finished');
   }
 
-  public async clearSyncQueue(): Promise<void> {
-    const itemCount = this.syncQueue.length;
-    console.log(`🧹 CLEARING entire sync queue: ${itemCount} items`);
-    
-    // Log what we're clearing with special attention to charge items
-    this.syncQueue.forEach((item, index) => {
-      const itemType = item.collection === 'charges' ? '💰 CHARGE' : item.collection;
-      console.log(`  Removing ${index + 1}. ${itemType}/${item.action} - ID: ${item.id} - Age: ${Math.round((Date.now() - item.timestamp) / 1000)}s`);
-    });
-    
-    // Count charge-related items for extra logging
-    const chargeItems = this.syncQueue.filter(item => item.collection === 'charges');
-    if (chargeItems.length > 0) {
-      console.log(`💰 Clearing ${chargeItems.length} charge-related sync items`);
-    }
-    
-    this.syncQueue = [];
-    await this.saveSyncQueue();
-    console.log(`✅ CLEARED entire sync queue: ${itemCount} items removed (including ${chargeItems.length} charge items)`);
-  }
-
-  /**
-   * Clean up orphaned sync operations (operations for entities that no longer exist)
-   */
-  public async cleanupOrphanedOperations(): Promise<void> {
-    if (!this.isOnline) {
-      console.log('📡 Skipping orphaned operations cleanup - offline');
-      return;
-    }
-
-    console.log('🧹 Starting orphaned operations cleanup...');
-    const originalCount = this.syncQueue.length;
-    const orphanedItems: SyncQueueItem[] = [];
-    const validItems: SyncQueueItem[] = [];
-
-    for (const item of this.syncQueue) {
-      let isOrphaned = false;
-
-      // Check products
-      if (item.collection === 'products' && (item.action === 'update' || item.action === 'delete')) {
-        const exists = await this.checkProductExistsInFirebase(item.data?.id || item.id);
-        if (!exists) {
-          orphanedItems.push(item);
-          isOrphaned = true;
-          console.log(`🗑️ Found orphaned product operation: ${item.action} ${item.data?.id || item.id}`);
-        }
-      }
-      // Check assignments
-      else if (item.collection === 'assignments' && (item.action === 'update' || item.action === 'delete')) {
-        const exists = await this.checkAssignmentExists(item.data?.id || item.id);
-        if (!exists) {
-          orphanedItems.push(item);
-          isOrphaned = true;
-          console.log(`🗑️ Found orphaned assignment operation: ${item.action} ${item.data?.id || item.id}`);
-        }
-      }
-
-      if (!isOrphaned) {
-        validItems.push(item);
-      }
-    }
-
-    if (orphanedItems.length > 0) {
-      this.syncQueue = validItems;
-      await this.saveSyncQueue();
-      console.log(`🧹 Cleaned up ${orphanedItems.length} orphaned operations (${originalCount} → ${validItems.length})`);
-      
-      // Log what was removed
-      orphanedItems.forEach(item => {
-        console.log(`  Removed: ${item.collection}/${item.action} - ${item.data?.id || item.id}`);
-      });
-    } else {
-      console.log('✅ No orphaned operations found');
-    }
-  }
-
   /**
    * Clear all stuck sync data including provisional state (enhanced for new bundle system)
    */
   public async clearPendingBundles(): Promise<void> {
     console.log('🧹 Clearing pending bundles queue...');
     try {
-      const bundlesData = await AsyncStorage.getItem('pending_bundles');
+      const bundlesData = await this.storage.getItem('pending_bundles');
       const bundlesCount = bundlesData ? JSON.parse(bundlesData).length : 0;
       
-      await AsyncStorage.removeItem('pending_bundles');
+      await this.storage.removeItem('pending_bundles');
+      this.inFlightBundles.clear();
+      this.updateOutboxStats([]);
       console.log(`✅ Cleared ${bundlesCount} pending bundles`);
     } catch (error) {
       console.error('❌ Failed to clear pending bundles:', error);
@@ -5016,40 +5172,34 @@ export class HybridSyncService {
   }
 
   public async clearAllStuckData(): Promise<void> {
-    console.log('🧹 Clearing ALL stuck sync data (queue, dead letter, bundles, provisional)...');
+    console.log('🧹 Clearing ALL stuck sync data (dead letter, bundles, provisional)...');
     
     try {
-      // Clear main sync queue
-      const queueCount = this.syncQueue.length;
+      const bundleCount = this.outboxStats.pending;
       const deadCount = this.deadLetterQueue.length;
       
-      this.syncQueue = [];
-      await this.saveSyncQueue();
-      
       // Clear dead letter queue
       this.deadLetterQueue = [];
-      await AsyncStorage.removeItem('dead_letter_queue');
+      await this.storage.removeItem('dead_letter_queue');
       
       // Clear provisional data from bundle system
-      await AsyncStorage.removeItem('provisional_assignments');
-      await AsyncStorage.removeItem('provisional_stock_deltas');
-      await AsyncStorage.removeItem('provisional_balance_deltas');
-      await AsyncStorage.removeItem('provisional_assignment_updates');
-      await AsyncStorage.removeItem('provisional_organization_updates');
-      await AsyncStorage.removeItem('provisional_charges');
+      await this.removeProvisional('provisional_assignments');
+      await this.removeProvisional('provisional_stock_deltas');
+      await this.removeProvisional('provisional_balance_deltas');
+      await this.removeProvisional('provisional_assignment_updates');
+      await this.removeProvisional('provisional_organization_updates');
+      await this.removeProvisional('provisional_charges');
       
       // Clear pending bundles queue
-      await AsyncStorage.removeItem('pending_bundles');
+      await this.storage.removeItem('pending_bundles');
+      this.inFlightBundles.clear();
+      this.updateOutboxStats([]);
       console.log('🧹 Pending bundles queue cleared');
       
-      // Clear processed IDs cache
-      this.processedIds?.clear();
-      await AsyncStorage.removeItem('processed_ids');
-      
       // Reset sync state
       this.isSyncing = false;
       
-      console.log(`✅ All stuck sync data cleared - removed ${queueCount} queue + ${deadCount} dead letter + bundles + provisional data`);
+      console.log(`✅ All stuck sync data cleared - removed ${bundleCount} bundles + ${deadCount} dead letter + provisional data`);
       
     } catch (error) {
       console.error('❌ Failed to clear stuck data:', error);
@@ -5092,11 +5242,11 @@ export class HybridSyncService {
       if (keysToRemove) {
         if (Array.isArray(keysToRemove)) {
           for (const key of keysToRemove) {
-            await AsyncStorage.removeItem(key);
+            await this.removeProvisional(key);
             console.log('🧹 Cleared provisional overlay:', key);
           }
         } else {
-          await AsyncStorage.removeItem(keysToRemove);
+          await this.removeProvisional(keysToRemove);
           console.log('🧹 Cleared provisional overlay:', keysToRemove);
         }
         console.log('✅ Provisional overlays cleared for collection:', collection);
@@ -5155,36 +5305,36 @@ export class HybridSyncService {
       // 5. Try to delete assignments, charges and balance deltas from server (if online)
       if (this.isOnline) {
         try {
-          if (!firebaseService.isReady()) {
+          if (!this.firebase.isReady()) {
             throw new Error('FirebaseService is not ready. Organization ID not set.');
           }
           
           // Delete all assignments from server
-          const serverAssignments = await firebaseService.getAssignments();
+          const serverAssignments = await this.firebase.getAssignments();
           console.log(`🔥 Deleting ${serverAssignments.length} assignments from server...`);
           
           for (const assignment of serverAssignments) {
             try {
-              await firebaseService.deleteAssignment(assignment.id!);
+              await this.firebase.deleteAssignment(assignment.id!);
             } catch (error) {
               console.warn(`⚠️ Failed to delete server assignment ${assignment.id}:`, error);
             }
           }
           
           // Delete all charges from server
-          const serverCharges = await firebaseService.getCharges();
+          const serverCharges = await this.firebase.getCharges();
           console.log(`🔥 Deleting ${serverCharges.length} charges from server...`);
           
           for (const charge of serverCharges) {
             try {
-              await firebaseService.deleteCharge(charge.id!);
+              await this.firebase.deleteCharge(charge.id!);
             } catch (error) {
               console.warn(`⚠️ Failed to delete server charge ${charge.id}:`, error);
             }
           }
           
           // Also clear all balance deltas from Firebase
-          const serverPlayers = await firebaseService.getPlayers();
+          const serverPlayers = await this.firebase.getPlayers();
           console.log(`🔥 Clearing balance deltas for ${serverPlayers.length} players from server...`);
           
           for (const player of serverPlayers) {
@@ -5197,10 +5347,10 @@ export class HybridSyncService {
                 });
                 
                 // Clear balance deltas subcollection first
-                await firebaseService.clearPlayerBalanceDeltas(player.id);
+                await this.firebase.clearPlayerBalanceDeltas(player.id);
                 
                 // Force reset server player balance to exactly zero
-                await firebaseService.forceResetPlayerBalance(player.id);
+                await this.firebase.forceResetPlayerBalance(player.id);
                 
                 console.log(`✅ RESET COMPLETE - Player ${player.name} reset to zero`);
               }
@@ -5214,8 +5364,8 @@ export class HybridSyncService {
       }
       
       // 6. Clear provisional stock deltas and charges
-      await AsyncStorage.removeItem('provisional_stock_deltas');
-      await AsyncStorage.removeItem('provisional_charges');
+      await this.removeProvisional('provisional_stock_deltas');
+      await this.removeProvisional('provisional_charges');
       console.log('✅ Cleared provisional stock deltas and charges');
       
       // 7. Clear cached reports
@@ -5231,90 +5381,6 @@ export class HybridSyncService {
     }
   }
 
-  /**
-   * EMERGENCY: Clear all sync data and rebuild from scratch
-   */
-  public async emergencyCleanAndRebuild(): Promise<void> {
-    console.log('🚨 === EMERGENCY CLEAN AND REBUILD ===');
-    
-    // Clear sync queue
-    const queueCount = this.syncQueue.length;
-    this.syncQueue = [];
-    await this.saveSyncQueue();
-    
-    // Clear dead letter queue
-    this.deadLetterQueue = [];
-    await this.saveDeadLetterQueue();
-    
-    // Clear processed IDs (if exists)
-    if (this.processedIds) {
-      this.processedIds.clear();
-    }
-    
-    console.log(`✅ EMERGENCY CLEAN: Removed ${queueCount} sync items, cleared all queues`);
-    console.log('🚨 === END EMERGENCY CLEAN ===');
-  }
-
-  /**
-   * Debug method to inspect and potentially clean specific legacy items
-   */
-  public async inspectAndCleanLegacyItems(): Promise<void> {
-    console.log('🔍 === LEGACY ITEM INSPECTION ===');
-    
-    const now = Date.now();
-    
-    let removedCount = 0;
-    const itemsToKeep: SyncQueueItem[] = [];
-    
-    for (const item of this.syncQueue) {
-      const age = now - item.timestamp;
-      const ageHours = Math.round(age / (60 * 60 * 1000));
-      const shouldRemove = this.shouldRemoveLegacyItem(item, age);
-      
-      console.log(`📋 Item: ${item.collection}/${item.action} - ID: ${item.id}`);
-      console.log(`   Age: ${ageHours} hours, Retries: ${item.retryCount}, Remove: ${shouldRemove}`);
-      
-      if (shouldRemove) {
-        console.log(`   🗑️ REMOVING: ${item.collection}/${item.action} - ${item.id}`);
-        removedCount++;
-      } else {
-        itemsToKeep.push(item);
-      }
-    }
-    
-    if (removedCount > 0) {
-      this.syncQueue = itemsToKeep;
-      await this.saveSyncQueue();
-      console.log(`✅ Removed ${removedCount} legacy items, kept ${itemsToKeep.length}`);
-    } else {
-      console.log('✅ No legacy items found to remove');
-    }
-    
-    console.log('🔍 === END LEGACY INSPECTION ===');
-  }
-  
-  private shouldRemoveLegacyItem(item: SyncQueueItem, age: number): boolean {
-    const oneHour = 60 * 60 * 1000;
-    const oneDay = 24 * 60 * 60 * 1000;
-    
-    // Remove items older than 1 day
-    if (age > oneDay) {
-      return true;
-    }
-    
-    // Remove items older than 1 hour with high retry counts
-    if (age > oneHour && item.retryCount >= 3) {
-      return true;
-    }
-    
-    // Remove items with excessive retry counts
-    if (item.retryCount >= this.maxRetries) {
-      return true;
-    }
-    
-    return false;
-  }
-
   /**
    * Debug method to check and fix product stock/quantity inconsistencies
    */
@@ -5364,14 +5430,14 @@ export class HybridSyncService {
     try {
       if (this.isOnline) {
         // Try to get from Firebase first
-        const firebaseUsers = await firebaseService.getUsers();
+        const firebaseUsers = await this.firebase.getUsers();
         const userNames = firebaseUsers.map(user => {
           // Ensure consistent name format: use name field if present, otherwise combine firstName + lastName
           const fullName = `${user.firstName || ''} ${user.lastName || ''}`.trim();
           return user.name || fullName || 'Unknown User';
         });
         // Update local storage
-        await AsyncStorage.setItem('staff-users', JSON.stringify(userNames));
+        await this.storage.setItem(STAFF_USERS_KEY, JSON.stringify(userNames));
         return userNames;
       } else {
         // Return from local storage
@@ -5386,105 +5452,488 @@ export class HybridSyncService {
     }
   }
 
-  private async getLocalUserNames(): Promise<string[]> {
-    try {
-      const data = await AsyncStorage.getItem('staff-users');
-      const users = data ? JSON.parse(data) : [];
-      // Handle both string arrays and object arrays
-      return Array.isArray(users) ? users.map((user: any) => typeof user === 'string' ? user : user.name || '') : [];
-    } catch {
-      return [];
+  private async getLocalUserNames(): Promise<string[]> {
+    try {
+      const data = await this.storage.getItem(STAFF_USERS_KEY);
+      const users = data ? JSON.parse(data) : [];
+      // Handle both string arrays and object arrays
+      return Array.isArray(users) ? users.map((user: any) => typeof user === 'string' ? user : user.name || '') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  public async deleteUser(userName: string): Promise<void> {
+    try {
+      const currentUsers = await this.getUsers();
+      const updatedUsers = currentUsers.filter(name => name !== userName);
+      await this.storage.setItem(STAFF_USERS_KEY, JSON.stringify(updatedUsers));
+      // Local only - the list holds names, and a write needs the player id (use deletePlayer)
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      throw error;
+    }
+  }
+
+  // ============================================
+  // PUBLIC ASSIGNMENT MANAGEMENT METHODS
+  // ============================================
+
+  public async getAssignments(): Promise<any[]> {
+    console.log('📖 Reading assignments from local cache (single source of truth)');
+    const localAssignments = await this.getLocalData('assignments');
+    
+    // Check if this is first-time access or cache needs refresh
+    const isFirstTimeOrStale = await this.isFirstTimeOrStaleCache('assignments');
+    
+    if ((localAssignments.length === 0 || isFirstTimeOrStale) && this.isOnline) {
+      console.log('📦 First-time access or stale cache - doing initial assignments sync');
+      try {
+        // Skip initial sync if no organization is set yet
+        if (!this.firebase.isReady()) {
+          console.log('⏭️ Skipping initial assignments sync - no organization set yet');
+          return localAssignments;
+        }
+        
+        const fbService = this.firebase;
+        const serverAssignments = await fbService.getAssignments();
+        
+        await this.markCacheInitialized('assignments');
+        await this.saveLocalData('assignments', serverAssignments);
+        
+        console.log('✅ Initial assignments sync completed:', serverAssignments.length);
+        
+        // Start background hydration
+        this.hydrateAssignmentsFromServer().catch(error => {
+          console.warn('⚠️ Background assignment hydration failed:', error);
+        });
+        
+        return serverAssignments;
+      } catch (error) {
+        console.error('❌ Initial assignments sync failed:', error);
+        return localAssignments;
+      }
+    } else if ((localAssignments.length === 0 || isFirstTimeOrStale) && !this.isOnline) {
+      console.log('📱 Offline first-time access - no assignments available');
+      return [];
+    }
+    
+    // Cache has data - do background hydration as normal
+    if (this.isOnline) {
+      this.hydrateAssignmentsFromServer().catch(error => {
+        console.warn('⚠️ Background assignment hydration failed:', error);
+      });
+    }
+    
+    console.log('✅ Returning local assignments:', localAssignments.length);
+    return localAssignments;
+  }
+
+  // ========================================
+  // INCREMENTAL PULL (updatedAt cursors + tombstones)
+  // ========================================
+
+  private getSyncCursorKey(collection: string): string {
+    return `sync_cursor_${this.firebase.getOrganizationId()}_${collection}`;
+  }
+
+  private async getSyncCursor(collection: string): Promise<SyncCursor | null> {
+    try {
+      const stored = await this.storage.getItem(this.getSyncCursorKey(collection));
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn(`⚠️ Failed to read sync cursor for ${collection}:`, error);
+      return null;
+    }
+  }
+
+  private async saveSyncCursor(collection: string, cursor: SyncCursor): Promise<void> {
+    await this.storage.setItem(this.getSyncCursorKey(collection), JSON.stringify(cursor));
+  }
+
+  /**
+   * Drop the pull cursor so the next hydration downloads the whole collection
+   */
+  public async clearSyncCursor(collection: string): Promise<void> {
+    try {
+      await this.storage.removeItem(this.getSyncCursorKey(collection));
+    } catch (error) {
+      console.warn(`⚠️ Failed to clear sync cursor for ${collection}:`, error);
+    }
+  }
+
+  /**
+   * Convert a server timestamp (Firestore Timestamp, ISO string or millis) to millis
+   */
+  private toMillis(value: any): number | null {
+    if (!value) return null;
+    if (typeof value === 'number') return value;
+    if (typeof value.toMillis === 'function') return value.toMillis();
+    if (typeof value.seconds === 'number') {
+      return value.seconds * 1000 + Math.floor((value.nanoseconds || 0) / 1000000);
+    }
+    if (typeof value === 'string') {
+      const parsed = new Date(value).getTime();
+      return isNaN(parsed) ? null : parsed;
+    }
+    return null;
+  }
+
+  /**
+   * Pull a collection from the server - incremental when a valid cursor exists,
+   * otherwise a full re-hydrate that seeds the cursor for next time
+   */
+  private async pullCollectionChanges(
+    collection: PullCollection,
+    fullHydrate: () => Promise<any[] | null>
+  ): Promise<void> {
+    if (!this.firebase.isReady()) {
+      console.log(`⏭️ Skipping ${collection} pull - no organization set yet`);
+      return;
+    }
+
+    const cursor = await this.getSyncCursor(collection);
+    const localData = await this.getLocalData(collection);
+    const needsFullHydrate = !cursor ||
+      cursor.schemaVersion !== SYNC_CURSOR_SCHEMA_VERSION ||
+      localData.length === 0;
+
+    const mode = needsFullHydrate ? 'full' : 'incremental';
+    this.emit('hydrationProgress', { collection, phase: 'started', mode });
+
+    if (needsFullHydrate) {
+      const startedAt = Date.now();
+      const serverDocs = await fullHydrate();
+      if (serverDocs === null) {
+        this.emit('hydrationProgress', { collection, phase: 'failed', mode });
+        return;
+      }
+
+      // Seed both cursors slightly before the download started - re-applying a few docs is harmless
+      const seed: ChangeCursor = { updatedAt: startedAt - SYNC_CURSOR_SKEW_MS, docId: '' };
+      await this.saveSyncCursor(collection, {
+        schemaVersion: SYNC_CURSOR_SCHEMA_VERSION,
+        deviceId: this.deviceId,
+        docs: seed,
+        tombstones: seed,
+        lastPulledAt: startedAt,
+      });
+      console.log(`📍 Seeded ${collection} sync cursor after full hydrate (${serverDocs.length} docs)`);
+      this.emit('hydrationProgress', { collection, phase: 'completed', mode, changed: serverDocs.length });
+      return;
+    }
+
+    try {
+      const { changed, deleted } = await this.pullIncrementalChanges(collection, cursor!, localData);
+      this.emit('hydrationProgress', { collection, phase: 'completed', mode, changed, deleted });
+    } catch (error) {
+      console.error(`❌ Incremental ${collection} pull failed:`, error);
+      this.emit('hydrationProgress', { collection, phase: 'failed', mode });
+    }
+  }
+
+  /**
+   * Page through docs and tombstones changed since the cursor and apply them via applyOp
+   */
+  private async pullIncrementalChanges(
+    collection: PullCollection,
+    cursor: SyncCursor,
+    localData: any[]
+  ): Promise<{ changed: number; deleted: number }> {
+    console.log(`🔄 Background: Pulling ${collection} changes since ${new Date(cursor.docs?.updatedAt || 0).toISOString()}`);
+    const localIds = new Set(localData.map((item: any) => item.id));
+    let docsCursor = cursor.docs;
+    let tombstonesCursor = cursor.tombstones;
+    let changed = 0;
+    let deleted = 0;
+
+    let hasMore = true;
+    while (hasMore) {
+      const page = await this.firebase.getChangedDocs(collection, docsCursor);
+      for (const serverDoc of page.docs) {
+        const result = await this.applyServerDoc(collection, serverDoc, localIds);
+        if (result === 'changed') changed++;
+        if (result === 'deleted') deleted++;
+      }
+      docsCursor = page.cursor || docsCursor;
+      hasMore = page.hasMore;
+    }
+
+    hasMore = true;
+    while (hasMore) {
+      const page = await this.firebase.getTombstonesSince(collection, tombstonesCursor);
+      for (const tombstone of page.docs) {
+        if (await this.applyServerTombstone(collection, tombstone, localIds)) {
+          deleted++;
+        }
+      }
+      tombstonesCursor = page.cursor || tombstonesCursor;
+      hasMore = page.hasMore;
+    }
+
+    await this.saveSyncCursor(collection, {
+      ...cursor,
+      deviceId: this.deviceId,
+      docs: docsCursor,
+      tombstones: tombstonesCursor,
+      lastPulledAt: Date.now(),
+    });
+
+    console.log(`✅ Incremental ${collection} pull complete: ${changed} changed, ${deleted} deleted`);
+    return { changed, deleted };
+  }
+
+  /**
+   * Apply one changed server doc - products and players are soft-deleted, so inactive docs are removals
+   */
+  private async applyServerDoc(
+    collection: PullCollection,
+    serverDoc: any,
+    localIds: Set<string>
+  ): Promise<'changed' | 'deleted' | null> {
+    const timestamp = this.toMillis(serverDoc.updatedAt) || Date.now();
+
+    if (serverDoc.isActive === false && collection !== 'assignments') {
+      if (!localIds.has(serverDoc.id)) return null;
+      await this.applyServerOp(collection, 'delete', serverDoc.id, {}, timestamp);
+      localIds.delete(serverDoc.id);
+      return 'deleted';
+    }
+
+    const operationType = localIds.has(serverDoc.id) ? 'update' : 'create';
+    await this.applyServerOp(collection, operationType, serverDoc.id, serverDoc, timestamp);
+    localIds.add(serverDoc.id);
+    return 'changed';
+  }
+
+  private async applyServerTombstone(collection: PullCollection, tombstone: Tombstone, localIds: Set<string>): Promise<boolean> {
+    if (!localIds.has(tombstone.entityId)) return false;
+    console.log(`🗑️ Server tombstone: ${collection} ${tombstone.entityId}`);
+    await this.applyServerOp(collection, 'delete', tombstone.entityId, {}, this.toMillis(tombstone.deletedAt) || Date.now());
+    localIds.delete(tombstone.entityId);
+    return true;
+  }
+
+  // ============================================
+  // REALTIME LISTENERS
+  // ============================================
+
+  /**
+   * Keep the local cache live with snapshot listeners per collection while online and in the
+   * foreground. Remote changes go through applyOp like incremental pulls.
+   */
+  public async startRealtimeSync(): Promise<void> {
+    this.realtimeRequested = true;
+    await this.attachRealtimeListeners();
+  }
+
+  public stopRealtimeSync(): void {
+    this.realtimeRequested = false;
+    this.detachRealtimeListeners();
+  }
+
+  public isRealtimeSyncActive(): boolean {
+    return this.realtimeListeners.size > 0;
+  }
+
+  private canListenForChanges(): boolean {
+    return this.realtimeRequested && this.isOnline && this.appIsActive && !this.startupError && this.firebase.isReady();
+  }
+
+  private updateRealtimeListeners(): void {
+    if (this.canListenForChanges()) {
+      this.attachRealtimeListeners().catch(error => {
+        console.warn('⚠️ Failed to attach realtime listeners:', error);
+      });
+    } else {
+      this.detachRealtimeListeners();
+    }
+  }
+
+  private initializeAppStateListener(): void {
+    AppState.addEventListener('change', (state: AppStateStatus) => {
+      const isActive = state === 'active';
+      if (isActive === this.appIsActive) return;
+      this.appIsActive = isActive;
+      console.log(isActive ? '📱 App foregrounded' : '📱 App backgrounded');
+      this.updateRealtimeListeners();
+    });
+  }
+
+  private async attachRealtimeListeners(): Promise<void> {
+    for (const collection of REALTIME_COLLECTIONS) {
+      if (!this.canListenForChanges() || this.realtimeListeners.has(collection)) continue;
+
+      // Catch up on whatever changed while detached, then listen from the saved cursor
+      await this.hydrateCollectionFromServer(collection);
+      const cursor = await this.getSyncCursor(collection);
+      if (!cursor || !this.canListenForChanges() || this.realtimeListeners.has(collection)) continue;
+
+      const onError = (error: Error) => this.handleRealtimeError(collection, error);
+      this.realtimeListeners.set(collection, [
+        this.firebase.subscribeToChangedDocs(collection, cursor.docs, docs => {
+          this.enqueueRealtimeWork(collection, () => this.applyRealtimeDocs(collection, docs));
+        }, onError),
+        this.firebase.subscribeToTombstones(collection, cursor.tombstones, tombstones => {
+          this.enqueueRealtimeWork(collection, () => this.applyRealtimeTombstones(collection, tombstones));
+        }, onError),
+      ]);
+      console.log(`📡 Realtime listener attached: ${collection}`);
+    }
+  }
+
+  private detachRealtimeListeners(): void {
+    if (this.realtimeRetryTimer) {
+      clearTimeout(this.realtimeRetryTimer);
+      this.realtimeRetryTimer = null;
     }
+    this.realtimeListeners.forEach((unsubscribes, collection) => {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+      console.log(`📡 Realtime listener detached: ${collection}`);
+    });
+    this.realtimeListeners.clear();
   }
 
-  public async deleteUser(userName: string): Promise<void> {
-    try {
-      const currentUsers = await this.getUsers();
-      const updatedUsers = currentUsers.filter(name => name !== userName);
-      await AsyncStorage.setItem('staff-users', JSON.stringify(updatedUsers));
-      
-      // Add to sync queue if online
-      if (this.isOnline) {
-        this.addToSyncQueue({
-          id: `delete_user_${userName}_${Date.now()}`,
-          action: 'delete',
-          collection: 'staff-users',
-          data: { name: userName }
-        });
+  /**
+   * A failed listener is dead - drop it and re-attach (after a catch-up pull) with backoff
+   */
+  private handleRealtimeError(collection: PullCollection, error: Error): void {
+    console.warn(`⚠️ Realtime ${collection} listener failed:`, error);
+    this.realtimeListeners.get(collection)?.forEach(unsubscribe => unsubscribe());
+    this.realtimeListeners.delete(collection);
+
+    if (this.realtimeRetryTimer || !this.canListenForChanges()) return;
+
+    const delay = this.realtimeRetryDelay;
+    this.realtimeRetryDelay = Math.min(delay * 2, REALTIME_RETRY_MAX_MS);
+    this.realtimeRetryTimer = setTimeout(() => {
+      this.realtimeRetryTimer = null;
+      this.updateRealtimeListeners();
+    }, delay);
+  }
+
+  private enqueueRealtimeWork(collection: PullCollection, work: () => Promise<void>): void {
+    this.realtimeRetryDelay = REALTIME_RETRY_BASE_MS; // Snapshots are arriving again
+    const previous = this.realtimeQueues.get(collection) || Promise.resolve();
+    this.realtimeQueues.set(collection, previous.then(work).catch(error => {
+      console.warn(`⚠️ Failed to apply realtime ${collection} changes:`, error);
+    }));
+  }
+
+  private async applyRealtimeDocs(collection: PullCollection, docs: any[]): Promise<void> {
+    const localIds = new Set((await this.getLocalData(collection)).map((item: any) => item.id));
+    let changed = 0;
+    let deleted = 0;
+    let latest: ChangeCursor | null = null;
+
+    for (const serverDoc of docs) {
+      const result = await this.applyServerDoc(collection, serverDoc, localIds);
+      if (result === 'changed') changed++;
+      if (result === 'deleted') deleted++;
+
+      const updatedAt = this.toMillis(serverDoc.updatedAt);
+      if (updatedAt !== null) {
+        latest = this.laterCursor(latest, { updatedAt, docId: serverDoc.id });
       }
-    } catch (error) {
-      console.error('Error deleting user:', error);
-      throw error;
     }
+
+    const cursor = await this.getSyncCursor(collection);
+    if (cursor && latest) {
+      await this.saveSyncCursor(collection, { ...cursor, docs: this.laterCursor(cursor.docs, latest), lastPulledAt: Date.now() });
+    }
+
+    console.log(`📡 Realtime ${collection}: ${changed} changed, ${deleted} deleted`);
+    this.emit('hydrationProgress', { collection, phase: 'completed', mode: 'realtime', changed, deleted });
   }
 
-  // ============================================
-  // PUBLIC ASSIGNMENT MANAGEMENT METHODS
-  // ============================================
+  private async applyRealtimeTombstones(collection: PullCollection, tombstones: Tombstone[]): Promise<void> {
+    const localIds = new Set((await this.getLocalData(collection)).map((item: any) => item.id));
+    let deleted = 0;
+    let latest: ChangeCursor | null = null;
 
-  public async getAssignments(): Promise<any[]> {
-    console.log('📖 Reading assignments from local cache (single source of truth)');
-    const localAssignments = await this.getLocalData('assignments');
-    
-    // Check if this is first-time access or cache needs refresh
-    const isFirstTimeOrStale = await this.isFirstTimeOrStaleCache('assignments');
-    
-    if ((localAssignments.length === 0 || isFirstTimeOrStale) && this.isOnline) {
-      console.log('📦 First-time access or stale cache - doing initial assignments sync');
-      try {
-        // Skip initial sync if no organization is set yet
-        if (!firebaseService.isReady()) {
-          console.log('⏭️ Skipping initial assignments sync - no organization set yet');
-          return localAssignments;
-        }
-        
-        const fbService = firebaseService;
-        const serverAssignments = await fbService.getAssignments();
-        
-        await this.markCacheInitialized('assignments');
-        await this.saveLocalData('assignments', serverAssignments);
-        
-        console.log('✅ Initial assignments sync completed:', serverAssignments.length);
-        
-        // Start background hydration
-        this.hydrateAssignmentsFromServer().catch(error => {
-          console.warn('⚠️ Background assignment hydration failed:', error);
-        });
-        
-        return serverAssignments;
-      } catch (error) {
-        console.error('❌ Initial assignments sync failed:', error);
-        return localAssignments;
+    for (const tombstone of tombstones) {
+      if (await this.applyServerTombstone(collection, tombstone, localIds)) {
+        deleted++;
+      }
+      const updatedAt = this.toMillis(tombstone.updatedAt);
+      if (updatedAt !== null) {
+        latest = this.laterCursor(latest, { updatedAt, docId: tombstone.id });
       }
-    } else if ((localAssignments.length === 0 || isFirstTimeOrStale) && !this.isOnline) {
-      console.log('📱 Offline first-time access - no assignments available');
-      return [];
     }
-    
-    // Cache has data - do background hydration as normal
-    if (this.isOnline) {
-      this.hydrateAssignmentsFromServer().catch(error => {
-        console.warn('⚠️ Background assignment hydration failed:', error);
-      });
+
+    const cursor = await this.getSyncCursor(collection);
+    if (cursor && latest) {
+      await this.saveSyncCursor(collection, { ...cursor, tombstones: this.laterCursor(cursor.tombstones, latest), lastPulledAt: Date.now() });
     }
-    
-    console.log('✅ Returning local assignments:', localAssignments.length);
-    return localAssignments;
+
+    if (deleted > 0) {
+      this.emit('hydrationProgress', { collection, phase: 'completed', mode: 'realtime', changed: 0, deleted });
+    }
+  }
+
+  private laterCursor(a: ChangeCursor | null, b: ChangeCursor): ChangeCursor {
+    if (!a) return b;
+    if (b.updatedAt !== a.updatedAt) return b.updatedAt > a.updatedAt ? b : a;
+    return b.docId > a.docId ? b : a;
+  }
+
+  private async hydrateCollectionFromServer(collection: PullCollection): Promise<void> {
+    switch (collection) {
+      case 'players':
+        return this.hydratePlayersFromServer();
+      case 'products':
+        return this.hydrateProductsFromServer();
+      case 'assignments':
+        return this.hydrateAssignmentsFromServer();
+    }
+  }
+
+  private async applyServerOp(
+    collection: PullCollection,
+    type: 'create' | 'update' | 'delete',
+    entityId: string,
+    data: any,
+    timestamp: number
+  ): Promise<void> {
+    const operation: Operation = {
+      id: generateUUID(),
+      type,
+      collection,
+      entityId,
+      data,
+      metadata: {
+        // Clock and fields of the last device write, stored on the doc by getWriteMetadata
+        deviceId: data?.metadata?.deviceId || 'server',
+        timestamp,
+        version: data?.metadata?.version || 0,
+        vectorClock: type === 'update' && hasVectorClock(data?.metadata?.vectorClock) ? data.metadata.vectorClock : {},
+        source: 'server',
+        ...(Array.isArray(data?.metadata?.fields) ? { fields: data.metadata.fields } : {})
+      }
+    };
+    await this.applyOp(operation);
   }
 
   /**
    * Background hydration from server - applies server updates via applyOp
    */
   public async hydrateAssignmentsFromServer(): Promise<void> {
+    await this.pullCollectionChanges('assignments', () => this.fullHydrateAssignmentsFromServer());
+  }
+
+  /**
+   * Full re-hydrate - downloads the whole collection; returns server docs, or null if skipped/failed
+   */
+  private async fullHydrateAssignmentsFromServer(): Promise<any[] | null> {
     try {
       // Skip sync if no organization is set yet (e.g., during email verification)
-      if (!firebaseService.isReady()) {
+      if (!this.firebase.isReady()) {
         console.log('⏭️ Skipping assignment hydration - no organization set yet');
-        return;
+        return null;
       }
       
       console.log('🔄 Background: Hydrating assignments from server');
-      const serverAssignments = await firebaseService.getAssignments();
+      const serverAssignments = await this.firebase.getAssignments();
       
       // Get current local assignments once for efficiency
       const localAssignments = await this.getLocalData('assignments');
@@ -5596,8 +6045,10 @@ export class HybridSyncService {
       }
 
       console.log('✅ Server assignment hydration completed via applyOp');
+      return serverAssignments;
     } catch (error) {
       console.error('❌ Server assignment hydration failed:', error);
+      return null;
     }
   }
 
@@ -5687,37 +6138,26 @@ export class HybridSyncService {
     }
   }
 
+  /**
+   * Hard delete - stock and balance are left untouched. Sales should be voided with
+   * createVoidSaleBundle so their effects are reversed and the record is kept for audit.
+   */
   public async deleteAssignment(assignmentId: string): Promise<void> {
     try {
-      // Offline-first: Remove from local storage immediately
-      const localAssignments = await this.getLocalAssignments();
-      const updatedAssignments = localAssignments.filter(a => a.id !== assignmentId);
-      await AsyncStorage.setItem('assignments', JSON.stringify(updatedAssignments));
-
-      // If online, delete from Firebase
-      if (this.isOnline) {
-        try {
-          await firebaseService.deleteAssignment(assignmentId);
-          console.log('✅ Assignment deleted from Firebase:', assignmentId);
-        } catch (error) {
-          console.warn('⚠️ Failed to delete from Firebase, will sync when online:', error);
-          // Add to sync queue for later
-          this.addToSyncQueue({
-            id: assignmentId,
-            action: 'delete',
-            collection: 'assignments',
-            data: { id: assignmentId, deleted: true }
-          });
+      await this.applyOp({
+        id: generateUUID(),
+        type: 'delete',
+        collection: 'assignments',
+        entityId: assignmentId,
+        data: {},
+        metadata: {
+          deviceId: this.deviceId,
+          timestamp: Date.now(),
+          version: this.incrementVectorClock(),
+          vectorClock: Object.fromEntries(this.vectorClock),
+          source: 'local'
         }
-      } else {
-        // Add to sync queue for when we come back online
-        this.addToSyncQueue({
-          id: assignmentId,
-          action: 'delete',
-          collection: 'assignments',
-          data: { id: assignmentId, deleted: true }
-        });
-      }
+      });
 
       console.log('✅ Assignment deleted (offline-first):', assignmentId);
     } catch (error) {
@@ -5782,12 +6222,11 @@ export class HybridSyncService {
       throw new Error('Cannot sync while offline');
     }
     
-    // Reset all timestamps to allow immediate retry
-    this.syncQueue.forEach(item => {
-      item.timestamp = Date.now();
-    });
-    
-    await this.saveSyncQueue();
+    // Clear backoff so every lane runs now
+    const pendingBundles = await this.getPendingBundles();
+    if (pendingBundles.some(bundle => bundle.nextAttemptAt)) {
+      await this.savePendingBundles(pendingBundles.map(({ nextAttemptAt, ...bundle }) => bundle));
+    }
     return this.processSyncQueue();
   }
 
@@ -5801,8 +6240,8 @@ export class HybridSyncService {
   private async isFirstTimeOrStaleCache(collection: string): Promise<boolean> {
     try {
       const cacheKey = `cache_initialized_${collection}_${this.getCurrentUserKey()}`;
-      const initialized = await AsyncStorage.getItem(cacheKey);
-      const lastSync = await AsyncStorage.getItem(`last_sync_${collection}`);
+      const initialized = await this.storage.getItem(cacheKey);
+      const lastSync = await this.storage.getItem(`last_sync_${collection}`);
       
       // Not initialized OR last sync was more than 1 hour ago
       const oneHourAgo = Date.now() - (60 * 60 * 1000);
@@ -5823,8 +6262,8 @@ export class HybridSyncService {
       const cacheKey = `cache_initialized_${collection}_${this.getCurrentUserKey()}`;
       const syncKey = `last_sync_${collection}`;
       
-      await AsyncStorage.setItem(cacheKey, 'true');
-      await AsyncStorage.setItem(syncKey, Date.now().toString());
+      await this.storage.setItem(cacheKey, 'true');
+      await this.storage.setItem(syncKey, Date.now().toString());
     } catch (error) {
       console.warn('Failed to mark cache as initialized:', error);
     }
@@ -5855,7 +6294,7 @@ export class HybridSyncService {
     
     try {
       // Get latest server state for comparison
-      const fbService = firebaseService;
+      const fbService = this.firebase;
       const [serverPlayers, serverAssignments] = await Promise.all([
         fbService.getPlayers(),
         fbService.getAssignments()
@@ -5883,21 +6322,8 @@ export class HybridSyncService {
       if (localItem && this.hasConflict(localItem, serverItem)) {
         console.log(`🔄 Resolving conflict for ${collection}:${serverItem.id}`);
         
-        // Apply server update through applyOp for consistent handling
-        await this.applyOp({
-          id: generateUUID(),
-          type: 'update',
-          collection: collection as any,
-          entityId: serverItem.id,
-          data: serverItem,
-          metadata: {
-            deviceId: 'server',
-            timestamp: Date.now(),
-            version: serverItem.version || 1,
-            vectorClock: serverItem.vectorClock || {},
-            source: 'server'
-          }
-        });
+        // Apply server update through applyOp for consistent handling (causal when the doc carries a clock)
+        await this.applyServerOp(collection as PullCollection, 'update', serverItem.id, serverItem, Date.now());
       }
     }
   }
@@ -5906,8 +6332,14 @@ export class HybridSyncService {
    * Check if there's a conflict between local and server versions
    */
   private hasConflict(localItem: any, serverItem: any): boolean {
-    // Simple timestamp-based conflict detection
-    // In production, would use vector clocks for proper causal ordering
+    const localClock = localItem.version?.vectorClock;
+    const serverClock = serverItem.metadata?.vectorClock;
+    if (hasVectorClock(localClock) && hasVectorClock(serverClock) &&
+        compareVectorClocks(serverClock, localClock) !== 'equal') {
+      return true;
+    }
+
+    // Unclocked docs (legacy writes, server-side counters) - timestamp check
     const localTimestamp = localItem.updatedAt || 0;
     const serverTimestamp = serverItem.updatedAt || 0;
     
@@ -5922,17 +6354,19 @@ export class HybridSyncService {
     console.log('🔐 Starting safe user logout process');
     
     try {
-      // Step 1: Force sync all pending operations
-      if (this.syncQueue.length > 0) {
-        console.log(`📤 Syncing ${this.syncQueue.length} pending operations before logout`);
+      // Step 1: Force sync all pending bundles
+      const pendingCount = await this.getPendingBundlesCount();
+      if (pendingCount > 0) {
+        console.log(`📤 Syncing ${pendingCount} pending bundles before logout`);
         await this.forceSyncNow();
         
         // Wait a bit more to ensure sync completed
         await new Promise(resolve => setTimeout(resolve, 2000));
         
-        // Check if sync queue is now empty
-        if (this.syncQueue.length > 0) {
-          throw new Error(`Cannot logout safely - ${this.syncQueue.length} operations still pending sync`);
+        // Check if the outbox is now empty
+        const remaining = await this.getPendingBundlesCount();
+        if (remaining > 0) {
+          throw new Error(`Cannot logout safely - ${remaining} bundles still pending sync`);
         }
       }
       
@@ -5946,6 +6380,13 @@ export class HybridSyncService {
       
       // Step 3: Only now is it safe to clear cache
       await this.clearCacheAfterSync();
+
+      // Step 4: Whatever is left is re-encrypted under a key the previous user never had
+      try {
+        await this.rotateStorageKey();
+      } catch (error) {
+        console.warn('⚠️ Failed to rotate local storage key on logout:', error);
+      }
       
       console.log('✅ Safe logout completed - all data preserved');
     } catch (error) {
@@ -5958,14 +6399,15 @@ export class HybridSyncService {
    * Internal method to clear cache only after sync verification
    */
   private async clearCacheAfterSync(): Promise<void> {
+    this.stopRealtimeSync();
     const collections = ['players', 'assignments', 'products', 'staff-users', 'reports', 'charges', 'organizations'];
     const currentUserKey = this.getCurrentUserKey();
     
     // Clear all collection data (using actual storage keys, not _data suffix)
     for (const collection of collections) {
-      await AsyncStorage.removeItem(collection); // Remove actual data
-      await AsyncStorage.removeItem(`cache_initialized_${collection}_${currentUserKey}`);
-      await AsyncStorage.removeItem(`last_sync_${collection}`);
+      await this.clearLocalData(collection); // Remove actual data
+      await this.storage.removeItem(`cache_initialized_${collection}_${currentUserKey}`);
+      await this.storage.removeItem(`last_sync_${collection}`);
     }
     
     // Clear organization-specific data that might be cached separately
@@ -5986,14 +6428,12 @@ export class HybridSyncService {
         console.log('🧹 Clearing organization-specific keys:', orgSpecificKeys);
         await AsyncStorage.multiRemove(orgSpecificKeys);
       }
+
+      const cursorKeys = (await this.storage.getAllKeys()).filter(key => key.startsWith('sync_cursor_'));
+      await this.storage.multiRemove(cursorKeys);
     } catch (error) {
       console.warn('Failed to clear organization-specific keys:', error);
     }
-    
-    // Clear sync queue and processed IDs
-    await AsyncStorage.removeItem('syncQueue');
-    this.syncQueue = [];
-    this.processedIds.clear();
   }
 
   /**
@@ -6001,9 +6441,9 @@ export class HybridSyncService {
    */
   private async verifyAllDataSynced(): Promise<void> {
     // This would ideally check server timestamps vs local timestamps
-    // For now, we ensure sync queue is empty and do a final push
-    if (this.syncQueue.length > 0) {
-      throw new Error('Sync queue not empty');
+    // For now, we ensure the outbox is empty and do a final push
+    if ((await this.getPendingBundlesCount()) > 0) {
+      throw new Error('Outbox not empty');
     }
     
     // Could add additional verification by comparing local vs server data
@@ -6021,14 +6461,163 @@ export class HybridSyncService {
     }
 
     console.warn('🚨 EMERGENCY LOGOUT - Data loss may occur!');
-    console.warn(`⚠️ Losing ${this.syncQueue.length} pending operations`);
+    console.warn(`⚠️ Losing ${this.outboxStats.pending} pending bundles`);
     
     // Clear everything regardless of sync status
     await this.clearCacheAfterSync();
+    await this.secureWipeLocalData();
     
     console.warn('🚨 Emergency logout completed - some data may have been lost');
   }
 
+  /**
+   * Re-encrypt local sync data under a fresh storage key (no-op on unencrypted backends)
+   */
+  public async rotateStorageKey(): Promise<void> {
+    await this.storageReady;
+    if (this.storage instanceof EncryptedStorageAdapter) {
+      await this.storage.rotateKey();
+    }
+  }
+
+  /**
+   * Delete the outbox, dead letters, provisional state and caches, then destroy the storage key
+   * so nothing left on disk can be read back
+   */
+  public async secureWipeLocalData(): Promise<void> {
+    await this.storageReady;
+    this.stopRealtimeSync();
+
+    if (this.storage instanceof EncryptedStorageAdapter) {
+      await this.storage.secureWipe(SECURE_WIPE_KEEP_KEYS);
+    } else {
+      const keys = (await this.storage.getAllKeys())
+        .filter(key => isSyncStorageKey(key) && !SECURE_WIPE_KEEP_KEYS.includes(key));
+      await this.storage.multiRemove(keys);
+      for (const collection of RECORD_COLLECTIONS) {
+        await this.storage.clearCollection(collection);
+      }
+    }
+
+    this.deadLetterQueue = [];
+    this.inFlightBundles.clear();
+    this.updateOutboxStats([]);
+    this.overlayStore.invalidate();
+    console.log('🔐 Local sync data securely wiped');
+  }
+
+  // ============================================
+  // DEVICE HANDOVER
+  // ============================================
+
+  /**
+   * Pack pending bundles and provisional state into a signed handover for another
+   * device in this organization. Nothing is removed here - the caller logs out afterwards.
+   */
+  public async exportHandover(): Promise<{ code: string; envelope: string; frames: string[]; header: HandoverHeader }> {
+    await this.ready;
+    const organizationId = this.firebase.getOrganizationId();
+    if (!organizationId) {
+      throw new Error('Cannot export a handover without an organization');
+    }
+
+    const provisional: Record<string, any> = {};
+    for (const key of Object.keys(HANDOVER_PROVISIONAL_KEYS)) {
+      const raw = await this.storage.getItem(key);
+      if (raw) provisional[key] = JSON.parse(raw);
+    }
+
+    const payload: HandoverPayload = {
+      handoverId: generateUUID(),
+      organizationId,
+      sourceDeviceId: this.deviceId,
+      createdAt: Date.now(),
+      createdBy: FirebaseAuth.currentUser?.email || undefined,
+      bundles: await this.getPendingBundles(),
+      provisional,
+    };
+
+    const code = generateHandoverCode(Crypto.getRandomBytes(10));
+    const envelope = sealHandover(payload, code, Crypto.getRandomBytes(12));
+    console.log(`📤 Handover ${payload.handoverId} exported: ${payload.bundles.length} bundles`);
+    return { code, envelope, frames: splitHandoverFrames(envelope), header: readHandoverHeader(envelope) };
+  }
+
+  /**
+   * What a handover contains - checks the checksum, needs no code
+   */
+  public previewHandover(envelope: string): HandoverHeader {
+    return readHandoverHeader(envelope);
+  }
+
+  /**
+   * Import another device's handover: bundles are queued here under this device's sequence (the
+   * exporter's watermark no longer covers them) but keep their original opIds, so anything the
+   * exporter did manage to commit is skipped by the server's appliedOps markers. Queue items from
+   * handovers made before the bundle outbox are converted the way schema migration v6 converts them.
+   */
+  public async importHandover(envelope: string, code: string): Promise<{ bundles: number; skippedBundles: number }> {
+    await this.ready;
+    this.assertEngineStarted();
+
+    const payload = openHandover(envelope, code);
+    if (payload.organizationId !== this.firebase.getOrganizationId()) {
+      throw new Error('This handover belongs to a different organization');
+    }
+    if (payload.sourceDeviceId === this.deviceId) {
+      throw new Error('This handover was exported from this device');
+    }
+
+    const importsRaw = await this.storage.getItem(SYNC_HANDOVER_IMPORTS_KEY);
+    const imports: any[] = importsRaw ? JSON.parse(importsRaw) : [];
+    const previous = imports.find(entry => entry.handoverId === payload.handoverId);
+    if (previous) {
+      throw new Error(`This handover was already imported on ${new Date(previous.importedAt).toLocaleString()}`);
+    }
+
+    // Provisional state first, so the UI shows the sales as soon as their bundles are queued
+    for (const [key, incoming] of Object.entries(payload.provisional || {})) {
+      if (!HANDOVER_PROVISIONAL_KEYS[key]) continue;
+      const raw = await this.storage.getItem(key);
+      const merged = mergeProvisionalValue(key, raw ? JSON.parse(raw) : null, incoming);
+      await this.writeProvisional(key, merged);
+    }
+
+    const legacyBundles = (payload.queueItems || []).map(queueItemToBundle).filter(Boolean);
+    const pendingIds = new Set((await this.getPendingBundles()).map(bundle => bundle.bundleId));
+    let bundles = 0;
+    let skippedBundles = 0;
+    for (const bundle of [...payload.bundles, ...legacyBundles]) {
+      if (pendingIds.has(bundle.bundleId)) {
+        skippedBundles++;
+        continue;
+      }
+      const { deviceId, seq, ...rest } = bundle;
+      await this.enqueueBundleForSync({
+        ...rest,
+        handedOverFrom: { handoverId: payload.handoverId, deviceId, seq },
+      });
+      bundles++;
+    }
+
+    imports.push({
+      handoverId: payload.handoverId,
+      sourceDeviceId: payload.sourceDeviceId,
+      createdBy: payload.createdBy,
+      importedAt: Date.now(),
+      bundles,
+    });
+    await this.storage.setItem(SYNC_HANDOVER_IMPORTS_KEY, JSON.stringify(imports));
+
+    console.log(`📥 Handover ${payload.handoverId} imported: ${bundles} bundles (${skippedBundles} already queued)`);
+    if (this.isOnline) {
+      this.processSyncQueue().catch(error => {
+        console.warn('⚠️ Sync after handover import failed:', error);
+      });
+    }
+    return { bundles, skippedBundles };
+  }
+
   // ============================================
   // PLAYER OPERATIONS
   // ============================================
@@ -6075,15 +6664,22 @@ export class HybridSyncService {
    * Background hydration from server - applies server updates via applyOp
    */
   public async hydratePlayersFromServer(): Promise<void> {
+    await this.pullCollectionChanges('players', () => this.fullHydratePlayersFromServer());
+  }
+
+  /**
+   * Full re-hydrate - downloads the whole collection; returns server docs, or null if skipped/failed
+   */
+  private async fullHydratePlayersFromServer(): Promise<any[] | null> {
     try {
       // Skip sync if no organization is set yet (e.g., during email verification)
-      if (!firebaseService.isReady()) {
+      if (!this.firebase.isReady()) {
         console.log('⏭️ Skipping players hydration - no organization set yet');
-        return;
+        return null;
       }
       
       console.log('🔄 Background: Hydrating players from server');
-      const serverPlayers = await firebaseService.getPlayers();
+      const serverPlayers = await this.firebase.getPlayers();
       
       // Get current local players once for efficiency
       const localPlayers = await this.getLocalData('players');
@@ -6195,9 +6791,10 @@ export class HybridSyncService {
       }
 
       console.log('✅ Server hydration completed via applyOp');
-      
+      return serverPlayers;
     } catch (error) {
       console.error('❌ Server hydration failed:', error);
+      return null;
     }
   }
 
@@ -6205,19 +6802,26 @@ export class HybridSyncService {
    * Background hydration of products from server (similar to players)
    */
   public async hydrateProductsFromServer(): Promise<void> {
+    await this.pullCollectionChanges('products', () => this.fullHydrateProductsFromServer());
+  }
+
+  /**
+   * Full re-hydrate - downloads the whole collection; returns server docs, or null if skipped/failed
+   */
+  private async fullHydrateProductsFromServer(): Promise<any[] | null> {
     try {
       // Skip sync if no organization is set yet (e.g., during email verification)
-      if (!firebaseService.isReady()) {
+      if (!this.firebase.isReady()) {
         console.log('⏭️ Skipping products hydration - no organization set yet');
-        return;
+        return null;
       }
       
       console.log('📦 Syncing with server and merging with local changes');
-      const serverProducts = await firebaseService.getProducts();
+      const serverProducts = await this.firebase.getProducts();
       
       if (!serverProducts || serverProducts.length === 0) {
         console.log('✅ Server product hydration completed via applyOp');
-        return;
+        return serverProducts || [];
       }
 
       // Get current local products to determine create vs update
@@ -6300,8 +6904,10 @@ export class HybridSyncService {
       }
 
       console.log('✅ Server product hydration completed via applyOp');
+      return serverProducts;
     } catch (error) {
       console.error('❌ Product server hydration failed:', error);
+      return null;
     }
   }
 
@@ -6311,13 +6917,13 @@ export class HybridSyncService {
   private async doInitialProductsSync(): Promise<any[]> {
     try {
       // Skip initial sync if no organization is set yet
-      if (!firebaseService.isReady()) {
+      if (!this.firebase.isReady()) {
         console.log('⏭️ Skipping initial products sync - no organization set yet');
         return [];
       }
       
       console.log('📦 First-time access or stale cache - doing initial products sync');
-      const serverProducts = await firebaseService.getProducts();
+      const serverProducts = await this.firebase.getProducts();
       
       // Save to local cache using proper offline-first system
       await this.saveLocalData('products', serverProducts || []);
@@ -6341,13 +6947,13 @@ export class HybridSyncService {
   private async doInitialPlayersSync(): Promise<any[]> {
     try {
       // Skip initial sync if no organization is set yet
-      if (!firebaseService.isReady()) {
+      if (!this.firebase.isReady()) {
         console.log('⏭️ Skipping initial players sync - no organization set yet');
         return [];
       }
       
       console.log('📦 First-time access or empty cache - doing initial players sync');
-      const fbService = firebaseService;
+      const fbService = this.firebase;
       const serverPlayers = await fbService.getPlayers();
       
       // Save to local cache using proper offline-first system
@@ -6401,39 +7007,44 @@ export class HybridSyncService {
 
   private async getLocalPlayers(): Promise<any[]> {
     try {
-      const data = await AsyncStorage.getItem('players'); // Players stored in players collection
-      return data ? JSON.parse(data) : [];
+      return await this.getLocalData('players'); // Players stored in players collection
     } catch (error) {
       console.error('❌ Error getting local players:', error);
       return [];
     }
   }
 
-  public async updatePlayerBalance(playerId: string, amount: number, isDebit: boolean): Promise<void> {
-    // ALL writes go through applyOp - single source of truth
-    const operation: Operation = {
-      id: generateUUID(),
-      type: 'updateBalance',
-      collection: 'players', // Players stored in players collection
-      entityId: playerId,
-      data: { amount, isDebit },
-      metadata: {
-        deviceId: this.deviceId,
-        timestamp: Date.now(),
-        version: this.incrementVectorClock(),
-        vectorClock: Object.fromEntries(this.vectorClock),
-        source: 'local'
-      }
-    };
+  /**
+   * Balance correction outside a sale or payment - queued as a balanceAdjustment bundle and shown
+   * through the provisional balance overlay until it commits
+   */
+  public async updatePlayerBalance(playerId: string, amount: number, isDebit: boolean): Promise<string> {
+    const bundle = buildBalanceAdjustmentBundle({
+      bundleId: generateUUID(),
+      playerId,
+      delta: isDebit ? amount : -amount,
+      reason: isDebit ? 'Balance adjustment' : 'Balance reduction',
+      vectorClock: await this.getBumpedVectorClock(),
+    });
 
-    console.log('� Player balance update via applyOp:', {
+    console.log('💰 Player balance adjustment bundle:', {
       playerId,
       amount,
       isDebit,
-      operationId: operation.id
+      bundleId: bundle.bundleId
     });
 
-    await this.applyOp(operation);
+    await this.applyBundleLocally(bundle);
+    await this.enqueueBundleForSync(bundle);
+
+    if (this.isOnline) {
+      try {
+        await this.processSingleBundle(bundle);
+      } catch (error) {
+        console.warn('⚠️ Immediate balance adjustment sync failed, will retry via outbox:', error);
+      }
+    }
+    return bundle.bundleId;
   }
 
   private async updateLocalPlayerBalance(playerId: string, amount: number, isDebit: boolean): Promise<void> {
@@ -6441,7 +7052,7 @@ export class HybridSyncService {
       const players = await this.getLocalPlayers();
       const timestamp = Date.now();
       const updatedPlayers = this.updatePlayerInArray(players, playerId, amount, isDebit, timestamp);
-      await AsyncStorage.setItem('players', JSON.stringify(updatedPlayers)); // Players stored in players collection
+      await this.saveLocalData('players', updatedPlayers); // Players stored in players collection
       
       console.log('💾 Updated local player balance with timestamp:', {
         playerId,
@@ -6645,35 +7256,11 @@ export class HybridSyncService {
   // ============================================
 
   /**
-   * Check if queue contains high priority items (payments, assignments, organization settings)
+   * Check if the outbox holds high priority bundles (payments, sales)
    */
   private hasHighPriorityItems(): boolean {
-    return this.syncQueue.some(item => 
-      (item.collection === 'assignments' && (item.data.paid !== undefined || item.action === 'updateBalance')) ||
-      item.collection === 'players' && item.action === 'updateBalance' || // Players stored in players collection
-      item.collection === 'organizations' // Organization settings are high priority
-    );
-  }
-
-  /**
-   * Clean up processed IDs to prevent memory bloat
-   */
-  private cleanupProcessedIds(): void {
-    // Keep only recent processed IDs (last hour)
-    const oneHourAgo = Date.now() - (60 * 60 * 1000);
-    
-    // Note: In a production system, you'd want to store timestamps with processed IDs
-    // For now, we'll just limit the size
-    if (this.processedIds.size > 1000) {
-      // Convert to array, keep newest 500
-      const idsArray = Array.from(this.processedIds);
-      this.processedIds.clear();
-      
-      // Keep the last 500 IDs
-      idsArray.slice(-500).forEach(id => this.processedIds.add(id));
-      
-      console.log('🧹 Cleaned up processed IDs cache, kept 500 most recent');
-    }
+    // Payments and sales justify the 5-second cycle; charges and catalogue edits wait for the normal one
+    return this.outboxStats.urgent > 0;
   }
 
   /**
@@ -6684,32 +7271,20 @@ export class HybridSyncService {
     
     console.log(`💀 Processing dead letter queue: ${this.deadLetterQueue.length} items`);
     
-    const itemsToRetry: SyncQueueItem[] = [];
+    const retried = new Set<string>();
     
-    // Check which items might be worth retrying
-    this.deadLetterQueue.forEach(item => {
-      // Retry items older than 1 hour
-      if (Date.now() - item.timestamp > 3600000) {
-        // Reset retry count and add back to main queue
-        item.retryCount = 0;
-        item.timestamp = Date.now();
-        itemsToRetry.push(item);
+    // Retry bundles dead-lettered more than 1 hour ago
+    for (const item of this.deadLetterQueue) {
+      if (Date.now() - item.deadLetteredAt > 3600000 && await this.requeueDeadLetter(item)) {
+        retried.add(item.bundleId);
       }
-    });
+    }
     
-    if (itemsToRetry.length > 0) {
-      // Move items back to main queue
-      this.syncQueue.push(...itemsToRetry);
-      
-      // Remove from dead letter queue
-      this.deadLetterQueue = this.deadLetterQueue.filter(item => 
-        !itemsToRetry.some(retry => retry.id === item.id)
-      );
-      
-      await this.saveSyncQueue();
+    if (retried.size > 0) {
+      this.deadLetterQueue = this.deadLetterQueue.filter(item => !retried.has(item.bundleId));
       await this.saveDeadLetterQueue();
       
-      console.log(`♻️ Moved ${itemsToRetry.length} items from dead letter queue back to main queue`);
+      console.log(`♻️ Moved ${retried.size} bundles from dead letter queue back to the outbox`);
     }
   }
 
@@ -6717,35 +7292,25 @@ export class HybridSyncService {
    * Get comprehensive sync status with dead letter queue info
    */
   public getSyncStatus(): any {
+    const { pending, retrying, retryTotal, nextAttemptAt } = this.outboxStats;
     const baseStatus = {
       isOnline: this.isOnline,
       isSyncing: this.isSyncing,
-      mainQueueLength: this.syncQueue.length,
+      pendingBundles: pending,
       deadLetterQueueLength: this.deadLetterQueue.length,
-      processedIdsCount: this.processedIds.size,
       hasHighPriority: this.hasHighPriorityItems()
     };
 
-    if (this.syncQueue.length === 0) {
+    if (pending === 0) {
       return { ...baseStatus, status: 'idle' };
     }
 
-    const currentTime = Date.now();
-    const readyItems = this.syncQueue.filter(item => 
-      item.timestamp <= currentTime && !this.processedIds.has(item.id)
-    );
-    const pendingItems = this.syncQueue.filter(item => 
-      item.timestamp > currentTime
-    );
-
     return {
       ...baseStatus,
-      readyForSync: readyItems.length,
-      pendingRetry: pendingItems.length,
-      nextRetryIn: pendingItems.length > 0 ? 
-        Math.max(0, Math.min(...pendingItems.map(item => item.timestamp)) - currentTime) : 0,
-      averageRetryCount: this.syncQueue.length > 0 ? 
-        this.syncQueue.reduce((sum, item) => sum + item.retryCount, 0) / this.syncQueue.length : 0
+      status: 'pending',
+      pendingRetry: retrying,
+      nextRetryIn: nextAttemptAt > 0 ? Math.max(0, nextAttemptAt - Date.now()) : 0,
+      averageRetryCount: retryTotal / pending
     };
   }
 
@@ -6834,12 +7399,12 @@ export class HybridSyncService {
       if (this.isOnline) {
         // Try to get from Firebase first (like products)
         console.log('🌐 Online: Fetching players from Firebase (simple method)');
-        if (!firebaseService.isReady()) {
+        if (!this.firebase.isReady()) {
           throw new Error('FirebaseService is not ready. Organization ID not set.');
         }
-        const firebasePlayers = await firebaseService.getPlayers();
+        const firebasePlayers = await this.firebase.getPlayers();
         // Update local storage
-        await AsyncStorage.setItem('players', JSON.stringify(firebasePlayers));
+        await this.saveLocalData('players', firebasePlayers);
         console.log('✅ Players cached to local storage:', firebasePlayers.length);
         return firebasePlayers;
       } else {
@@ -6899,11 +7464,11 @@ export class HybridSyncService {
   async syncAllPlayerBalances(): Promise<void> {
     console.log('🎯 HybridSyncService: Syncing all player balances');
     try {
-      // Use the global firebaseService instance that has the organization ID set
-      if (!firebaseService.isReady()) {
+      // Use the injected FirebaseService instance that has the organization ID set
+      if (!this.firebase.isReady()) {
         throw new Error('FirebaseService is not ready. Organization ID not set.');
       }
-      await firebaseService.syncAllPlayerBalances();
+      await this.firebase.syncAllPlayerBalances();
       
       // Trigger sync to refresh local data
       await this.forceSyncNow();
@@ -6921,11 +7486,11 @@ export class HybridSyncService {
   async fixPlayerNameConsistency(): Promise<void> {
     console.log('🎯 HybridSyncService: Fixing player name consistency');
     try {
-      // Use the global firebaseService instance that has the organization ID set
-      if (!firebaseService.isReady()) {
+      // Use the injected FirebaseService instance that has the organization ID set
+      if (!this.firebase.isReady()) {
         throw new Error('FirebaseService is not ready. Organization ID not set.');
       }
-      await firebaseService.fixPlayerNameConsistency();
+      await this.firebase.fixPlayerNameConsistency();
       
       // Trigger sync to refresh local data
       await this.forceSyncNow();
@@ -6969,9 +7534,9 @@ export class HybridSyncService {
       
       // Update last sync timestamps for all collections
       const timestamp = Date.now().toString();
-      await AsyncStorage.setItem('last_sync_players', timestamp);
-      await AsyncStorage.setItem('last_sync_products', timestamp);
-      await AsyncStorage.setItem('last_sync_assignments', timestamp);
+      await this.storage.setItem('last_sync_players', timestamp);
+      await this.storage.setItem('last_sync_products', timestamp);
+      await this.storage.setItem('last_sync_assignments', timestamp);
       
     } catch (error) {
       console.error('❌ Error preloading critical data:', error);
@@ -6991,8 +7556,7 @@ export class HybridSyncService {
     
     try {
       // Check players in local storage
-      const playersStr = await AsyncStorage.getItem('players');
-      const players = playersStr ? JSON.parse(playersStr) : [];
+      const players = await this.getLocalData('players');
       console.log('🔍 Local Storage Players:', {
         count: players.length,
         players: players.map((p: any) => ({
@@ -7003,17 +7567,18 @@ export class HybridSyncService {
         }))
       });
       
-      // Check sync queue
-      console.log('🔍 Current Sync Queue:', {
-        length: this.syncQueue.length,
-        items: this.syncQueue.map(item => ({
-          id: item.id,
-          collection: item.collection,
-          action: item.action,
-          timestamp: new Date(item.timestamp).toLocaleString(),
-          retryCount: item.retryCount,
-          entityId: item.data?.entityId || item.data?.id,
-          hasData: !!item.data
+      // Check the outbox
+      const pendingBundles = await this.getPendingBundles();
+      console.log('🔍 Current Outbox:', {
+        length: pendingBundles.length,
+        bundles: pendingBundles.map(bundle => ({
+          bundleId: bundle.bundleId,
+          type: bundle.type,
+          label: describeBundle(bundle),
+          lane: getBundleLane(bundle),
+          timestamp: new Date(bundle.timestamp).toLocaleString(),
+          retryCount: bundle.retryCount || 0,
+          stepCount: bundle.steps?.length || 0
         }))
       });
       
@@ -7023,11 +7588,11 @@ export class HybridSyncService {
         queueLength: this.getSyncQueueLength()
       });
       
-      // Check for any player operations specifically
-      const playerOps = this.syncQueue.filter(item => item.collection === 'players');
-      console.log('🔍 Player Operations in Queue:', {
-        count: playerOps.length,
-        operations: playerOps
+      // Check for any player writes specifically
+      const playerBundles = pendingBundles.filter(bundle => bundle.steps?.[0]?.payload?.collection === 'players');
+      console.log('🔍 Player Writes in Outbox:', {
+        count: playerBundles.length,
+        bundles: playerBundles
       });
       
       console.log('🔍 ============================================');
@@ -7048,12 +7613,13 @@ export class HybridSyncService {
       return;
     }
     
-    if (this.syncQueue.length === 0) {
-      console.log('ℹ️ Nothing to sync - queue is empty');
+    const pendingCount = await this.getPendingBundlesCount();
+    if (pendingCount === 0) {
+      console.log('ℹ️ Nothing to sync - outbox is empty');
       return;
     }
     
-    console.log(`🚀 Attempting to sync ${this.syncQueue.length} items...`);
+    console.log(`🚀 Attempting to sync ${pendingCount} bundles...`);
     await this.drainOutboxWithTransaction();
     console.log('✅ Manual sync attempt completed');
   }
@@ -7083,26 +7649,37 @@ export class HybridSyncService {
   }
 
   /**
-   * Debug method to process a single sync queue item
-   * Used by debug panel to test individual item processing
+   * Debug method to process a single pending bundle
+   * Used by debug panel to test individual bundle processing - it stays pending until the next drain clears it
    */
-  public async debugProcessSingleItem(item: SyncQueueItem): Promise<void> {
-    console.log('🐛 Debug processing single item:', item);
+  public async debugProcessSingleBundle(bundleId: string): Promise<void> {
+    console.log('🐛 Debug processing single bundle:', bundleId);
     
     if (!this.isOnline) {
-      throw new Error('Cannot process item - device is offline');
+      throw new Error('Cannot process bundle - device is offline');
+    }
+
+    const bundle = (await this.getPendingBundles()).find(pending => pending.bundleId === bundleId);
+    if (!bundle) {
+      throw new Error(`Pending bundle not found: ${bundleId}`);
     }
 
     try {
-      // Process as a single-item batch
-      await this.processBatchTransaction([item]);
-      console.log('✅ Debug processing succeeded for item:', item.id);
+      await this.processSingleBundle(bundle);
+      console.log('✅ Debug processing succeeded for bundle:', bundleId);
     } catch (error) {
-      console.error('❌ Debug processing failed for item:', item.id, error);
+      console.error('❌ Debug processing failed for bundle:', bundleId, error);
       throw error;
     }
   }
 
+  /**
+   * Pending bundles for the debug panels
+   */
+  public async getPendingBundleList(): Promise<any[]> {
+    return this.getPendingBundles();
+  }
+
   /**
    * Get detailed sync status for debugging
    */
@@ -7110,14 +7687,12 @@ export class HybridSyncService {
     return {
       isOnline: this.isOnline,
       isSyncing: this.isSyncing,
-      mainQueueLength: this.syncQueue.length,
+      pendingBundles: this.outboxStats.pending,
       deadLetterQueueLength: this.deadLetterQueue.length,
-      processedIdsCount: this.processedIds?.size || 0,
-      status: this.syncQueue.length === 0 ? 'idle' : 'pending',
-      readyForSync: Date.now(),
-      pendingRetry: this.syncQueue.filter(item => (item.retryCount || 0) > 0).length,
-      averageRetryCount: this.syncQueue.length > 0 
-        ? this.syncQueue.reduce((sum, item) => sum + (item.retryCount || 0), 0) / this.syncQueue.length 
+      status: this.outboxStats.pending === 0 ? 'idle' : 'pending',
+      pendingRetry: this.outboxStats.retrying,
+      averageRetryCount: this.outboxStats.pending > 0
+        ? this.outboxStats.retryTotal / this.outboxStats.pending
         : 0
     };
   }
@@ -0,0 +1,246 @@
+/**
+ * Every write as a bundle
+ *
+ * Sales, payments and charges have always been bundles. Plain entity writes (product CRUD,
+ * player edits, staff users, deletes) are wrapped here into single-step 'entityWrite' bundles,
+ * and balance corrections into 'balanceAdjustment' bundles, so they share the bundle outbox:
+ * one retry policy, one dead-letter queue and appliedOps markers keyed by deterministic opIds.
+ *
+ * Also converts items from the retired sync queue - used by the schema v6 migration and by
+ * handovers exported before it.
+ */
+
+// Collections written with entity steps - charges and organization settings have their own bundles
+export const ENTITY_COLLECTIONS = ['products', 'players', 'assignments', 'reports'];
+
+export type EntityStepKind = 'createEntity' | 'updateEntity' | 'deleteEntity';
+
+export interface EntityWrite {
+  id: string;                              // Becomes the bundleId - keep it stable across retries
+  type: 'create' | 'update' | 'delete';
+  collection: string;
+  entityId: string;
+  data: any;
+  metadata: { timestamp: number | string; vectorClock?: Record<string, number>; [key: string]: any };
+  batchId?: string;
+  batchLabel?: string;
+}
+
+const ENTITY_STEP_KINDS: Record<EntityWrite['type'], EntityStepKind> = {
+  create: 'createEntity',
+  update: 'updateEntity',
+  delete: 'deleteEntity',
+};
+
+// Local bookkeeping that never goes to the server doc
+const LOCAL_ONLY_FIELDS = [
+  'entityId', 'metadata', 'vectorClock', 'version', 'deviceId', 'timestamp',
+  'createdAt', 'updatedAt', 'batchId', 'batchLabel',
+];
+
+/**
+ * Deterministic opId for a bundle step - the same bundle always produces the same markers.
+ * The id is the bundleId and step name themselves, so two different steps can never share an
+ * appliedOps marker; it doubles as the marker's document id, hence no '/'.
+ */
+export const hashBundleStep = (bundleId: string, stepName: string): string => {
+  // Validate inputs to prevent indexOf errors
+  if (!bundleId || typeof bundleId !== 'string') {
+    throw new Error('Invalid bundleId for hash generation');
+  }
+  if (!stepName || typeof stepName !== 'string') {
+    throw new Error('Invalid stepName for hash generation');
+  }
+  if (bundleId.includes('/') || stepName.includes('/')) {
+    throw new Error(`opId for ${bundleId}:${stepName} cannot contain '/'`);
+  }
+
+  return `${bundleId}:${stepName}`;
+};
+
+// Firestore rejects undefined field values
+const withoutUndefined = (data: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(Object.entries(data || {}).filter(([, value]) => value !== undefined));
+
+const toMillis = (timestamp: number | string | undefined): number => {
+  const millis = typeof timestamp === 'string' ? new Date(timestamp).getTime() : timestamp;
+  return typeof millis === 'number' && !isNaN(millis) ? millis : Date.now();
+};
+
+const entityRefsFor = (collection: string, entityId: string): Record<string, string> => {
+  switch (collection) {
+    case 'products':
+      return { productId: entityId };
+    case 'players':
+      return { playerId: entityId };
+    case 'assignments':
+      return { assignmentId: entityId };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Single-step bundle for a create/update/delete of one entity
+ */
+export const buildEntityBundle = (write: EntityWrite): any => {
+  const kind = ENTITY_STEP_KINDS[write.type];
+  if (!kind) {
+    throw new Error(`Unsupported entity write: ${write.type}`);
+  }
+  if (!write.entityId) {
+    throw new Error(`Entity write ${write.id} is missing its entityId`);
+  }
+
+  const fields = { ...(write.data || {}) };
+  LOCAL_ONLY_FIELDS.forEach(field => delete fields[field]);
+  const data = write.type === 'delete'
+    ? {}
+    : withoutUndefined(write.type === 'create' ? { ...fields, id: write.entityId } : fields);
+
+  const bundle: any = {
+    bundleId: write.id,
+    type: 'entityWrite',
+    entityRefs: entityRefsFor(write.collection, write.entityId),
+    steps: [{
+      opId: hashBundleStep(write.id, kind),
+      kind,
+      payload: {
+        collection: write.collection,
+        entityId: write.entityId,
+        data,
+        metadata: withoutUndefined(write.metadata),
+      },
+    }],
+    vectorClock: write.metadata.vectorClock || {},
+    timestamp: toMillis(write.metadata.timestamp),
+    source: 'local',
+  };
+  if (write.batchId) bundle.batchId = write.batchId;
+  if (write.batchLabel) bundle.batchLabel = write.batchLabel;
+  return bundle;
+};
+
+/**
+ * Balance correction outside a sale or payment - positive adds debt, negative reduces it
+ */
+export const buildBalanceAdjustmentBundle = (input: {
+  bundleId: string;
+  playerId: string;
+  delta: number;
+  reason: string;
+  vectorClock: Record<string, number>;
+  timestamp?: number;
+}): any => ({
+  bundleId: input.bundleId,
+  type: 'balanceAdjustment',
+  entityRefs: { playerId: input.playerId },
+  steps: [{
+    opId: hashBundleStep(input.bundleId, 'updatePlayerBalance'),
+    kind: 'updatePlayerBalance',
+    player: {
+      playerId: input.playerId,
+      balanceDelta: input.delta,
+      reason: input.reason,
+    },
+  }],
+  vectorClock: input.vectorClock,
+  timestamp: input.timestamp || Date.now(),
+  source: 'local',
+});
+
+/**
+ * The old 'staff-users' queue items were player writes (FirebaseService.addUser creates a player)
+ * keyed by the player's uid; deletes only deactivated the player
+ */
+export const buildStaffUserBundle = (write: EntityWrite): any => {
+  const data = write.data || {};
+  if (write.type === 'create') {
+    const name = data.name || '';
+    return buildEntityBundle({
+      ...write,
+      collection: 'players',
+      data: {
+        name,
+        firstName: name.split(' ')[0] || name,
+        lastName: name.split(' ').slice(1).join(' ') || '',
+        balance: 0,
+        totalPurchases: 0,
+        totalSpent: 0,
+        isActive: true,
+      },
+    });
+  }
+  return buildEntityBundle({
+    ...write,
+    type: 'update',
+    collection: 'players',
+    data: write.type === 'delete' ? { isActive: false } : data,
+  });
+};
+
+/**
+ * Bundle for an item from the retired sync queue, or null if it never synced anything
+ * (charge and organization items were no-ops - their bundles did the work)
+ */
+export const queueItemToBundle = (item: any): any | null => {
+  const data = item?.data || {};
+  const metadata = {
+    ...(data.metadata || {}),
+    timestamp: data.metadata?.timestamp ?? item.timestamp,
+    vectorClock: data.metadata?.vectorClock || {},
+  };
+
+  if (item.action === 'updateBalance') {
+    const playerId = data.id || data.entityId;
+    if (!playerId || typeof data.amount !== 'number') return null;
+    return {
+      ...buildBalanceAdjustmentBundle({
+        bundleId: item.id,
+        playerId,
+        delta: data.isDebit ? data.amount : -data.amount,
+        reason: 'Balance update',
+        vectorClock: metadata.vectorClock,
+        timestamp: item.timestamp,
+      }),
+      migratedFrom: 'sync_queue',
+    };
+  }
+
+  const isStaffUser = item.collection === 'staff-users';
+  if ((!isStaffUser && !ENTITY_COLLECTIONS.includes(item.collection)) || !ENTITY_STEP_KINDS[item.action as EntityWrite['type']]) {
+    return null;
+  }
+  // Staff user updates and deletes carried the player uid; creates only the local temp id
+  const entityId = isStaffUser
+    ? (item.action === 'create' ? data.id : data.uid)
+    : data.entityId || data.id;
+  if (!entityId) return null;
+
+  const write: EntityWrite = {
+    id: item.id,
+    type: item.action,
+    collection: item.collection,
+    entityId,
+    data,
+    metadata,
+    batchId: item.batchId,
+    batchLabel: item.batchLabel,
+  };
+  return {
+    ...(isStaffUser ? buildStaffUserBundle(write) : buildEntityBundle(write)),
+    migratedFrom: 'sync_queue',
+  };
+};
+
+/**
+ * Short label for lists of pending or dead-lettered bundles
+ */
+export const describeBundle = (bundle: any): string => {
+  const step = bundle?.steps?.[0];
+  if (bundle?.type === 'entityWrite' && step?.payload) {
+    const verb = step.kind === 'createEntity' ? 'Create' : step.kind === 'deleteEntity' ? 'Delete' : 'Update';
+    return `${verb} ${step.payload.collection}/${step.payload.entityId}`;
+  }
+  return bundle?.batchLabel || bundle?.type || 'Unknown change';
+};
@@ -0,0 +1,333 @@
+/**
+ * In-memory overlay views
+ *
+ * getProductsWithOverlay & co. used to re-read the base cache and fold every provisional entry on
+ * each call. The store keeps one folded view per record collection in memory instead: the base
+ * records and provisional overlays are loaded once, then HybridSyncService reports every base
+ * write and overlay write and only the affected records are refolded. Unchanged records keep
+ * their identity, so selectors over a single record don't re-render on unrelated sales.
+ */
+
+export type OverlayCollection = 'products' | 'players' | 'assignments' | 'charges';
+
+// Provisional storage keys folded into each collection's view
+export const OVERLAY_KEYS: Record<OverlayCollection, string[]> = {
+  products: ['provisional_stock_deltas'],
+  players: ['provisional_balance_deltas'],
+  assignments: ['provisional_assignments', 'provisional_assignment_updates'],
+  charges: ['provisional_charges'],
+};
+
+const COLLECTION_BY_KEY: Record<string, OverlayCollection> = Object.fromEntries(
+  Object.entries(OVERLAY_KEYS).flatMap(([collection, keys]) => keys.map(key => [key, collection]))
+) as Record<string, OverlayCollection>;
+
+export const isOverlayCollection = (collection: string): collection is OverlayCollection =>
+  collection in OVERLAY_KEYS;
+
+export interface OverlaySource {
+  base: (collection: OverlayCollection) => Promise<any[]>;
+  overlay: (key: string) => Promise<any>;
+}
+
+type Listener = () => void;
+
+interface OverlayView {
+  loaded: boolean;
+  loading: Promise<any[]> | null;
+  generation: number;                      // Bumped by every write - a load that raced one starts over
+  base: Map<string, any>;
+  overlays: Record<string, any>;
+  folded: Map<string, any>;
+  snapshot: any[] | null;                  // Memoized array, rebuilt on the first read after a change
+  listeners: Set<Listener>;
+}
+
+const sumDeltas = (entries: any[]): number => entries.reduce((sum, entry) => sum + entry.delta, 0);
+
+/**
+ * Fold one record - same rules as the old whole-collection folds. Returns the base record itself
+ * when nothing provisional applies, undefined when the record doesn't exist
+ */
+const FOLDS: Record<OverlayCollection, (id: string, base: any, overlays: Record<string, any>) => any> = {
+  products: (id, base, overlays) => {
+    const deltas = overlays.provisional_stock_deltas?.[id];
+    if (!base || !deltas?.length) return base;
+    return { ...base, stock: (base.stock || 0) + sumDeltas(deltas), _provisional: true };
+  },
+
+  players: (id, base, overlays) => {
+    const deltas = overlays.provisional_balance_deltas?.[id];
+    if (!base || !deltas?.length) return base;
+    // Only purchase bundles count in the statistics, not charges
+    const purchases = deltas.filter((entry: any) => entry.bundleType === 'purchase' && entry.delta > 0);
+    return {
+      ...base,
+      balance: (base.balance || 0) + sumDeltas(deltas),
+      totalSpent: (base.totalSpent || 0) + sumDeltas(purchases),
+      totalPurchases: (base.totalPurchases || 0) + purchases.length,
+      _provisional: true,
+    };
+  },
+
+  assignments: (id, base, overlays) => {
+    const created = overlays.provisional_assignments?.[id];
+    const record = base || (created ? { ...created.payload, _provisional: true } : undefined);
+    const updates = overlays.provisional_assignment_updates?.[id];
+    if (!record || !updates?.length) return record;
+    // Payment status and the like, applied in order
+    return updates.reduce(
+      (assignment: any, update: any) => ({ ...assignment, ...update.updates, _provisional: true }),
+      record
+    );
+  },
+
+  charges: (id, base, overlays) => {
+    const created = overlays.provisional_charges?.[id];
+    return base || (created ? { ...created.payload, _provisional: true } : undefined);
+  },
+};
+
+const sameValue = (a: any, b: any): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+export class OverlayStore {
+  private views: Map<OverlayCollection, OverlayView> = new Map();
+  private batchDepth = 0;
+  private dirty: Set<OverlayCollection> = new Set();
+
+  constructor(private source: OverlaySource) {}
+
+  /**
+   * Folded records of a collection - loads the view on first use
+   */
+  public async getView(collection: OverlayCollection): Promise<any[]> {
+    const view = this.view(collection);
+    if (view.loaded) return this.snapshotOf(view);
+    if (!view.loading) {
+      view.loading = this.load(collection, view).finally(() => {
+        view.loading = null;
+      });
+    }
+    return view.loading;
+  }
+
+  /**
+   * Current folded records, or undefined while the view hasn't loaded (synchronous)
+   */
+  public peek(collection: OverlayCollection): any[] | undefined {
+    const view = this.view(collection);
+    return view.loaded ? this.snapshotOf(view) : undefined;
+  }
+
+  /**
+   * One folded record by id, or undefined if it doesn't exist or the view hasn't loaded
+   */
+  public peekRecord(collection: OverlayCollection, id: string): any | undefined {
+    return this.view(collection).folded.get(id);
+  }
+
+  /**
+   * Listen for changes to a collection's view - loads it if needed; returns the unsubscribe function
+   */
+  public subscribe(collection: OverlayCollection, listener: Listener): () => void {
+    const view = this.view(collection);
+    view.listeners.add(listener);
+    if (!view.loaded) {
+      this.getView(collection).catch(error => console.warn(`⚠️ Failed to load ${collection} overlay view:`, error));
+    }
+    return () => {
+      view.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Hold change notifications until `work` finishes - a commit writes the base cache and then
+   * drops the matching overlay, and screens must never see both applied at once
+   */
+  public async batch<T>(work: () => Promise<T>): Promise<T> {
+    this.batchDepth++;
+    try {
+      return await work();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) {
+        const dirty = [...this.dirty];
+        this.dirty.clear();
+        dirty.forEach(collection => this.notify(collection));
+      }
+    }
+  }
+
+  // ============================================
+  // WRITES REPORTED BY HybridSyncService
+  // ============================================
+
+  public baseUpserted(collection: OverlayCollection, records: any[]): void {
+    const view = this.changed(collection);
+    if (!view) return;
+    records.forEach(record => view.base.set(record.id, { ...record }));
+    this.refold(collection, view, records.map(record => record.id));
+  }
+
+  public baseDeleted(collection: OverlayCollection, ids: string[]): void {
+    const view = this.changed(collection);
+    if (!view) return;
+    ids.forEach(id => view.base.delete(id));
+    this.refold(collection, view, ids);
+  }
+
+  public baseReplaced(collection: OverlayCollection, records: any[]): void {
+    const view = this.changed(collection);
+    if (!view) return;
+    const previous = view.base;
+    const changedIds: string[] = [];
+    // Full pulls mostly rewrite the same records - keep the ones that didn't change
+    view.base = new Map(records.map(record => {
+      const current = previous.get(record.id);
+      if (current !== undefined && sameValue(current, record)) return [record.id, current];
+      changedIds.push(record.id);
+      return [record.id, { ...record }];
+    }));
+    previous.forEach((_, id) => {
+      if (!view.base.has(id)) changedIds.push(id);
+    });
+    this.refold(collection, view, changedIds, true);
+    view.snapshot = null; // Base order may have changed too
+    this.notify(collection);
+  }
+
+  /**
+   * A provisional key was written (value) or removed (undefined) - keys outside OVERLAY_KEYS are ignored
+   */
+  public setOverlay(key: string, value: any): void {
+    const collection = COLLECTION_BY_KEY[key];
+    if (!collection) return;
+    const view = this.changed(collection);
+    if (!view) return;
+    const previous = view.overlays[key] || {};
+    const next = value || {};
+    view.overlays[key] = next;
+    const ids = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    this.refold(collection, view, [...ids].filter(id => !sameValue(previous[id], next[id])));
+  }
+
+  /**
+   * Drop loaded views (all, or one collection) - they reload on next use. For storage that
+   * changed behind the service's back: backend swaps, wipes, debug tools
+   */
+  public invalidate(collection?: OverlayCollection): void {
+    const collections = collection ? [collection] : [...this.views.keys()];
+    collections.forEach(name => {
+      const view = this.views.get(name);
+      if (!view) return;
+      view.generation++;
+      view.loaded = false;
+      view.base = new Map();
+      view.overlays = {};
+      view.folded = new Map();
+      view.snapshot = null;
+      if (view.listeners.size > 0) {
+        // Subscribed screens keep their last records until the reload lands
+        this.getView(name).catch(error => console.warn(`⚠️ Failed to reload ${name} overlay view:`, error));
+      }
+    });
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private view(collection: OverlayCollection): OverlayView {
+    let view = this.views.get(collection);
+    if (!view) {
+      view = {
+        loaded: false,
+        loading: null,
+        generation: 0,
+        base: new Map(),
+        overlays: {},
+        folded: new Map(),
+        snapshot: null,
+        listeners: new Set(),
+      };
+      this.views.set(collection, view);
+    }
+    return view;
+  }
+
+  // The view to update in place, or null if it isn't loaded - a load in flight is told to start over
+  private changed(collection: OverlayCollection): OverlayView | null {
+    const view = this.views.get(collection);
+    if (!view) return null;
+    view.generation++;
+    return view.loaded ? view : null;
+  }
+
+  private async load(collection: OverlayCollection, view: OverlayView): Promise<any[]> {
+    for (;;) {
+      const generation = view.generation;
+      const [base, ...overlays] = await Promise.all([
+        this.source.base(collection),
+        ...OVERLAY_KEYS[collection].map(key => this.source.overlay(key)),
+      ]);
+      if (generation !== view.generation) continue; // A write landed while reading - read again
+
+      view.base = new Map(base.map(record => [record.id, record]));
+      view.overlays = Object.fromEntries(OVERLAY_KEYS[collection].map((key, index) => [key, overlays[index] || {}]));
+      view.folded = new Map();
+      this.refold(collection, view, [...view.base.keys(), ...this.provisionalIds(view)], true);
+      view.loaded = true;
+      console.log(`🧮 Loaded ${collection} overlay view: ${view.folded.size} records`);
+      this.notify(collection);
+      return this.snapshotOf(view);
+    }
+  }
+
+  private provisionalIds(view: OverlayView): string[] {
+    return Object.values(view.overlays).flatMap(overlay => Object.keys(overlay || {}));
+  }
+
+  private refold(collection: OverlayCollection, view: OverlayView, ids: string[], quiet = false): void {
+    let changed = false;
+    new Set(ids).forEach(id => {
+      const record = FOLDS[collection](id, view.base.get(id), view.overlays);
+      if (record === view.folded.get(id)) return;
+      if (record === undefined) view.folded.delete(id); else view.folded.set(id, record);
+      changed = true;
+    });
+    if (!changed) return;
+    view.snapshot = null;
+    if (quiet) return;
+    this.notify(collection);
+  }
+
+  private snapshotOf(view: OverlayView): any[] {
+    if (!view.snapshot) {
+      // Base order first, then records that only exist provisionally
+      const snapshot: any[] = [];
+      view.base.forEach((_, id) => {
+        const record = view.folded.get(id);
+        if (record) snapshot.push(record);
+      });
+      view.folded.forEach((record, id) => {
+        if (!view.base.has(id)) snapshot.push(record);
+      });
+      view.snapshot = snapshot;
+    }
+    return view.snapshot;
+  }
+
+  private notify(collection: OverlayCollection): void {
+    if (this.batchDepth > 0) {
+      this.dirty.add(collection);
+      return;
+    }
+    this.views.get(collection)?.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.warn(`⚠️ Overlay listener failed for ${collection}:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Purchase orders and goods receiving
+ *
+ * A purchase order lists what was ordered (product, quantity, unit cost). Deliveries are
+ * recorded as goods receipts against it - one order can be received over several deliveries.
+ * What has arrived is the sum of an order's receipts rather than a counter on the order, so two
+ * devices receiving part of the same order offline can't overwrite each other.
+ *
+ * A receipt goes out as one bundle: a restock stockDelta per line (stock-in movements in the
+ * ledger), the product cost updates from the costing rule and the goodsReceipts doc itself.
+ */
+
+import { hashBundleStep } from './OperationBundles';
+import { StockActor, stockMovementFields } from './StockLedger';
+
+export type CostingMethod = 'lastCost' | 'weightedAverage';
+
+export const COSTING_METHODS: Record<CostingMethod, string> = {
+  lastCost: 'Last cost',
+  weightedAverage: 'Weighted average',
+};
+
+export const DEFAULT_COSTING_METHOD: CostingMethod = 'lastCost';
+
+export interface PurchaseOrderLine {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  reference: string;
+  supplierId?: string | null;
+  supplierName?: string | null;            // As it was when the order was raised
+  lines: PurchaseOrderLine[];
+  notes?: string | null;
+  status: 'open' | 'closed' | 'cancelled';  // Closed: no more deliveries expected
+  raisedAt: number;
+  raisedBy: string | null;
+  closedAt?: number | null;
+}
+
+export interface GoodsReceiptLine {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitCost: number;
+  previousCost: number | null;
+  newCost: number;
+}
+
+export interface GoodsReceipt {
+  id: string;
+  purchaseOrderId: string;
+  reference: string;                       // The order's reference, for the ledger note
+  lines: GoodsReceiptLine[];
+  costingMethod: CostingMethod;
+  note?: string | null;
+  receivedAt: number;
+  receivedBy: string | null;
+  bundleId: string;
+}
+
+export type PurchaseOrderProgress = 'open' | 'partial' | 'received' | 'closed' | 'cancelled';
+
+export const PURCHASE_ORDER_PROGRESS: Record<PurchaseOrderProgress, string> = {
+  open: 'Awaiting delivery',
+  partial: 'Part received',
+  received: 'Received',
+  closed: 'Closed short',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Quantity received so far per product, across an order's receipts
+ */
+export const receivedQuantities = (orderId: string, receipts: GoodsReceipt[]): Record<string, number> => {
+  const received: Record<string, number> = {};
+  receipts
+    .filter(receipt => receipt.purchaseOrderId === orderId)
+    .forEach(receipt => receipt.lines.forEach(line => {
+      received[line.productId] = (received[line.productId] || 0) + line.quantity;
+    }));
+  return received;
+};
+
+/**
+ * Ordered, received and still outstanding for each line
+ */
+export const purchaseOrderLineStatus = (order: PurchaseOrder, receipts: GoodsReceipt[]) => {
+  const received = receivedQuantities(order.id, receipts);
+  return order.lines.map(line => ({
+    ...line,
+    received: received[line.productId] || 0,
+    outstanding: Math.max(0, line.quantity - (received[line.productId] || 0)),
+  }));
+};
+
+export const purchaseOrderProgress = (order: PurchaseOrder, receipts: GoodsReceipt[]): PurchaseOrderProgress => {
+  if (order.status === 'cancelled') return 'cancelled';
+  const lines = purchaseOrderLineStatus(order, receipts);
+  if (lines.every(line => line.outstanding === 0)) return 'received';
+  if (order.status === 'closed') return 'closed';
+  return lines.some(line => line.received > 0) ? 'partial' : 'open';
+};
+
+/**
+ * Check a new order's lines - one line per product, whole quantities, no negative costs
+ */
+export const validatePurchaseOrderLines = (lines: PurchaseOrderLine[]): void => {
+  if (lines.length === 0) {
+    throw new Error('Add at least one product to the order');
+  }
+  const seen = new Set<string>();
+  lines.forEach(line => {
+    if (seen.has(line.productId)) {
+      throw new Error(`${line.productName} is on the order twice`);
+    }
+    seen.add(line.productId);
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new Error(`Quantity for ${line.productName} must be a whole number above zero`);
+    }
+    if (!Number.isFinite(line.unitCost) || line.unitCost < 0) {
+      throw new Error(`Unit cost for ${line.productName} can't be negative`);
+    }
+  });
+};
+
+/**
+ * Product cost after receiving `quantity` at `unitCost`. Weighted average blends with the
+ * stock on hand (negative stock counts as none); a product without a cost takes the new one.
+ */
+export const nextUnitCost = (
+  method: CostingMethod,
+  product: { stock?: number; cost?: number | null },
+  quantity: number,
+  unitCost: number
+): number => {
+  const currentCost = typeof product.cost === 'number' ? product.cost : null;
+  const onHand = Math.max(0, product.stock || 0);
+  if (method === 'lastCost' || currentCost === null || onHand + quantity <= 0) {
+    return unitCost;
+  }
+  const blended = (onHand * currentCost + quantity * unitCost) / (onHand + quantity);
+  return Math.round(blended * 10000) / 10000;
+};
+
+/**
+ * Receipt lines for a delivery against an order. Lines with no quantity are dropped; receiving
+ * more than is outstanding is refused.
+ */
+export const buildReceiptLines = (input: {
+  order: PurchaseOrder;
+  receipts: GoodsReceipt[];
+  delivered: { productId: string; quantity: number; unitCost?: number }[];
+  products: any[];
+  costingMethod: CostingMethod;
+}): GoodsReceiptLine[] => {
+  if (input.order.status !== 'open') {
+    throw new Error(`Purchase order ${input.order.reference} is ${input.order.status}`);
+  }
+  const lineStatus = new Map(purchaseOrderLineStatus(input.order, input.receipts).map(line => [line.productId, line]));
+  const byId = new Map(input.products.map(product => [product.id, product]));
+
+  const lines = input.delivered
+    .filter(entry => entry.quantity !== 0)
+    .map(entry => {
+      const ordered = lineStatus.get(entry.productId);
+      if (!ordered) {
+        throw new Error(`Product ${entry.productId} is not on purchase order ${input.order.reference}`);
+      }
+      if (!Number.isInteger(entry.quantity) || entry.quantity < 0) {
+        throw new Error(`Received quantity for ${ordered.productName} must be a whole number`);
+      }
+      if (entry.quantity > ordered.outstanding) {
+        throw new Error(`Only ${ordered.outstanding} of ${ordered.productName} are still outstanding`);
+      }
+      const unitCost = entry.unitCost ?? ordered.unitCost;
+      if (!Number.isFinite(unitCost) || unitCost < 0) {
+        throw new Error(`Unit cost for ${ordered.productName} can't be negative`);
+      }
+      const product = byId.get(entry.productId);
+      if (!product) {
+        throw new Error(`Product not found: ${ordered.productName}`);
+      }
+      return {
+        productId: entry.productId,
+        productName: ordered.productName,
+        quantity: entry.quantity,
+        unitCost,
+        previousCost: typeof product.cost === 'number' ? product.cost : null,
+        newCost: nextUnitCost(input.costingMethod, product, entry.quantity, unitCost),
+      };
+    });
+
+  if (lines.length === 0) {
+    throw new Error('Enter the quantity delivered for at least one product');
+  }
+  return lines;
+};
+
+/**
+ * The receipt bundle: restock deltas, cost updates and the goodsReceipts doc. `metadata` is the
+ * write metadata the cost updates were applied locally with (timestamp, vector clock, device)
+ */
+export const buildGoodsReceiptBundle = (input: {
+  receipt: GoodsReceipt;
+  actor: StockActor;
+  metadata: { timestamp: number; vectorClock: Record<string, number>; [key: string]: any };
+}): any => {
+  const { receipt, metadata } = input;
+  const bundleId = receipt.bundleId;
+  const note = `PO ${receipt.reference}${receipt.note ? ` - ${receipt.note}` : ''}`;
+
+  const stockSteps = receipt.lines.map(line => ({
+    opId: hashBundleStep(bundleId, `stockDelta_${line.productId}`),
+    kind: 'stockDelta' as const,
+    payload: {
+      productId: line.productId,
+      delta: line.quantity,
+      purchaseOrderId: receipt.purchaseOrderId,
+      receiptId: receipt.id,
+      ...stockMovementFields('restock', input.actor, note),
+    },
+  }));
+
+  const costSteps = receipt.lines
+    .filter(line => line.newCost !== line.previousCost)
+    .map(line => ({
+      opId: hashBundleStep(bundleId, `updateEntity_${line.productId}`),
+      kind: 'updateEntity' as const,
+      payload: {
+        collection: 'products',
+        entityId: line.productId,
+        data: { cost: line.newCost },
+        metadata: { ...metadata, fields: ['cost'] },
+      },
+    }));
+
+  return {
+    bundleId,
+    type: 'goodsReceipt',
+    entityRefs: { purchaseOrderId: receipt.purchaseOrderId },
+    batchLabel: `Goods received (PO ${receipt.reference})`,
+    steps: [
+      ...stockSteps,
+      ...costSteps,
+      {
+        opId: hashBundleStep(bundleId, 'createEntity'),
+        kind: 'createEntity' as const,
+        payload: {
+          collection: 'goodsReceipts',
+          entityId: receipt.id,
+          data: receipt,
+          metadata: { timestamp: metadata.timestamp, vectorClock: metadata.vectorClock },
+        },
+      },
+    ],
+    vectorClock: metadata.vectorClock,
+    timestamp: receipt.receivedAt,
+    source: 'local',
+  };
+};
@@ -0,0 +1,162 @@
+import * as SQLite from 'expo-sqlite';
+import { StorageAdapter } from './StorageAdapter';
+
+interface RecordRow {
+  data: string;
+}
+
+/**
+ * SQLite adapter - records are rows indexed by (collection, id) and updated_at,
+ * so single-record writes no longer rewrite the whole collection
+ */
+export class SQLiteStorageAdapter implements StorageAdapter {
+  readonly name = 'sqlite';
+  private db: SQLite.SQLiteDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+
+  constructor(private databaseName: string = 'vmstock-sync.db') {}
+
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.openDatabase().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async openDatabase(): Promise<void> {
+    const db = await SQLite.openDatabaseAsync(this.databaseName);
+    await db.execAsync(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS kv (
+        key TEXT PRIMARY KEY NOT NULL,
+        value TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        updated_at INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL,
+        PRIMARY KEY (collection, id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_records_updated_at ON records (collection, updated_at);
+    `);
+    this.db = db;
+    console.log('🗄️ SQLite storage ready:', this.databaseName);
+  }
+
+  private async getDb(): Promise<SQLite.SQLiteDatabase> {
+    await this.init();
+    return this.db!;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<{ value: string }>('SELECT value FROM kv WHERE key = ?', key);
+    return row ? row.value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync('INSERT OR REPLACE INTO kv (key, value) VALUES (?, ?)', key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync('DELETE FROM kv WHERE key = ?', key);
+  }
+
+  async multiRemove(keys: readonly string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const db = await this.getDb();
+    await db.withTransactionAsync(async () => {
+      for (const key of keys) {
+        await db.runAsync('DELETE FROM kv WHERE key = ?', key);
+      }
+    });
+  }
+
+  async getAllKeys(): Promise<readonly string[]> {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<{ key: string }>('SELECT key FROM kv');
+    return rows.map(row => row.key);
+  }
+
+  async getCollection(collection: string): Promise<any[]> {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<RecordRow>(
+      'SELECT data FROM records WHERE collection = ? ORDER BY rowid',
+      collection
+    );
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  async replaceCollection(collection: string, records: any[]): Promise<void> {
+    const db = await this.getDb();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM records WHERE collection = ?', collection);
+      for (const record of records) {
+        await this.writeRecord(db, collection, record);
+      }
+    });
+  }
+
+  async getRecord(collection: string, id: string): Promise<any | null> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<RecordRow>(
+      'SELECT data FROM records WHERE collection = ? AND id = ?',
+      collection,
+      id
+    );
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async upsertRecords(collection: string, records: any[]): Promise<void> {
+    if (records.length === 0) return;
+    const db = await this.getDb();
+    await db.withTransactionAsync(async () => {
+      for (const record of records) {
+        await this.writeRecord(db, collection, record);
+      }
+    });
+  }
+
+  async deleteRecords(collection: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await this.getDb();
+    await db.withTransactionAsync(async () => {
+      for (const id of ids) {
+        await db.runAsync('DELETE FROM records WHERE collection = ? AND id = ?', collection, id);
+      }
+    });
+  }
+
+  async clearCollection(collection: string): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync('DELETE FROM records WHERE collection = ?', collection);
+  }
+
+  // ON CONFLICT keeps the original rowid so collection order stays stable across updates
+  private async writeRecord(db: SQLite.SQLiteDatabase, collection: string, record: any): Promise<void> {
+    await db.runAsync(
+      `INSERT INTO records (collection, id, updated_at, data) VALUES (?, ?, ?, ?)
+       ON CONFLICT (collection, id) DO UPDATE SET updated_at = excluded.updated_at, data = excluded.data`,
+      collection,
+      String(record.id),
+      toUpdatedAtMillis(record.updatedAt),
+      JSON.stringify(record)
+    );
+  }
+}
+
+const toUpdatedAtMillis = (value: any): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = new Date(value).getTime();
+    return isNaN(parsed) ? 0 : parsed;
+  }
+  if (value?.seconds) return value.seconds * 1000;
+  return 0;
+};
@@ -0,0 +1,97 @@
+/**
+ * Stock movement ledger
+ *
+ * Every change to a product's stock is recorded as a movement: a signed delta with a reason,
+ * the staff member, the device and the bundle that made it. Synced movements live in
+ * products/{productId}/stockDeltas/{opId} (written in the same transaction as the stock change);
+ * movements still in the outbox come from the provisional stock deltas.
+ *
+ * A product's stock is its opening balance plus the sum of its movements. Products created
+ * before the ledger existed have stock no movement accounts for - that gap is shown as
+ * unrecorded rather than guessed at.
+ */
+
+export type StockMovementReason = 'sale' | 'void' | 'restock' | 'wastage' | 'stockTake' | 'correction' | 'opening';
+
+export const STOCK_MOVEMENT_REASONS: Record<StockMovementReason, string> = {
+  sale: 'Sale',
+  void: 'Voided sale',
+  restock: 'Restock',
+  wastage: 'Wastage',
+  stockTake: 'Stock-take adjustment',
+  correction: 'Manual correction',
+  opening: 'Opening stock',
+};
+
+// Reasons staff can pick when adjusting stock by hand
+export const MANUAL_STOCK_REASONS: StockMovementReason[] = ['restock', 'wastage', 'correction'];
+
+export interface StockMovement {
+  id: string;                              // opId of the step that made it
+  productId: string;
+  delta: number;
+  reason: StockMovementReason;
+  note?: string | null;
+  staffId?: string | null;
+  staffName?: string | null;
+  deviceId?: string | null;
+  bundleId?: string | null;
+  at: number;                              // Applied on the server, or made on this device while pending
+  pending?: boolean;                       // Still in the outbox
+}
+
+/** Who made a stock change - stamped on the step payload when the bundle is built */
+export interface StockActor {
+  staffId: string | null;
+  staffName: string | null;
+}
+
+/**
+ * Reason for a stock step - from its payload, or inferred for steps queued before the ledger
+ */
+export const stockMovementReason = (bundleType: string | undefined, step: any): StockMovementReason => {
+  const payload = step?.payload || {};
+  if (payload.reason && payload.reason in STOCK_MOVEMENT_REASONS) return payload.reason;
+  if (step?.kind === 'stockTakeRebase' || bundleType === 'stockTake') return 'stockTake';
+  if (payload.source === 'void' || bundleType === 'voidSale') return 'void';
+  return 'sale';
+};
+
+/**
+ * Ledger fields for a stockDelta step payload
+ */
+export const stockMovementFields = (
+  reason: StockMovementReason,
+  actor: StockActor,
+  note?: string
+): Record<string, any> => ({
+  reason,
+  staffId: actor.staffId,
+  staffName: actor.staffName,
+  ...(note ? { note } : {}),
+});
+
+/**
+ * Stock after replaying movements on top of an opening balance
+ */
+export const replayStockLedger = (movements: StockMovement[], opening: number = 0): number =>
+  movements.reduce((stock, movement) => stock + movement.delta, opening);
+
+/**
+ * Newest-first movements with the stock level after each one, ending at `currentStock`.
+ * `unrecorded` is the stock no movement explains (from before the ledger, or history
+ * that hasn't loaded)
+ */
+export const withRunningStock = (
+  movements: StockMovement[],
+  currentStock: number
+): { entries: (StockMovement & { stockAfter: number })[]; unrecorded: number } => {
+  const newestFirst = [...movements].sort((a, b) => b.at - a.at);
+  let stock = currentStock;
+  const entries = newestFirst.map(movement => {
+    const entry = { ...movement, stockAfter: stock };
+    stock -= movement.delta;
+    return entry;
+  });
+  return { entries, unrecorded: stock };
+};
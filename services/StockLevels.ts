@@ -0,0 +1,215 @@
+/**
+ * Stock levels, low-stock alerts and reorder suggestions
+ *
+ * A product is low when its stock is at or below its own minStockLevel, or the organization's
+ * lowStockAlertLevel when it has none. Reorder suggestions top products back up to their
+ * maxStockLevel (or a couple of weeks of recent sales when none is set), allowing for what is
+ * already on order and what will sell while the supplier delivers.
+ */
+
+import { getAssignmentLines, isCancelledAssignment } from '../utils/assignmentLines';
+import { GoodsReceipt, PurchaseOrder, purchaseOrderLineStatus } from './PurchaseOrders';
+import { Supplier, roundUpToPack } from './Suppliers';
+
+// Used when neither the product nor the organization sets a level
+export const DEFAULT_LOW_STOCK_LEVEL = 3;
+
+// Sales in this window set each product's daily sales rate
+export const SALES_VELOCITY_WINDOW_DAYS = 28;
+// Days of sales a reorder covers when the product has no maxStockLevel
+export const REORDER_COVER_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type StockStatus = 'out' | 'low' | 'ok' | 'overstocked';
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  out: 'Out of stock',
+  low: 'Low stock',
+  ok: 'In stock',
+  overstocked: 'Over max',
+};
+
+/**
+ * The stock level a product is low at
+ */
+export const lowStockThreshold = (product: any, defaultLevel: number): number =>
+  typeof product?.minStockLevel === 'number' && product.minStockLevel >= 0 ? product.minStockLevel : defaultLevel;
+
+export const stockStatus = (product: any, defaultLevel: number): StockStatus => {
+  const stock = product?.stock ?? 0;
+  if (stock <= 0) return 'out';
+  if (stock <= lowStockThreshold(product, defaultLevel)) return 'low';
+  if (typeof product?.maxStockLevel === 'number' && stock > product.maxStockLevel) return 'overstocked';
+  return 'ok';
+};
+
+/**
+ * Active product at or below its low-stock threshold (out of stock included)
+ */
+export const isLowStock = (product: any, defaultLevel: number): boolean =>
+  product?.isActive !== false && (product?.stock ?? 0) <= lowStockThreshold(product, defaultLevel);
+
+/**
+ * Check the min/max levels entered for a product - blank means not set
+ */
+export const validateStockLevels = (minStockLevel: number | null, maxStockLevel: number | null): void => {
+  [minStockLevel, maxStockLevel].forEach(level => {
+    if (level !== null && (!Number.isInteger(level) || level < 0)) {
+      throw new Error('Stock levels must be whole numbers of 0 or more');
+    }
+  });
+  if (minStockLevel !== null && maxStockLevel !== null && maxStockLevel <= minStockLevel) {
+    throw new Error('Max stock must be above min stock');
+  }
+};
+
+/** A product that dropped to its low-stock threshold - raised once per crossing */
+export interface LowStockAlert {
+  id: string;
+  productId: string;
+  productName: string;
+  stock: number;
+  threshold: number;
+  raisedAt: number;
+  acknowledged: boolean;
+}
+
+/**
+ * Products that are low now but weren't before - `previousLowIds` is what was low last time
+ */
+export const findLowStockCrossings = (
+  products: any[],
+  previousLowIds: Set<string>,
+  defaultLevel: number
+): { lowIds: string[]; crossed: any[] } => {
+  const low = products.filter(product => isLowStock(product, defaultLevel));
+  return {
+    lowIds: low.map(product => product.id),
+    crossed: low.filter(product => !previousLowIds.has(product.id)),
+  };
+};
+
+const saleTime = (assignment: any): number => {
+  const value = assignment.date || assignment.createdAt || assignment.updatedAt || 0;
+  if (typeof value?.toMillis === 'function') return value.toMillis();
+  if (typeof value?.seconds === 'number') return value.seconds * 1000;
+  return new Date(value).getTime() || 0;
+};
+
+/**
+ * Average units sold per day for each product over the last `windowDays` (voided sales excluded)
+ */
+export const salesVelocity = (
+  assignments: any[],
+  now: number = Date.now(),
+  windowDays: number = SALES_VELOCITY_WINDOW_DAYS
+): Record<string, number> => {
+  const since = now - windowDays * DAY_MS;
+  const sold: Record<string, number> = {};
+  assignments
+    .filter(assignment => !isCancelledAssignment(assignment) && saleTime(assignment) >= since)
+    .forEach(assignment => {
+      getAssignmentLines(assignment).forEach(line => {
+        if (!line.productId) return;
+        sold[line.productId] = (sold[line.productId] || 0) + line.quantity;
+      });
+    });
+  return Object.fromEntries(Object.entries(sold).map(([productId, units]) => [productId, units / windowDays]));
+};
+
+/**
+ * Units still to arrive on open purchase orders, by product
+ */
+export const quantitiesOnOrder = (orders: PurchaseOrder[], receipts: GoodsReceipt[]): Record<string, number> => {
+  const onOrder: Record<string, number> = {};
+  orders
+    .filter(order => order.status === 'open')
+    .forEach(order => {
+      purchaseOrderLineStatus(order, receipts).forEach(line => {
+        onOrder[line.productId] = (onOrder[line.productId] || 0) + line.outstanding;
+      });
+    });
+  return onOrder;
+};
+
+export interface ReorderSuggestion {
+  productId: string;
+  productName: string;
+  stock: number;
+  threshold: number;
+  targetStock: number;                     // Stock the delivery should bring the product up to
+  onOrder: number;
+  dailySales: number;
+  daysOfCover: number | null;              // null when it hasn't sold recently
+  quantity: number;                        // Rounded up to whole packs
+  unitCost: number | null;
+  supplierId: string | null;
+  supplierName: string | null;
+  supplierSku: string | null;
+  packSize: number | null;
+}
+
+/**
+ * What to order for each product that is low, or will be by the time its supplier delivers.
+ * Sorted by supplier, then fewest days of cover first.
+ */
+export const buildReorderSuggestions = ({
+  products,
+  assignments,
+  orders,
+  receipts,
+  suppliers,
+  defaultLevel,
+  now = Date.now(),
+}: {
+  products: any[];
+  assignments: any[];
+  orders: PurchaseOrder[];
+  receipts: GoodsReceipt[];
+  suppliers: Supplier[];
+  defaultLevel: number;
+  now?: number;
+}): ReorderSuggestion[] => {
+  const velocity = salesVelocity(assignments, now);
+  const onOrder = quantitiesOnOrder(orders, receipts);
+  const supplierById = new Map(suppliers.map(supplier => [supplier.id, supplier]));
+
+  return products
+    .filter(product => product.isActive !== false)
+    .map(product => {
+      const stock = Math.max(0, product.stock ?? 0);
+      const threshold = lowStockThreshold(product, defaultLevel);
+      const dailySales = velocity[product.id] || 0;
+      const supplier = product.supplierId ? supplierById.get(product.supplierId) : undefined;
+      const salesBeforeDelivery = Math.ceil(dailySales * (supplier?.leadTimeDays || 0));
+      const targetStock = typeof product.maxStockLevel === 'number'
+        ? product.maxStockLevel
+        : Math.max(threshold + 1, threshold + Math.ceil(dailySales * REORDER_COVER_DAYS));
+      const incoming = onOrder[product.id] || 0;
+      const expectedLow = stock + incoming - salesBeforeDelivery <= threshold;
+      const needed = targetStock + salesBeforeDelivery - stock - incoming;
+      return {
+        productId: product.id,
+        productName: product.name,
+        stock,
+        threshold,
+        targetStock,
+        onOrder: incoming,
+        dailySales: Math.round(dailySales * 100) / 100,
+        daysOfCover: dailySales > 0 ? Math.floor(stock / dailySales) : null,
+        quantity: expectedLow && needed > 0 ? roundUpToPack(needed, product.packSize) : 0,
+        unitCost: typeof product.cost === 'number' ? product.cost : null,
+        supplierId: supplier ? supplier.id : null,
+        supplierName: supplier ? supplier.name : null,
+        supplierSku: product.supplierSku || null,
+        packSize: product.packSize || null,
+      };
+    })
+    .filter(suggestion => suggestion.quantity > 0)
+    .sort((a, b) =>
+      Number(!a.supplierName) - Number(!b.supplierName)   // Products with no supplier last
+      || (a.supplierName || '').localeCompare(b.supplierName || '')
+      || (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity)
+      || a.stock - b.stock);
+};
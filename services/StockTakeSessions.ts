@@ -0,0 +1,194 @@
+/**
+ * Stock-take counting sessions
+ *
+ * A session is started on one device and products are counted one by one - several staff can
+ * count (different shelves, the fridge and the store room) and their counts for a product are
+ * added up. Each product remembers the stock the device showed when it was first counted;
+ * committing turns every counted product into a stockTakeRebase step against that base, so
+ * sales made during the count (here or on other tills) are kept rather than overwritten.
+ *
+ * The finished session is stored with its variance report, locally and as a stockTakes doc
+ * written by the same bundle.
+ */
+
+import { hashBundleStep } from './OperationBundles';
+import { StockActor, stockMovementFields } from './StockLedger';
+
+export interface StockTakeCount {
+  count: number;
+  countedAt: number;
+}
+
+export interface StockTakeProductCount {
+  productId: string;
+  productName: string;
+  baseStock: number;                       // Stock shown on this device when first counted
+  counts: Record<string, StockTakeCount>;  // By staff member
+}
+
+export interface StockTakeSession {
+  id: string;
+  startedAt: number;
+  startedBy: string;
+  products: Record<string, StockTakeProductCount>;
+}
+
+export interface StockTakeVarianceLine {
+  productId: string;
+  productName: string;
+  expected: number;
+  counted: number;
+  variance: number;                        // counted - expected
+  unitValue: number;                       // Cost when known, otherwise sale price
+  varianceValue: number;
+  countedBy: string[];
+}
+
+export interface StockTakeReport {
+  lines: StockTakeVarianceLine[];          // Largest variance first
+  productsCounted: number;
+  productsWithVariance: number;
+  unitsOver: number;
+  unitsShort: number;
+  netVarianceValue: number;
+}
+
+export interface FinishedStockTake {
+  id: string;
+  startedAt: number;
+  startedBy: string;
+  finishedAt: number;
+  finishedBy: string;
+  bundleId: string;
+  report: StockTakeReport;
+}
+
+export const countedTotal = (product: StockTakeProductCount): number =>
+  Object.values(product.counts).reduce((sum, entry) => sum + entry.count, 0);
+
+/**
+ * Record one staff member's count for a product - a recount by the same person replaces theirs
+ */
+export const addStockTakeCount = (
+  session: StockTakeSession,
+  product: { id: string; name: string; stock?: number },
+  staffName: string,
+  count: number,
+  countedAt: number = Date.now()
+): StockTakeSession => {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error('Counted quantity must be a whole number of zero or more');
+  }
+  const existing = session.products[product.id];
+  return {
+    ...session,
+    products: {
+      ...session.products,
+      [product.id]: {
+        productId: product.id,
+        productName: product.name,
+        baseStock: existing ? existing.baseStock : product.stock || 0,
+        counts: { ...(existing?.counts || {}), [staffName]: { count, countedAt } },
+      },
+    },
+  };
+};
+
+/**
+ * Remove a product's counts (all staff, or one) - the product goes back to uncounted
+ */
+export const removeStockTakeCount = (session: StockTakeSession, productId: string, staffName?: string): StockTakeSession => {
+  const existing = session.products[productId];
+  if (!existing) return session;
+  const products = { ...session.products };
+  const counts = { ...existing.counts };
+  if (staffName) delete counts[staffName];
+  if (!staffName || Object.keys(counts).length === 0) {
+    delete products[productId];
+  } else {
+    products[productId] = { ...existing, counts };
+  }
+  return { ...session, products };
+};
+
+/**
+ * Expected vs counted for every counted product
+ */
+export const buildVarianceReport = (session: StockTakeSession, products: any[]): StockTakeReport => {
+  const byId = new Map(products.map(product => [product.id, product]));
+  const lines = Object.values(session.products).map(entry => {
+    const product = byId.get(entry.productId);
+    const counted = countedTotal(entry);
+    const variance = counted - entry.baseStock;
+    const unitValue = typeof product?.cost === 'number' ? product.cost : product?.price || 0;
+    return {
+      productId: entry.productId,
+      productName: product?.name || entry.productName,
+      expected: entry.baseStock,
+      counted,
+      variance,
+      unitValue,
+      varianceValue: variance * unitValue,
+      countedBy: Object.keys(entry.counts),
+    };
+  }).sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance) || a.productName.localeCompare(b.productName));
+
+  return {
+    lines,
+    productsCounted: lines.length,
+    productsWithVariance: lines.filter(line => line.variance !== 0).length,
+    unitsOver: lines.reduce((sum, line) => sum + Math.max(0, line.variance), 0),
+    unitsShort: lines.reduce((sum, line) => sum + Math.max(0, -line.variance), 0),
+    netVarianceValue: lines.reduce((sum, line) => sum + line.varianceValue, 0),
+  };
+};
+
+/**
+ * The rebase bundle for a finished session: one stockTakeRebase per product with a variance,
+ * plus the stockTakes doc carrying the report
+ */
+export const buildStockTakeBundle = (input: {
+  session: StockTakeSession;
+  finished: FinishedStockTake;
+  actor: StockActor;
+  vectorClock: Record<string, number>;
+}): any => {
+  const { session, finished } = input;
+  const bundleId = finished.bundleId;
+  const rebaseSteps = finished.report.lines
+    .filter(line => line.variance !== 0)
+    .map(line => ({
+      opId: hashBundleStep(bundleId, `stockTakeRebase_${line.productId}`),
+      kind: 'stockTakeRebase' as const,
+      payload: {
+        productId: line.productId,
+        count: line.counted,
+        baseStock: line.expected,
+        sessionId: session.id,
+        ...stockMovementFields('stockTake', input.actor, `Stock take ${new Date(session.startedAt).toLocaleDateString()}`),
+      },
+    }));
+
+  return {
+    bundleId,
+    type: 'stockTake',
+    entityRefs: {},
+    batchLabel: `Stock take (${finished.report.productsCounted} products)`,
+    steps: [
+      ...rebaseSteps,
+      {
+        opId: hashBundleStep(bundleId, 'createEntity'),
+        kind: 'createEntity' as const,
+        payload: {
+          collection: 'stockTakes',
+          entityId: session.id,
+          data: { ...finished, id: session.id },
+          metadata: { timestamp: finished.finishedAt, vectorClock: input.vectorClock },
+        },
+      },
+    ],
+    vectorClock: input.vectorClock,
+    timestamp: finished.finishedAt,
+    source: 'local',
+  };
+};
@@ -0,0 +1,135 @@
+/**
+ * Local storage backends for HybridSyncService
+ *
+ * Two kinds of data live locally:
+ * - key/value items (sync queue, pending bundles, provisional overlays, cursors, flags)
+ * - record collections (products, players, assignments, charges) addressed by id
+ *
+ * Adapters that index records (SQLite, in-memory) make single-record writes O(1)
+ * instead of rewriting the whole collection array.
+ */
+
+export interface StorageAdapter {
+  readonly name: string;
+
+  /** Prepare the backend (open database, create tables) - safe to call more than once */
+  init(): Promise<void>;
+
+  // Key/value items
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  multiRemove(keys: readonly string[]): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+
+  // Record collections
+  getCollection(collection: string): Promise<any[]>;
+  replaceCollection(collection: string, records: any[]): Promise<void>;
+  getRecord(collection: string, id: string): Promise<any | null>;
+  upsertRecords(collection: string, records: any[]): Promise<void>;
+  deleteRecords(collection: string, ids: string[]): Promise<void>;
+  clearCollection(collection: string): Promise<void>;
+}
+
+export type StorageBackend = 'asyncStorage' | 'sqlite' | 'memory';
+
+/** Collections stored as records (everything else is a key/value item) */
+export const RECORD_COLLECTIONS = ['products', 'players', 'assignments', 'charges'];
+
+export const isRecordCollection = (key: string): boolean => RECORD_COLLECTIONS.includes(key);
+
+/**
+ * In-memory adapter - no native modules, so the sync engine can run under Node
+ */
+export class InMemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private items = new Map<string, string>();
+  private collections = new Map<string, Map<string, any>>();
+
+  async init(): Promise<void> {}
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async multiRemove(keys: readonly string[]): Promise<void> {
+    keys.forEach(key => this.items.delete(key));
+  }
+
+  async getAllKeys(): Promise<readonly string[]> {
+    return Array.from(this.items.keys());
+  }
+
+  private getTable(collection: string): Map<string, any> {
+    let table = this.collections.get(collection);
+    if (!table) {
+      table = new Map();
+      this.collections.set(collection, table);
+    }
+    return table;
+  }
+
+  // Records are cloned in and out so callers can't mutate stored state by reference
+  async getCollection(collection: string): Promise<any[]> {
+    return Array.from(this.getTable(collection).values()).map(record => clone(record));
+  }
+
+  async replaceCollection(collection: string, records: any[]): Promise<void> {
+    const table = new Map<string, any>();
+    records.forEach(record => table.set(record.id, clone(record)));
+    this.collections.set(collection, table);
+  }
+
+  async getRecord(collection: string, id: string): Promise<any | null> {
+    const record = this.getTable(collection).get(id);
+    return record ? clone(record) : null;
+  }
+
+  async upsertRecords(collection: string, records: any[]): Promise<void> {
+    const table = this.getTable(collection);
+    records.forEach(record => table.set(record.id, clone(record)));
+  }
+
+  async deleteRecords(collection: string, ids: string[]): Promise<void> {
+    const table = this.getTable(collection);
+    ids.forEach(id => table.delete(id));
+  }
+
+  async clearCollection(collection: string): Promise<void> {
+    this.collections.delete(collection);
+  }
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Copy record collections and matching key/value items from one adapter into another
+ * (used when switching backends)
+ */
+export const copyStorage = async (
+  from: StorageAdapter,
+  to: StorageAdapter,
+  includeKey: (key: string) => boolean = () => true
+): Promise<void> => {
+  const keys = await from.getAllKeys();
+  for (const key of keys) {
+    if (isRecordCollection(key) || !includeKey(key)) continue;
+    const value = await from.getItem(key);
+    if (value !== null) {
+      await to.setItem(key, value);
+    }
+  }
+
+  for (const collection of RECORD_COLLECTIONS) {
+    const records = await from.getCollection(collection);
+    await to.replaceCollection(collection, records);
+  }
+};
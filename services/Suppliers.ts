@@ -0,0 +1,122 @@
+/**
+ * Supplier directory
+ *
+ * Suppliers live in organizations/{orgId}/suppliers. A product links to its preferred supplier
+ * with Product.supplierId, plus the supplier's own code for it (supplierSku) and the pack size
+ * it is sold in - purchase orders and reorder suggestions round to whole packs.
+ */
+
+import { GoodsReceipt, PurchaseOrder, PurchaseOrderProgress, purchaseOrderProgress } from './PurchaseOrders';
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  address?: string | null;
+  accountNumber?: string | null;           // Our account with the supplier
+  leadTimeDays?: number | null;            // Usual days from order to delivery
+  notes?: string | null;
+  isActive: boolean;
+}
+
+export type SupplierInput = Omit<Supplier, 'id' | 'isActive'>;
+
+/**
+ * Trim a supplier form into the stored fields - empty strings become null
+ */
+export const normalizeSupplier = (input: SupplierInput): SupplierInput => {
+  const name = input.name?.trim();
+  if (!name) {
+    throw new Error('Supplier name is required');
+  }
+  const leadTimeDays = input.leadTimeDays ?? null;
+  if (leadTimeDays !== null && (!Number.isInteger(leadTimeDays) || leadTimeDays < 0)) {
+    throw new Error('Lead time must be a whole number of days');
+  }
+  const text = (value?: string | null) => value?.trim() || null;
+  return {
+    name,
+    contactName: text(input.contactName),
+    phone: text(input.phone),
+    email: text(input.email),
+    address: text(input.address),
+    accountNumber: text(input.accountNumber),
+    leadTimeDays,
+    notes: text(input.notes),
+  };
+};
+
+/**
+ * Quantity rounded up to whole packs (a pack size of 1 or none leaves it as is)
+ */
+export const roundUpToPack = (quantity: number, packSize?: number | null): number =>
+  packSize && packSize > 1 ? Math.ceil(quantity / packSize) * packSize : quantity;
+
+export interface SupplierOrderHistoryEntry {
+  order: PurchaseOrder;
+  progress: PurchaseOrderProgress;
+  orderedValue: number;
+  receivedValue: number;
+  deliveries: number;
+  daysToFirstDelivery: number | null;
+}
+
+export interface SupplierOrderHistory {
+  entries: SupplierOrderHistoryEntry[];      // Newest first
+  orderCount: number;
+  orderedValue: number;                      // Cancelled orders excluded
+  receivedValue: number;
+  averageDaysToFirstDelivery: number | null; // Measured lead time, to compare with the quoted one
+}
+
+/**
+ * Purchase orders placed with one supplier, with what was delivered and how quickly.
+ * Orders raised before suppliers were linked are matched by name.
+ */
+export const buildSupplierOrderHistory = (
+  supplier: Supplier,
+  orders: PurchaseOrder[],
+  receipts: GoodsReceipt[]
+): SupplierOrderHistory => {
+  const supplierName = supplier.name.trim().toLowerCase();
+  const entries = orders
+    .filter(order => order.supplierId
+      ? order.supplierId === supplier.id
+      : (order.supplierName || '').trim().toLowerCase() === supplierName)
+    .sort((a, b) => b.raisedAt - a.raisedAt)
+    .map(order => {
+      const orderReceipts = receipts.filter(receipt => receipt.purchaseOrderId === order.id);
+      const firstDelivery = orderReceipts.reduce<number | null>(
+        (first, receipt) => (first === null || receipt.receivedAt < first ? receipt.receivedAt : first),
+        null
+      );
+      return {
+        order,
+        progress: purchaseOrderProgress(order, receipts),
+        orderedValue: order.lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0),
+        receivedValue: orderReceipts.reduce(
+          (sum, receipt) => sum + receipt.lines.reduce((lineSum, line) => lineSum + line.quantity * line.unitCost, 0),
+          0
+        ),
+        deliveries: orderReceipts.length,
+        daysToFirstDelivery: firstDelivery === null
+          ? null
+          : Math.max(0, Math.round((firstDelivery - order.raisedAt) / (24 * 60 * 60 * 1000))),
+      };
+    });
+
+  const delivered = entries.filter(entry => entry.daysToFirstDelivery !== null);
+  return {
+    entries,
+    orderCount: entries.length,
+    orderedValue: entries
+      .filter(entry => entry.progress !== 'cancelled')
+      .reduce((sum, entry) => sum + entry.orderedValue, 0),
+    receivedValue: entries.reduce((sum, entry) => sum + entry.receivedValue, 0),
+    averageDaysToFirstDelivery: delivered.length === 0
+      ? null
+      : Math.round(delivered.reduce((sum, entry) => sum + entry.daysToFirstDelivery!, 0) / delivered.length),
+  };
+};
@@ -0,0 +1,255 @@
+/**
+ * Device-to-device handover of unsynced data
+ *
+ * A device that can't reach the server packs its pending bundles and provisional overlays
+ * into a handover envelope. Another device logged in to the same organization imports
+ * it and syncs the bundles with their original opIds - appliedOps markers make the replay
+ * idempotent even if some of the work already reached the server.
+ *
+ * The payload is encrypted and signed (storageCrypto: ChaCha20 + HMAC-SHA256) with a key
+ * stretched from a one-time handover code shown on the exporting device - a file or QR frames
+ * are useless without it. The envelope also carries a SHA-256 checksum so a truncated paste or
+ * missing frame is caught before the code is asked for.
+ */
+
+import {
+  decryptValue,
+  deriveStorageKey,
+  encryptValue,
+  sha256,
+  utf8Encode,
+} from '../utils/storageCrypto';
+
+export const HANDOVER_FORMAT_VERSION = 1;
+// First field of every QR frame - lets the scanner ignore unrelated codes
+export const HANDOVER_FRAME_PREFIX = 'VMSH1';
+// Envelope characters per QR frame - small enough to scan reliably off a tablet screen
+export const HANDOVER_FRAME_SIZE = 800;
+
+// Provisional overlay keys carried across, and how each one is shaped
+export const HANDOVER_PROVISIONAL_KEYS: Record<string, 'entryLists' | 'records' | 'list'> = {
+  provisional_stock_deltas: 'entryLists',
+  provisional_balance_deltas: 'entryLists',
+  provisional_assignment_updates: 'entryLists',
+  provisional_assignments: 'records',
+  provisional_charges: 'records',
+  provisional_organization_updates: 'list',
+};
+
+// No 0/O, 1/I - the code is read off one screen and typed into another
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 10;
+const CODE_STRETCH_ROUNDS = 10000;
+
+export interface HandoverPayload {
+  handoverId: string;
+  organizationId: string;
+  sourceDeviceId: string;
+  createdAt: number;
+  createdBy?: string;
+  bundles: any[];
+  queueItems?: any[];                      // Sync queue items - only in handovers made before the bundle outbox
+  provisional: Record<string, any>;
+}
+
+/** Readable without the code - enough to show what is being imported */
+export interface HandoverHeader {
+  v: number;
+  handoverId: string;
+  organizationId: string;
+  sourceDeviceId: string;
+  createdAt: number;
+  bundleCount: number;
+  queueItemCount: number;
+}
+
+interface HandoverEnvelope extends HandoverHeader {
+  checksum: string;
+  sealed: string;
+}
+
+export interface HandoverFrameSet {
+  handoverId: string;
+  total: number;
+  parts: Record<number, string>;
+}
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * One-time code shown next to the export, e.g. "K7QM2-XW9TD"
+ */
+export const generateHandoverCode = (randomBytes: Uint8Array): string => {
+  if (randomBytes.length < CODE_LENGTH) {
+    throw new Error(`Handover code needs ${CODE_LENGTH} random bytes`);
+  }
+  const chars = Array.from(randomBytes.subarray(0, CODE_LENGTH)).map(byte => CODE_ALPHABET[byte & 31]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+};
+
+export const normalizeHandoverCode = (code: string): string =>
+  code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Slow the code down a little so a stolen file can't be brute-forced cheaply
+const handoverKey = (handoverId: string, code: string) => {
+  const salt = utf8Encode(`vmstock-handover:${handoverId}`);
+  let digest = sha256(salt, utf8Encode(normalizeHandoverCode(code)));
+  for (let round = 0; round < CODE_STRETCH_ROUNDS; round++) {
+    digest = sha256(digest, salt);
+  }
+  return deriveStorageKey(handoverId, digest);
+};
+
+const headerLabel = (header: HandoverHeader): string =>
+  `handover:${header.v}:${header.handoverId}:${header.organizationId}:${header.sourceDeviceId}:${header.createdAt}`;
+
+/**
+ * Encrypt and sign a payload - returns the envelope text (file contents / joined QR frames)
+ */
+export const sealHandover = (payload: HandoverPayload, code: string, nonce: Uint8Array): string => {
+  const header: HandoverHeader = {
+    v: HANDOVER_FORMAT_VERSION,
+    handoverId: payload.handoverId,
+    organizationId: payload.organizationId,
+    sourceDeviceId: payload.sourceDeviceId,
+    createdAt: payload.createdAt,
+    bundleCount: payload.bundles.length,
+    queueItemCount: payload.queueItems?.length || 0,
+  };
+  // The header is bound into the signature - it can't be edited to retarget the import
+  const sealed = encryptValue(JSON.stringify(payload), handoverKey(payload.handoverId, code), headerLabel(header), nonce);
+  const envelope: HandoverEnvelope = { ...header, checksum: toHex(sha256(utf8Encode(sealed))), sealed };
+  return JSON.stringify(envelope);
+};
+
+const parseEnvelope = (text: string): HandoverEnvelope => {
+  let envelope: HandoverEnvelope;
+  try {
+    envelope = JSON.parse(text.trim());
+  } catch {
+    throw new Error('This is not a handover file');
+  }
+  if (!envelope || typeof envelope.sealed !== 'string' || typeof envelope.handoverId !== 'string') {
+    throw new Error('This is not a handover file');
+  }
+  if (envelope.v > HANDOVER_FORMAT_VERSION) {
+    throw new Error('This handover was made by a newer version of the app');
+  }
+  if (toHex(sha256(utf8Encode(envelope.sealed))) !== envelope.checksum) {
+    throw new Error('Handover checksum does not match - the file is incomplete or damaged');
+  }
+  return envelope;
+};
+
+/**
+ * Check the checksum and read the header (no code needed)
+ */
+export const readHandoverHeader = (text: string): HandoverHeader => {
+  const { checksum, sealed, ...header } = parseEnvelope(text);
+  return header;
+};
+
+/**
+ * Verify the signature and decrypt - throws on a wrong code or any edit to the envelope
+ */
+export const openHandover = (text: string, code: string): HandoverPayload => {
+  const { checksum, sealed, ...header } = parseEnvelope(text);
+  let payload: HandoverPayload;
+  try {
+    payload = JSON.parse(decryptValue(sealed, handoverKey(header.handoverId, code), headerLabel(header)));
+  } catch {
+    throw new Error('Wrong handover code, or the handover was altered');
+  }
+  if (!Array.isArray(payload.bundles) || (payload.queueItems !== undefined && !Array.isArray(payload.queueItems))) {
+    throw new Error('Handover payload is incomplete');
+  }
+  return payload;
+};
+
+// ============================================
+// QR FRAMES
+// ============================================
+
+/**
+ * Split an envelope into QR frames: "VMSH1|<handoverId>|<n>/<total>|<chunk>"
+ */
+export const splitHandoverFrames = (envelope: string, frameSize: number = HANDOVER_FRAME_SIZE): string[] => {
+  const { handoverId } = parseEnvelope(envelope);
+  const total = Math.max(1, Math.ceil(envelope.length / frameSize));
+  return Array.from({ length: total }, (_, index) =>
+    `${HANDOVER_FRAME_PREFIX}|${handoverId}|${index + 1}/${total}|${envelope.slice(index * frameSize, (index + 1) * frameSize)}`
+  );
+};
+
+export const isHandoverFrame = (text: string): boolean => text.startsWith(`${HANDOVER_FRAME_PREFIX}|`);
+
+/**
+ * Add a scanned frame - frames can arrive in any order and repeat; a frame from another
+ * handover starts a new set
+ */
+export const addHandoverFrame = (set: HandoverFrameSet | null, frame: string): HandoverFrameSet => {
+  const match = /^VMSH1\|([^|]+)\|(\d+)\/(\d+)\|([\s\S]*)$/.exec(frame);
+  if (!match) {
+    throw new Error('Not a handover QR code');
+  }
+  const [, handoverId, indexText, totalText, chunk] = match;
+  const index = Number(indexText);
+  const total = Number(totalText);
+  if (index < 1 || index > total) {
+    throw new Error('Handover QR code is damaged');
+  }
+
+  const current = set && set.handoverId === handoverId && set.total === total
+    ? set
+    : { handoverId, total, parts: {} };
+  return { ...current, parts: { ...current.parts, [index]: chunk } };
+};
+
+export const getMissingHandoverFrames = (set: HandoverFrameSet): number[] =>
+  Array.from({ length: set.total }, (_, index) => index + 1).filter(index => set.parts[index] === undefined);
+
+export const joinHandoverFrames = (set: HandoverFrameSet): string => {
+  const missing = getMissingHandoverFrames(set);
+  if (missing.length > 0) {
+    throw new Error(`Handover is missing ${missing.length} of ${set.total} QR codes`);
+  }
+  return Array.from({ length: set.total }, (_, index) => set.parts[index + 1]).join('');
+};
+
+// ============================================
+// PROVISIONAL MERGE
+// ============================================
+
+/**
+ * Merge imported provisional state into this device's - entries are matched by opId (or
+ * record id), so importing the same handover twice changes nothing
+ */
+export const mergeProvisionalValue = (key: string, current: any, incoming: any): any => {
+  const shape = HANDOVER_PROVISIONAL_KEYS[key];
+  if (incoming === null || incoming === undefined) return current;
+
+  if (shape === 'list') {
+    const list = Array.isArray(current) ? [...current] : [];
+    const opIds = new Set(list.map((entry: any) => entry?.opId));
+    (incoming as any[]).forEach(entry => {
+      if (!opIds.has(entry?.opId)) list.push(entry);
+    });
+    return list;
+  }
+
+  const merged: Record<string, any> = { ...(current || {}) };
+  Object.entries(incoming as Record<string, any>).forEach(([id, value]) => {
+    if (shape === 'records') {
+      if (merged[id] === undefined) merged[id] = value;
+      return;
+    }
+    const entries: any[] = merged[id] ? [...merged[id]] : [];
+    const opIds = new Set(entries.map(entry => entry?.opId));
+    (value as any[]).forEach(entry => {
+      if (!opIds.has(entry?.opId)) entries.push(entry);
+    });
+    merged[id] = entries;
+  });
+  return merged;
+};
@@ -0,0 +1,142 @@
+/**
+ * Priority lanes for the sync outbox
+ *
+ * Pending bundles are sorted into lanes - payments, then sales, then charges, then
+ * catalogue/settings edits. Each drain runs the lanes round-robin in that order: a lane gets up
+ * to `weight` bundles per round, so a backlog of product edits can't hold up a payment and
+ * catalogue edits still get a turn every round.
+ *
+ * Units keep their FIFO order within a lane. A unit that needs an entity created by another
+ * pending unit (a payment for an offline sale, a sale of a product added offline) pulls the
+ * creator into its own lane, ahead of it.
+ */
+
+export type SyncLane = 'payments' | 'sales' | 'charges' | 'catalogue';
+
+export interface SyncLaneConfig {
+  lane: SyncLane;
+  weight: number;  // Bundles taken per round
+}
+
+// Priority order - the first lane is always attempted first after reconnect
+export const SYNC_LANES: SyncLaneConfig[] = [
+  { lane: 'payments', weight: 5 },
+  { lane: 'sales', weight: 5 },
+  { lane: 'charges', weight: 3 },
+  { lane: 'catalogue', weight: 2 },
+];
+
+export interface OutboxUnit {
+  id: string;
+  lane: SyncLane;
+  bundle: any;
+  creates: string[];   // Entity keys ("assignments/abc") this unit creates
+  requires: string[];  // Entity keys that must exist on the server first
+  timestamp: number;
+}
+
+const BUNDLE_LANES: Record<string, SyncLane> = {
+  playerPayment: 'payments',
+  payment: 'payments',
+  balanceAdjustment: 'payments',
+  assignmentSale: 'sales',
+  basketSale: 'sales',
+  voidSale: 'sales',
+  charge: 'charges',
+  chargeUpdate: 'charges',
+  chargeDelete: 'charges',
+  stockTake: 'catalogue',
+  stockAdjustment: 'catalogue',
+  goodsReceipt: 'catalogue',
+  organizationUpdate: 'catalogue',
+};
+
+// Entity writes go by collection - marking a sale paid is a payment
+const getEntityWriteLane = (step: any): SyncLane => {
+  if (step?.payload?.collection !== 'assignments') {
+    return 'catalogue';
+  }
+  return step.payload.data?.paid !== undefined ? 'payments' : 'sales';
+};
+
+export const getBundleLane = (bundle: any): SyncLane =>
+  bundle?.type === 'entityWrite'
+    ? getEntityWriteLane(bundle.steps?.[0])
+    : BUNDLE_LANES[bundle?.type] || 'catalogue';
+
+const bundleToUnit = (bundle: any): OutboxUnit => {
+  const creates: string[] = [];
+  const requires: string[] = [];
+  (bundle.steps || []).forEach((step: any) => {
+    switch (step.kind) {
+      case 'createAssignment':
+        creates.push(`assignments/${step.payload?.assignmentId}`);
+        break;
+      case 'createCharge':
+        creates.push(`charges/${step.payload?.id}`);
+        break;
+      case 'updateAssignment':
+        requires.push(`assignments/${step.assignment?.assignmentId}`);
+        break;
+      // Deltas land on a product or player doc - one created offline has to reach the server first
+      case 'stockDelta':
+      case 'stockTakeRebase':
+        requires.push(`products/${step.payload?.productId}`);
+        break;
+      case 'balanceDelta':
+        requires.push(`players/${step.payload?.playerId}`);
+        break;
+      case 'updatePlayerBalance':
+        requires.push(`players/${step.player?.playerId}`);
+        break;
+      case 'updateCharge':
+      case 'deleteCharge':
+        requires.push(`charges/${step.payload?.chargeId}`);
+        break;
+      case 'createEntity':
+        creates.push(`${step.payload?.collection}/${step.payload?.entityId}`);
+        break;
+      case 'updateEntity':
+      case 'deleteEntity':
+        requires.push(`${step.payload?.collection}/${step.payload?.entityId}`);
+        break;
+    }
+  });
+
+  return {
+    id: bundle.bundleId,
+    lane: getBundleLane(bundle),
+    bundle,
+    creates,
+    requires,
+    timestamp: bundle.timestamp || 0,
+  };
+};
+
+/**
+ * Sort pending bundles into lanes, FIFO within each lane
+ */
+export const planOutboxLanes = (bundles: any[]): Map<SyncLane, OutboxUnit[]> => {
+  const units = bundles.map(bundleToUnit).sort((a, b) => a.timestamp - b.timestamp);
+
+  // Creators move up to the most urgent lane that needs them - repeat until nothing moves
+  const rank = (lane: SyncLane) => SYNC_LANES.findIndex(config => config.lane === lane);
+  let moved = true;
+  while (moved) {
+    moved = false;
+    units.forEach(unit => {
+      unit.requires.forEach(key => {
+        units.forEach(creator => {
+          if (creator !== unit && creator.creates.includes(key) && rank(creator.lane) > rank(unit.lane)) {
+            creator.lane = unit.lane;
+            moved = true;
+          }
+        });
+      });
+    });
+  }
+
+  const lanes = new Map<SyncLane, OutboxUnit[]>(SYNC_LANES.map(config => [config.lane, [] as OutboxUnit[]]));
+  units.forEach(unit => lanes.get(unit.lane)!.push(unit));
+  return lanes;
+};
@@ -0,0 +1,373 @@
+/**
+ * Versioned persisted sync state
+ *
+ * Everything the sync engine keeps locally (outbox, sync queue, dead letters, provisional
+ * overlays, base caches) is covered by one schema version stored under SYNC_STATE_VERSION_KEY.
+ * At startup the ordered migrations below upgrade older shapes before the engine reads them.
+ *
+ * Steps only stage their writes. Nothing is written until every pending step has succeeded, the
+ * touched keys and the old version stamp are backed up first and the version is stamped last - a
+ * failed step leaves the stored state exactly as it was, and the engine refuses to start instead
+ * of reading it.
+ */
+
+import { StorageAdapter, isRecordCollection } from './StorageAdapter';
+import { queueItemToBundle } from './OperationBundles';
+
+export const SYNC_STATE_VERSION_KEY = 'sync_state_version';
+// Originals of the keys a commit is about to overwrite - restored if the app dies mid-commit
+const SYNC_STATE_BACKUP_KEY = 'sync_state_backup';
+
+export interface SyncStateVersion {
+  version: number;
+  migratedAt: number;
+  history: { version: number; description: string; appliedAt: number }[];
+}
+
+export interface MigrationContext {
+  /** Parsed value of a key/value item, or a record collection (staged writes win) */
+  read(key: string): Promise<any>;
+  write(key: string, value: any): void;
+  remove(key: string): void;
+  log(message: string): void;
+}
+
+export interface SyncStateMigration {
+  version: number;
+  description: string;
+  migrate(ctx: MigrationContext): Promise<void>;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: number[];
+}
+
+const isPlainObject = (value: any): boolean =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Ordered upgrade steps - append only, never edit a released step. Each step must be safe to
+ * run on state that is already in its target shape (unversioned installs may be partly new).
+ */
+export const SYNC_STATE_MIGRATIONS: SyncStateMigration[] = [
+  {
+    version: 1,
+    description: "Merge the legacy 'syncQueue' key into 'sync_queue'",
+    migrate: async ctx => {
+      const legacy = await ctx.read('syncQueue');
+      if (legacy === null) return;
+      if (!Array.isArray(legacy)) {
+        throw new Error("Legacy 'syncQueue' is not an array");
+      }
+
+      const queue = (await ctx.read('sync_queue')) || [];
+      const ids = new Set(queue.map((item: any) => item?.id));
+      const moved = legacy.filter((item: any) => !ids.has(item?.id));
+      ctx.write('sync_queue', [...queue, ...moved]);
+      ctx.remove('syncQueue');
+      ctx.log(`moved ${moved.length} legacy queue items`);
+    },
+  },
+  {
+    version: 2,
+    description: 'Normalize sync queue and dead-letter items',
+    migrate: async ctx => {
+      const queue = (await ctx.read('sync_queue')) || [];
+      const deadLetters = (await ctx.read('dead_letter_queue')) || [];
+      if (!Array.isArray(queue) || !Array.isArray(deadLetters)) {
+        throw new Error('Sync queue or dead letter queue is not an array');
+      }
+
+      const now = Date.now();
+      const normalize = (item: any) => ({
+        ...item,
+        retryCount: typeof item.retryCount === 'number' ? item.retryCount : 0,
+        timestamp: typeof item.timestamp === 'number' ? item.timestamp : now,
+      });
+      const isUsable = (item: any) =>
+        isPlainObject(item) && typeof item.id === 'string' && typeof item.collection === 'string' &&
+        typeof item.action === 'string' && item.data !== null && item.data !== undefined;
+
+      // Items the engine can't sync are parked in the dead letter queue for staff, never dropped
+      const unusable = queue.filter((item: any) => !isUsable(item));
+      ctx.write('sync_queue', queue.filter(isUsable).map(normalize));
+      ctx.write('dead_letter_queue', [
+        ...deadLetters.filter(isPlainObject).map(normalize),
+        ...unusable.filter(isPlainObject).map((item: any) => ({
+          ...normalize(item),
+          id: typeof item.id === 'string' ? item.id : `legacy_${now}_${Math.random().toString(36).substr(2, 9)}`,
+          collection: item.collection || 'unknown',
+          action: item.action || 'unknown',
+          data: item.data ?? {},
+          lastError: 'Unreadable sync queue item found while upgrading local data',
+          deadLetteredAt: now,
+        })),
+      ]);
+      if (unusable.length > 0) {
+        ctx.log(`parked ${unusable.length} unreadable queue items in the dead letter queue`);
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Provisional deltas and assignment updates as opId-tagged lists',
+    migrate: async ctx => {
+      for (const key of ['provisional_stock_deltas', 'provisional_balance_deltas', 'provisional_assignment_updates']) {
+        const data = await ctx.read(key);
+        if (data === null) continue;
+        if (!isPlainObject(data)) {
+          throw new Error(`${key} is not an object map`);
+        }
+
+        const migrated: Record<string, any[]> = {};
+        Object.entries(data).forEach(([entityId, entries]) => {
+          // Early builds stored one running total (or one update) per entity
+          const list = Array.isArray(entries) ? entries : [entries];
+          migrated[entityId] = list.map((entry: any, index: number) => {
+            const normalized = key === 'provisional_assignment_updates'
+              ? (isPlainObject(entry) && 'updates' in entry ? entry : { updates: entry })
+              : (typeof entry === 'number' ? { delta: entry } : entry);
+            if (!isPlainObject(normalized)) {
+              throw new Error(`${key}[${entityId}] has an unreadable entry`);
+            }
+            return {
+              ...normalized,
+              opId: normalized.opId || `legacy_${key}_${entityId}_${index}`,
+              timestamp: normalized.timestamp || Date.now(),
+            };
+          });
+        });
+        ctx.write(key, migrated);
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Check pending bundles are complete',
+    migrate: async ctx => {
+      const bundles = await ctx.read('pending_bundles');
+      if (bundles === null) return;
+      if (!Array.isArray(bundles)) {
+        throw new Error('pending_bundles is not an array');
+      }
+
+      // Unsynced sales can't be guessed back together - refuse rather than drop them
+      const broken = bundles.filter((bundle: any) =>
+        !isPlainObject(bundle) || typeof bundle.bundleId !== 'string' || !Array.isArray(bundle.steps) ||
+        bundle.steps.some((step: any) => !step?.opId || !step?.kind)
+      );
+      if (broken.length > 0) {
+        throw new Error(`${broken.length} pending bundle(s) are missing their id, steps or step opIds`);
+      }
+    },
+  },
+  {
+    version: 5,
+    description: "Products: fill 'stock' from the legacy 'quantity' field",
+    migrate: async ctx => {
+      const products: any[] = await ctx.read('products');
+      let fixed = 0;
+      const migrated = products.map(product => {
+        if (typeof product.stock !== 'number' && typeof product.quantity === 'number') {
+          fixed++;
+          return { ...product, stock: product.quantity };
+        }
+        return product;
+      });
+      if (fixed > 0) {
+        ctx.write('products', migrated);
+        ctx.log(`filled stock on ${fixed} products`);
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Move the sync queue and its dead letters into the bundle outbox',
+    migrate: async ctx => {
+      const queue = (await ctx.read('sync_queue')) || [];
+      const deadLetters = (await ctx.read('dead_letter_queue')) || [];
+      const bundles = (await ctx.read('pending_bundles')) || [];
+      if (!Array.isArray(queue) || !Array.isArray(deadLetters) || !Array.isArray(bundles)) {
+        throw new Error('Sync queue, dead letter queue or pending_bundles is not an array');
+      }
+
+      const now = Date.now();
+      // Charge and organization items never synced anything - their bundles did the work
+      const isNoOp = (item: any) => item?.collection === 'charges' || item?.collection === 'organizations';
+      // Kept for staff to see and discard - they can't be replayed
+      const parkLegacyItem = (item: any, error: string) => ({
+        bundleId: item.id,
+        type: 'legacyQueueItem',
+        entityRefs: {},
+        steps: [],
+        vectorClock: {},
+        timestamp: item.timestamp || now,
+        source: 'local',
+        legacyItem: item,
+        retryCount: item.retryCount || 0,
+        lastError: item.lastError || error,
+        errorHistory: item.errorHistory || [],
+        deadLetteredAt: item.deadLetteredAt || now,
+      });
+
+      // Unnumbered - loadSyncDevice gives them this device's next sequence numbers at startup
+      const pendingIds = new Set(bundles.map((bundle: any) => bundle?.bundleId));
+      const moved: any[] = [];
+      const parked: any[] = [];
+      let dropped = 0;
+      queue.forEach((item: any) => {
+        if (pendingIds.has(item?.id)) return;
+        const bundle = queueItemToBundle(item);
+        if (bundle) {
+          moved.push({ ...bundle, retryCount: item.retryCount || 0, lastError: item.lastError, errorHistory: item.errorHistory });
+        } else if (isNoOp(item)) {
+          dropped++;
+        } else {
+          parked.push(parkLegacyItem(item, 'Sync queue item could not be converted while upgrading local data'));
+        }
+      });
+
+      const deadBundles = deadLetters.filter(isPlainObject).map((item: any) => {
+        if (typeof item.bundleId === 'string') return item;
+        const bundle = queueItemToBundle(item);
+        return bundle
+          ? {
+            ...bundle,
+            retryCount: item.retryCount || 0,
+            lastError: item.lastError,
+            errorHistory: item.errorHistory || [],
+            deadLetteredAt: item.deadLetteredAt || now,
+          }
+          : parkLegacyItem(item, 'Dead-lettered sync queue item could not be converted');
+      });
+
+      ctx.write('pending_bundles', [...bundles, ...moved]);
+      ctx.write('dead_letter_queue', [...deadBundles, ...parked]);
+      ctx.remove('sync_queue');
+      ctx.log(`moved ${moved.length} queue items and ${deadBundles.length} dead letters into bundles` +
+        (parked.length > 0 ? `, parked ${parked.length} unconvertible items` : '') +
+        (dropped > 0 ? `, dropped ${dropped} no-op charge/organization items` : ''));
+    },
+  },
+  {
+    version: 7,
+    description: "Lift this device's vector clock counter above the timestamps earlier builds stamped on bundles",
+    migrate: async ctx => {
+      // Earlier builds sent { [deviceId]: Date.now() } - a counter left below those would read as older than them
+      const device = await ctx.read('sync_device');
+      if (!isPlainObject(device) || typeof device.deviceId !== 'string') return;
+      const clock = await ctx.read('vector_clock');
+      const counters = isPlainObject(clock) ? clock : {};
+      const now = Date.now();
+      if ((counters[device.deviceId] || 0) >= now) return;
+      ctx.write('vector_clock', { ...counters, [device.deviceId]: now });
+      ctx.log(`lifted ${device.deviceId} to ${now}`);
+    },
+  },
+];
+
+export const SYNC_STATE_SCHEMA_VERSION = SYNC_STATE_MIGRATIONS[SYNC_STATE_MIGRATIONS.length - 1].version;
+
+const readRaw = async (storage: StorageAdapter, key: string): Promise<any> => {
+  if (isRecordCollection(key)) {
+    return storage.getCollection(key);
+  }
+  const raw = await storage.getItem(key);
+  return raw === null ? null : JSON.parse(raw);
+};
+
+const writeRaw = async (storage: StorageAdapter, key: string, value: any): Promise<void> => {
+  if (isRecordCollection(key)) {
+    await storage.replaceCollection(key, value ?? []);
+  } else if (value === null || value === undefined) {
+    await storage.removeItem(key);
+  } else {
+    await storage.setItem(key, JSON.stringify(value));
+  }
+};
+
+export const getSyncStateVersion = async (storage: StorageAdapter): Promise<SyncStateVersion | null> => {
+  const raw = await storage.getItem(SYNC_STATE_VERSION_KEY);
+  return raw ? JSON.parse(raw) : null;
+};
+
+/**
+ * Bring persisted sync state up to SYNC_STATE_SCHEMA_VERSION - throws (writing nothing) if a step fails
+ */
+export const runSyncStateMigrations = async (
+  storage: StorageAdapter,
+  migrations: SyncStateMigration[] = SYNC_STATE_MIGRATIONS
+): Promise<MigrationResult> => {
+  // A commit was interrupted - put the original values back before starting over
+  const backupRaw = await storage.getItem(SYNC_STATE_BACKUP_KEY);
+  if (backupRaw) {
+    console.warn('⚠️ Restoring sync state from an interrupted migration');
+    const backup: Record<string, any> = JSON.parse(backupRaw);
+    for (const [key, value] of Object.entries(backup)) {
+      await writeRaw(storage, key, value);
+    }
+    await storage.removeItem(SYNC_STATE_BACKUP_KEY);
+  }
+
+  const current = await getSyncStateVersion(storage);
+  const from = current?.version || 0;
+  const latest = migrations.length ? migrations[migrations.length - 1].version : 0;
+
+  if (from > latest) {
+    throw new Error(`Local sync data is from a newer app version (schema ${from}, this build supports ${latest})`);
+  }
+
+  const pending = migrations.filter(migration => migration.version > from);
+  if (pending.length === 0) {
+    return { from, to: from, applied: [] };
+  }
+
+  console.log(`🗄️ Migrating sync state from schema ${from} to ${latest}`);
+
+  const staged = new Map<string, any>();
+  const ctx = (migration: SyncStateMigration): MigrationContext => ({
+    read: async key => (staged.has(key) ? staged.get(key) : readRaw(storage, key)),
+    write: (key, value) => { staged.set(key, value); },
+    remove: key => { staged.set(key, null); },
+    log: message => console.log(`🗄️ Migration ${migration.version}: ${message}`),
+  });
+
+  for (const migration of pending) {
+    try {
+      await migration.migrate(ctx(migration));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Sync state migration ${migration.version} failed - local data left untouched:`, error);
+      throw new Error(`Sync state migration ${migration.version} (${migration.description}) failed: ${message}`);
+    }
+  }
+
+  // Commit: back up originals (old version stamp included - a crash after stamping must not
+  // leave the new version on restored old data), write staged values, stamp, drop the backup
+  const backup: Record<string, any> = { [SYNC_STATE_VERSION_KEY]: current };
+  for (const key of staged.keys()) {
+    backup[key] = await readRaw(storage, key);
+  }
+  await storage.setItem(SYNC_STATE_BACKUP_KEY, JSON.stringify(backup));
+
+  for (const [key, value] of staged.entries()) {
+    await writeRaw(storage, key, value);
+  }
+
+  const appliedAt = Date.now();
+  const version: SyncStateVersion = {
+    version: latest,
+    migratedAt: appliedAt,
+    history: [
+      ...(current?.history || []),
+      ...pending.map(migration => ({ version: migration.version, description: migration.description, appliedAt })),
+    ],
+  };
+  await storage.setItem(SYNC_STATE_VERSION_KEY, JSON.stringify(version));
+  await storage.removeItem(SYNC_STATE_BACKUP_KEY);
+
+  console.log(`✅ Sync state migrated to schema ${latest} (${pending.length} step(s))`);
+  return { from, to: latest, applied: pending.map(migration => migration.version) };
+};
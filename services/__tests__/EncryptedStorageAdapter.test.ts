@@ -0,0 +1,99 @@
+import { randomBytes as mockRandomBytes } from 'crypto';
+import { EncryptedStorageAdapter, StorageKeyring, StorageKeyStore } from '../EncryptedStorageAdapter';
+import { InMemoryStorageAdapter } from '../StorageAdapter';
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (count: number) => Uint8Array.from(mockRandomBytes(count)),
+}));
+jest.mock('expo-secure-store', () => ({}));
+
+const memoryKeyStore = (): StorageKeyStore => {
+  let keyring: StorageKeyring | null = null;
+  return {
+    load: async () => keyring,
+    save: async next => { keyring = next; },
+    clear: async () => { keyring = null; },
+  };
+};
+
+const setup = async (inner = new InMemoryStorageAdapter()) => {
+  const storage = new EncryptedStorageAdapter(inner, {
+    isSensitiveKey: key => key !== 'app_theme',
+    keyStore: memoryKeyStore(),
+  });
+  await storage.init();
+  return { inner, storage };
+};
+
+describe('EncryptedStorageAdapter', () => {
+  it('only ever hands the backend ciphertext', async () => {
+    const { inner, storage } = await setup();
+    await storage.setItem('pending_bundles', '[{"bundleId":"b1"}]');
+    await storage.replaceCollection('products', [{ id: 'p1', name: 'Cola', stock: 4, updatedAt: 1 }]);
+
+    expect(await inner.getItem('pending_bundles')).toMatch(/^enc1:/);
+    expect(await inner.getCollection('products')).toEqual([{ id: 'p1', sealed: expect.stringMatching(/^enc1:/) }]);
+    expect(await storage.getItem('pending_bundles')).toBe('[{"bundleId":"b1"}]');
+    expect(await storage.getRecord('products', 'p1')).toEqual({ id: 'p1', name: 'Cola', stock: 4, updatedAt: 1 });
+  });
+
+  it('encrypts plaintext left by older builds on first init', async () => {
+    const inner = new InMemoryStorageAdapter();
+    await inner.setItem('pending_bundles', '[]');
+    await inner.replaceCollection('players', [{ id: 'pl1', name: 'Sam', balance: 3 }]);
+
+    const { storage } = await setup(inner);
+    expect(await inner.getItem('pending_bundles')).toMatch(/^enc1:/);
+    expect(await storage.getItem('pending_bundles')).toBe('[]');
+    expect(await storage.getCollection('players')).toEqual([{ id: 'pl1', name: 'Sam', balance: 3 }]);
+  });
+
+  it('refuses plaintext written around it after the sweep', async () => {
+    const { inner, storage } = await setup();
+    await inner.setItem('pending_bundles', '[{"bundleId":"forged"}]');
+    await inner.upsertRecords('players', [{ id: 'pl1', name: 'Sam', balance: -500 }]);
+
+    await expect(storage.getItem('pending_bundles')).rejects.toThrow('not encrypted');
+    await expect(storage.getRecord('players', 'pl1')).rejects.toThrow('not encrypted');
+    await expect(storage.getCollection('players')).rejects.toThrow('not encrypted');
+  });
+
+  it('only re-seals the records a collection rewrite changed', async () => {
+    const { inner, storage } = await setup();
+    await storage.replaceCollection('players', [{ id: 'pl1', balance: 3 }, { id: 'pl2', balance: 0 }]);
+    const [first, second] = await inner.getCollection('players');
+
+    await storage.replaceCollection('players', [{ id: 'pl1', balance: 3 }, { id: 'pl2', balance: 1.5 }]);
+    const [firstAfter, secondAfter] = await inner.getCollection('players');
+    expect(firstAfter.sealed).toBe(first.sealed);
+    expect(secondAfter.sealed).not.toBe(second.sealed);
+    expect(await storage.getRecord('players', 'pl2')).toEqual({ id: 'pl2', balance: 1.5 });
+  });
+
+  it('passes non-sensitive keys through', async () => {
+    const { inner, storage } = await setup();
+    await storage.setItem('app_theme', 'dark');
+    expect(await inner.getItem('app_theme')).toBe('dark');
+    await inner.setItem('app_theme', 'light');
+    expect(await storage.getItem('app_theme')).toBe('light');
+  });
+
+  it('rejects a sealed value moved to another key', async () => {
+    const { inner, storage } = await setup();
+    await storage.setItem('provisional_stock_deltas', JSON.stringify({ p1: [{ delta: -1 }] }));
+    await inner.setItem('provisional_balance_deltas', (await inner.getItem('provisional_stock_deltas'))!);
+    await expect(storage.getItem('provisional_balance_deltas')).rejects.toThrow('integrity check');
+  });
+
+  it('re-encrypts everything when the key is rotated', async () => {
+    const { inner, storage } = await setup();
+    await storage.setItem('pending_bundles', '[]');
+    const before = await storage.getCurrentKeyId();
+    await storage.rotateKey();
+    const after = await storage.getCurrentKeyId();
+
+    expect(after).not.toBe(before);
+    expect(await inner.getItem('pending_bundles')).toMatch(new RegExp(`^enc1:${after}:`));
+    expect(await storage.getItem('pending_bundles')).toBe('[]');
+  });
+});
@@ -0,0 +1,107 @@
+import { BundleChunkProgress, FirebaseService, MAX_WRITES_PER_CHUNK, planBundleChunks } from '../FirebaseService';
+
+// Transactions are stubbed out - only the chunk planning and resume bookkeeping run
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('../../config/firebase', () => ({ FirebaseAuth: { currentUser: null }, FirebaseFirestore: {} }));
+
+const stockDeltas = (count: number) => Array.from({ length: count }, (_, index) => ({
+  opId: `take:stockDelta_${index}`,
+  kind: 'stockDelta',
+  payload: { productId: `p${index}`, delta: -1 },
+}));
+
+const productCreate = (index: number, data: Record<string, any>) => ({
+  opId: `import:createEntity_${index}`,
+  kind: 'createEntity',
+  payload: { collection: 'products', entityId: `p${index}`, data },
+});
+
+const ackAll = (steps: any[]) => steps.map(step => ({ opId: step.opId, appliedAt: 1 }));
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('planBundleChunks', () => {
+  it('keeps a bundle that fits in one transaction whole', () => {
+    expect(planBundleChunks(stockDeltas(10)).map(chunk => chunk.length)).toEqual([10]);
+  });
+
+  it('splits three-write steps at the write limit, in order', () => {
+    const steps = stockDeltas(400);
+    const chunks = planBundleChunks(steps);
+    const perChunk = MAX_WRITES_PER_CHUNK / 3;
+
+    expect(chunks.map(chunk => chunk.length)).toEqual([perChunk, perChunk, 400 - 2 * perChunk]);
+    expect(chunks.flat()).toEqual(steps);
+  });
+
+  it('counts the stock-movement write of a product created with stock', () => {
+    const withStock = Array.from({ length: 200 }, (_, index) => productCreate(index, { name: 'Cola', stock: 5 }));
+    const withoutStock = Array.from({ length: 200 }, (_, index) => productCreate(index, { name: 'Cola' }));
+
+    expect(planBundleChunks(withStock).map(chunk => chunk.length)).toEqual([MAX_WRITES_PER_CHUNK / 3, 200 - MAX_WRITES_PER_CHUNK / 3]);
+    expect(planBundleChunks(withoutStock).map(chunk => chunk.length)).toEqual([200]);
+  });
+});
+
+describe('FirebaseService.applyBundleTransaction chunks', () => {
+  const firebase = new FirebaseService('org_test');
+  let applyChunk: jest.SpyInstance;
+
+  beforeEach(() => {
+    applyChunk = jest.spyOn(FirebaseService.prototype as any, 'applyBundleChunk')
+      .mockImplementation(async (_bundle: any, steps: any) => ackAll(steps));
+  });
+
+  afterEach(() => {
+    applyChunk.mockRestore();
+  });
+
+  it('reports progress after every chunk of a large bundle', async () => {
+    const bundle = { bundleId: 'take', type: 'stockTake', steps: stockDeltas(300) };
+    const progress: BundleChunkProgress[] = [];
+
+    const acks = await firebase.applyBundleTransaction(bundle, { onChunkCommitted: update => { progress.push(update); } });
+
+    expect(acks).toEqual(ackAll(bundle.steps));
+    expect(progress.map(({ completedSteps, chunk, chunkCount }) => ({ completedSteps, chunk, chunkCount }))).toEqual([
+      { completedSteps: 150, chunk: 1, chunkCount: 2 },
+      { completedSteps: 300, chunk: 2, chunkCount: 2 },
+    ]);
+    expect(progress[0].acks).toHaveLength(150);
+  });
+
+  it('resumes after the committed steps and keeps their acks', async () => {
+    const steps = stockDeltas(300);
+    const committed = ackAll(steps.slice(0, 150));
+    const bundle = {
+      bundleId: 'take',
+      type: 'stockTake',
+      steps,
+      chunkProgress: { completedSteps: 150, totalSteps: 300, chunk: 1, chunkCount: 2, acks: committed },
+    };
+    const progress: BundleChunkProgress[] = [];
+
+    const acks = await firebase.applyBundleTransaction(bundle, { onChunkCommitted: update => { progress.push(update); } });
+
+    expect(applyChunk).toHaveBeenCalledTimes(1);
+    expect(applyChunk.mock.calls[0][1]).toEqual(steps.slice(150));
+    expect(acks).toEqual(ackAll(steps));
+    expect(progress.map(({ completedSteps, totalSteps }) => ({ completedSteps, totalSteps })))
+      .toEqual([{ completedSteps: 300, totalSteps: 300 }]);
+  });
+
+  it('keeps the committed progress when a later chunk fails', async () => {
+    const bundle = { bundleId: 'take', type: 'stockTake', steps: stockDeltas(300) };
+    const progress: BundleChunkProgress[] = [];
+    applyChunk
+      .mockImplementationOnce(async (_bundle: any, steps: any) => ackAll(steps))
+      .mockImplementationOnce(async () => { throw new Error('Simulated Firestore outage'); });
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    await expect(firebase.applyBundleTransaction(bundle, { onChunkCommitted: update => { progress.push(update); } }))
+      .rejects.toThrow('Simulated Firestore outage');
+    expect(progress.map(update => update.completedSteps)).toEqual([150]);
+  });
+});
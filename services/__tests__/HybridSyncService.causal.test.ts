@@ -0,0 +1,112 @@
+import { FirebaseService } from '../FirebaseService';
+import { HybridSyncService, hybridSyncService } from '../HybridSyncService';
+import { InMemoryStorageAdapter } from '../StorageAdapter';
+
+// Firestore itself is never reached - the till stays offline and server writes are fed to applyOp
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('../../config/firebase', () => ({ FirebaseAuth: { currentUser: null }, FirebaseFirestore: {} }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('@react-native-community/netinfo', () =>
+  jest.requireActual('@react-native-community/netinfo/jest/netinfo-mock'));
+
+const COLA = { id: 'cola', name: 'Cola', price: 1.5, stock: 10, isActive: true };
+
+const startTill = async () => {
+  const storage = new InMemoryStorageAdapter();
+  await storage.replaceCollection('products', [COLA]);
+  const service = new HybridSyncService({ storage, firebase: new FirebaseService('org_test'), deviceId: 'till_a', autoStart: false });
+  await service.whenReady();
+  service.forceOfflineMode();
+  return { storage, service };
+};
+
+/**
+ * An edit by till_b arriving from the server - `clock` says which writes it had seen
+ */
+const serverUpdate = (service: HybridSyncService, data: any, clock: Record<string, number>, editedAt: number) =>
+  service.applyOp({
+    id: `server_${editedAt}`,
+    type: 'update',
+    collection: 'products',
+    entityId: COLA.id,
+    data: { ...data, metadata: { timestamp: editedAt } },
+    metadata: {
+      deviceId: 'till_b',
+      timestamp: editedAt,
+      version: 1,
+      vectorClock: clock,
+      source: 'server',
+      fields: Object.keys(data),
+    },
+  });
+
+const localClock = async (storage: InMemoryStorageAdapter) =>
+  (await storage.getRecord('products', COLA.id)).version.vectorClock;
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  // The app-wide instance starts its timers on import
+  await hybridSyncService.whenReady().catch(() => {});
+  hybridSyncService.destroy();
+});
+
+describe('HybridSyncService causal updates', () => {
+  it('accepts a remote edit that had seen the local one, without a conflict', async () => {
+    const { storage, service } = await startTill();
+    await service.updateEntity('products', COLA.id, { price: 2 });
+
+    await serverUpdate(service, { price: 2.25 }, { ...(await localClock(storage)), till_b: 1 }, Date.now());
+
+    expect((await storage.getRecord('products', COLA.id)).price).toBe(2.25);
+    expect(await service.getConflicts()).toEqual([]);
+  });
+
+  it('merges concurrent edits of different fields', async () => {
+    const { storage, service } = await startTill();
+    await service.updateEntity('products', COLA.id, { price: 2 });
+
+    await serverUpdate(service, { name: 'Cola Zero' }, { till_b: 1 }, Date.now() + 60000);
+
+    expect(await storage.getRecord('products', COLA.id)).toMatchObject({ name: 'Cola Zero', price: 2 });
+    expect(await service.getConflicts()).toEqual([]);
+  });
+
+  it('records a conflict and takes the later concurrent edit of the same field', async () => {
+    const { storage, service } = await startTill();
+    await service.updateEntity('products', COLA.id, { price: 2 });
+    const clock = await localClock(storage);
+
+    await serverUpdate(service, { price: 1.75 }, { till_b: 1 }, Date.now() + 60000);
+
+    expect((await storage.getRecord('products', COLA.id)).price).toBe(1.75);
+    const [conflict] = await service.getConflicts();
+    expect(conflict).toMatchObject({
+      collection: 'products',
+      entityId: COLA.id,
+      fields: ['price'],
+      defaultWinner: 'remote',
+      status: 'open',
+      local: { deviceId: 'till_a', vectorClock: clock, values: { price: 2 } },
+      remote: { deviceId: 'till_b', vectorClock: { till_b: 1 }, values: { price: 1.75 } },
+    });
+  });
+
+  it('keeps the later local edit and queues it again for the server', async () => {
+    const { storage, service } = await startTill();
+    await service.updateEntity('products', COLA.id, { price: 2 });
+    const pendingBefore = await service.getPendingBundlesCount();
+
+    await serverUpdate(service, { price: 1.75 }, { till_b: 1 }, 1);
+
+    expect((await storage.getRecord('products', COLA.id)).price).toBe(2);
+    const [conflict] = await service.getConflicts();
+    expect(conflict).toMatchObject({ fields: ['price'], defaultWinner: 'local' });
+    expect(await service.getPendingBundlesCount()).toBe(pendingBefore + 1);
+  });
+});
@@ -0,0 +1,119 @@
+import { FirebaseService } from '../FirebaseService';
+import { HybridSyncService, hybridSyncService } from '../HybridSyncService';
+import { InMemoryStorageAdapter } from '../StorageAdapter';
+
+// Firestore itself is never reached - RecordingFirebaseService answers every bundle
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('../../config/firebase', () => ({ FirebaseAuth: { currentUser: null }, FirebaseFirestore: {} }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('@react-native-community/netinfo', () =>
+  jest.requireActual('@react-native-community/netinfo/jest/netinfo-mock'));
+
+/**
+ * Stands in for Firestore: records the bundles it is sent and acks every step
+ */
+class RecordingFirebaseService extends FirebaseService {
+  bundles: any[] = [];
+  failNext = false;
+
+  async applyBundleTransaction(bundle: any): Promise<any[]> {
+    if (this.failNext) {
+      this.failNext = false;
+      throw new Error('Simulated Firestore outage');
+    }
+    this.bundles.push(bundle);
+    return bundle.steps.map((step: any) => ({ opId: step.opId, appliedAt: Date.now() }));
+  }
+}
+
+const COLA = { id: 'cola', name: 'Cola', stock: 10, price: 1.5, isActive: true };
+const SAM = { id: 'sam', name: 'Sam', balance: 0, isActive: true };
+
+const startTill = async () => {
+  const storage = new InMemoryStorageAdapter();
+  await storage.replaceCollection('products', [COLA]);
+  await storage.replaceCollection('players', [SAM]);
+  const firebase = new RecordingFirebaseService('org_test');
+  const service = new HybridSyncService({ storage, firebase, deviceId: 'till_a', autoStart: false });
+  await service.whenReady();
+  return { storage, firebase, service };
+};
+
+const sellCola = (service: HybridSyncService, quantity: number) => service.createAssignmentBundle({
+  productId: COLA.id,
+  productName: COLA.name,
+  playerId: SAM.id,
+  userName: SAM.name,
+  quantity,
+  unitPrice: COLA.price,
+  total: COLA.price * quantity,
+  organizationId: 'org_test',
+});
+
+const view = async (service: HybridSyncService) => {
+  const [products, players, assignments] = await Promise.all([
+    service.getProductsWithOverlay(),
+    service.getPlayersWithOverlay(),
+    service.getAssignmentsWithOverlay(),
+  ]);
+  return {
+    stock: products.find((product: any) => product.id === COLA.id)?.stock,
+    balance: players.find((player: any) => player.id === SAM.id)?.balance,
+    assignments: assignments.length,
+  };
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  // The app-wide instance starts its timers on import
+  await hybridSyncService.whenReady().catch(() => {});
+  hybridSyncService.destroy();
+});
+
+describe('HybridSyncService outbox over in-memory storage', () => {
+  it('shows an offline sale through the overlay and keeps it queued', async () => {
+    const { firebase, service } = await startTill();
+    service.forceOfflineMode();
+
+    await sellCola(service, 2);
+
+    expect(await view(service)).toEqual({ stock: 8, balance: 3, assignments: 1 });
+    expect(await service.getPendingBundlesCount()).toBe(1);
+    await service.processSyncQueue();
+    expect(firebase.bundles).toHaveLength(0);
+  });
+
+  it('sends the bundle on reconnect and folds the sale into the base cache', async () => {
+    const { storage, firebase, service } = await startTill();
+    service.forceOfflineMode();
+    const bundleId = await sellCola(service, 2);
+
+    service.forceOnlineMode();
+    await service.processSyncQueue();
+
+    expect(firebase.bundles.map(bundle => bundle.bundleId)).toEqual([bundleId]);
+    expect(await service.getPendingBundlesCount()).toBe(0);
+    expect(await view(service)).toEqual({ stock: 8, balance: 3, assignments: 1 });
+    expect((await storage.getRecord('products', COLA.id)).stock).toBe(8);
+  });
+
+  it('keeps the bundle and its overlay when the transaction fails', async () => {
+    const { firebase, service } = await startTill();
+    service.forceOfflineMode();
+    await sellCola(service, 1);
+
+    firebase.failNext = true;
+    service.forceOnlineMode();
+    await service.processSyncQueue();
+
+    expect(firebase.bundles).toHaveLength(0);
+    expect(await service.getPendingBundlesCount()).toBe(1);
+    expect(await view(service)).toEqual({ stock: 9, balance: 1.5, assignments: 1 });
+  });
+});
@@ -0,0 +1,107 @@
+import { GoodsReceipt, PurchaseOrder, buildReceiptLines, nextUnitCost, purchaseOrderProgress } from '../PurchaseOrders';
+
+const ORDER: PurchaseOrder = {
+  id: 'po1',
+  reference: 'PO-0001',
+  supplierName: 'Cash & Carry',
+  lines: [
+    { productId: 'cola', productName: 'Cola', quantity: 24, unitCost: 0.5 },
+    { productId: 'crisps', productName: 'Crisps', quantity: 12, unitCost: 0.3 },
+  ],
+  status: 'open',
+  raisedAt: 1,
+  raisedBy: 'Manager',
+};
+
+const PRODUCTS = [
+  { id: 'cola', name: 'Cola', stock: 8, cost: 0.4 },
+  { id: 'crisps', name: 'Crisps', stock: 0, cost: null },
+];
+
+const receipt = (id: string, lines: { productId: string; quantity: number }[]): GoodsReceipt => ({
+  id,
+  purchaseOrderId: ORDER.id,
+  reference: ORDER.reference,
+  lines: lines.map(line => ({ ...line, productName: line.productId, unitCost: 0.5, previousCost: null, newCost: 0.5 })),
+  costingMethod: 'lastCost',
+  receivedAt: 1,
+  receivedBy: 'Manager',
+  bundleId: `receipt_${id}`,
+});
+
+const receive = (delivered: { productId: string; quantity: number; unitCost?: number }[], receipts: GoodsReceipt[] = []) =>
+  buildReceiptLines({ order: ORDER, receipts, delivered, products: PRODUCTS, costingMethod: 'weightedAverage' });
+
+describe('nextUnitCost', () => {
+  it('takes the delivered cost under last cost', () => {
+    expect(nextUnitCost('lastCost', { stock: 8, cost: 0.4 }, 24, 0.5)).toBe(0.5);
+  });
+
+  it('blends the delivered cost with the stock on hand', () => {
+    // (8 x 0.40 + 24 x 0.50) / 32
+    expect(nextUnitCost('weightedAverage', { stock: 8, cost: 0.4 }, 24, 0.5)).toBe(0.475);
+  });
+
+  it('takes the delivered cost when nothing is on hand', () => {
+    expect(nextUnitCost('weightedAverage', { stock: 0, cost: 0.4 }, 24, 0.5)).toBe(0.5);
+    expect(nextUnitCost('weightedAverage', { stock: -3, cost: 0.4 }, 24, 0.5)).toBe(0.5);
+    expect(nextUnitCost('weightedAverage', { cost: 0.4 }, 24, 0.5)).toBe(0.5);
+  });
+
+  it('takes the delivered cost for a product without one', () => {
+    expect(nextUnitCost('weightedAverage', { stock: 8, cost: null }, 24, 0.5)).toBe(0.5);
+  });
+
+  it('rounds the blended cost to four places', () => {
+    expect(nextUnitCost('weightedAverage', { stock: 1, cost: 1 }, 2, 0.5)).toBe(0.6667);
+  });
+});
+
+describe('buildReceiptLines', () => {
+  it('costs each line from the stock on hand', () => {
+    expect(receive([{ productId: 'cola', quantity: 24 }, { productId: 'crisps', quantity: 12, unitCost: 0.35 }])).toEqual([
+      { productId: 'cola', productName: 'Cola', quantity: 24, unitCost: 0.5, previousCost: 0.4, newCost: 0.475 },
+      { productId: 'crisps', productName: 'Crisps', quantity: 12, unitCost: 0.35, previousCost: null, newCost: 0.35 },
+    ]);
+  });
+
+  it('drops lines with nothing delivered', () => {
+    expect(receive([{ productId: 'cola', quantity: 10 }, { productId: 'crisps', quantity: 0 }]).map(line => line.productId))
+      .toEqual(['cola']);
+    expect(() => receive([{ productId: 'cola', quantity: 0 }])).toThrow('at least one product');
+  });
+
+  it('receives the rest of a partly received line', () => {
+    const earlier = [receipt('r1', [{ productId: 'cola', quantity: 10 }])];
+    expect(purchaseOrderProgress(ORDER, earlier)).toBe('partial');
+
+    expect(receive([{ productId: 'cola', quantity: 14 }], earlier)).toEqual([
+      expect.objectContaining({ productId: 'cola', quantity: 14 }),
+    ]);
+  });
+
+  it('refuses more than is outstanding', () => {
+    expect(() => receive([{ productId: 'cola', quantity: 25 }])).toThrow('Only 24 of Cola are still outstanding');
+
+    const earlier = [receipt('r1', [{ productId: 'cola', quantity: 20 }]), receipt('r2', [{ productId: 'cola', quantity: 4 }])];
+    expect(purchaseOrderProgress(ORDER, earlier)).toBe('partial');
+    expect(() => receive([{ productId: 'cola', quantity: 1 }], earlier)).toThrow('Only 0 of Cola are still outstanding');
+  });
+
+  it('refuses products not on the order, part units and negative costs', () => {
+    expect(() => receive([{ productId: 'water', quantity: 1 }])).toThrow('not on purchase order PO-0001');
+    expect(() => receive([{ productId: 'cola', quantity: 1.5 }])).toThrow('whole number');
+    expect(() => receive([{ productId: 'cola', quantity: -2 }])).toThrow('whole number');
+    expect(() => receive([{ productId: 'cola', quantity: 2, unitCost: -1 }])).toThrow("can't be negative");
+  });
+
+  it('refuses deliveries against an order that is no longer open', () => {
+    expect(() => buildReceiptLines({
+      order: { ...ORDER, status: 'closed' },
+      receipts: [],
+      delivered: [{ productId: 'cola', quantity: 1 }],
+      products: PRODUCTS,
+      costingMethod: 'lastCost',
+    })).toThrow('PO-0001 is closed');
+  });
+});
@@ -0,0 +1,74 @@
+import { buildEntityBundle } from '../OperationBundles';
+import { planOutboxLanes, SyncLane } from '../SyncScheduler';
+
+const createEntity = (collection: string, entityId: string, timestamp: number) => buildEntityBundle({
+  id: `create_${entityId}`,
+  type: 'create',
+  collection,
+  entityId,
+  data: { name: entityId },
+  metadata: { timestamp },
+});
+
+const sale = (bundleId: string, productId: string, playerId: string, timestamp: number) => ({
+  bundleId,
+  type: 'assignmentSale',
+  timestamp,
+  steps: [
+    { opId: `${bundleId}:assignment`, kind: 'createAssignment', payload: { assignmentId: `a_${bundleId}` } },
+    { opId: `${bundleId}:stock`, kind: 'stockDelta', payload: { productId, delta: -1 } },
+    { opId: `${bundleId}:balance`, kind: 'balanceDelta', payload: { playerId, delta: 1.5 } },
+  ],
+});
+
+const payment = (bundleId: string, playerId: string, timestamp: number) => ({
+  bundleId,
+  type: 'playerPayment',
+  timestamp,
+  steps: [
+    { opId: `${bundleId}:balance`, kind: 'updatePlayerBalance', player: { playerId, amount: -1.5 } },
+  ],
+});
+
+const laneIds = (bundles: any[]): Record<SyncLane, string[]> => {
+  const lanes = planOutboxLanes(bundles);
+  return Object.fromEntries(
+    [...lanes].map(([lane, units]) => [lane, units.map(unit => unit.id)])
+  ) as Record<SyncLane, string[]>;
+};
+
+describe('planOutboxLanes', () => {
+  it('keeps unrelated bundles in their own lanes, oldest first', () => {
+    expect(laneIds([
+      payment('pay1', 'sam', 3),
+      createEntity('products', 'cola', 1),
+      sale('sale1', 'crisps', 'sam', 2),
+    ])).toEqual({ payments: ['pay1'], sales: ['sale1'], charges: [], catalogue: ['create_cola'] });
+  });
+
+  it('sends a product created offline ahead of the sale that sells it', () => {
+    expect(laneIds([
+      createEntity('products', 'cola', 1),
+      sale('sale1', 'cola', 'sam', 2),
+    ])).toEqual({ payments: [], sales: ['create_cola', 'sale1'], charges: [], catalogue: [] });
+  });
+
+  it('sends a player created offline ahead of their payment and their sale', () => {
+    expect(laneIds([
+      createEntity('players', 'newbie', 1),
+      sale('sale1', 'cola', 'newbie', 2),
+      payment('pay1', 'newbie', 3),
+    ])).toEqual({ payments: ['create_newbie', 'pay1'], sales: ['sale1'], charges: [], catalogue: [] });
+  });
+
+  it('keeps a stock take behind the create of the product it counts', () => {
+    const stockTake = {
+      bundleId: 'take1',
+      type: 'stockTake',
+      timestamp: 2,
+      steps: [{ opId: 'take1:cola', kind: 'stockTakeRebase', payload: { productId: 'cola', counted: 4 } }],
+    };
+    expect(laneIds([stockTake, createEntity('products', 'cola', 1)]))
+      .toEqual({ payments: [], sales: [], charges: [], catalogue: ['create_cola', 'take1'] });
+  });
+});
@@ -0,0 +1,179 @@
+import { FirebaseService } from '../FirebaseService';
+import { HybridSyncService, hybridSyncService } from '../HybridSyncService';
+import { InMemoryStorageAdapter } from '../StorageAdapter';
+import {
+  SYNC_STATE_MIGRATIONS,
+  SYNC_STATE_SCHEMA_VERSION,
+  SYNC_STATE_VERSION_KEY,
+  getSyncStateVersion,
+  runSyncStateMigrations,
+} from '../SyncStateMigrations';
+
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('../../config/firebase', () => ({ FirebaseAuth: { currentUser: null }, FirebaseFirestore: {} }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('@react-native-community/netinfo', () =>
+  jest.requireActual('@react-native-community/netinfo/jest/netinfo-mock'));
+
+const BACKUP_KEY = 'sync_state_backup';
+
+/**
+ * In-memory storage that dies on one key's write - the app being killed mid-commit
+ */
+class CrashingStorage extends InMemoryStorageAdapter {
+  crashOn: string | null = null;
+
+  async setItem(key: string, value: string): Promise<void> {
+    if (key === this.crashOn) {
+      throw new Error('App killed');
+    }
+    return super.setItem(key, value);
+  }
+}
+
+const read = async (storage: InMemoryStorageAdapter, key: string) => {
+  const raw = await storage.getItem(key);
+  return raw === null ? null : JSON.parse(raw);
+};
+
+const write = (storage: InMemoryStorageAdapter, key: string, value: any) =>
+  storage.setItem(key, JSON.stringify(value));
+
+// State left by a build from before schema versioning
+const seedUnversioned = async (storage: InMemoryStorageAdapter) => {
+  await write(storage, 'syncQueue', [
+    { id: 'q1', collection: 'products', action: 'update', data: { id: 'cola', price: 2 }, timestamp: 1000 },
+  ]);
+  await write(storage, 'provisional_stock_deltas', { cola: -2 });
+  await write(storage, 'sync_device', { deviceId: 'till_a' });
+  await write(storage, 'vector_clock', { till_a: 4 });
+  await storage.replaceCollection('products', [{ id: 'cola', name: 'Cola', quantity: 7 }]);
+};
+
+// State already at schema 6, from a build that stamped bundles with Date.now() clocks
+const seedVersion6 = async (storage: InMemoryStorageAdapter) => {
+  await write(storage, SYNC_STATE_VERSION_KEY, { version: 6, migratedAt: 1, history: [] });
+  await write(storage, 'sync_device', { deviceId: 'till_a' });
+  await write(storage, 'vector_clock', { till_a: 4 });
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  // The app-wide instance starts its timers on import
+  await hybridSyncService.whenReady().catch(() => {});
+  hybridSyncService.destroy();
+});
+
+describe('runSyncStateMigrations', () => {
+  it('upgrades unversioned state through every step', async () => {
+    const storage = new InMemoryStorageAdapter();
+    await seedUnversioned(storage);
+    const startedAt = Date.now();
+
+    const result = await runSyncStateMigrations(storage);
+
+    expect(result).toEqual({ from: 0, to: SYNC_STATE_SCHEMA_VERSION, applied: SYNC_STATE_MIGRATIONS.map(m => m.version) });
+    expect(await read(storage, 'syncQueue')).toBeNull();
+    expect(await read(storage, 'sync_queue')).toBeNull();
+    expect(await read(storage, 'pending_bundles')).toEqual([
+      expect.objectContaining({
+        bundleId: 'q1',
+        type: 'entityWrite',
+        migratedFrom: 'sync_queue',
+        steps: [expect.objectContaining({ kind: 'updateEntity', payload: expect.objectContaining({ entityId: 'cola' }) })],
+      }),
+    ]);
+    expect(await read(storage, 'provisional_stock_deltas')).toEqual({
+      cola: [expect.objectContaining({ delta: -2, opId: 'legacy_provisional_stock_deltas_cola_0' })],
+    });
+    expect(await storage.getCollection('products')).toEqual([{ id: 'cola', name: 'Cola', quantity: 7, stock: 7 }]);
+    expect((await read(storage, 'vector_clock')).till_a).toBeGreaterThanOrEqual(startedAt);
+
+    const version = await getSyncStateVersion(storage);
+    expect(version?.version).toBe(SYNC_STATE_SCHEMA_VERSION);
+    expect(version?.history.map(entry => entry.version)).toEqual(result.applied);
+    expect(await storage.getItem(BACKUP_KEY)).toBeNull();
+  });
+
+  it('only runs the steps after the stored version', async () => {
+    const storage = new InMemoryStorageAdapter();
+    await seedVersion6(storage);
+
+    expect(await runSyncStateMigrations(storage)).toEqual({ from: 6, to: 7, applied: [7] });
+    expect(await runSyncStateMigrations(storage)).toEqual({ from: 7, to: 7, applied: [] });
+  });
+
+  it('backs up the old version stamp with the data and restores both after a crash', async () => {
+    const storage = new CrashingStorage();
+    await seedVersion6(storage);
+    const before = await read(storage, SYNC_STATE_VERSION_KEY);
+
+    storage.crashOn = SYNC_STATE_VERSION_KEY;
+    await expect(runSyncStateMigrations(storage)).rejects.toThrow('App killed');
+    // Data already rewritten, version not stamped - the backup holds the originals
+    expect(await read(storage, BACKUP_KEY)).toEqual({
+      [SYNC_STATE_VERSION_KEY]: before,
+      vector_clock: { till_a: 4 },
+    });
+
+    storage.crashOn = null;
+    const result = await runSyncStateMigrations(storage);
+    expect(result).toEqual({ from: 6, to: 7, applied: [7] });
+    expect(await read(storage, BACKUP_KEY)).toBeNull();
+    expect((await getSyncStateVersion(storage))?.version).toBe(7);
+  });
+
+  it('puts the old stamp back even when the interrupted run was the first one', async () => {
+    const storage = new CrashingStorage();
+    await seedUnversioned(storage);
+
+    storage.crashOn = SYNC_STATE_VERSION_KEY;
+    await expect(runSyncStateMigrations(storage)).rejects.toThrow('App killed');
+    expect((await read(storage, BACKUP_KEY))[SYNC_STATE_VERSION_KEY]).toBeNull();
+
+    storage.crashOn = BACKUP_KEY;
+    await expect(runSyncStateMigrations(storage)).rejects.toThrow('App killed');
+    // The restore ran before the second crash - the original unversioned state is back
+    expect(await getSyncStateVersion(storage)).toBeNull();
+    expect(await read(storage, 'syncQueue')).toHaveLength(1);
+    expect(await read(storage, 'pending_bundles')).toBeNull();
+  });
+
+  it('leaves stored state untouched when a step fails', async () => {
+    const storage = new InMemoryStorageAdapter();
+    await seedUnversioned(storage);
+    await write(storage, 'pending_bundles', [{ bundleId: 'b1', steps: [{ kind: 'stockDelta' }] }]);
+
+    await expect(runSyncStateMigrations(storage)).rejects.toThrow('Sync state migration 4');
+    expect(await getSyncStateVersion(storage)).toBeNull();
+    expect(await read(storage, 'syncQueue')).toHaveLength(1);
+    expect(await read(storage, 'provisional_stock_deltas')).toEqual({ cola: -2 });
+    expect(await storage.getItem(BACKUP_KEY)).toBeNull();
+  });
+
+  it('refuses state written by a newer schema', async () => {
+    const storage = new InMemoryStorageAdapter();
+    await write(storage, SYNC_STATE_VERSION_KEY, { version: SYNC_STATE_SCHEMA_VERSION + 1, migratedAt: 1, history: [] });
+
+    await expect(runSyncStateMigrations(storage)).rejects.toThrow('newer app version');
+  });
+});
+
+describe('HybridSyncService startup', () => {
+  it('refuses to start on state it cannot migrate', async () => {
+    const storage = new InMemoryStorageAdapter();
+    await write(storage, 'pending_bundles', [{ bundleId: 'b1', steps: [{ kind: 'stockDelta' }] }]);
+    const service = new HybridSyncService({ storage, firebase: new FirebaseService('org_test'), deviceId: 'till_a', autoStart: false });
+
+    await expect(service.whenReady()).rejects.toThrow('Sync state migration 4');
+    expect(service.getStartupError()?.message).toMatch('pending bundle(s) are missing');
+    await expect(service.updateEntity('products', 'cola', { price: 2 })).rejects.toThrow('Sync engine is stopped');
+    expect(await read(storage, 'pending_bundles')).toEqual([{ bundleId: 'b1', steps: [{ kind: 'stockDelta' }] }]);
+  });
+});
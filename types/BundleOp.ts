@@ -3,13 +3,27 @@ export type OpSource = 'local' | 'server' | 'sync';
 
 export interface StepResultAck { opId: string; appliedAt: number; }
 
+export interface BasketLineItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
 export interface BundleOp {
   bundleId: string;
-  type: 'assignmentSale' | 'stockTake' | 'payment' | 'charge';
-  entityRefs: { assignmentId?: string; productId?: string; playerId?: string; chargeId?: string };
+  type:
+    | 'assignmentSale' | 'basketSale' | 'stockTake' | 'payment' | 'playerPayment' | 'charge' | 'chargeUpdate'
+    | 'chargeDelete' | 'voidSale' | 'organizationUpdate' | 'entityWrite' | 'balanceAdjustment' | 'stockAdjustment'
+    | 'goodsReceipt';
+  entityRefs: { assignmentId?: string; productId?: string; playerId?: string; chargeId?: string; purchaseOrderId?: string };
   steps: Array<{
     opId: string;               // deterministic hash(bundleId, stepName)
-    kind: 'createAssignment' | 'stockDelta' | 'balanceDelta' | 'markPaid' | 'stockTakeRebase' | 'createCharge';
+    kind:
+      | 'createAssignment' | 'stockDelta' | 'balanceDelta' | 'markPaid' | 'stockTakeRebase' | 'createCharge'
+      | 'updateAssignment' | 'updatePlayerBalance' | 'updateOrganization' | 'updateCharge' | 'deleteCharge'
+      | 'createEntity' | 'updateEntity' | 'deleteEntity';
     payload: Record<string, any>;
   }>;
   vectorClock: Record<string, number>;
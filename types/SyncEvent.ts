@@ -0,0 +1,55 @@
+// types/SyncEvent.ts
+// Events emitted by HybridSyncService - subscribe with hybridSyncService.subscribe()
+
+export type HydrationPhase = 'started' | 'completed' | 'failed';
+
+export type SyncEvent =
+  | { type: 'bundleEnqueued'; timestamp: number; bundleId: string; bundleType: string; pendingCount: number }
+  | { type: 'bundleProgress'; timestamp: number; bundleId: string; bundleType: string; completedSteps: number; totalSteps: number; chunk: number; chunkCount: number }
+  | { type: 'bundleCommitted'; timestamp: number; bundleId: string; bundleType: string; appliedCount: number; skippedCount: number; durationMs: number }
+  | { type: 'itemFailed'; timestamp: number; itemId: string; kind: 'bundle'; bundleType?: string; error: string; retryCount?: number; willRetry: boolean }
+  | { type: 'itemDeadLettered'; timestamp: number; itemId: string; bundleType: string; retryCount: number; error: string }
+  | { type: 'connectivityChanged'; timestamp: number; isOnline: boolean; source: 'netinfo' | 'manual' }
+  | { type: 'syncStarted'; timestamp: number; pendingBundles: number }
+  | { type: 'syncFinished'; timestamp: number; durationMs: number; success: boolean; error?: string; pendingBundles: number }
+  | { type: 'hydrationProgress'; timestamp: number; collection: string; phase: HydrationPhase; mode: 'full' | 'incremental' | 'realtime'; changed?: number; deleted?: number }
+  | { type: 'backgroundSyncFinished'; timestamp: number; run: BackgroundSyncRun }
+  | { type: 'lowStockAlert'; timestamp: number; alerts: { id: string; productId: string; productName: string; stock: number; threshold: number }[] };
+
+export type SyncEventType = SyncEvent['type'];
+
+export type SyncEventOf<T extends SyncEventType> = Extract<SyncEvent, { type: T }>;
+
+export type SyncEventListener = (event: SyncEvent) => void;
+
+// One outbox attempt - a bundle transaction
+export interface SyncMetricsSample {
+  kind: 'bundle';
+  id: string;
+  startedAt: number;
+  durationMs: number;
+  itemCount: number;
+  failureCount: number;
+}
+
+export interface SyncMetricsSummary {
+  samples: SyncMetricsSample[];
+  attempts: number;
+  failures: number;
+  deadLettered: number;
+  averageDurationMs: number;
+  maxDurationMs: number;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+}
+
+// One run of the OS-scheduled background sync task
+export interface BackgroundSyncRun {
+  startedAt: number;
+  durationMs: number;
+  budgetMs: number;
+  status: 'completed' | 'partial' | 'skipped' | 'failed';
+  reason?: string;
+  bundlesBefore: number;
+  bundlesAfter: number;
+}
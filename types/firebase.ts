@@ -50,6 +50,10 @@ export interface OrganizationSettings {
   autoSyncInterval?: number;
   // New charge reasons system
   chargeReasons?: ChargeReason[];
+  // How goods receipts update Product.cost
+  costingMethod?: 'lastCost' | 'weightedAverage';
+  // Stock level products without their own minStockLevel count as low at
+  lowStockAlertLevel?: number;
 }
 
 export interface SubscriptionInfo {
@@ -117,6 +121,11 @@ export interface Product {
   barcode?: string;
   sku?: string;
   
+  // Preferred supplier (organizations/{orgId}/suppliers) and how they sell it
+  supplierId?: string | null;
+  supplierSku?: string | null;
+  packSize?: number | null;
+  
   isActive: boolean;
   isDeleted: boolean;
   
@@ -195,11 +204,25 @@ export interface Assignment {
   
   organizationId: string;
   status?: 'pending' | 'completed' | 'cancelled';
+  // Voided sales are kept for audit
+  cancelledAt?: string;
+  cancelledBy?: string; // Staff member who voided the sale
+  cancelReason?: string;
+  refundChargeId?: string; // Refund charge when a paid sale was voided
   notes?: string;
   discount?: {
     amount: number;
     reason: string;
   };
+  lineItems?: AssignmentLineItem[]; // Present on basket sales - one entry per product
+}
+
+export interface AssignmentLineItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
 }
 
 // ===========================================
@@ -296,7 +319,7 @@ export interface AppSettings {
   
   business: {
     autoGenerateReports: boolean;
-    lowStockAlertLevel: number;
+    lowStockAlertLevel: number;          // Stored on the organization as settings.lowStockAlertLevel
     maxCreditLimit: number;
     requirePaymentConfirmation: boolean;
   };
@@ -5,8 +5,8 @@
  * during multi-user offline sync scenarios.
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { hybridSyncService, HybridSyncService } from '../services/HybridSyncService';
+import { AssignmentLine, getAssignmentLines, isCancelledAssignment } from './assignmentLines';
 
 export interface StockIssue {
   productId: string;
@@ -171,7 +171,7 @@ export class StockReconciliationTool {
     timestamp: number;
   }>> {
     try {
-      const rawData = await AsyncStorage.getItem('provisional_stock_deltas');
+      const rawData = await hybridSyncService.getStorageAdapter().getItem('provisional_stock_deltas');
       const data = rawData ? JSON.parse(rawData) : {};
       return data[productId] || [];
     } catch (error) {
@@ -185,8 +185,7 @@ export class StockReconciliationTool {
    */
   private async getBaseStock(productId: string): Promise<number> {
     try {
-      const rawData = await AsyncStorage.getItem('products'); // Use 'products' key consistently
-      const data = rawData ? JSON.parse(rawData) : [];
+      const data = await hybridSyncService.getStorageAdapter().getCollection('products');
       
       // Ensure data is an array
       if (!Array.isArray(data)) {
@@ -328,41 +327,45 @@ export class StockReconciliationTool {
       const assignments = await this.hybridSync.getAssignments();
       const products = await this.hybridSync.getProducts();
       
-      // Group assignments by product, player, quantity, and date (potential duplicates)
-      const groupedAssignments: Map<string, any[]> = new Map();
+      // Group product lines by product, player, quantity, and date (potential duplicates) -
+      // basket sales contribute one entry per line
+      const groupedLines: Map<string, { productId: string; entries: { assignment: any; line: AssignmentLine }[] }> = new Map();
       
       for (const assignment of assignments) {
-        // Create a key that would identify potential duplicates
-        const key = `${assignment.productId}-${assignment.playerId}-${assignment.quantity}-${assignment.date?.split('T')[0]}`;
-        
-        if (!groupedAssignments.has(key)) {
-          groupedAssignments.set(key, []);
+        if (isCancelledAssignment(assignment)) continue; // Voided sales already gave their stock back
+        for (const line of getAssignmentLines(assignment)) {
+          if (!line.productId) continue;
+          // Create a key that would identify potential duplicates
+          const key = [line.productId, assignment.playerId, line.quantity, assignment.date?.split('T')[0]].join('|');
+          
+          if (!groupedLines.has(key)) {
+            groupedLines.set(key, { productId: line.productId, entries: [] });
+          }
+          groupedLines.get(key)!.entries.push({ assignment, line });
         }
-        groupedAssignments.get(key)!.push(assignment);
       }
       
       const suspiciousAssignments = [];
       let totalSuspiciousStock = 0;
       
       // Find groups with multiple assignments (potential duplicates)
-      for (const [key, assignmentGroup] of groupedAssignments) {
-        if (assignmentGroup.length > 1) {
-          const [productId] = key.split('-');
+      for (const { productId, entries } of groupedLines.values()) {
+        if (entries.length > 1) {
           const product = products.find((p: any) => (p.id || p.productId) === productId);
           
           if (product) {
-            const totalDuplicateQuantity = assignmentGroup.reduce((sum, a) => sum + a.quantity, 0) - assignmentGroup[0].quantity;
+            const totalDuplicateQuantity = entries.reduce((sum, entry) => sum + entry.line.quantity, 0) - entries[0].line.quantity;
             totalSuspiciousStock += totalDuplicateQuantity;
             
             suspiciousAssignments.push({
               productId,
               productName: product.name,
-              duplicateAssignments: assignmentGroup.map(a => ({
-                assignmentId: a.id,
-                playerId: a.playerId,
-                quantity: a.quantity,
-                total: a.total,
-                date: a.date
+              duplicateAssignments: entries.map(({ assignment, line }) => ({
+                assignmentId: assignment.id,
+                playerId: assignment.playerId,
+                quantity: line.quantity,
+                total: line.total,
+                date: assignment.date
               }))
             });
           }
@@ -393,7 +396,7 @@ export class StockReconciliationTool {
     try {
       // Clean provisional stock deltas
       const stockKey = 'provisional_stock_deltas';
-      const stockData = await AsyncStorage.getItem(stockKey);
+      const stockData = await hybridSyncService.getStorageAdapter().getItem(stockKey);
       
       if (stockData) {
         const data = JSON.parse(stockData);
@@ -417,12 +420,12 @@ export class StockReconciliationTool {
           }
         }
         
-        await AsyncStorage.setItem(stockKey, JSON.stringify(cleaned));
+        await hybridSyncService.getStorageAdapter().setItem(stockKey, JSON.stringify(cleaned));
       }
 
       // Clean provisional balance deltas
       const balanceKey = 'provisional_balance_deltas';
-      const balanceData = await AsyncStorage.getItem(balanceKey);
+      const balanceData = await hybridSyncService.getStorageAdapter().getItem(balanceKey);
       
       if (balanceData) {
         const data = JSON.parse(balanceData);
@@ -446,9 +449,10 @@ export class StockReconciliationTool {
           }
         }
         
-        await AsyncStorage.setItem(balanceKey, JSON.stringify(cleaned));
+        await hybridSyncService.getStorageAdapter().setItem(balanceKey, JSON.stringify(cleaned));
       }
 
+      hybridSyncService.getOverlayStore().invalidate();
       console.log(`🧹 Cleaned ${cleanedCount} duplicate operations`);
       return cleanedCount;
 
@@ -0,0 +1,328 @@
+/**
+ * 🧪 Multi-device offline sync simulator
+ *
+ * Spins up several headless HybridSyncService instances (one per simulated till), each with
+ * its own device id, in-memory storage and FirebaseService handle, all talking to the same
+ * organization on the Firestore emulator. Scenarios script the devices step by step
+ * (offline sale on A, stock take on B, reconnect in a given order) and then check the
+ * server totals, appliedOps markers and that every device converges on the server view.
+ *
+ * Every step is awaited in order, so a scenario replays identically on each run. Scenarios run
+ * from the sync debug panel in a dev build, or headless with `npm run test:sync`.
+ */
+
+import { FirebaseService, BundleApplyOptions } from '../services/FirebaseService';
+import { HybridSyncService } from '../services/HybridSyncService';
+import { InMemoryStorageAdapter } from '../services/StorageAdapter';
+import { isUsingFirestoreEmulator } from '../config/firebase';
+
+/**
+ * FirebaseService that can lose the acknowledgement of a bundle after the server committed it
+ * (network drop mid-sync)
+ */
+class FlakyFirebaseService extends FirebaseService {
+  dropNextAck = false;
+  // Extra clients that send the next bundle at the same moment as this one
+  raceNextBundle = 0;
+  // Every step opId this device has sent, for the appliedOps check
+  sentOpIds = new Set<string>();
+
+  async applyBundleTransaction(bundle: any, options?: BundleApplyOptions): Promise<any[]> {
+    bundle.steps.forEach((step: any) => this.sentOpIds.add(step.opId));
+    const racers = Array.from({ length: this.raceNextBundle }, () =>
+      new FirebaseService(this.getOrganizationId()).applyBundleTransaction(bundle)
+    );
+    this.raceNextBundle = 0;
+    const [acks] = await Promise.all([super.applyBundleTransaction(bundle, options), ...racers]);
+    if (this.dropNextAck) {
+      this.dropNextAck = false;
+      throw new Error(`Simulated network drop after commit of bundle ${bundle.bundleId}`);
+    }
+    return acks;
+  }
+}
+
+export interface SimulatedDevice {
+  name: string;
+  service: HybridSyncService;
+  firebase: FlakyFirebaseService;
+  online: boolean;
+  bundleIds: string[];
+}
+
+export interface SimulatedProduct {
+  id: string;
+  name: string;
+  stock: number;
+  price: number;
+}
+
+export interface SimulatedPlayer {
+  id: string;
+  name: string;
+  balance?: number;
+}
+
+export interface SimulatorSnapshot {
+  stock: Record<string, number>;
+  balances: Record<string, number>;
+  assignmentIds: string[];
+  paidAssignmentIds: string[];
+}
+
+export class SyncSimulator {
+  readonly organizationId: string;
+  readonly server: FirebaseService;
+  private devices = new Map<string, SimulatedDevice>();
+  private products: SimulatedProduct[] = [];
+  private players: SimulatedPlayer[] = [];
+
+  constructor(runId: string) {
+    if (!isUsingFirestoreEmulator()) {
+      throw new Error('Sync simulator only runs against the Firestore emulator (set EXPO_PUBLIC_FIRESTORE_EMULATOR_HOST)');
+    }
+    // A fresh organization per run keeps scenarios isolated from each other
+    this.organizationId = `sim_${runId}`;
+    this.server = new FirebaseService(this.organizationId);
+  }
+
+  /**
+   * Create the starting catalogue and players on the server
+   */
+  async seed(input: { products: SimulatedProduct[]; players: SimulatedPlayer[] }): Promise<void> {
+    this.products = input.products;
+    this.players = input.players;
+
+    for (const product of input.products) {
+      await this.server.upsertProduct({
+        ...product,
+        category: 'Simulator',
+        isActive: true,
+        organizationId: this.organizationId,
+      });
+    }
+
+    for (const player of input.players) {
+      await this.server.upsertPlayer({
+        ...player,
+        balance: player.balance || 0,
+        totalPurchases: 0,
+        totalSpent: 0,
+        isActive: true,
+      });
+    }
+  }
+
+  /**
+   * Start a till: own device id, empty local storage, hydrated from the server
+   */
+  async addDevice(name: string): Promise<SimulatedDevice> {
+    const firebase = new FlakyFirebaseService(this.organizationId);
+    const service = new HybridSyncService({
+      storage: new InMemoryStorageAdapter(),
+      firebase,
+      deviceId: `sim_${name}`,
+      autoStart: false,
+    });
+    await service.whenReady();
+    service.forceOnlineMode();
+
+    const device: SimulatedDevice = { name, service, firebase, online: true, bundleIds: [] };
+    this.devices.set(name, device);
+    await this.hydrate(name);
+    return device;
+  }
+
+  device(name: string): SimulatedDevice {
+    const device = this.devices.get(name);
+    if (!device) {
+      throw new Error(`Unknown simulated device: ${name}`);
+    }
+    return device;
+  }
+
+  allDevices(): SimulatedDevice[] {
+    return Array.from(this.devices.values());
+  }
+
+  goOffline(name: string): void {
+    const device = this.device(name);
+    device.service.forceOfflineMode();
+    device.online = false;
+  }
+
+  /**
+   * Reconnect and drain the outbox, retrying a few times like the background timers would
+   */
+  async goOnline(name: string, maxAttempts: number = 3): Promise<void> {
+    const device = this.device(name);
+    device.service.forceOnlineMode();
+    device.online = true;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        await device.service.processSyncQueue();
+      } catch (error) {
+        console.warn(`🧪 ${name}: sync attempt ${attempt} failed:`, error);
+      }
+      if (await device.service.getPendingBundlesCount() === 0) return;
+    }
+  }
+
+  /**
+   * Lose the ack of the next bundle this device sends (server still commits it)
+   */
+  dropNextAck(name: string): void {
+    this.device(name).firebase.dropNextAck = true;
+  }
+
+  /**
+   * Send this device's next bundle from extra clients at the same time (a concurrent retry)
+   */
+  raceNextBundle(name: string, copies: number = 1): void {
+    this.device(name).firebase.raceNextBundle = copies;
+  }
+
+  async hydrate(name: string): Promise<void> {
+    const { service } = this.device(name);
+    await service.hydrateProductsFromServer();
+    await service.hydratePlayersFromServer();
+    await service.hydrateAssignmentsFromServer();
+  }
+
+  /**
+   * Sell on a till - the returned bundle id is also the new assignment id
+   */
+  async sell(name: string, input: { productId: string; playerId: string; quantity: number }): Promise<string> {
+    const device = this.device(name);
+    const product = this.products.find(p => p.id === input.productId);
+    const player = this.players.find(p => p.id === input.playerId);
+    if (!product || !player) {
+      throw new Error(`Unknown product or player in sale on ${name}`);
+    }
+
+    const bundleId = await device.service.createAssignmentBundle({
+      productId: product.id,
+      productName: product.name,
+      playerId: player.id,
+      userName: player.name,
+      quantity: input.quantity,
+      unitPrice: product.price,
+      total: product.price * input.quantity,
+      organizationId: this.organizationId,
+    });
+    device.bundleIds.push(bundleId);
+    return bundleId;
+  }
+
+  /**
+   * Count a product: the base is whatever this device currently shows for it
+   */
+  async stockTake(name: string, productId: string, count: number): Promise<string> {
+    const device = this.device(name);
+    const products = await device.service.getProductsWithOverlay();
+    const product = products.find((p: any) => p.id === productId);
+    const bundleId = await device.service.commitStockTake({
+      productId,
+      count,
+      baseStock: product?.stock ?? 0,
+      staffName: `Simulator ${name}`,
+    });
+    device.bundleIds.push(bundleId);
+    return bundleId;
+  }
+
+  async pay(name: string, playerId: string, assignmentIds: string[]): Promise<string> {
+    const device = this.device(name);
+    const player = this.players.find(p => p.id === playerId);
+    const assignments = await device.service.getAssignmentsWithOverlay();
+    const totalAmount = assignments
+      .filter((a: any) => assignmentIds.includes(a.id))
+      .reduce((sum: number, a: any) => sum + (a.total || 0), 0);
+
+    const bundleId = await device.service.createPaymentBundle({
+      playerId,
+      playerName: player?.name || playerId,
+      assignmentIds,
+      totalAmount,
+    });
+    device.bundleIds.push(bundleId);
+    return bundleId;
+  }
+
+  /**
+   * Void a sale this device can see
+   */
+  async voidSale(name: string, assignmentId: string, reason: string = 'Simulator void'): Promise<string> {
+    const device = this.device(name);
+    const bundleId = await device.service.createVoidSaleBundle({
+      assignmentId,
+      reason,
+      staffName: `Simulator ${name}`,
+    });
+    device.bundleIds.push(bundleId);
+    return bundleId;
+  }
+
+  /**
+   * Authoritative totals on the emulator
+   */
+  async serverSnapshot(): Promise<SimulatorSnapshot> {
+    const [products, players, assignments] = await Promise.all([
+      this.server.getProducts(),
+      this.server.getPlayers(),
+      this.server.getAssignments(),
+    ]);
+    return toSnapshot(products, players, assignments);
+  }
+
+  /**
+   * What a device currently shows (base cache folded with provisional overlays)
+   */
+  async deviceSnapshot(name: string): Promise<SimulatorSnapshot> {
+    const { service } = this.device(name);
+    const [products, players, assignments] = await Promise.all([
+      service.getProductsWithOverlay(),
+      service.getPlayersWithOverlay(),
+      service.getAssignmentsWithOverlay(),
+    ]);
+    return toSnapshot(products, players, assignments);
+  }
+
+  /**
+   * OpIds a device sent that have no appliedOps marker on the server
+   */
+  async findUnappliedOps(name: string): Promise<string[]> {
+    const device = this.device(name);
+    const missing: string[] = [];
+    for (const opId of device.firebase.sentOpIds) {
+      if (!(await this.server.isOpIdApplied(opId))) {
+        missing.push(opId);
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * appliedOps markers on the server - one per step that was applied, however often it was sent
+   */
+  async appliedOpsCount(): Promise<number> {
+    return this.server.countAppliedOps();
+  }
+
+  /**
+   * Distinct step opIds a device has sent
+   */
+  sentOpCount(name: string): number {
+    return this.device(name).firebase.sentOpIds.size;
+  }
+}
+
+const toSnapshot = (products: any[], players: any[], assignments: any[]): SimulatorSnapshot => ({
+  stock: Object.fromEntries(products.map(p => [p.id, p.stock || 0])),
+  balances: Object.fromEntries(players.map(p => [p.id, roundMoney(p.balance || 0)])),
+  assignmentIds: assignments.map(a => a.id).sort(),
+  paidAssignmentIds: assignments.filter(a => a.paid).map(a => a.id).sort(),
+});
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
@@ -0,0 +1,115 @@
+import { createCipheriv, createHmac, randomBytes } from 'crypto';
+import {
+  chacha20,
+  decryptValue,
+  deriveStorageKey,
+  encryptValue,
+  fromBase64,
+  hmacSha256,
+  sha256,
+  toBase64,
+  utf8Decode,
+  utf8Encode,
+} from '../storageCrypto';
+
+const hex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+const bytes = (text: string): Uint8Array => Uint8Array.from(Buffer.from(text, 'hex'));
+
+describe('sha256', () => {
+  // FIPS 180-2 examples
+  it('matches the one- and two-block vectors', () => {
+    expect(hex(sha256(utf8Encode('')))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(hex(sha256(utf8Encode('abc')))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(hex(sha256(utf8Encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+});
+
+describe('hmacSha256', () => {
+  // RFC 4231 test cases 1, 2 and 6
+  it('matches the RFC 4231 vectors', () => {
+    expect(hex(hmacSha256(new Uint8Array(20).fill(0x0b), utf8Encode('Hi There'))))
+      .toBe('b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7');
+    expect(hex(hmacSha256(utf8Encode('Jefe'), utf8Encode('what do ya want for nothing?'))))
+      .toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+    expect(hex(hmacSha256(new Uint8Array(131).fill(0xaa), utf8Encode('Test Using Larger Than Block-Size Key - Hash Key First'))))
+      .toBe('60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54');
+  });
+
+  it('agrees with node:crypto across lengths and split inputs', () => {
+    for (const length of [0, 1, 55, 56, 63, 64, 65, 1000]) {
+      const key = randomBytes(32);
+      const data = randomBytes(length);
+      const split = Math.floor(length / 3);
+      expect(hex(hmacSha256(key, data.subarray(0, split), data.subarray(split))))
+        .toBe(createHmac('sha256', key).update(data).digest('hex'));
+    }
+  });
+});
+
+describe('chacha20', () => {
+  // RFC 8439 section 2.4.2
+  it('matches the RFC 8439 encryption vector', () => {
+    const key = Uint8Array.from({ length: 32 }, (_, index) => index);
+    const nonce = bytes('000000000000004a00000000');
+    const plaintext = utf8Encode(
+      "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it."
+    );
+    expect(hex(chacha20(key, nonce, plaintext))).toBe(
+      '6e2e359a2568f98041ba0728dd0d6981e97e7aec1d4360c20a27afccfd9fae0b' +
+      'f91b65c5524733ab8f593dabcd62b3571639d624e65152ab8f530c359f0861d8' +
+      '07ca0dbf500d6a6156a38e088a22b65e52bc514d16ccf806818ce91ab7793736' +
+      '5af90bbf74a35be6b40b8eedf2785e42874d'
+    );
+  });
+
+  it('agrees with node:crypto across block boundaries', () => {
+    for (const length of [1, 63, 64, 65, 128, 1000]) {
+      const key = randomBytes(32);
+      const nonce = randomBytes(12);
+      const input = randomBytes(length);
+      // OpenSSL takes the 32-bit little-endian block counter ahead of the nonce
+      const cipher = createCipheriv('chacha20', key, Buffer.concat([Buffer.from([1, 0, 0, 0]), nonce]));
+      const expected = Buffer.concat([cipher.update(input), cipher.final()]);
+      expect(hex(chacha20(key, nonce, input))).toBe(hex(expected));
+    }
+  });
+});
+
+describe('encoding', () => {
+  it('round-trips UTF-8 and base64', () => {
+    const text = 'Crisps £1.20 - 🥤 Cola x2';
+    expect(utf8Decode(utf8Encode(text))).toBe(text);
+    expect(hex(utf8Encode(text))).toBe(Buffer.from(text, 'utf8').toString('hex'));
+    const data = randomBytes(100);
+    expect(toBase64(data)).toBe(data.toString('base64'));
+    expect(hex(fromBase64(data.toString('base64')))).toBe(hex(data));
+  });
+});
+
+describe('encryptValue / decryptValue', () => {
+  const key = deriveStorageKey('k1', randomBytes(32));
+
+  it('round-trips a value under its label', () => {
+    const sealed = encryptValue('{"stock":12}', key, 'pending_bundles', randomBytes(12));
+    expect(sealed.startsWith('enc1:k1:')).toBe(true);
+    expect(decryptValue(sealed, key, 'pending_bundles')).toBe('{"stock":12}');
+  });
+
+  it('rejects a value moved to another label or edited', () => {
+    const sealed = encryptValue('{"stock":12}', key, 'products/a', randomBytes(12));
+    expect(() => decryptValue(sealed, key, 'products/b')).toThrow('integrity check');
+
+    const payload = fromBase64(sealed.slice('enc1:k1:'.length));
+    payload[12] ^= 0x01;
+    expect(() => decryptValue(`enc1:k1:${toBase64(payload)}`, key, 'products/a')).toThrow('integrity check');
+  });
+
+  it('reads a value sealed by earlier builds', () => {
+    // Master key 00..1f, nonce of 0x01 bytes - sealed before the primitives moved to @noble
+    const fixedKey = deriveStorageKey('k1', Uint8Array.from({ length: 32 }, (_, index) => index));
+    const sealed = 'enc1:k1:AQEBAQEBAQEBAQEBVKV98CSEK2nAYSAwGbMTDQ84iFSDHSaEvZcYlcU3K4lM9Ot7o3rj6DHrtbE=';
+    expect(encryptValue('{"stock":12}', fixedKey, 'pending_bundles', new Uint8Array(12).fill(1))).toBe(sealed);
+    expect(decryptValue(sealed, fixedKey, 'pending_bundles')).toBe('{"stock":12}');
+  });
+});
@@ -0,0 +1,39 @@
+import { compareVectorClocks, hasVectorClock, mergeVectorClocks } from '../vectorClock';
+
+describe('compareVectorClocks', () => {
+  it('orders a clock the other has seen as before', () => {
+    expect(compareVectorClocks({ till_a: 1 }, { till_a: 2 })).toBe('before');
+    expect(compareVectorClocks({ till_a: 2 }, { till_a: 2, till_b: 1 })).toBe('before');
+  });
+
+  it('orders a clock that has seen the other as after', () => {
+    expect(compareVectorClocks({ till_a: 3, till_b: 1 }, { till_a: 2, till_b: 1 })).toBe('after');
+    expect(compareVectorClocks({ till_a: 1, till_b: 1 }, { till_a: 1 })).toBe('after');
+  });
+
+  it('treats clocks where each device is ahead on its own counter as concurrent', () => {
+    expect(compareVectorClocks({ till_a: 2, till_b: 1 }, { till_a: 1, till_b: 2 })).toBe('concurrent');
+    expect(compareVectorClocks({ till_a: 1 }, { till_b: 1 })).toBe('concurrent');
+  });
+
+  it('reads a missing device as zero', () => {
+    expect(compareVectorClocks({ till_a: 1, till_b: 0 }, { till_a: 1 })).toBe('equal');
+    expect(compareVectorClocks({}, {})).toBe('equal');
+  });
+});
+
+describe('mergeVectorClocks', () => {
+  it('takes the highest counter per device', () => {
+    const merged = mergeVectorClocks({ till_a: 3, till_b: 1 }, { till_b: 4, till_c: 2 });
+    expect(merged).toEqual({ till_a: 3, till_b: 4, till_c: 2 });
+    expect(compareVectorClocks(merged, { till_a: 3, till_b: 1 })).toBe('after');
+  });
+});
+
+describe('hasVectorClock', () => {
+  it('only accepts a clock with at least one device', () => {
+    expect(hasVectorClock({ till_a: 1 })).toBe(true);
+    expect(hasVectorClock({})).toBe(false);
+    expect(hasVectorClock(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Assignment line helpers - basket sales carry several products in one assignment
+ */
+
+export interface AssignmentLine {
+  productId?: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+/**
+ * Check if an assignment is a multi-line basket sale
+ */
+export const isBasketAssignment = (assignment: any): boolean => {
+  return Array.isArray(assignment?.lineItems) && assignment.lineItems.length > 0;
+};
+
+/**
+ * Get the product lines of an assignment (single-product sales return one line)
+ */
+export const getAssignmentLines = (assignment: any): AssignmentLine[] => {
+  if (isBasketAssignment(assignment)) {
+    return assignment.lineItems.map((line: any) => ({
+      productId: line.productId,
+      productName: line.productName || 'Unknown Product',
+      quantity: line.quantity || 0,
+      unitPrice: line.unitPrice || 0,
+      total: typeof line.total === 'number' ? line.total : (line.unitPrice || 0) * (line.quantity || 0),
+    }));
+  }
+
+  const quantity = assignment?.quantity || 1;
+  const total = assignment?.total || assignment?.totalAmount || assignment?.amount || 0;
+  return [{
+    productId: assignment?.productId,
+    productName: assignment?.productName || assignment?.product || 'Unknown Product',
+    quantity,
+    unitPrice: assignment?.unitPrice || assignment?.price || (quantity ? total / quantity : 0),
+    total: typeof total === 'number' ? total : 0,
+  }];
+};
+
+/**
+ * Short label for an assignment, e.g. "2x Cola" or "Basket (3 items)"
+ */
+export const describeAssignment = (assignment: any): string => {
+  if (isBasketAssignment(assignment)) {
+    return `Basket (${assignment.lineItems.length} items)`;
+  }
+  const [line] = getAssignmentLines(assignment);
+  return `${line.quantity}x ${line.productName}`;
+};
+
+/**
+ * Check if an assignment was voided - voided sales stay in history but no longer count
+ */
+export const isCancelledAssignment = (assignment: any): boolean => {
+  return assignment?.status === 'cancelled';
+};
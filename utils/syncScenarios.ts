@@ -0,0 +1,339 @@
+/**
+ * 🧪 Scripted multi-device sync scenarios (see Transactional_scenarios.md §1 and §10)
+ *
+ * Each scenario seeds a fresh simulator organization, drives the tills and states the server
+ * totals it expects. The runner then reconnects every device, re-hydrates and checks that the
+ * server matches, every sent op has an appliedOps marker, no bundles are left pending and each
+ * device shows exactly what the server holds.
+ */
+
+import { SyncSimulator, SimulatedProduct, SimulatedPlayer, SimulatorSnapshot } from './SyncSimulator';
+
+export interface ScenarioContext {
+  sim: SyncSimulator;
+  reconnectOrder: string[];
+  /** Record an intermediate expectation (e.g. what a device shows before reconnecting) */
+  check: (label: string, actual: any, expected: any) => void;
+}
+
+export interface SyncScenario {
+  id: string;
+  title: string;
+  reference: string;
+  devices: string[];
+  seed: { products: SimulatedProduct[]; players: SimulatedPlayer[] };
+  // Run once per order; scenarios without reconnect ordering run once
+  reconnectOrders?: string[][];
+  run: (ctx: ScenarioContext) => Promise<void>;
+  expect: {
+    stock?: Record<string, number>;
+    balances?: Record<string, number>;
+    assignmentCount?: number;
+    paidCount?: number;
+  };
+}
+
+export interface ScenarioResult {
+  scenarioId: string;
+  title: string;
+  reconnectOrder: string[];
+  passed: boolean;
+  failures: string[];
+  durationMs: number;
+}
+
+const COLA: SimulatedProduct = { id: 'sim-cola', name: 'Cola', stock: 10, price: 1.5 };
+const CRISPS: SimulatedProduct = { id: 'sim-crisps', name: 'Crisps', stock: 20, price: 0.8 };
+const PLAYER_ONE: SimulatedPlayer = { id: 'sim-player-1', name: 'Sim Player One' };
+const PLAYER_TWO: SimulatedPlayer = { id: 'sim-player-2', name: 'Sim Player Two' };
+
+const DEFAULT_SEED = { products: [COLA, CRISPS], players: [PLAYER_ONE, PLAYER_TWO] };
+
+export const SYNC_SCENARIOS: SyncScenario[] = [
+  {
+    id: 'offline-sale',
+    title: 'Offline sale then reconnect',
+    reference: 'Scenario A / §10.1',
+    devices: ['A'],
+    seed: DEFAULT_SEED,
+    run: async ({ sim }) => {
+      sim.goOffline('A');
+      await sim.sell('A', { productId: COLA.id, playerId: PLAYER_ONE.id, quantity: 2 });
+      await sim.goOnline('A');
+    },
+    expect: {
+      stock: { [COLA.id]: 8, [CRISPS.id]: 20 },
+      balances: { [PLAYER_ONE.id]: 3, [PLAYER_TWO.id]: 0 },
+      assignmentCount: 1,
+    },
+  },
+  {
+    id: 'network-drop-mid-sync',
+    title: 'Ack lost after the server committed, bundle retried',
+    reference: '§10.2',
+    devices: ['A'],
+    seed: DEFAULT_SEED,
+    run: async ({ sim }) => {
+      sim.dropNextAck('A');
+      await sim.sell('A', { productId: COLA.id, playerId: PLAYER_ONE.id, quantity: 1 });
+      await sim.goOnline('A');
+    },
+    expect: {
+      stock: { [COLA.id]: 9 },
+      balances: { [PLAYER_ONE.id]: 1.5 },
+      assignmentCount: 1,
+    },
+  },
+  {
+    id: 'concurrent-retry',
+    title: 'Same bundle sent by two clients at once',
+    reference: '§10.7',
+    devices: ['A'],
+    seed: DEFAULT_SEED,
+    run: async ({ sim }) => {
+      sim.goOffline('A');
+      await sim.sell('A', { productId: COLA.id, playerId: PLAYER_ONE.id, quantity: 2 });
+      sim.raceNextBundle('A');
+      await sim.goOnline('A');
+    },
+    expect: {
+      stock: { [COLA.id]: 8 },
+      balances: { [PLAYER_ONE.id]: 3 },
+      assignmentCount: 1,
+    },
+  },
+  {
+    id: 'stock-take-vs-sales',
+    title: 'Offline stock-take on B while A sells',
+    reference: 'Scenario B / §10.3',
+    devices: ['A', 'B'],
+    seed: DEFAULT_SEED,
+    reconnectOrders: [['A', 'B'], ['B', 'A']],
+    run: async ({ sim, reconnectOrder }) => {
+      sim.goOffline('A');
+      sim.goOffline('B');
+      await sim.sell('A', { productId: COLA.id, playerId: PLAYER_ONE.id, quantity: 3 });
+      // B counts 9 against the 10 it last saw - one can went missing
+      await sim.stockTake('B', COLA.id, 9);
+      for (const name of reconnectOrder) {
+        await sim.goOnline(name);
+      }
+    },
+    expect: {
+      stock: { [COLA.id]: 6 },
+      balances: { [PLAYER_ONE.id]: 4.5 },
+      assignmentCount: 1,
+    },
+  },
+  {
+    id: 'concurrent-sales',
+    title: 'Two tills sell the same product offline',
+    reference: '§10.4',
+    devices: ['A', 'B'],
+    seed: DEFAULT_SEED,
+    reconnectOrders: [['A', 'B'], ['B', 'A']],
+    run: async ({ sim, reconnectOrder }) => {
+      sim.goOffline('A');
+      sim.goOffline('B');
+      await sim.sell('A', { productId: COLA.id, playerId: PLAYER_ONE.id, quantity: 2 });
+      await sim.sell('B', { productId: COLA.id, playerId: PLAYER_TWO.id, quantity: 2 });
+      await sim.sell('B', { productId: CRISPS.id, playerId: PLAYER_ONE.id, quantity: 5 });
+      for (const name of reconnectOrder) {
+        await sim.goOnline(name);
+      }
+    },
+    expect: {
+      stock: { [COLA.id]: 6, [CRISPS.id]: 15 },
+      balances: { [PLAYER_ONE.id]: 7, [PLAYER_TWO.id]: 3 },
+      assignmentCount: 3,
+    },
+  },
+  {
+    id: 'hydration-with-provisionals',
+    title: 'Hydration lands while offline sales are still pending',
+    reference: '§7 / §10.5',
+    devices: ['A', 'B'],
+    seed: DEFAULT_SEED,
+    run: async ({ sim, check }) => {
+      sim.goOffline('A');
+      await sim.sell('A', { productId: COLA.id, playerId: PLAYER_ONE.id, quantity: 2 });
+      await sim.sell('B', { productId: COLA.id, playerId: PLAYER_TWO.id, quantity: 1 });
+
+      await sim.hydrate('A');
+      const view = await sim.deviceSnapshot('A');
+      check('A shows server stock plus its pending sale', view.stock[COLA.id], 7);
+      check('A keeps its pending balance', view.balances[PLAYER_ONE.id], 3);
+
+      await sim.goOnline('A');
+    },
+    expect: {
+      stock: { [COLA.id]: 7 },
+      balances: { [PLAYER_ONE.id]: 3, [PLAYER_TWO.id]: 1.5 },
+      assignmentCount: 2,
+    },
+  },
+  {
+    id: 'mark-paid-twice',
+    title: 'Same sale marked paid on two offline tills',
+    reference: '§10.6',
+    devices: ['A', 'B'],
+    seed: DEFAULT_SEED,
+    reconnectOrders: [['A', 'B'], ['B', 'A']],
+    run: async ({ sim, reconnectOrder }) => {
+      const assignmentId = await sim.sell('A', { productId: COLA.id, playerId: PLAYER_ONE.id, quantity: 1 });
+      await sim.hydrate('B');
+      sim.goOffline('A');
+      sim.goOffline('B');
+      await sim.pay('A', PLAYER_ONE.id, [assignmentId]);
+      await sim.pay('B', PLAYER_ONE.id, [assignmentId]);
+      for (const name of reconnectOrder) {
+        await sim.goOnline(name);
+      }
+    },
+    expect: {
+      stock: { [COLA.id]: 9 },
+      balances: { [PLAYER_ONE.id]: 0 },
+      assignmentCount: 1,
+      paidCount: 1,
+    },
+  },
+  {
+    id: 'void-twice',
+    title: 'Same sale voided on two offline tills',
+    reference: '§10.8',
+    devices: ['A', 'B'],
+    seed: DEFAULT_SEED,
+    reconnectOrders: [['A', 'B'], ['B', 'A']],
+    run: async ({ sim, reconnectOrder }) => {
+      const assignmentId = await sim.sell('A', { productId: COLA.id, playerId: PLAYER_ONE.id, quantity: 2 });
+      await sim.hydrate('B');
+      sim.goOffline('A');
+      sim.goOffline('B');
+      await sim.voidSale('A', assignmentId, 'Rang up twice');
+      await sim.voidSale('B', assignmentId, 'Customer changed their mind');
+      for (const name of reconnectOrder) {
+        await sim.goOnline(name);
+      }
+    },
+    // Stock and balance put back once - the sale stays on record, cancelled
+    expect: {
+      stock: { [COLA.id]: 10 },
+      balances: { [PLAYER_ONE.id]: 0 },
+      assignmentCount: 1,
+    },
+  },
+];
+
+/**
+ * Run scenarios one after another, each reconnect order in its own organization
+ */
+export const runSyncScenarios = async (
+  scenarios: SyncScenario[] = SYNC_SCENARIOS,
+  onProgress?: (message: string) => void
+): Promise<ScenarioResult[]> => {
+  const results: ScenarioResult[] = [];
+
+  for (const scenario of scenarios) {
+    const orders = scenario.reconnectOrders || [scenario.devices];
+    for (const order of orders) {
+      onProgress?.(`🧪 ${scenario.id} [${order.join(' → ')}]`);
+      const result = await runScenario(scenario, order);
+      results.push(result);
+      onProgress?.(result.passed
+        ? `  ✅ passed (${result.durationMs}ms)`
+        : `  ❌ ${result.failures.length} failure(s):\n    ${result.failures.join('\n    ')}`);
+    }
+  }
+
+  const passed = results.filter(r => r.passed).length;
+  onProgress?.(`🧪 Simulator finished: ${passed}/${results.length} runs passed`);
+  return results;
+};
+
+const runScenario = async (scenario: SyncScenario, reconnectOrder: string[]): Promise<ScenarioResult> => {
+  const startedAt = Date.now();
+  const failures: string[] = [];
+  const check = (label: string, actual: any, expected: any) => {
+    if (!isEqual(actual, expected)) {
+      failures.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  };
+
+  try {
+    const sim = new SyncSimulator(`${scenario.id}_${reconnectOrder.join('')}_${startedAt}`);
+    await sim.seed(scenario.seed);
+    for (const name of scenario.devices) {
+      await sim.addDevice(name);
+    }
+
+    await scenario.run({ sim, reconnectOrder, check });
+
+    // Settle: every till back online with an empty outbox, then a fresh pull
+    for (const device of sim.allDevices()) {
+      if (!device.online) {
+        await sim.goOnline(device.name);
+      }
+    }
+    for (const device of sim.allDevices()) {
+      await sim.hydrate(device.name);
+    }
+
+    const server = await sim.serverSnapshot();
+    checkExpectations(scenario, server, check);
+
+    for (const device of sim.allDevices()) {
+      check(`${device.name} pending bundles`, await device.service.getPendingBundlesCount(), 0);
+      check(`${device.name} ops missing appliedOps marker`, await sim.findUnappliedOps(device.name), []);
+
+      const view = await sim.deviceSnapshot(device.name);
+      check(`${device.name} stock matches server`, view.stock, server.stock);
+      check(`${device.name} balances match server`, view.balances, server.balances);
+      check(`${device.name} assignments match server`, view.assignmentIds, server.assignmentIds);
+      check(`${device.name} paid flags match server`, view.paidAssignmentIds, server.paidAssignmentIds);
+    }
+  } catch (error) {
+    failures.push(`Scenario threw: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return {
+    scenarioId: scenario.id,
+    title: scenario.title,
+    reconnectOrder,
+    passed: failures.length === 0,
+    failures,
+    durationMs: Date.now() - startedAt,
+  };
+};
+
+const checkExpectations = (
+  scenario: SyncScenario,
+  server: SimulatorSnapshot,
+  check: ScenarioContext['check']
+): void => {
+  const { expect } = scenario;
+  Object.entries(expect.stock || {}).forEach(([productId, stock]) => {
+    check(`server stock of ${productId}`, server.stock[productId], stock);
+  });
+  Object.entries(expect.balances || {}).forEach(([playerId, balance]) => {
+    check(`server balance of ${playerId}`, server.balances[playerId], balance);
+  });
+  if (expect.assignmentCount !== undefined) {
+    check('server assignment count', server.assignmentIds.length, expect.assignmentCount);
+  }
+  if (expect.paidCount !== undefined) {
+    check('server paid assignment count', server.paidAssignmentIds.length, expect.paidCount);
+  }
+};
+
+const isEqual = (a: any, b: any): boolean => JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+
+const sortKeys = (value: any): any => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((acc: any, key) => {
+      acc[key] = sortKeys(value[key]);
+      return acc;
+    }, {});
+  }
+  return value;
+};
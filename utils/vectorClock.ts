@@ -0,0 +1,47 @@
+/**
+ * Vector clock helpers for causal ordering of writes across devices
+ */
+
+export type VectorClock = Record<string, number>;
+
+/**
+ * How clock `a` relates to clock `b`:
+ * - 'before': every counter in a <= b and at least one is lower (a happened before b)
+ * - 'after': b happened before a
+ * - 'equal': same counters
+ * - 'concurrent': neither saw the other's writes
+ */
+export type CausalOrder = 'before' | 'after' | 'equal' | 'concurrent';
+
+export function hasVectorClock(clock: any): clock is VectorClock {
+  return !!clock && typeof clock === 'object' && Object.keys(clock).length > 0;
+}
+
+export function compareVectorClocks(a: VectorClock, b: VectorClock): CausalOrder {
+  let aAhead = false;
+  let bAhead = false;
+
+  const devices = new Set([...Object.keys(a), ...Object.keys(b)]);
+  devices.forEach(device => {
+    const aCount = a[device] || 0;
+    const bCount = b[device] || 0;
+    if (aCount > bCount) aAhead = true;
+    if (bCount > aCount) bAhead = true;
+  });
+
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+}
+
+/**
+ * Pointwise max - the clock of a state that has seen both a and b
+ */
+export function mergeVectorClocks(a: VectorClock, b: VectorClock): VectorClock {
+  const merged: VectorClock = { ...a };
+  Object.entries(b).forEach(([device, count]) => {
+    merged[device] = Math.max(merged[device] || 0, count);
+  });
+  return merged;
+}